@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/components/AuthWrapper";
 import { CRMDashboard } from "@/pages/CRMDashboard";
 import { LeadDetail } from "@/pages/LeadDetail";
+import { CompanyDetail } from "@/pages/CompanyDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,6 +22,7 @@ const App = () => (
             <Route path="/" element={<CRMDashboard />} />
             <Route path="/crm" element={<CRMDashboard />} />
             <Route path="/lead/:leadId" element={<LeadDetail />} />
+            <Route path="/company/:companyId" element={<CompanyDetail />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
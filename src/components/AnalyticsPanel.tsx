@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { 
   TrendingUp, 
@@ -9,25 +9,61 @@ import {
   Filter,
   Download
 } from 'lucide-react';
-import { Lead, Sale } from '@/types/crm';
+import { Lead, PipelineStage } from '@/types/crm';
 import { useAuth } from './AuthWrapper';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useSales } from '@/hooks/useSales';
+import { WinLossReport } from './WinLossReport';
+import { StageTimeReport } from './StageTimeReport';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePipelines } from '@/hooks/usePipelines';
+import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 export const AnalyticsPanel: React.FC = () => {
   const { user } = useAuth();
-  const [leads] = useLocalStorage<Lead[]>(`leads-${user?.id}`, []);
-  const [sales] = useLocalStorage<Sale[]>(`sales-${user?.id}`, []);
+  const { pipelines } = usePipelines();
+  const [pipelineFilter, setPipelineFilter] = useState<string>('all');
+  const { stages } = usePipelineStages(pipelineFilter === 'all' ? null : pipelineFilter);
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const { sales } = useSales();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchLeads = async () => {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*');
+
+      if (error) {
+        console.error('Error fetching leads:', error);
+        return;
+      }
+
+      setLeads(data as Lead[] || []);
+    };
+
+    fetchLeads();
+  }, [user]);
 
   const filteredLeads = leads.filter(lead => 
-    user?.role === 'master' || lead.assigned_to === user?.user_id
+    (user?.role === 'master' || lead.assigned_to === user?.user_id) &&
+    (pipelineFilter === 'all' || lead.pipeline_id === pipelineFilter)
   );
 
   const filteredSales = sales.filter(sale => 
     user?.role === 'master' || sale.userId === user?.id
   );
 
+  const showPipelineName = pipelineFilter === 'all' && pipelines.length > 1;
+  const getStageLabel = useCallback((stage: PipelineStage) => (
+    showPipelineName
+      ? `${pipelines.find(p => p.id === stage.pipeline_id)?.name} · ${stage.name}`
+      : stage.name
+  ), [showPipelineName, pipelines]);
+
   // Analytics calculations
   const analytics = useMemo(() => {
     const totalLeads = filteredLeads.length;
@@ -36,20 +72,20 @@ export const AnalyticsPanel: React.FC = () => {
     const conversionRate = totalLeads > 0 ? (totalSales / totalLeads) * 100 : 0;
     const avgTicket = totalSales > 0 ? totalRevenue / totalSales : 0;
 
-    // Leads by status
+    // Leads by status (a chave da etapa só é única dentro do pipeline)
     const leadsByStatus = filteredLeads.reduce((acc, lead) => {
-      acc[lead.status] = (acc[lead.status] || 0) + 1;
+      const stageId = `${lead.pipeline_id}:${lead.status}`;
+      acc[stageId] = (acc[stageId] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
-    const statusData = [
-      { name: 'Novos', value: leadsByStatus.new || 0, color: '#3B82F6' },
-      { name: 'Contatados', value: leadsByStatus.contacted || 0, color: '#EAB308' },
-      { name: 'Qualificados', value: leadsByStatus.qualified || 0, color: '#8B5CF6' },
-      { name: 'Proposta', value: leadsByStatus.proposal || 0, color: '#F97316' },
-      { name: 'Ganho', value: leadsByStatus.won || 0, color: '#22C55E' },
-      { name: 'Perdido', value: leadsByStatus.lost || 0, color: '#EF4444' },
-    ].filter(item => item.value > 0);
+    const statusData = stages
+      .map(stage => ({
+        name: getStageLabel(stage),
+        value: leadsByStatus[`${stage.pipeline_id}:${stage.key}`] || 0,
+        color: stage.color,
+      }))
+      .filter(item => item.value > 0);
 
     // Sales by month (last 6 months)
     const last6Months = Array.from({ length: 6 }, (_, i) => {
@@ -93,7 +129,7 @@ export const AnalyticsPanel: React.FC = () => {
       salesByMonth,
       topProducts
     };
-  }, [filteredLeads, filteredSales]);
+  }, [filteredLeads, filteredSales, stages, getStageLabel]);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -116,6 +152,21 @@ export const AnalyticsPanel: React.FC = () => {
         </div>
         
         <div className="flex space-x-2">
+          {pipelines.length > 1 && (
+            <Select value={pipelineFilter} onValueChange={setPipelineFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os pipelines</SelectItem>
+                {pipelines.map((pipeline) => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>
+                    {pipeline.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button variant="outline" className="hover:bg-muted">
             <Filter className="w-4 h-4 mr-2" />
             Filtros
@@ -255,6 +306,16 @@ export const AnalyticsPanel: React.FC = () => {
         </Card>
       </div>
 
+      {/* Win/Loss */}
+      <WinLossReport leads={filteredLeads} />
+
+      {/* Time in stage */}
+      <StageTimeReport
+        pipelineId={pipelineFilter === 'all' ? null : pipelineFilter}
+        stages={stages}
+        getStageLabel={getStageLabel}
+      />
+
       {/* Revenue Summary - Simplificado */}
       <Card>
         <CardHeader>
@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AssignmentConditions,
+  AssignmentRule,
+  AssignmentRuleMember,
+  AssignmentStrategy,
+  CustomFieldDefinition,
+  CustomFieldFilter
+} from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { useToast } from '@/hooks/use-toast';
+import { assignmentStrategies, assignmentStrategyLabels, cleanAssignmentConditions } from '@/lib/assignment';
+import { AssignmentRuleInput } from '@/services/assignmentService';
+
+interface AssignmentRuleDialogProps {
+  open: boolean;
+  rule: AssignmentRule | null; // null = nova regra
+  onOpenChange: (open: boolean) => void;
+  onSave: (rule: AssignmentRuleInput, members: AssignmentRuleMember[]) => Promise<boolean>; // true fecha o diálogo
+}
+
+const splitList = (text: string) =>
+  Array.from(new Set(text.split(/[,;]/).map(item => item.trim()).filter(Boolean)));
+
+const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Condições (todas precisam valer) e quem recebe os leads que casam com a regra
+export const AssignmentRuleDialog: React.FC<AssignmentRuleDialogProps> = ({ open, rule, onOpenChange, onSave }) => {
+  const { allAssignableUsers } = useAuth();
+  const { fields: customFields } = useCustomFields();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [sources, setSources] = useState('');
+  const [tags, setTags] = useState('');
+  const [valueMin, setValueMin] = useState('');
+  const [valueMax, setValueMax] = useState('');
+  const [customFilters, setCustomFilters] = useState<Record<string, CustomFieldFilter>>({});
+  const [strategy, setStrategy] = useState<AssignmentStrategy>('round_robin');
+  const [members, setMembers] = useState<AssignmentRuleMember[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const conditions = rule?.conditions || {};
+    setName(rule?.name || '');
+    setSources((conditions.sources || []).join(', '));
+    setTags((conditions.tags || []).join(', '));
+    setValueMin(conditions.valueMin?.toString() ?? '');
+    setValueMax(conditions.valueMax?.toString() ?? '');
+    setCustomFilters(conditions.customFields || {});
+    setStrategy(rule?.strategy || 'round_robin');
+    setMembers(rule?.members || []);
+  }, [open, rule]);
+
+  const setCustomFilter = (key: string, patch: CustomFieldFilter) => {
+    setCustomFilters(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  };
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setMembers(prev => checked
+      ? [...prev, { user_id: userId, weight: 1 }]
+      : prev.filter(member => member.user_id !== userId));
+  };
+
+  const setWeight = (userId: string, weight: number) => {
+    setMembers(prev => prev.map(member => member.user_id === userId ? { ...member, weight } : member));
+  };
+
+  const handleStrategyChange = (value: AssignmentStrategy) => {
+    setStrategy(value);
+    // Usuário fixo recebe sozinho: mantém só o primeiro escolhido
+    if (value === 'user') setMembers(prev => prev.slice(0, 1));
+  };
+
+  const save = async () => {
+    if (!name.trim() || members.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Informe o nome da regra e quem recebe os leads",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const conditions: AssignmentConditions = cleanAssignmentConditions({
+      sources: splitList(sources),
+      tags: splitList(tags),
+      valueMin: parseNumber(valueMin),
+      valueMax: parseNumber(valueMax),
+      customFields: customFilters,
+    });
+
+    setSaving(true);
+    const saved = await onSave({ name: name.trim(), conditions, strategy }, members);
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  // Mesmos controles do filtro do quadro, conforme o tipo do campo
+  const renderCustomFilter = (field: CustomFieldDefinition) => {
+    const condition = customFilters[field.key] || {};
+
+    switch (field.type) {
+      case 'number':
+      case 'date':
+        return (
+          <div className="flex items-center space-x-2">
+            <Input
+              type={field.type}
+              value={condition.min || ''}
+              onChange={(e) => setCustomFilter(field.key, { min: e.target.value || undefined })}
+              placeholder="Mín."
+              className="h-8"
+            />
+            <Input
+              type={field.type}
+              value={condition.max || ''}
+              onChange={(e) => setCustomFilter(field.key, { max: e.target.value || undefined })}
+              placeholder="Máx."
+              className="h-8"
+            />
+          </div>
+        );
+      case 'boolean':
+      case 'select':
+      case 'multi_select': {
+        const options = field.type === 'boolean'
+          ? [{ value: 'true', label: 'Sim' }, { value: 'false', label: 'Não' }]
+          : field.options.map(option => ({ value: option, label: option }));
+        const selected = condition.values || [];
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {options.map((option) => (
+              <label key={option.value} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) => setCustomFilter(field.key, {
+                    values: checked === true
+                      ? [...selected, option.value]
+                      : selected.filter(value => value !== option.value),
+                  })}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            value={condition.text || ''}
+            onChange={(e) => setCustomFilter(field.key, { text: e.target.value || undefined })}
+            placeholder="Contém..."
+            className="h-8"
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !saving && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Editar regra de distribuição' : 'Nova regra de distribuição'}</DialogTitle>
+          <DialogDescription>
+            O lead precisa atender a todas as condições preenchidas. Sem condições, a regra vale para qualquer lead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="assignment-rule-name">Nome</Label>
+            <Input
+              id="assignment-rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Leads do site acima de R$ 10 mil"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label className="font-semibold">Condições</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Fontes (separadas por vírgula)</Label>
+                <Input value={sources} onChange={(e) => setSources(e.target.value)} placeholder="Site, Facebook" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Tem alguma das tags</Label>
+                <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="vip, premium" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Valor mínimo</Label>
+                <Input type="number" value={valueMin} onChange={(e) => setValueMin(e.target.value)} placeholder="0" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Valor máximo</Label>
+                <Input type="number" value={valueMax} onChange={(e) => setValueMax(e.target.value)} placeholder="Sem limite" />
+              </div>
+            </div>
+            {customFields.map((field) => (
+              <div key={field.id} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{field.label}</Label>
+                {renderCustomFilter(field)}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label className="font-semibold">Distribuição</Label>
+            <Select value={strategy} onValueChange={(value) => handleStrategyChange(value as AssignmentStrategy)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assignmentStrategies.map((option) => (
+                  <SelectItem key={option} value={option}>{assignmentStrategyLabels[option].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{assignmentStrategyLabels[strategy].description}</p>
+
+            {strategy === 'user' ? (
+              <Select
+                value={members[0]?.user_id || ''}
+                onValueChange={(userId) => setMembers([{ user_id: userId, weight: 1 }])}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Escolha quem recebe" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allAssignableUsers.map((u) => (
+                    <SelectItem key={u.user_id} value={u.user_id}>
+                      {u.name}{u.is_active === false ? ' (inativo)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="space-y-2">
+                {allAssignableUsers.map((u) => {
+                  const member = members.find(m => m.user_id === u.user_id);
+                  return (
+                    <div key={u.user_id} className="flex items-center justify-between">
+                      <label className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={!!member}
+                          onCheckedChange={(checked) => toggleMember(u.user_id, checked === true)}
+                        />
+                        <span>{u.name}</span>
+                        {u.is_active === false && <span className="text-xs text-muted-foreground">(inativo)</span>}
+                      </label>
+                      {strategy === 'weighted' && member && (
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={member.weight}
+                            onChange={(e) => setWeight(u.user_id, Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+                            className="w-20 h-8"
+                          />
+                          <span className="text-xs text-muted-foreground">peso</span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Membros inativos são pulados; se ninguém da regra estiver ativo, vale a próxima regra.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button onClick={save} disabled={saving} className="bg-gradient-to-r from-primary to-primary-dark">
+            Salvar regra
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
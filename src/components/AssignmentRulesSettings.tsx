@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ArrowDown, ArrowUp, Pencil, Plus, Shuffle, Trash2 } from 'lucide-react';
+import { AssignmentRule, AssignmentRuleMember } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { useAssignmentRules } from '@/hooks/useAssignmentRules';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { AssignmentService, AssignmentRuleInput } from '@/services/assignmentService';
+import { assignmentStrategyLabels, describeAssignmentConditions } from '@/lib/assignment';
+import { AssignmentRuleDialog } from './AssignmentRuleDialog';
+
+export const AssignmentRulesSettings: React.FC = () => {
+  const { accountId, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const { rules, refetch } = useAssignmentRules();
+  const { fields: customFields } = useCustomFields();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null);
+
+  const runRuleAction = async (action: () => Promise<void>, successTitle: string) => {
+    try {
+      await action();
+      await refetch();
+      toast({
+        title: successTitle,
+        description: "Vale para os próximos leads sem responsável definido",
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar regra",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const openDialog = (rule: AssignmentRule | null) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const saveRule = (input: AssignmentRuleInput, members: AssignmentRuleMember[]) => {
+    if (!accountId) return Promise.resolve(false);
+
+    if (editingRule) {
+      return runRuleAction(async () => {
+        await AssignmentService.updateRule(editingRule.id, input);
+        await AssignmentService.saveMembers(editingRule.id, members);
+      }, "Regra atualizada");
+    }
+    return runRuleAction(
+      () => AssignmentService.createRule(accountId, input, members, rules.length),
+      "Regra adicionada"
+    );
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const ordered = [...rules];
+    [ordered[index], ordered[index + direction]] = [ordered[index + direction], ordered[index]];
+    runRuleAction(() => AssignmentService.reorderRules(ordered), "Ordem atualizada");
+  };
+
+  const getUserName = (userId: string) =>
+    allAssignableUsers.find(u => u.user_id === userId)?.name || 'Usuário removido';
+
+  const describeMembers = (rule: AssignmentRule) =>
+    rule.members
+      .map(member => rule.strategy === 'weighted'
+        ? `${getUserName(member.user_id)} (${member.weight})`
+        : getUserName(member.user_id))
+      .join(', ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Shuffle className="w-5 h-5 text-primary" />
+            <span>Distribuição de Leads</span>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)} className="bg-gradient-to-r from-primary to-primary-dark">
+            <Plus className="w-4 h-4 mr-2" />
+            Nova Regra
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Leads recebidos por webhook, importados ou criados com responsável "Automático" passam pelas regras em ordem.
+            A primeira que o lead atende, com alguém ativo para receber, define o responsável.
+            Sem regra aplicável, o lead fica com quem o criou (no webhook, o administrador).
+          </p>
+
+          <div className="grid gap-3">
+            {rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhuma regra cadastrada.</p>
+            )}
+            {rules.map((rule, index) => (
+              <div key={rule.id} className="flex items-center space-x-3 p-3 border border-card-border rounded-lg">
+                <Switch
+                  checked={rule.is_active}
+                  onCheckedChange={(checked) => runRuleAction(
+                    () => AssignmentService.updateRule(rule.id, { is_active: checked }),
+                    checked ? "Regra ativada" : "Regra desativada"
+                  )}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-sm font-medium ${rule.is_active ? 'text-card-foreground' : 'text-muted-foreground line-through'}`}>
+                      {index + 1}. {rule.name}
+                    </span>
+                    <Badge variant="secondary">{assignmentStrategyLabels[rule.strategy].label}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {describeAssignmentConditions(rule.conditions, customFields)} → {describeMembers(rule) || 'ninguém'}
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => openDialog(rule)}>
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => runRuleAction(() => AssignmentService.deleteRule(rule.id), "Regra removida")}
+                  className="text-destructive hover:bg-destructive-light"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+
+      <AssignmentRuleDialog
+        open={dialogOpen}
+        rule={editingRule}
+        onOpenChange={setDialogOpen}
+        onSave={saveRule}
+      />
+    </Card>
+  );
+};
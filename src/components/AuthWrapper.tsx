@@ -10,6 +10,7 @@ import { useUserManagement } from '@/hooks/useUserManagement';
 interface AuthContextType {
   user: AuthUser | null;
   session: Session | null;
+  accountId: string | null;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   register: (name: string, email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
@@ -17,6 +18,7 @@ interface AuthContextType {
   allAssignableUsers: AuthUser[];
   userStats: { totalUsers: number; activeUsers: number; administrators: number };
   addSubUser: (name: string, email: string, password: string) => Promise<boolean>;
+  refreshUsers: () => Promise<void>;
   getMasterUsers: () => AuthUser[];
   loading: boolean;
   userManagementLoading: boolean;
@@ -112,7 +114,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Fetch team users when user changes
   useEffect(() => {
-    if (user && user.role === 'master') {
+    if (user) {
       userManagement.fetchTeamUsers();
     }
   }, [user?.id, userManagement.fetchTeamUsers]);
@@ -214,6 +216,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       value={{
         user,
         session,
+        accountId: user.master_account_id || user.user_id,
         login,
         register,
         logout,
@@ -221,6 +224,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         allAssignableUsers: userManagement.allAssignableUsers,
         userStats: userManagement.userStats,
         addSubUser,
+        refreshUsers: userManagement.fetchTeamUsers,
         getMasterUsers,
         loading,
         userManagementLoading: userManagement.loading,
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle2, Undo2 } from 'lucide-react';
+
+export interface BulkActionReport {
+  title: string;
+  succeeded: number;
+  skipped: number;
+  failures: { name: string; error: string }[];
+  onUndo?: () => void; // desfaz o que foi gravado
+}
+
+interface BulkActionReportDialogProps {
+  report: BulkActionReport | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Resultado de uma ação em lote com falhas: o que foi gravado e o motivo de cada lead recusado
+export const BulkActionReportDialog: React.FC<BulkActionReportDialogProps> = ({ report, onOpenChange }) => (
+  <Dialog open={!!report} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-[560px]">
+      <DialogHeader>
+        <DialogTitle>{report?.title}</DialogTitle>
+        <DialogDescription>
+          {report?.succeeded || 0} lead(s) atualizado(s)
+          {report?.skipped ? `, ${report.skipped} pulado(s)` : ''}
+          {` e ${report?.failures.length || 0} com falha.`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="flex items-center space-x-2 text-sm text-success">
+        <CheckCircle2 className="w-4 h-4" />
+        <span>As alterações bem-sucedidas já foram salvas.</span>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto border border-card-border rounded-lg divide-y divide-card-border">
+        {report?.failures.map((failure, index) => (
+          <div key={index} className="flex items-start space-x-2 p-3 text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+            <div>
+              <p className="font-medium">{failure.name}</p>
+              <p className="text-muted-foreground">{failure.error}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <DialogFooter>
+        {report?.onUndo && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              report.onUndo?.();
+              onOpenChange(false);
+            }}
+          >
+            <Undo2 className="w-4 h-4 mr-2" />
+            Desfazer alterações salvas
+          </Button>
+        )}
+        <Button onClick={() => onOpenChange(false)}>Fechar</Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
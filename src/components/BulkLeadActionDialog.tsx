@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Lead } from '@/types/crm';
+
+export type BulkLeadAction = 'add_tags' | 'remove_tags' | 'source' | 'delete';
+
+export interface BulkLeadActionInput {
+  tags?: string[];
+  source?: string;
+}
+
+interface BulkLeadActionDialogProps {
+  action: BulkLeadAction | null;
+  leads: Lead[]; // leads selecionados
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (action: BulkLeadAction, input: BulkLeadActionInput) => void;
+}
+
+const titles: Record<BulkLeadAction, string> = {
+  add_tags: 'Adicionar tags',
+  remove_tags: 'Remover tags',
+  source: 'Alterar fonte',
+  delete: 'Excluir leads',
+};
+
+// Coleta o dado da ação em lote; a execução e o progresso ficam com a lista
+export const BulkLeadActionDialog: React.FC<BulkLeadActionDialogProps> = ({ action, leads, onOpenChange, onConfirm }) => {
+  const [tagInput, setTagInput] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+  const [source, setSource] = useState('');
+
+  useEffect(() => {
+    if (!action) return;
+    setTagInput('');
+    setTagsToRemove([]);
+    setSource('');
+  }, [action]);
+
+  // Só as tags que algum dos leads selecionados tem podem ser removidas
+  const selectedTags = useMemo(
+    () => Array.from(new Set(leads.flatMap(lead => lead.tags || []))).sort((a, b) => a.localeCompare(b, 'pt-BR')),
+    [leads]
+  );
+
+  const tagsToAdd = tagInput.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  const canConfirm =
+    action === 'add_tags' ? tagsToAdd.length > 0 :
+    action === 'remove_tags' ? tagsToRemove.length > 0 :
+    action === 'source' ? !!source.trim() :
+    action === 'delete';
+
+  const handleConfirm = () => {
+    if (!action || !canConfirm) return;
+    onConfirm(action, {
+      tags: action === 'add_tags' ? tagsToAdd : action === 'remove_tags' ? tagsToRemove : undefined,
+      source: action === 'source' ? source.trim() : undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!action} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{action ? titles[action] : ''}</DialogTitle>
+          <DialogDescription>
+            {action === 'delete'
+              ? `${leads.length} lead(s) irão para a lixeira, de onde o administrador pode restaurá-los até o fim do prazo de retenção.`
+              : `A alteração será aplicada a ${leads.length} lead(s) selecionado(s).`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {action === 'add_tags' && (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-tags">Tags</Label>
+            <Input
+              id="bulk-tags"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+              placeholder="Separe as tags por vírgula"
+              autoFocus
+            />
+          </div>
+        )}
+
+        {action === 'remove_tags' && (
+          <div className="space-y-2">
+            {selectedTags.length === 0 && (
+              <p className="text-sm text-muted-foreground">Os leads selecionados não têm tags.</p>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              {selectedTags.map((tag) => (
+                <label key={tag} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={tagsToRemove.includes(tag)}
+                    onCheckedChange={(checked) => setTagsToRemove(prev =>
+                      checked === true ? [...prev, tag] : prev.filter(t => t !== tag)
+                    )}
+                  />
+                  <span className="truncate">{tag}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {action === 'source' && (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-source">Nova fonte</Label>
+            <Input
+              id="bulk-source"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+              placeholder="Ex.: Indicação"
+              autoFocus
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            variant={action === 'delete' ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+          >
+            {action === 'delete' ? 'Excluir' : 'Aplicar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -10,12 +10,16 @@ import {
   Menu,
   X,
   Plus,
-  Crown
+  Crown,
+  ListChecks,
+  CalendarDays,
+  Building2
 } from 'lucide-react';
 import { useAuth } from '@/components/AuthWrapper';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import { NotificationBell } from './NotificationBell';
 
 interface CRMLayoutProps {
   children: React.ReactNode;
@@ -33,6 +37,9 @@ export const CRMLayout: React.FC<CRMLayoutProps> = ({
 
   const navigation = [
     { id: 'dashboard', name: 'Dashboard', icon: Kanban },
+    { id: 'tasks', name: 'Minhas Tarefas', icon: ListChecks },
+    { id: 'calendar', name: 'Agenda', icon: CalendarDays },
+    { id: 'companies', name: 'Empresas', icon: Building2 },
     { id: 'sales', name: 'Vendas Concluídas', icon: CheckCircle },
     { id: 'webhooks', name: 'Webhooks', icon: Webhook },
     { id: 'analytics', name: 'Analytics', icon: BarChart3 },
@@ -150,6 +157,7 @@ export const CRMLayout: React.FC<CRMLayoutProps> = ({
             </div>
             
             <div className="flex items-center space-x-3">
+              <NotificationBell />
               <div className="text-sm text-muted-foreground">
                 Usuário ativo: <span className="font-semibold text-card-foreground">{user?.name}</span>
               </div>
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format, isSameDay, isSameMonth, isToday } from 'date-fns';
+import { CalendarCheck } from 'lucide-react';
+import { CalendarItem, CalendarViewMode, calendarLocale } from '@/lib/calendar';
+import { taskTypeIcons } from '@/lib/tasks';
+
+interface CalendarGridProps {
+  view: CalendarViewMode;
+  date: Date;
+  days: Date[];
+  items: CalendarItem[];
+  canDrag: (item: CalendarItem) => boolean;
+  onItemClick: (item: CalendarItem) => void;
+  onItemDrop: (item: CalendarItem, day: Date, hour?: number) => void;
+  onDayClick: (day: Date) => void;
+}
+
+interface CalendarEventProps {
+  item: CalendarItem;
+  compact?: boolean;
+  draggable: boolean;
+  onClick: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const HOUR_HEIGHT = 56;
+const DRAG_DATA_TYPE = 'application/x-calendar-item';
+const MONTH_VISIBLE_ITEMS = 3;
+
+const itemKey = (item: CalendarItem) => `${item.kind}:${item.id}`;
+
+const CalendarEvent: React.FC<CalendarEventProps> = ({ item, compact, draggable, onClick }) => {
+  const Icon = item.taskType ? taskTypeIcons[item.taskType] : CalendarCheck;
+  const colors = item.kind === 'appointment'
+    ? 'bg-green-100 text-green-800 border-green-200'
+    : 'bg-primary/10 text-primary border-primary/20';
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_DATA_TYPE, itemKey(item));
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      title={[item.title, item.subtitle].filter(Boolean).join(' · ')}
+      className={`flex items-center space-x-1 px-1.5 py-0.5 rounded border text-xs font-medium truncate
+        ${colors} ${item.completed ? 'opacity-50 line-through' : ''}
+        ${draggable ? 'cursor-move' : 'cursor-pointer'} hover:shadow-sm`}
+    >
+      <Icon className="w-3 h-3 shrink-0" />
+      {!item.allDay && <span className="shrink-0">{format(item.start, 'HH:mm')}</span>}
+      <span className="truncate">{item.title}</span>
+      {!compact && item.subtitle && <span className="truncate opacity-70">· {item.subtitle}</span>}
+    </div>
+  );
+};
+
+// Grade do mês, ou colunas de horas para semana/dia; soltar um item em outra célula reagenda
+export const CalendarGrid: React.FC<CalendarGridProps> = ({
+  view,
+  date,
+  days,
+  items,
+  canDrag,
+  onItemClick,
+  onItemDrop,
+  onDayClick
+}) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  // Semana/dia abrem no horário comercial em vez da madrugada
+  useEffect(() => {
+    if (view !== 'month' && scrollRef.current) {
+      scrollRef.current.scrollTop = HOUR_HEIGHT * 8;
+    }
+  }, [view]);
+
+  const dropHandlers = (targetKey: string, day: Date, hour?: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_DATA_TYPE)) return;
+      e.preventDefault();
+      setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget(current => (current === targetKey ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const key = e.dataTransfer.getData(DRAG_DATA_TYPE);
+      const item = items.find(i => itemKey(i) === key);
+      if (item) onItemDrop(item, day, hour);
+    },
+  });
+
+  const itemsOfDay = (day: Date) => items.filter(item => isSameDay(item.start, day));
+
+  const renderEvent = (item: CalendarItem, compact?: boolean) => (
+    <CalendarEvent
+      key={itemKey(item)}
+      item={item}
+      compact={compact}
+      draggable={canDrag(item)}
+      onClick={() => onItemClick(item)}
+    />
+  );
+
+  if (view === 'month') {
+    return (
+      <div className="border border-card-border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-7 bg-muted/50">
+          {days.slice(0, 7).map(day => (
+            <div key={day.toISOString()} className="px-2 py-1.5 text-xs font-semibold text-muted-foreground capitalize">
+              {format(day, 'EEE', { locale: calendarLocale })}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const targetKey = day.toISOString();
+            const dayItems = itemsOfDay(day);
+            return (
+              <div
+                key={targetKey}
+                {...dropHandlers(targetKey, day)}
+                onClick={() => onDayClick(day)}
+                className={`min-h-[110px] border-t border-l border-card-border p-1.5 space-y-1 cursor-pointer transition-colors
+                  ${isSameMonth(day, date) ? 'bg-card' : 'bg-muted/30 text-muted-foreground'}
+                  ${dropTarget === targetKey ? 'bg-primary/10 ring-2 ring-inset ring-primary/40' : 'hover:bg-muted/40'}`}
+              >
+                <div className={`text-xs font-semibold w-6 h-6 flex items-center justify-center rounded-full
+                  ${isToday(day) ? 'bg-primary text-primary-foreground' : ''}`}>
+                  {format(day, 'd')}
+                </div>
+                {dayItems.slice(0, MONTH_VISIBLE_ITEMS).map(item => renderEvent(item, true))}
+                {dayItems.length > MONTH_VISIBLE_ITEMS && (
+                  <p className="text-xs text-muted-foreground px-1">
+                    +{dayItems.length - MONTH_VISIBLE_ITEMS} mais
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-card-border rounded-lg overflow-hidden">
+      {/* Cabeçalho dos dias e itens de dia inteiro */}
+      <div className="grid bg-muted/50" style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}>
+        <div />
+        {days.map(day => (
+          <button
+            key={day.toISOString()}
+            onClick={() => onDayClick(day)}
+            className={`px-2 py-1.5 text-xs font-semibold text-left capitalize ${isToday(day) ? 'text-primary' : 'text-muted-foreground'}`}
+          >
+            {format(day, 'EEE d/MM', { locale: calendarLocale })}
+          </button>
+        ))}
+        <div className="px-2 py-1 text-[10px] text-muted-foreground border-t border-card-border">Dia todo</div>
+        {days.map(day => {
+          const targetKey = `all-day-${day.toISOString()}`;
+          return (
+            <div
+              key={targetKey}
+              {...dropHandlers(targetKey, day)}
+              className={`min-h-[32px] p-1 space-y-1 border-t border-l border-card-border
+                ${dropTarget === targetKey ? 'bg-primary/10' : ''}`}
+            >
+              {itemsOfDay(day).filter(item => item.allDay).map(item => renderEvent(item))}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Faixas de hora */}
+      <div ref={scrollRef} className="h-[calc(100vh-22rem)] min-h-[400px] overflow-y-auto">
+        <div className="grid" style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}>
+          {HOURS.map(hour => (
+            <React.Fragment key={hour}>
+              <div className="text-[10px] text-muted-foreground text-right pr-2 border-t border-card-border" style={{ height: HOUR_HEIGHT }}>
+                {String(hour).padStart(2, '0')}:00
+              </div>
+              {days.map(day => {
+                const targetKey = `${day.toISOString()}-${hour}`;
+                const slotItems = itemsOfDay(day).filter(item => !item.allDay && item.start.getHours() === hour);
+                return (
+                  <div
+                    key={targetKey}
+                    {...dropHandlers(targetKey, day, hour)}
+                    className={`p-0.5 space-y-0.5 overflow-y-auto border-t border-l border-card-border
+                      ${dropTarget === targetKey ? 'bg-primary/10' : ''}`}
+                    style={{ height: HOUR_HEIGHT }}
+                  >
+                    {slotItems.map(item => renderEvent(item, view === 'week'))}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
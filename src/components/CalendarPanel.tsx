@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { CalendarGrid } from './CalendarGrid';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { TaskService } from '@/services/taskService';
+import { SaleService } from '@/services/saleService';
+import {
+  CalendarItem,
+  CalendarViewMode,
+  calendarLocale,
+  calendarViewLabels,
+  formatCalendarTitle,
+  getCalendarDays,
+  getCalendarRange,
+  rescheduleTo,
+  saleToCalendarItem,
+  shiftCalendarDate,
+  taskToCalendarItem
+} from '@/lib/calendar';
+
+const TEAM = 'all';
+
+export const CalendarPanel: React.FC = () => {
+  const { user, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [view, setView] = useLocalStorage<CalendarViewMode>(`calendar-view-${user?.id}`, 'month');
+  const [date, setDate] = useState(() => new Date());
+  const [taskItems, setTaskItems] = useState<CalendarItem[]>([]);
+  const [appointmentItems, setAppointmentItems] = useState<CalendarItem[]>([]);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const isMaster = user?.role === 'master';
+  // Master vê a equipe inteira por padrão; demais usuários só a própria agenda
+  const [assignee, setAssignee] = useState<string>(isMaster ? TEAM : user?.user_id || '');
+  const assigneeFilter = isMaster ? (assignee === TEAM ? undefined : assignee) : user?.user_id;
+
+  const range = useMemo(() => getCalendarRange(view, date), [view, date]);
+  const days = useMemo(() => getCalendarDays(view, date), [view, date]);
+
+  const fetchItems = useCallback(async () => {
+    if (!user) return;
+    const [tasks, appointments] = await Promise.all([
+      TaskService.getTasksInRange(range.start.toISOString(), range.end.toISOString(), assigneeFilter),
+      SaleService.getAppointmentsInRange(range.start.toISOString(), range.end.toISOString(), assigneeFilter),
+    ]);
+    setTaskItems(tasks.map(taskToCalendarItem));
+    setAppointmentItems(appointments.map(saleToCalendarItem));
+  }, [user, range, assigneeFilter]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const items = useMemo(
+    () => [...appointmentItems, ...taskItems].sort((a, b) => a.start.getTime() - b.start.getTime()),
+    [appointmentItems, taskItems]
+  );
+
+  const canDrag = (item: CalendarItem) => isMaster || item.assignedTo === user?.user_id;
+
+  const handleItemClick = (item: CalendarItem) => {
+    if (item.leadId) {
+      navigate(`/lead/${item.leadId}`);
+      return;
+    }
+    toast({
+      title: item.title,
+      description: "Este atendimento não está vinculado a um lead",
+    });
+  };
+
+  const handleItemDrop = async (item: CalendarItem, day: Date, hour?: number) => {
+    if (!canDrag(item)) return;
+
+    if (item.kind === 'appointment') {
+      const start = rescheduleTo(item.start, day, hour);
+      if (start.getTime() === item.start.getTime()) return;
+
+      setAppointmentItems(prev => prev.map(a => (a.id === item.id ? { ...a, start } : a)));
+      try {
+        await SaleService.updateAppointment(item.id, start.toISOString());
+        toast({
+          title: "Atendimento reagendado",
+          description: `${item.title} em ${start.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}`,
+        });
+      } catch (error) {
+        setAppointmentItems(prev => prev.map(a => (a.id === item.id ? { ...a, start: item.start } : a)));
+        toast({
+          title: "Erro",
+          description: (error as Error).message || "Erro inesperado ao reagendar atendimento",
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
+    const start = rescheduleTo(item.start, day, hour);
+    if (start.getTime() === item.start.getTime()) return;
+
+    // Otimista: move o item já e desfaz se o banco recusar
+    setTaskItems(prev => prev.map(t => (t.id === item.id ? { ...t, start } : t)));
+    try {
+      await TaskService.rescheduleTask(item.id, start.toISOString());
+      toast({
+        title: "Tarefa reagendada",
+        description: `${item.title} em ${start.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}`,
+      });
+    } catch (error) {
+      setTaskItems(prev => prev.map(t => (t.id === item.id ? { ...t, start: item.start } : t)));
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao reagendar tarefa",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDay = (day: Date) => {
+    setDate(day);
+    setView('day');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-card-foreground">Agenda</h2>
+          <p className="text-muted-foreground">Atendimentos e follow-ups de leads. Arraste um item para reagendar</p>
+        </div>
+        {isMaster && (
+          <Select value={assignee} onValueChange={setAssignee}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TEAM}>Toda a equipe</SelectItem>
+              {allAssignableUsers.map(assignableUser => (
+                <SelectItem key={assignableUser.user_id} value={assignableUser.user_id}>
+                  {assignableUser.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setDate(new Date())}>
+                Hoje
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setDate(shiftCalendarDate(view, date, -1))}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setDate(shiftCalendarDate(view, date, 1))}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" className="font-semibold text-lg capitalize">
+                    <CalendarDays className="w-4 h-4 mr-2" />
+                    {formatCalendarTitle(view, date)}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    locale={calendarLocale}
+                    selected={date}
+                    defaultMonth={date}
+                    onSelect={(selected) => {
+                      if (!selected) return;
+                      setDate(selected);
+                      setPickerOpen(false);
+                    }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <ToggleGroup
+              type="single"
+              value={view}
+              onValueChange={(value) => value && setView(value as CalendarViewMode)}
+            >
+              {(Object.keys(calendarViewLabels) as CalendarViewMode[]).map(mode => (
+                <ToggleGroupItem key={mode} value={mode} size="sm">
+                  {calendarViewLabels[mode]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <CalendarGrid
+            view={view}
+            date={date}
+            days={days}
+            items={items}
+            canDrag={canDrag}
+            onItemClick={handleItemClick}
+            onItemDrop={handleItemDrop}
+            onDayClick={openDay}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Building2, Globe, Plus, Search, Users } from 'lucide-react';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { useCompanies } from '@/hooks/useCompanies';
+import { CompanyInput, CompanyService } from '@/services/companyService';
+import { companySizeLabels, formatCnpj } from '@/lib/companies';
+import { CompanyDialog } from './CompanyDialog';
+
+export const CompaniesPanel: React.FC = () => {
+  const { accountId } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { companies, loading, refetch } = useCompanies();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const filteredCompanies = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const digits = term.replace(/\D/g, '');
+    if (!term) return companies;
+    return companies.filter(company =>
+      company.name.toLowerCase().includes(term)
+      || company.domain?.includes(term)
+      || company.segment?.toLowerCase().includes(term)
+      || (digits.length > 0 && company.cnpj?.includes(digits))
+    );
+  }, [companies, searchTerm]);
+
+  const createCompany = async (input: CompanyInput) => {
+    if (!accountId) return false;
+
+    try {
+      const company = await CompanyService.createCompany(accountId, input);
+      await refetch();
+      toast({
+        title: "Empresa cadastrada",
+        description: company.domain
+          ? `Leads com e-mail @${company.domain} foram vinculados a ${company.name}`
+          : company.name,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao cadastrar empresa",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-card-foreground">Empresas</h2>
+          <p className="text-muted-foreground">Contatos agrupados pela empresa em que trabalham</p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)} className="bg-gradient-to-r from-primary to-primary-dark">
+          <Plus className="w-4 h-4 mr-2" />
+          Nova Empresa
+        </Button>
+      </div>
+
+      {/* Search */}
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+        <Input
+          placeholder="Buscar por nome, domínio, segmento ou CNPJ..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {/* Companies List */}
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {!loading && filteredCompanies.length === 0 && (
+          <Card className="md:col-span-2 xl:col-span-3">
+            <CardContent className="p-12 text-center">
+              <Building2 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-card-foreground mb-2">Nenhuma empresa encontrada</h3>
+              <p className="text-muted-foreground">
+                {searchTerm
+                  ? 'Nenhuma empresa corresponde à sua busca'
+                  : 'Empresas são criadas ao cadastrar leads com e-mail corporativo e nome da empresa, ou manualmente'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+        {filteredCompanies.map((company) => (
+          <Card
+            key={company.id}
+            className="cursor-pointer hover:shadow-md transition-shadow"
+            onClick={() => navigate(`/company/${company.id}`)}
+          >
+            <CardContent className="p-5 space-y-3">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="w-10 h-10 bg-primary-muted rounded-lg flex items-center justify-center flex-shrink-0">
+                    <Building2 className="w-5 h-5 text-primary" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-card-foreground truncate">{company.name}</p>
+                    {company.cnpj && (
+                      <p className="text-xs text-muted-foreground">{formatCnpj(company.cnpj)}</p>
+                    )}
+                  </div>
+                </div>
+                {company.segment && <Badge variant="secondary">{company.segment}</Badge>}
+              </div>
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span className="flex items-center space-x-1">
+                  <Users className="w-4 h-4" />
+                  <span>{company.contactCount} {company.contactCount === 1 ? 'contato' : 'contatos'}</span>
+                </span>
+                {company.domain && (
+                  <span className="flex items-center space-x-1 truncate">
+                    <Globe className="w-4 h-4" />
+                    <span>{company.domain}</span>
+                  </span>
+                )}
+              </div>
+              {company.size && (
+                <p className="text-xs text-muted-foreground">{companySizeLabels[company.size]}</p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <CompanyDialog
+        open={dialogOpen}
+        company={null}
+        onOpenChange={setDialogOpen}
+        onSave={createCompany}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Company, CompanySize } from '@/types/crm';
+import { useToast } from '@/hooks/use-toast';
+import { companySizeLabels, companySizes, formatCnpj, isValidCnpj } from '@/lib/companies';
+import { CompanyInput } from '@/services/companyService';
+
+interface CompanyDialogProps {
+  open: boolean;
+  company: Company | null; // null = nova empresa
+  onOpenChange: (open: boolean) => void;
+  onSave: (company: CompanyInput) => Promise<boolean>; // true fecha o diálogo
+}
+
+const NO_SIZE = 'none';
+
+export const CompanyDialog: React.FC<CompanyDialogProps> = ({ open, company, onOpenChange, onSave }) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [domain, setDomain] = useState('');
+  const [cnpj, setCnpj] = useState('');
+  const [segment, setSegment] = useState('');
+  const [size, setSize] = useState<CompanySize | typeof NO_SIZE>(NO_SIZE);
+  const [address, setAddress] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(company?.name || '');
+    setDomain(company?.domain || '');
+    setCnpj(formatCnpj(company?.cnpj));
+    setSegment(company?.segment || '');
+    setSize(company?.size || NO_SIZE);
+    setAddress(company?.address || '');
+  }, [open, company]);
+
+  const save = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe o nome da empresa",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (cnpj.trim() && !isValidCnpj(cnpj)) {
+      toast({
+        title: "Erro",
+        description: "O CNPJ precisa ter 14 dígitos",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Domínio e CNPJ são normalizados no banco
+    setSaving(true);
+    const saved = await onSave({
+      name: name.trim(),
+      domain: domain.trim() || null,
+      cnpj: cnpj.trim() || null,
+      segment: segment.trim() || null,
+      size: size === NO_SIZE ? null : size,
+      address: address.trim() || null,
+    });
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !saving && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{company ? 'Editar empresa' : 'Nova empresa'}</DialogTitle>
+          <DialogDescription>
+            Leads com e-mail do domínio informado são vinculados automaticamente à empresa.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="company-name">Nome *</Label>
+            <Input
+              id="company-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Acme Ltda"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="company-domain">Domínio</Label>
+              <Input
+                id="company-domain"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                placeholder="acme.com.br"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-cnpj">CNPJ</Label>
+              <Input
+                id="company-cnpj"
+                value={cnpj}
+                onChange={(e) => setCnpj(e.target.value)}
+                placeholder="00.000.000/0000-00"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="company-segment">Segmento</Label>
+              <Input
+                id="company-segment"
+                value={segment}
+                onChange={(e) => setSegment(e.target.value)}
+                placeholder="Ex: Varejo"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Porte</Label>
+              <Select value={size} onValueChange={(value) => setSize(value as CompanySize | typeof NO_SIZE)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SIZE}>Não informado</SelectItem>
+                  {companySizes.map((option) => (
+                    <SelectItem key={option} value={option}>{companySizeLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="company-address">Endereço</Label>
+            <Textarea
+              id="company-address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="Rua, número, cidade - UF"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button onClick={save} disabled={saving} className="bg-gradient-to-r from-primary to-primary-dark">
+            Salvar empresa
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Plus, X } from 'lucide-react';
+import { Lead, Sale } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/usePipelines';
+import { SaleService } from '@/services/saleService';
+import { toAppointmentTimestamp } from '@/lib/calendar';
+
+interface ConvertLeadDialogProps {
+  lead: Lead | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConverted?: (sale: Sale) => void;
+}
+
+const emptyForm = {
+  customerName: '',
+  customerEmail: '',
+  customerPhone: '',
+  product: '',
+  value: '',
+  tags: [] as string[],
+  appointmentDate: '',
+  notes: '',
+};
+
+// Registra a venda de um lead ganho, já preenchida com os dados do lead
+export const ConvertLeadDialog: React.FC<ConvertLeadDialogProps> = ({
+  lead,
+  open,
+  onOpenChange,
+  onConverted
+}) => {
+  const { user, accountId } = useAuth();
+  const { toast } = useToast();
+  const { pipelines } = usePipelines();
+  const [formData, setFormData] = useState(emptyForm);
+  const [tagInput, setTagInput] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!lead || !open) return;
+    setFormData({
+      customerName: lead.name,
+      customerEmail: lead.email,
+      customerPhone: lead.phone,
+      // Lead não tem produto próprio; o pipeline costuma representar a linha de produto
+      product: pipelines.find(p => p.id === lead.pipeline_id)?.name || '',
+      value: lead.value ? String(lead.value) : '',
+      tags: lead.tags || [],
+      appointmentDate: '',
+      notes: '',
+    });
+    setTagInput('');
+  }, [lead, open, pipelines]);
+
+  const handleInputChange = (field: keyof typeof emptyForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    if (tag && !formData.tags.includes(tag)) {
+      setFormData(prev => ({ ...prev, tags: [...prev.tags, tag] }));
+    }
+    setTagInput('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lead || !user || !accountId) return;
+
+    const value = parseFloat(formData.value) || 0;
+    if (!formData.customerName || !formData.product || !value) {
+      toast({
+        title: "Erro",
+        description: "Preencha cliente, produto e valor da venda",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const sale = await SaleService.createSale(accountId, {
+        leadId: lead.id,
+        customerName: formData.customerName,
+        customerEmail: formData.customerEmail,
+        customerPhone: formData.customerPhone,
+        product: formData.product,
+        value,
+        tags: formData.tags,
+        appointmentDate: toAppointmentTimestamp(formData.appointmentDate),
+        // A venda fica com o responsável pelo lead; só o master registra em nome de outro usuário
+        userId: user.role === 'master' ? lead.assigned_to : user.user_id,
+        notes: formData.notes,
+      });
+
+      toast({
+        title: "Venda registrada!",
+        description: `${lead.name} foi convertido em venda`,
+      });
+      onConverted?.(sale);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao registrar venda",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Converter Lead em Venda</DialogTitle>
+          <DialogDescription>
+            O negócio foi ganho. Confira os dados abaixo para registrar a venda vinculada ao lead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-card-foreground">Nome do Cliente *</label>
+              <Input
+                value={formData.customerName}
+                onChange={(e) => handleInputChange('customerName', e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-card-foreground">Email</label>
+              <Input
+                type="email"
+                value={formData.customerEmail}
+                onChange={(e) => handleInputChange('customerEmail', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-card-foreground">Telefone</label>
+              <Input
+                value={formData.customerPhone}
+                onChange={(e) => handleInputChange('customerPhone', e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-card-foreground">Produto/Serviço *</label>
+              <Input
+                value={formData.product}
+                onChange={(e) => handleInputChange('product', e.target.value)}
+                placeholder="Nome do produto ou serviço"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-card-foreground">Valor da Venda *</label>
+              <Input
+                type="number"
+                step="0.01"
+                value={formData.value}
+                onChange={(e) => handleInputChange('value', e.target.value)}
+                placeholder="0,00"
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-card-foreground">Data de Atendimento</label>
+              <Input
+                type="datetime-local"
+                value={formData.appointmentDate}
+                onChange={(e) => handleInputChange('appointmentDate', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-card-foreground">Tags</label>
+            <div className="flex space-x-2">
+              <Input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addTag();
+                  }
+                }}
+                placeholder="Adicionar tag"
+              />
+              <Button type="button" variant="outline" size="sm" onClick={addTag}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {formData.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {formData.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                    {tag}
+                    <X
+                      className="w-3 h-3 cursor-pointer"
+                      onClick={() => setFormData(prev => ({ ...prev, tags: prev.tags.filter(t => t !== tag) }))}
+                    />
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-card-foreground">Observações</label>
+            <Textarea
+              value={formData.notes}
+              onChange={(e) => handleInputChange('notes', e.target.value)}
+              placeholder="Adicione observações sobre a venda..."
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Agora não
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-gradient-to-r from-success to-success text-success-foreground"
+            >
+              {isSubmitting ? 'Registrando...' : 'Registrar Venda'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
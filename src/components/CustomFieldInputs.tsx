@@ -0,0 +1,130 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomFieldDefinition, CustomFieldValue } from '@/types/crm';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: Record<string, CustomFieldValue>;
+  onChange: (values: Record<string, CustomFieldValue>) => void;
+}
+
+// Opção vazia do Select (Radix não aceita value="")
+const NO_OPTION = '__none__';
+
+// Campos personalizados da conta nos formulários de lead; valores vazios são removidos do objeto
+export const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ fields, values, onChange }) => {
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: CustomFieldValue | undefined) => {
+    const next = { ...values };
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const value = values[field.key];
+    const id = `custom-field-${field.key}`;
+
+    switch (field.type) {
+      case 'number':
+        return (
+          <Input
+            id={id}
+            type="number"
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+            className="border-input focus:ring-primary"
+          />
+        );
+      case 'date':
+        return (
+          <Input
+            id={id}
+            type="date"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className="border-input focus:ring-primary"
+          />
+        );
+      case 'boolean':
+        return (
+          <div className="flex items-center h-10">
+            <Switch
+              id={id}
+              checked={value === true}
+              onCheckedChange={(checked) => setValue(field.key, checked)}
+            />
+          </div>
+        );
+      case 'select':
+        return (
+          <Select
+            value={typeof value === 'string' ? value : NO_OPTION}
+            onValueChange={(option) => setValue(field.key, option === NO_OPTION ? undefined : option)}
+          >
+            <SelectTrigger id={id} className="border-input focus:ring-primary">
+              <SelectValue placeholder="Selecionar" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_OPTION}>—</SelectItem>
+              {field.options.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'multi_select': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-2 pt-1">
+            {field.options.map((option) => (
+              <label key={option} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => setValue(
+                    field.key,
+                    checked ? [...selected, option] : selected.filter(item => item !== option)
+                  )}
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            id={id}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className="border-input focus:ring-primary"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => (
+        <div
+          key={field.id}
+          className={`space-y-2 ${field.type === 'multi_select' ? 'col-span-2' : ''}`}
+        >
+          <Label htmlFor={`custom-field-${field.key}`} className="text-card-foreground font-medium">
+            {field.label}{field.is_required && ' *'}
+          </Label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListPlus, Plus, Trash2 } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldType } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { CustomFieldService } from '@/services/customFieldService';
+import {
+  customFieldHasOptions,
+  customFieldTypeLabels,
+  customFieldTypes,
+  toCustomFieldKey
+} from '@/lib/customFields';
+
+// Opções digitadas separadas por vírgula, sem repetições
+const parseOptions = (text: string) =>
+  Array.from(new Set(text.split(',').map(option => option.trim()).filter(Boolean)));
+
+export const CustomFieldsSettings: React.FC = () => {
+  const { accountId } = useAuth();
+  const { toast } = useToast();
+  const { fields, refetch } = useCustomFields();
+
+  const [newLabel, setNewLabel] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [newOptions, setNewOptions] = useState('');
+  const [newRequired, setNewRequired] = useState(false);
+
+  const runFieldAction = async (action: () => Promise<void>, successTitle: string) => {
+    try {
+      await action();
+      await refetch();
+      toast({
+        title: successTitle,
+        description: "Os formulários de lead já usam a nova configuração",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar campo",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addField = async () => {
+    const label = newLabel.trim();
+    const options = parseOptions(newOptions);
+
+    if (!accountId) return;
+    if (!label) {
+      toast({
+        title: "Erro",
+        description: "Informe o nome do campo",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (customFieldHasOptions(newType) && options.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Informe as opções separadas por vírgula",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runFieldAction(async () => {
+      await CustomFieldService.createField(accountId, toCustomFieldKey(label), {
+        label,
+        type: newType,
+        options: customFieldHasOptions(newType) ? options : [],
+        is_required: newRequired,
+      }, fields.length);
+      setNewLabel('');
+      setNewOptions('');
+      setNewRequired(false);
+    }, "Campo adicionado");
+  };
+
+  const updateOptions = (field: CustomFieldDefinition, text: string) => {
+    const options = parseOptions(text);
+    if (options.length === 0 || options.join(',') === field.options.join(',')) return;
+    runFieldAction(() => CustomFieldService.updateField(field.id, { options }), "Opções atualizadas");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ListPlus className="w-5 h-5 text-primary" />
+          <span>Campos Personalizados</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Campos extras nos leads da conta (ex.: CPF/CNPJ, cidade, faixa de orçamento). Aparecem nos formulários,
+            no detalhe do lead e nos filtros, e podem ser enviados no webhook em <code>customFields</code> usando a chave do campo.
+          </p>
+
+          <div className="grid gap-3">
+            {fields.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhum campo personalizado cadastrado.</p>
+            )}
+            {fields.map((field) => (
+              <div key={field.id} className="flex flex-wrap items-center gap-3 p-3 border border-card-border rounded-lg">
+                <div className="flex-1 min-w-[10rem]">
+                  <p className="text-sm font-medium text-card-foreground">{field.label}</p>
+                  <p className="text-xs text-muted-foreground font-mono">{field.key}</p>
+                </div>
+                <Badge variant="secondary">{customFieldTypeLabels[field.type]}</Badge>
+                {customFieldHasOptions(field.type) && (
+                  <Input
+                    key={`${field.id}-${field.options.join(',')}`}
+                    defaultValue={field.options.join(', ')}
+                    onBlur={(e) => updateOptions(field, e.target.value)}
+                    className="w-64 h-8"
+                  />
+                )}
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={field.is_required}
+                    onCheckedChange={(checked) => runFieldAction(
+                      () => CustomFieldService.updateField(field.id, { is_required: checked }),
+                      checked ? "Campo obrigatório" : "Campo opcional"
+                    )}
+                  />
+                  <span className="text-xs text-muted-foreground">Obrigatório</span>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => runFieldAction(() => CustomFieldService.deleteField(field.id), "Campo removido")}
+                  className="text-destructive hover:bg-destructive-light"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Add New Field */}
+          <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-card-border">
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="Nome do campo"
+              className="w-48"
+            />
+            <Select value={newType} onValueChange={(value) => setNewType(value as CustomFieldType)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {customFieldTypes.map((type) => (
+                  <SelectItem key={type} value={type}>{customFieldTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {customFieldHasOptions(newType) && (
+              <Input
+                value={newOptions}
+                onChange={(e) => setNewOptions(e.target.value)}
+                placeholder="Opções, separadas por vírgula"
+                className="w-64"
+              />
+            )}
+            <div className="flex items-center space-x-2 px-2">
+              <Switch checked={newRequired} onCheckedChange={setNewRequired} />
+              <span className="text-sm text-muted-foreground">Obrigatório</span>
+            </div>
+            <Button
+              onClick={addField}
+              className="bg-gradient-to-r from-primary to-primary-dark"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar Campo
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
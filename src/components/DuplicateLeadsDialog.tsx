@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Copy, GitMerge, CheckCircle2 } from 'lucide-react';
+import { DuplicatePair, Lead } from '@/types/crm';
+import { LeadService } from '@/services/leadService';
+import { usePermissions } from '@/hooks/usePermissions';
+import { duplicateReasonLabels } from '@/lib/duplicates';
+import { MergeLeadsDialog } from './MergeLeadsDialog';
+
+interface DuplicateLeadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged?: () => void;
+}
+
+export const DuplicateLeadsDialog: React.FC<DuplicateLeadsDialogProps> = ({
+  open,
+  onOpenChange,
+  onMerged
+}) => {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [mergePair, setMergePair] = useState<[Lead, Lead] | null>(null);
+  const { can } = usePermissions();
+  // Mesclar manda o duplicado para a lixeira
+  const canMerge = can('delete_leads');
+
+  const scan = async () => {
+    setLoading(true);
+    const found = await LeadService.findDuplicatePairs();
+    // Os leads dos pares são buscados à parte: o quadro só tem as páginas carregadas
+    const leadIds = Array.from(new Set(found.flatMap(pair => [pair.lead_id, pair.duplicate_id])));
+    setLeads(await LeadService.getLeadsByIds(leadIds));
+    setPairs(found);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (open) scan();
+  }, [open]);
+
+  const findLead = (leadId: string) => leads.find(lead => lead.id === leadId);
+
+  // Pares com algum lead que não pôde ser carregado (ex.: já mesclado) ficam de fora
+  const visiblePairs = pairs.filter(pair => findLead(pair.lead_id) && findLead(pair.duplicate_id));
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[640px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <Copy className="w-5 h-5" />
+              <span>Leads Duplicados</span>
+            </DialogTitle>
+            <DialogDescription>
+              Leads com mesmo e-mail, mesmo telefone ou nome e empresa parecidos.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : visiblePairs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <CheckCircle2 className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">Nenhum duplicado encontrado</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {visiblePairs.map((pair) => {
+                const lead = findLead(pair.lead_id)!;
+                const duplicate = findLead(pair.duplicate_id)!;
+                return (
+                  <div
+                    key={`${pair.lead_id}-${pair.duplicate_id}`}
+                    className="flex items-center justify-between p-3 border border-card-border rounded-lg"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-medium truncate">{lead.name} · {duplicate.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {lead.email} · {duplicate.email}
+                      </p>
+                      <Badge variant="secondary" className="text-xs">
+                        {duplicateReasonLabels[pair.match_reason]} ({Math.round(pair.score * 100)}%)
+                      </Badge>
+                    </div>
+                    {canMerge && (
+                      <Button size="sm" variant="outline" onClick={() => setMergePair([lead, duplicate])}>
+                        <GitMerge className="w-4 h-4 mr-2" />
+                        Mesclar
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <MergeLeadsDialog
+        leads={mergePair}
+        open={!!mergePair}
+        onOpenChange={(isOpen) => !isOpen && setMergePair(null)}
+        onMerged={() => {
+          scan();
+          onMerged?.();
+        }}
+      />
+    </>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,10 +7,26 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { X, Plus } from 'lucide-react';
-import { Lead } from '@/types/crm';
+import { CustomFieldValue, Lead, LeadLoss } from '@/types/crm';
 import { useAuth } from './AuthWrapper';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePipelines } from '@/hooks/usePipelines';
+import { usePermissions } from '@/hooks/usePermissions';
+import { mapStageToPipeline } from '@/lib/pipeline';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { useCompanies } from '@/hooks/useCompanies';
+import { getMissingRequiredFields } from '@/lib/customFields';
+import { CustomFieldInputs } from './CustomFieldInputs';
+import { ConvertLeadDialog } from './ConvertLeadDialog';
+import { LeadLossFields } from './LeadLossFields';
+import { StageRequirementsDialog } from './StageRequirementsDialog';
+import { SaleService } from '@/services/saleService';
+import { getMissingStageRequirements, hasMissingRequirements } from '@/lib/stageRequirements';
+
+// Valor do seletor de empresa para lead sem vínculo
+const NO_COMPANY = 'none';
 
 interface EditLeadModalProps {
   lead: Lead | null;
@@ -27,21 +43,51 @@ export const EditLeadModal: React.FC<EditLeadModalProps> = ({
 }) => {
   const { user, allAssignableUsers } = useAuth();
   const { toast } = useToast();
+  const { pipelines } = usePipelines();
+  const { fields: customFields } = useCustomFields();
+  const { companies } = useCompanies();
+  const { can, canMoveLead } = usePermissions();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
+  // Alterações já validadas aguardando os requisitos da nova etapa
+  const [pendingRequirements, setPendingRequirements] = useState<Partial<Lead> | null>(null);
+  const requirementsLead = useMemo(
+    () => (lead && pendingRequirements ? { ...lead, ...pendingRequirements } : null),
+    [lead, pendingRequirements]
+  );
   
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     phone: '',
     company: '',
+    companyId: NO_COMPANY,
     value: '',
     assignedTo: user?.user_id || '',
     notes: '',
     tags: [] as string[],
     source: '',
-    status: 'new' as Lead['status'],
+    status: '',
+    pipelineId: '',
+    customFields: {} as Record<string, CustomFieldValue>,
+    loss: {} as LeadLoss,
+    reopenJustification: '',
   });
   const [tagInput, setTagInput] = useState('');
+  const { stages, allStages } = usePipelineStages(formData.pipelineId);
+
+  const getKind = (key: string, pipelineId: string) =>
+    allStages.find(stage => stage.key === key && stage.pipeline_id === pipelineId)?.kind;
+  // Entrar numa etapa de perda pede motivo; sair dela pede justificativa
+  const enteringLost = !!lead &&
+    getKind(formData.status, formData.pipelineId) === 'lost' && getKind(lead.status, lead.pipeline_id) !== 'lost';
+  const reopening = !!lead &&
+    getKind(lead.status, lead.pipeline_id) === 'lost' && getKind(formData.status, formData.pipelineId) !== 'lost';
+  // Campos protegidos por permissão ficam bloqueados e não são enviados no update
+  const canMove = !!lead && canMoveLead(lead);
+  const canEditValue = can('edit_lead_values');
+  const canReassign = can('reassign_leads');
+  const targetStage = allStages.find(stage => stage.key === formData.status && stage.pipeline_id === formData.pipelineId);
 
   // Populate form when lead changes
   useEffect(() => {
@@ -51,12 +97,17 @@ export const EditLeadModal: React.FC<EditLeadModalProps> = ({
         email: lead.email || '',
         phone: lead.phone || '',
         company: lead.company || '',
+        companyId: lead.company_id || NO_COMPANY,
         value: lead.value?.toString() || '',
         assignedTo: lead.assigned_to || user?.user_id || '',
         notes: lead.notes || '',
         tags: lead.tags || [],
         source: lead.source || '',
-        status: lead.status || 'new',
+        status: lead.status,
+        pipelineId: lead.pipeline_id,
+        customFields: lead.custom_fields || {},
+        loss: {},
+        reopenJustification: '',
       });
     }
   }, [lead, user]);
@@ -73,6 +124,34 @@ export const EditLeadModal: React.FC<EditLeadModalProps> = ({
       return;
     }
 
+    const missingFields = getMissingRequiredFields(customFields, formData.customFields);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Erro",
+        description: `Preencha os campos obrigatórios: ${missingFields.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (enteringLost && !formData.loss.lost_reason?.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe o motivo da perda",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (reopening && !formData.reopenJustification.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe a justificativa para reabrir o lead",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!user) {
       toast({
         title: "Erro",
@@ -82,22 +161,45 @@ export const EditLeadModal: React.FC<EditLeadModalProps> = ({
       return;
     }
 
+    const updatedLead: Partial<Lead> = {
+      name: formData.name,
+      email: formData.email,
+      phone: formData.phone,
+      company: formData.company || null,
+      // Sem empresa escolhida, o banco vincula pelo domínio do e-mail quando ele muda
+      company_id: formData.companyId === NO_COMPANY ? null : formData.companyId,
+      ...(canEditValue ? { value: formData.value ? parseFloat(formData.value) : 0 } : {}),
+      ...(canMove ? { status: formData.status, pipeline_id: formData.pipelineId } : {}),
+      ...(canReassign ? { assigned_to: formData.assignedTo } : {}),
+      notes: formData.notes || '',
+      tags: formData.tags,
+      source: formData.source || 'Manual',
+      custom_fields: formData.customFields,
+      ...(enteringLost ? {
+        lost_reason: formData.loss.lost_reason?.trim(),
+        lost_competitor: formData.loss.lost_competitor || null,
+        lost_comment: formData.loss.lost_comment?.trim() || null,
+      } : {}),
+      ...(reopening ? { reopen_justification: formData.reopenJustification.trim() } : {}),
+    };
+
+    // Mudou de etapa sem cumprir as regras de entrada: coleta o que falta antes de salvar
+    const stageChanged = formData.status !== lead.status || formData.pipelineId !== lead.pipeline_id;
+    if (stageChanged && hasMissingRequirements(getMissingStageRequirements({ ...lead, ...updatedLead }, targetStage))) {
+      setPendingRequirements(updatedLead);
+      return;
+    }
+
+    await saveLead(updatedLead);
+  };
+
+  const saveLead = async (changes: Partial<Lead>) => {
+    if (!lead) return;
+
     setIsSubmitting(true);
 
     try {
-      const updatedLead = {
-        name: formData.name,
-        email: formData.email,
-        phone: formData.phone,
-        company: formData.company || null,
-        value: formData.value ? parseFloat(formData.value) : 0,
-        status: formData.status,
-        assigned_to: formData.assignedTo,
-        notes: formData.notes || '',
-        tags: formData.tags,
-        source: formData.source || 'Manual',
-        updated_at: new Date().toISOString(),
-      };
+      const updatedLead = { ...changes, updated_at: new Date().toISOString() };
 
       const { error } = await supabase
         .from('leads')
@@ -124,7 +226,19 @@ export const EditLeadModal: React.FC<EditLeadModalProps> = ({
         onLeadUpdated();
       }
       
+      setPendingRequirements(null);
       onOpenChange(false);
+
+      // Passou para uma etapa de ganho: oferece a conversão em venda, se ainda não houver uma
+      if (
+        getKind(formData.status, formData.pipelineId) === 'won' &&
+        getKind(lead.status, lead.pipeline_id) !== 'won'
+      ) {
+        const leadSales = await SaleService.getLeadSales(lead.id);
+        if (leadSales.length === 0) {
+          setConvertingLead({ ...lead, ...updatedLead, company: updatedLead.company || undefined });
+        }
+      }
     } catch (error: any) {
       console.error('Unexpected error:', error);
       toast({
@@ -137,6 +251,21 @@ export const EditLeadModal: React.FC<EditLeadModalProps> = ({
     }
   };
 
+  // Ao trocar de pipeline, a etapa é mapeada para a equivalente no pipeline de destino
+  const handleCompanyChange = (companyId: string) => {
+    const company = companies.find(c => c.id === companyId);
+    setFormData(prev => ({ ...prev, companyId, company: prev.company || company?.name || '' }));
+  };
+
+  const handlePipelineChange = (pipelineId: string) => {
+    setFormData(prev => {
+      const fromStages = allStages.filter(stage => stage.pipeline_id === prev.pipelineId);
+      const toStages = allStages.filter(stage => stage.pipeline_id === pipelineId);
+      const mapped = mapStageToPipeline(prev.status, fromStages, toStages);
+      return { ...prev, pipelineId, status: mapped?.key || prev.status };
+    });
+  };
+
   const addTag = () => {
     if (tagInput.trim() && !formData.tags.includes(tagInput.trim())) {
       setFormData(prev => ({
@@ -160,179 +289,267 @@ export const EditLeadModal: React.FC<EditLeadModalProps> = ({
   if (!lead) return null;
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle className="text-xl font-bold text-card-foreground">
-            Editar Lead
-          </DialogTitle>
-        </DialogHeader>
-        
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="name" className="text-card-foreground font-medium">Nome *</Label>
-              <Input
-                id="name"
-                value={formData.name}
-                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                placeholder="Nome completo do lead"
-                className="border-input focus:ring-primary"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-card-foreground font-medium">Email *</Label>
-              <Input
-                id="email"
-                type="email"
-                value={formData.email}
-                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
-                placeholder="email@exemplo.com"
-                className="border-input focus:ring-primary"
-                required
-              />
-            </div>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="phone" className="text-card-foreground font-medium">Telefone</Label>
-              <Input
-                id="phone"
-                value={formData.phone}
-                onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
-                placeholder="(11) 99999-9999"
-                className="border-input focus:ring-primary"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="company" className="text-card-foreground font-medium">Empresa</Label>
-              <Input
-                id="company"
-                value={formData.company}
-                onChange={(e) => setFormData(prev => ({ ...prev, company: e.target.value }))}
-                placeholder="Nome da empresa"
-                className="border-input focus:ring-primary"
-              />
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-card-foreground">
+              Editar Lead
+            </DialogTitle>
+          </DialogHeader>
+          
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name" className="text-card-foreground font-medium">Nome *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Nome completo do lead"
+                  className="border-input focus:ring-primary"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-card-foreground font-medium">Email *</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="email@exemplo.com"
+                  className="border-input focus:ring-primary"
+                  required
+                />
+              </div>
             </div>
-          </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="value" className="text-card-foreground font-medium">Valor (R$)</Label>
-              <Input
-                id="value"
-                type="number"
-                step="0.01"
-                value={formData.value}
-                onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
-                placeholder="0.00"
-                className="border-input focus:ring-primary"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="source" className="text-card-foreground font-medium">Origem</Label>
-              <Input
-                id="source"
-                value={formData.source}
-                onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value }))}
-                placeholder="Ex: Site, Facebook, Indicação"
-                className="border-input focus:ring-primary"
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="phone" className="text-card-foreground font-medium">Telefone</Label>
+                <Input
+                  id="phone"
+                  value={formData.phone}
+                  onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                  placeholder="(11) 99999-9999"
+                  className="border-input focus:ring-primary"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="company" className="text-card-foreground font-medium">Empresa</Label>
+                <Input
+                  id="company"
+                  value={formData.company}
+                  onChange={(e) => setFormData(prev => ({ ...prev, company: e.target.value }))}
+                  placeholder="Nome da empresa"
+                  className="border-input focus:ring-primary"
+                />
+              </div>
             </div>
-          </div>
 
-          <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="assignedTo" className="text-card-foreground font-medium">Responsável</Label>
-              <Select value={formData.assignedTo} onValueChange={(value) => setFormData(prev => ({ ...prev, assignedTo: value }))}>
-                <SelectTrigger className="border-input focus:ring-primary">
-                  <SelectValue placeholder="Selecionar responsável" />
+              <Label htmlFor="companyId" className="text-card-foreground font-medium">Empresa vinculada</Label>
+              <Select value={formData.companyId} onValueChange={handleCompanyChange}>
+                <SelectTrigger id="companyId" className="border-input focus:ring-primary">
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {assignableUsers.map((u) => (
-                    <SelectItem key={u.id} value={u.id}>
-                      {u.name} {u.role === 'master' && '(Admin)'}
+                  <SelectItem value={NO_COMPANY}>Nenhuma</SelectItem>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>
+                      {company.name}{company.domain ? ` (${company.domain})` : ''}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="status" className="text-card-foreground font-medium">Status</Label>
-              <Select value={formData.status} onValueChange={(value) => setFormData(prev => ({ ...prev, status: value as Lead['status'] }))}>
-                <SelectTrigger className="border-input focus:ring-primary">
-                  <SelectValue placeholder="Selecionar status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="new">Novo Lead</SelectItem>
-                  <SelectItem value="contacted">Contatado</SelectItem>
-                  <SelectItem value="qualified">Qualificado</SelectItem>
-                  <SelectItem value="proposal">Proposta</SelectItem>
-                  <SelectItem value="won">Fechado</SelectItem>
-                  <SelectItem value="lost">Perdido</SelectItem>
-                </SelectContent>
-              </Select>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="value" className="text-card-foreground font-medium">Valor (R$)</Label>
+                <Input
+                  id="value"
+                  type="number"
+                  step="0.01"
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  placeholder="0.00"
+                  className="border-input focus:ring-primary"
+                  disabled={!canEditValue}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source" className="text-card-foreground font-medium">Origem</Label>
+                <Input
+                  id="source"
+                  value={formData.source}
+                  onChange={(e) => setFormData(prev => ({ ...prev, source: e.target.value }))}
+                  placeholder="Ex: Site, Facebook, Indicação"
+                  className="border-input focus:ring-primary"
+                />
+              </div>
             </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="tags" className="text-card-foreground font-medium">Tags</Label>
-            <div className="flex space-x-2">
-              <Input
-                id="tags"
-                value={tagInput}
-                onChange={(e) => setTagInput(e.target.value)}
-                placeholder="Adicionar tag"
-                className="flex-1 border-input focus:ring-primary"
-                onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
-              />
-              <Button type="button" onClick={addTag} variant="outline" size="sm">
-                <Plus className="w-4 h-4" />
-              </Button>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assignedTo" className="text-card-foreground font-medium">Responsável</Label>
+                <Select value={formData.assignedTo} onValueChange={(value) => setFormData(prev => ({ ...prev, assignedTo: value }))} disabled={!canReassign}>
+                  <SelectTrigger className="border-input focus:ring-primary">
+                    <SelectValue placeholder="Selecionar responsável" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableUsers.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.name} {u.role === 'master' && '(Admin)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="status" className="text-card-foreground font-medium">Status</Label>
+                <Select value={formData.status} onValueChange={(value) => setFormData(prev => ({ ...prev, status: value }))} disabled={!canMove}>
+                  <SelectTrigger className="border-input focus:ring-primary">
+                    <SelectValue placeholder="Selecionar status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.id} value={stage.key}>
+                        {stage.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
-            {formData.tags.length > 0 && (
-              <div className="flex flex-wrap gap-2 mt-2">
-                {formData.tags.map((tag) => (
-                  <Badge key={tag} variant="secondary" className="bg-primary/10 text-primary">
-                    {tag}
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="ml-1 h-auto p-0 w-4 h-4"
-                      onClick={() => removeTag(tag)}
-                    >
-                      <X className="w-3 h-3" />
-                    </Button>
-                  </Badge>
-                ))}
+
+            {enteringLost && (
+              <div className="p-4 border border-destructive/30 rounded-lg bg-destructive/5">
+                <LeadLossFields
+                  value={formData.loss}
+                  onChange={(loss) => setFormData(prev => ({ ...prev, loss }))}
+                />
+              </div>
+            )}
+
+            {reopening && (
+              <div className="space-y-2">
+                <Label htmlFor="reopenJustification" className="text-card-foreground font-medium">
+                  Justificativa para reabrir *
+                </Label>
+                <Textarea
+                  id="reopenJustification"
+                  value={formData.reopenJustification}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reopenJustification: e.target.value }))}
+                  placeholder="Por que este lead perdido está voltando para o funil?"
+                  rows={2}
+                  className="border-input focus:ring-primary"
+                />
+              </div>
+            )}
+
+            {pipelines.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="pipeline" className="text-card-foreground font-medium">Pipeline</Label>
+                <Select value={formData.pipelineId} onValueChange={handlePipelineChange} disabled={!canMove}>
+                  <SelectTrigger className="border-input focus:ring-primary">
+                    <SelectValue placeholder="Selecionar pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>
+                        {pipeline.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {lead.pipeline_id !== formData.pipelineId && (
+                  <p className="text-xs text-muted-foreground">
+                    O lead será movido para a etapa equivalente no novo pipeline. Você pode ajustá-la no campo Status.
+                  </p>
+                )}
               </div>
             )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="notes" className="text-card-foreground font-medium">Observações</Label>
-            <Textarea
-              id="notes"
-              value={formData.notes}
-              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
-              placeholder="Observações sobre o lead..."
-              className="min-h-[80px] border-input focus:ring-primary resize-none"
+
+            <div className="space-y-2">
+              <Label htmlFor="tags" className="text-card-foreground font-medium">Tags</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="tags"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  placeholder="Adicionar tag"
+                  className="flex-1 border-input focus:ring-primary"
+                  onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
+                />
+                <Button type="button" onClick={addTag} variant="outline" size="sm">
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              {formData.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {formData.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="bg-primary/10 text-primary">
+                      {tag}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="ml-1 h-auto p-0 w-4 h-4"
+                        onClick={() => removeTag(tag)}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <CustomFieldInputs
+              fields={customFields}
+              values={formData.customFields}
+              onChange={(values) => setFormData(prev => ({ ...prev, customFields: values }))}
             />
-          </div>
-
-          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
-            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
-              Cancelar
-            </Button>
-            <Button type="submit" className="bg-gradient-to-r from-primary to-primary-dark text-primary-foreground" disabled={isSubmitting}>
-              {isSubmitting ? "Salvando..." : "Salvar Alterações"}
-            </Button>
-          </div>
-        </form>
-      </DialogContent>
-    </Dialog>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes" className="text-card-foreground font-medium">Observações</Label>
+              <Textarea
+                id="notes"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                placeholder="Observações sobre o lead..."
+                className="min-h-[80px] border-input focus:ring-primary resize-none"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="bg-gradient-to-r from-primary to-primary-dark text-primary-foreground" disabled={isSubmitting}>
+                {isSubmitting ? "Salvando..." : "Salvar Alterações"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConvertLeadDialog
+        lead={convertingLead}
+        open={!!convertingLead}
+        onOpenChange={(open) => !open && setConvertingLead(null)}
+        onConverted={() => onLeadUpdated?.()}
+      />
+
+      <StageRequirementsDialog
+        lead={requirementsLead}
+        stage={targetStage}
+        open={!!pendingRequirements}
+        onOpenChange={(open) => !open && setPendingRequirements(null)}
+        onConfirm={(changes) => saveLead({ ...pendingRequirements, ...changes })}
+      />
+    </>
   );
 };
\ No newline at end of file
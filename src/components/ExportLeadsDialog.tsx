@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { Lead } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { usePipelines } from '@/hooks/usePipelines';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { LeadPageQuery, LeadService } from '@/services/leadService';
+import { downloadBlob, downloadSpreadsheet } from '@/lib/spreadsheet';
+import {
+  ExportColumn,
+  TagsMode,
+  buildExportJson,
+  buildExportTable,
+  exportColumnLabels,
+  exportColumns
+} from '@/lib/leadExport';
+
+interface ExportLeadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  visibleLeads: Lead[];
+  visibleCount?: number;
+  // Quando informado, "visíveis" busca todas as páginas que casam com os filtros, não só as carregadas
+  visibleQuery?: Omit<LeadPageQuery, 'cursor' | 'limit'>;
+  selectedLeadIds: string[];
+}
+
+type ExportScope = 'selected' | 'visible' | 'account';
+type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+const tagSeparators: Record<string, string> = {
+  ', ': 'Vírgula',
+  '; ': 'Ponto e vírgula',
+  ' | ': 'Barra vertical',
+};
+
+const defaultColumns: ExportColumn[] = ['name', 'email', 'phone', 'company', 'value', 'status', 'tags', 'assigned_to', 'source'];
+
+export const ExportLeadsDialog: React.FC<ExportLeadsDialogProps> = ({
+  open,
+  onOpenChange,
+  visibleLeads,
+  visibleCount,
+  visibleQuery,
+  selectedLeadIds
+}) => {
+  const { user, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const { pipelines } = usePipelines();
+  const { getStage } = usePipelineStages();
+
+  const [scope, setScope] = useState<ExportScope>(selectedLeadIds.length > 0 ? 'selected' : 'visible');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  // Colunas e formato das tags ficam salvos por usuário para as próximas exportações
+  const [columns, setColumns] = useLocalStorage<ExportColumn[]>(`export-columns-${user?.id}`, defaultColumns);
+  const [tagsMode, setTagsMode] = useLocalStorage<TagsMode>(`export-tags-mode-${user?.id}`, 'joined');
+  const [tagSeparator, setTagSeparator] = useLocalStorage<string>(`export-tag-separator-${user?.id}`, ', ');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) setScope(selectedLeadIds.length > 0 ? 'selected' : 'visible');
+  }, [open, selectedLeadIds.length]);
+
+  const effectiveScope = scope === 'selected' && selectedLeadIds.length === 0 ? 'visible' : scope;
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    setColumns(checked
+      ? exportColumns.filter(c => c === column || columns.includes(c))
+      : columns.filter(c => c !== column));
+  };
+
+  const loadLeads = async (): Promise<Lead[]> => {
+    if (effectiveScope === 'selected') {
+      return visibleLeads.filter(lead => selectedLeadIds.includes(lead.id));
+    }
+    if (effectiveScope === 'visible') {
+      return visibleQuery ? LeadService.getAllLeads(visibleQuery) : visibleLeads;
+    }
+
+    // Conta inteira: todos os pipelines, sem os filtros da tela
+    return LeadService.getAccountLeads();
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const leads = await loadLeads();
+      const context = { users: allAssignableUsers, pipelines, getStage };
+      const fileName = `leads-${new Date().toISOString().slice(0, 10)}`;
+
+      if (format === 'json') {
+        const json = JSON.stringify(buildExportJson(leads, columns, context), null, 2);
+        downloadBlob(new Blob([json], { type: 'application/json' }), `${fileName}.json`);
+      } else {
+        downloadSpreadsheet(buildExportTable(leads, columns, context, tagsMode, tagSeparator), fileName, format);
+      }
+
+      toast({
+        title: "Exportação concluída",
+        description: `${leads.length} lead(s) exportado(s)`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao exportar leads",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Download className="w-5 h-5" />
+            <span>Exportar Leads</span>
+          </DialogTitle>
+          <DialogDescription>Escolha quais leads, colunas e formato exportar.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label className="font-medium">Leads</Label>
+            <RadioGroup value={effectiveScope} onValueChange={(value) => setScope(value as ExportScope)}>
+              <Label className="flex items-center space-x-2 font-normal">
+                <RadioGroupItem value="selected" disabled={selectedLeadIds.length === 0} />
+                <span>Selecionados ({selectedLeadIds.length})</span>
+              </Label>
+              <Label className="flex items-center space-x-2 font-normal">
+                <RadioGroupItem value="visible" />
+                <span>Visíveis na lista ({visibleCount ?? visibleLeads.length})</span>
+              </Label>
+              {user?.role === 'master' && (
+                <Label className="flex items-center space-x-2 font-normal">
+                  <RadioGroupItem value="account" />
+                  <span>Conta inteira (todos os pipelines)</span>
+                </Label>
+              )}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-medium">Formato</Label>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="grid-cols-3">
+              {(['csv', 'xlsx', 'json'] as ExportFormat[]).map((option) => (
+                <Label key={option} className="flex items-center space-x-2 font-normal">
+                  <RadioGroupItem value={option} />
+                  <span>{option.toUpperCase()}</span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-medium">Colunas</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {exportColumns.map((column) => (
+                <Label key={column} className="flex items-center space-x-2 font-normal">
+                  <Checkbox
+                    checked={columns.includes(column)}
+                    onCheckedChange={(checked) => toggleColumn(column, checked as boolean)}
+                  />
+                  <span>{exportColumnLabels[column]}</span>
+                </Label>
+              ))}
+            </div>
+          </div>
+
+          {columns.includes('tags') && format !== 'json' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Tags</Label>
+                <Select value={tagsMode} onValueChange={(value) => setTagsMode(value as TagsMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="joined">Em uma coluna</SelectItem>
+                    <SelectItem value="columns">Uma coluna por tag</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {tagsMode === 'joined' && (
+                <div className="space-y-1">
+                  <Label>Separador</Label>
+                  <Select value={tagSeparator} onValueChange={setTagSeparator}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(tagSeparators).map(([separator, label]) => (
+                        <SelectItem key={separator} value={separator}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleExport} disabled={exporting || columns.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? 'Exportando...' : 'Exportar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,386 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, FileSpreadsheet, Download, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Lead } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelines } from '@/hooks/usePipelines';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { LeadService } from '@/services/leadService';
+import { getInitialStage } from '@/lib/pipeline';
+import { AUTO_ASSIGNEE, hasUsableAssignmentRule } from '@/lib/assignment';
+import { useAssignmentRules } from '@/hooks/useAssignmentRules';
+import { SheetData, parseSpreadsheet, downloadSpreadsheet } from '@/lib/spreadsheet';
+import {
+  ColumnMapping,
+  ImportRow,
+  autoMapColumns,
+  buildRejectedReport,
+  importFieldLabels,
+  importFields,
+  validateImportRows
+} from '@/lib/leadImport';
+
+interface ImportLeadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pipelineId?: string;
+  onImported?: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'result';
+
+// Evita travar a tela com planilhas grandes; a validação continua valendo para todas as linhas
+const PREVIEW_LIMIT = 200;
+
+export const ImportLeadsDialog: React.FC<ImportLeadsDialogProps> = ({
+  open,
+  onOpenChange,
+  pipelineId,
+  onImported
+}) => {
+  const { user, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const { pipelines, defaultPipeline } = usePipelines();
+  const { rules: assignmentRules } = useAssignmentRules();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [assigneeId, setAssigneeId] = useState('');
+  const [defaultSource, setDefaultSource] = useState('Importação');
+  const [targetPipelineId, setTargetPipelineId] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [rejectedRows, setRejectedRows] = useState<ImportRow[]>([]);
+  const [insertedCount, setInsertedCount] = useState(0);
+  const [existingLeads, setExistingLeads] = useState<Pick<Lead, 'email' | 'phone'>[]>([]);
+
+  // Contatos de todos os leads da conta para apontar duplicados na pré-visualização
+  useEffect(() => {
+    if (!open) return;
+    LeadService.getLeadContacts()
+      .then(setExistingLeads)
+      .catch((error) => console.error('Error fetching lead contacts:', error));
+  }, [open]);
+
+  // Linhas sem responsável na planilha seguem as regras de distribuição, quando existem
+  const defaultAssignee = assigneeId
+    || (hasUsableAssignmentRule(assignmentRules) ? AUTO_ASSIGNEE : user?.user_id || '');
+  const selectedPipelineId = targetPipelineId || pipelineId || defaultPipeline?.id;
+  const { stages } = usePipelineStages(selectedPipelineId);
+
+  const rows = useMemo(() => {
+    if (!sheet || !mapping) return [];
+    return validateImportRows(sheet.rows, {
+      mapping,
+      hasHeaderRow: sheet.hasHeaderRow,
+      users: allAssignableUsers,
+      defaultAssignee,
+      defaultSource,
+      existingLeads,
+    });
+  }, [sheet, mapping, allAssignableUsers, defaultAssignee, defaultSource, existingLeads]);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidRows = rows.filter(row => row.errors.length > 0);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setProgress(0);
+    setRejectedRows([]);
+    setInsertedCount(0);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (importing) return;
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const data = await parseSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast({
+          title: "Erro",
+          description: "A planilha não possui linhas para importar",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(autoMapColumns(data.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Erro ao ler planilha:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível ler o arquivo. Use CSV ou XLSX.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !selectedPipelineId) return;
+
+    setImporting(true);
+    setProgress(0);
+
+    const status = getInitialStage(stages)?.key || 'new';
+    const payload = validRows.map(row => ({
+      ...row.lead,
+      assigned_to: row.lead.assigned_to === AUTO_ASSIGNEE ? null : row.lead.assigned_to,
+      company: row.lead.company || null,
+      pipeline_id: selectedPipelineId,
+      status,
+      user_id: user.user_id,
+    }));
+
+    const result = await LeadService.insertLeadsInBatches(payload, setProgress);
+
+    const failedRows = result.failures.map(failure => ({
+      ...validRows[failure.index],
+      errors: [failure.error],
+    }));
+
+    setInsertedCount(result.inserted);
+    setRejectedRows([...invalidRows, ...failedRows].sort((a, b) => a.rowNumber - b.rowNumber));
+    setImporting(false);
+    setStep('result');
+
+    if (result.inserted > 0) {
+      onImported?.();
+    }
+  };
+
+  const downloadReport = () => {
+    if (!sheet) return;
+    downloadSpreadsheet(
+      buildRejectedReport(sheet.headers, rejectedRows),
+      `rejeitados-${fileName.replace(/\.[^.]+$/, '')}`,
+      'csv'
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            <span>Importar Leads</span>
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Envie um arquivo CSV ou XLSX com os leads.'}
+            {step === 'mapping' && `${fileName}: associe as colunas da planilha aos campos do lead.`}
+            {step === 'preview' && 'Confira a validação antes de importar. Linhas com erro não serão importadas.'}
+            {step === 'result' && 'Importação concluída.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-muted-foreground/30 rounded-lg py-12 cursor-pointer hover:bg-muted/30 transition-colors">
+            <Upload className="w-10 h-10 text-muted-foreground mb-3" />
+            <span className="font-medium">Clique para selecionar o arquivo</span>
+            <span className="text-sm text-muted-foreground">.csv ou .xlsx</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+
+        {step === 'mapping' && sheet && mapping && (
+          <div className="space-y-4">
+            {!sheet.hasHeaderRow && (
+              <p className="text-sm text-muted-foreground">
+                A primeira linha parece conter dados, então nenhuma linha foi tratada como cabeçalho.
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              {importFields.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>{importFieldLabels[field]}</Label>
+                  <Select
+                    value={String(mapping[field])}
+                    onValueChange={(value) => setMapping(prev => prev && ({ ...prev, [field]: Number(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="-1">Não importar</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header}{sheet.rows[0]?.[index] ? ` (ex.: ${sheet.rows[0][index]})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 pt-4 border-t border-border">
+              <div className="space-y-1">
+                <Label>Responsável padrão</Label>
+                <Select value={defaultAssignee} onValueChange={setAssigneeId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_ASSIGNEE}>Automático (regras de distribuição)</SelectItem>
+                    {allAssignableUsers.map((u) => (
+                      <SelectItem key={u.user_id} value={u.user_id}>{u.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Fonte padrão</Label>
+                <Input value={defaultSource} onChange={(e) => setDefaultSource(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Pipeline</Label>
+                <Select value={selectedPipelineId} onValueChange={setTargetPipelineId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-3">
+              <Badge variant="secondary" className="text-success">
+                <CheckCircle2 className="w-3 h-3 mr-1" />
+                {validRows.length} válida(s)
+              </Badge>
+              {invalidRows.length > 0 && (
+                <Badge variant="secondary" className="text-destructive">
+                  <AlertCircle className="w-3 h-3 mr-1" />
+                  {invalidRows.length} com erro
+                </Badge>
+              )}
+            </div>
+
+            <div className="border border-card-border rounded-lg max-h-[50vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>E-mail</TableHead>
+                    <TableHead>Telefone</TableHead>
+                    <TableHead>Responsável</TableHead>
+                    <TableHead>Erros</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-destructive/5' : ''}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.lead.name}</TableCell>
+                      <TableCell>{row.lead.email}</TableCell>
+                      <TableCell>{row.lead.phone}</TableCell>
+                      <TableCell>
+                        {row.lead.assigned_to === AUTO_ASSIGNEE
+                          ? 'Automático'
+                          : allAssignableUsers.find(u => u.user_id === row.lead.assigned_to)?.name}
+                      </TableCell>
+                      <TableCell className="text-xs text-destructive">{row.errors.join('; ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {rows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Exibindo {PREVIEW_LIMIT} de {rows.length} linhas.
+              </p>
+            )}
+
+            {importing && (
+              <div className="space-y-1">
+                <Progress value={validRows.length ? (progress / validRows.length) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">{progress} de {validRows.length} processados</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'result' && (
+          <div className="text-center py-6 space-y-3">
+            <CheckCircle2 className="w-10 h-10 mx-auto text-success" />
+            <p className="font-medium">{insertedCount} lead(s) importado(s)</p>
+            {rejectedRows.length > 0 && (
+              <>
+                <p className="text-sm text-muted-foreground">{rejectedRows.length} linha(s) rejeitada(s)</p>
+                <Button variant="outline" onClick={downloadReport}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Baixar relatório de rejeitados
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>Voltar</Button>
+              <Button
+                onClick={() => setStep('preview')}
+                disabled={!mapping || mapping.name < 0 || mapping.email < 0}
+              >
+                Validar
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={importing}>
+                Voltar
+              </Button>
+              <Button onClick={handleImport} disabled={importing || validRows.length === 0}>
+                {importing ? 'Importando...' : `Importar ${validRows.length} lead(s)`}
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <Button onClick={() => handleOpenChange(false)}>Concluir</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
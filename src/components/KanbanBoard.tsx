@@ -1,15 +1,13 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import React, { useState, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { DragDropContext, DropResult } from '@hello-pangea/dnd';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   MoreHorizontal, 
   Settings,
   Plus,
-  AlertCircle,
   TrendingUp,
   Clock,
   Target,
@@ -18,196 +16,313 @@ import {
   Zap,
   List,
   LayoutGrid,
-  Phone
+  Phone,
+  Copy,
+  Upload,
+  Rows3
 } from 'lucide-react';
-import { Lead, KanbanColumn } from '@/types/crm';
-import { supabase } from '@/integrations/supabase/client';
+import { Lead, KanbanColumn, KanbanGrouping, LeadFilters, LeadSort } from '@/types/crm';
 import { useAuth } from './AuthWrapper';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useToast } from '@/hooks/use-toast';
+import { useUndoToast } from '@/hooks/useUndoToast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePipelines } from '@/hooks/usePipelines';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { ALL_STAGES, useLeadBoard } from '@/hooks/useLeadBoard';
+import { getStageBadgeStyle, getStageColumnStyle } from '@/lib/pipeline';
+import { filtersToSearchParams, searchParamsToFilters } from '@/lib/leadFilters';
 import { NewLeadModal } from './NewLeadModal';
 import { LeadDetailModal } from './LeadDetailModal';
 import { LeadListView } from './LeadListView';
-
-const defaultColumns: KanbanColumn[] = [
-  { id: 'new', title: 'Novos Leads', leads: [] },
-  { id: 'contacted', title: 'Contatados', leads: [] },
-  { id: 'qualified', title: 'Qualificados', leads: [] },
-  { id: 'proposal', title: 'Proposta', leads: [] },
-  { id: 'won', title: 'Fechado', leads: [] },
-  { id: 'lost', title: 'Perdido', leads: [] },
-];
-
-const getColumnIcon = (columnId: string) => {
-  switch (columnId) {
+import { DuplicateLeadsDialog } from './DuplicateLeadsDialog';
+import { ImportLeadsDialog } from './ImportLeadsDialog';
+import { LeadFiltersBar } from './LeadFiltersBar';
+import { KanbanColumnCards } from './KanbanColumnCards';
+import { KanbanSwimlanes } from './KanbanSwimlanes';
+import { ConvertLeadDialog } from './ConvertLeadDialog';
+import { MarkLeadLostDialog } from './MarkLeadLostDialog';
+import { ReopenLeadDialog } from './ReopenLeadDialog';
+import { StageRequirementsDialog } from './StageRequirementsDialog';
+import { getMissingStageRequirements, hasMissingRequirements } from '@/lib/stageRequirements';
+import { SaleService } from '@/services/saleService';
+import { LeadService } from '@/services/leadService';
+import { getRevertChanges } from '@/lib/undo';
+import {
+  buildLanes,
+  canMoveToLane,
+  getLaneChanges,
+  getLaneLabel,
+  groupingLabels,
+  isGroupableCustomField,
+  parseDroppableId,
+  toCustomFieldGrouping
+} from '@/lib/swimlanes';
+
+const getColumnIcon = (column: KanbanColumn) => {
+  if (column.kind === 'won') return CheckCircle2;
+  if (column.kind === 'lost') return XCircle;
+
+  switch (column.id) {
     case 'new': return Zap;
     case 'contacted': return Phone;
     case 'qualified': return Target;
     case 'proposal': return TrendingUp;
-    case 'won': return CheckCircle2;
-    case 'lost': return XCircle;
     default: return Clock;
   }
 };
 
+interface PendingMove {
+  lead: Lead;
+  status: string;
+  changes: Partial<Lead>;
+}
+
 export const KanbanBoard: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user, allAssignableUsers } = useAuth();
   const { toast } = useToast();
-  const [columns, setColumns] = useState<KanbanColumn[]>(defaultColumns);
-  const [leads, setLeads] = useState<Lead[]>([]);
+  const showUndoToast = useUndoToast();
+  const { pipelines, defaultPipeline } = usePipelines();
+  const [selectedPipelineId, setSelectedPipelineId] = useLocalStorage<string>(`selected-pipeline-${user?.id}`, '');
+  const currentPipeline = pipelines.find(p => p.id === selectedPipelineId) || defaultPipeline;
+  const { stages } = usePipelineStages(currentPipeline?.id);
+  const { can, canMoveLead } = usePermissions();
+  const { fields: customFields } = useCustomFields();
   const [newLeadModalOpen, setNewLeadModalOpen] = useState(false);
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [leadDetailOpen, setLeadDetailOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
+  // Movimentos que aguardam os requisitos da etapa, o motivo da perda ou a justificativa de reabertura
+  const [pendingRequirements, setPendingRequirements] = useState<PendingMove | null>(null);
+  const [pendingLoss, setPendingLoss] = useState<PendingMove | null>(null);
+  const [pendingReopen, setPendingReopen] = useState<PendingMove | null>(null);
+  // Lead como ficará após a troca de raia; referência estável para o diálogo de requisitos
+  const requirementsLead = useMemo(
+    () => (pendingRequirements ? { ...pendingRequirements.lead, ...pendingRequirements.changes } : null),
+    [pendingRequirements]
+  );
   const [viewMode, setViewMode] = useState<'kanban' | 'list'>('kanban');
-  const [loading, setLoading] = useState(true);
-
-  // Fetch leads from Supabase
-  useEffect(() => {
-    if (!user) return;
-    fetchLeads();
-  }, [user]);
-
-  // Realtime updates for leads
-  useEffect(() => {
-    const channel = supabase
-      .channel('leads-changes')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'leads' }, () => {
-        fetchLeads();
-      })
-      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'leads' }, () => {
-        fetchLeads();
-      })
-      .subscribe();
-    return () => { supabase.removeChannel(channel); };
-  }, []);
-
-  const fetchLeads = async () => {
-    if (!user) return;
+  const [grouping, setGrouping] = useLocalStorage<KanbanGrouping>(`kanban-grouping-${user?.id}`, 'none');
+  const groupableFields = useMemo(() => customFields.filter(isGroupableCustomField), [customFields]);
+  // Campo personalizado removido ou que deixou de ser agrupável volta para o quadro sem raias
+  const activeGrouping: KanbanGrouping = viewMode === 'kanban' && (
+    !grouping.startsWith('cf:') || groupableFields.some(field => toCustomFieldGrouping(field.key) === grouping)
+  ) ? grouping : 'none';
+
+  // Filtros e ordenação vivem na URL para que a visão possa ser compartilhada por link
+  const { filters, sort } = useMemo(() => searchParamsToFilters(searchParams), [searchParams]);
+
+  const handleFiltersChange = (nextFilters: LeadFilters, nextSort: LeadSort) => {
+    setSearchParams(filtersToSearchParams(nextFilters, nextSort, searchParams), { replace: true });
+  };
 
-    try {
-      const { data, error } = await supabase
-        .from('leads')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching leads:', error);
-        toast({
-          title: "Erro",
-          description: "Erro ao carregar leads",
-          variant: "destructive",
-        });
-        return;
-      }
+  // Kanban pagina cada etapa separadamente; a lista pagina o pipeline inteiro
+  const bucketKeys = useMemo(
+    () => (viewMode === 'kanban' ? stages.map(stage => stage.key) : [ALL_STAGES]),
+    [viewMode, stages]
+  );
 
-      setLeads(data as Lead[] || []);
-    } catch (error) {
-      console.error('Error fetching leads:', error);
-    } finally {
-      setLoading(false);
-    }
+  const { buckets, totals, laneTotals, loadMore, moveLead, applyLocalChanges, refetch } = useLeadBoard({
+    pipelineId: currentPipeline?.id,
+    bucketKeys,
+    filters,
+    sort,
+    grouping: activeGrouping,
+  });
+
+  const columns: KanbanColumn[] = useMemo(() => stages.map(stage => ({
+    id: stage.key,
+    title: stage.name,
+    color: stage.color,
+    kind: stage.kind,
+    rottingDays: stage.rotting_days,
+    leads: buckets[stage.key]?.leads || []
+  })), [stages, buckets]);
+
+  const getColumnKind = (status: string) => columns.find(c => c.id === status)?.kind;
+
+  const getAssigneeName = (userId: string) =>
+    allAssignableUsers.find(u => u.user_id === userId)?.name || 'Outro usuário';
+
+  const lanes = activeGrouping === 'none' ? [] : buildLanes({
+    grouping: activeGrouping,
+    laneTotals,
+    loadedLeads: columns.flatMap(column => column.leads),
+    customFields,
+    // Vendedores sem leads também aparecem, para receberem leads arrastados
+    extraKeys: activeGrouping === 'assignee'
+      ? (filters.assignees?.length ? filters.assignees : allAssignableUsers.map(u => u.user_id))
+      : [],
+    getAssigneeName,
+  });
+
+  // Arrastar para outra raia transfere o lead (responsável) ou troca o valor do agrupamento
+  const canDragLead = (lead: Lead) => {
+    if (canMoveLead(lead)) return true;
+    if (activeGrouping === 'none') return false;
+    return activeGrouping !== 'assignee' || can('reassign_leads');
   };
 
-  // Initialize columns with leads
-  useEffect(() => {
-    const updatedColumns = defaultColumns.map(column => ({
-      ...column,
-      leads: leads.filter(lead => lead.status === column.id)
-    }));
-    setColumns(updatedColumns);
-  }, [leads, user]);
-
-  const onDragEnd = async (result: any) => {
+  const onDragEnd = async (result: DropResult) => {
     if (!result.destination) return;
 
-    // Only allow master users to move leads between columns
-    if (user?.role !== 'master') {
+    const from = parseDroppableId(result.source.droppableId);
+    const to = parseDroppableId(result.destination.droppableId);
+    const lead = columns.flatMap(column => column.leads).find(item => item.id === result.draggableId);
+    if (!lead) return;
+
+    const laneChanges = activeGrouping !== 'none' && from.lane !== null && to.lane !== null && from.lane !== to.lane
+      ? getLaneChanges(lead, activeGrouping, from.lane, to.lane)
+      : {};
+    const stageChanged = lead.status !== to.status;
+    if (!stageChanged && Object.keys(laneChanges).length === 0) return;
+
+    if (to.lane !== null && from.lane !== to.lane && !canMoveToLane(activeGrouping, to.lane)) {
+      toast({
+        title: "Erro",
+        description: "Todo lead precisa de um responsável",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if ('assigned_to' in laneChanges && !can('reassign_leads')) {
       toast({
         title: "Acesso negado",
-        description: "Apenas administradores podem mover leads entre etapas",
+        description: "Você não tem permissão para transferir leads",
         variant: "destructive",
       });
       return;
     }
 
-    const { source, destination } = result;
-    
-    if (source.droppableId === destination.droppableId && source.index === destination.index) {
+    if (!stageChanged) {
+      await changeLane(lead, laneChanges, to.lane ?? '');
+      return;
+    }
+
+    if (!canMoveLead(lead)) {
+      toast({
+        title: "Acesso negado",
+        description: "Você não tem permissão para mover este lead",
+        variant: "destructive",
+      });
       return;
     }
 
-    const leadId = result.draggableId;
-    const newStatus = destination.droppableId as Lead['status'];
+    const stage = stages.find(s => s.key === to.status);
+    if (hasMissingRequirements(getMissingStageRequirements({ ...lead, ...laneChanges }, stage))) {
+      setPendingRequirements({ lead, status: to.status, changes: laneChanges });
+      return;
+    }
 
-    // Optimistically update UI
-    const updatedLeads = leads.map(lead => 
-      lead.id === leadId 
-        ? { ...lead, status: newStatus, updated_at: new Date().toISOString() }
-        : lead
-    );
-    
-    setLeads(updatedLeads);
+    await continueMove({ lead, status: to.status, changes: laneChanges });
+  };
 
+  // Troca de raia na mesma etapa: aplica na hora e desfaz se o banco recusar
+  const changeLane = async (lead: Lead, changes: Partial<Lead>, lane: string) => {
+    applyLocalChanges([{ ...lead, ...changes }]);
     try {
-      // Update in database
-      const { error } = await supabase
-        .from('leads')
-        .update({ 
-          status: newStatus, 
-          updated_at: new Date().toISOString() 
-        })
-        .eq('id', leadId);
-
-      if (error) {
-        console.error('Error updating lead status:', error);
-        // Revert optimistic update on error
-        fetchLeads();
-        toast({
-          title: "Erro",
-          description: "Erro ao atualizar status do lead",
-          variant: "destructive",
-        });
-        return;
-      }
+      await LeadService.updateLead(lead.id, changes);
+      showUndoToast({
+        title: "Lead atualizado",
+        description: `Lead movido para ${getLaneLabel(lane, activeGrouping, { customFields, getAssigneeName })}`,
+        onUndo: () => undoLaneChange(lead, changes),
+      });
+    } catch (error) {
+      applyLocalChanges([lead]);
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro ao atualizar lead",
+        variant: "destructive",
+      });
+    }
+  };
 
+  const undoLaneChange = async (previous: Lead, changes: Partial<Lead>) => {
+    applyLocalChanges([previous]);
+    try {
+      await LeadService.updateLead(previous.id, getRevertChanges(previous, changes, getColumnKind));
       toast({
-        title: "Lead atualizado",
-        description: `Lead movido para ${columns.find(c => c.id === newStatus)?.title}`,
+        title: "Alteração desfeita",
+        description: `${previous.name} voltou para a raia anterior`,
       });
     } catch (error) {
-      console.error('Error updating lead:', error);
-      fetchLeads();
+      applyLocalChanges([{ ...previous, ...changes }]);
       toast({
         title: "Erro",
-        description: "Erro inesperado ao atualizar lead",
+        description: (error as Error).message || "Erro ao desfazer alteração",
         variant: "destructive",
       });
     }
   };
 
-  const getColumnColor = (columnId: string) => {
-    const colors = {
-      new: 'border-blue-200 bg-gradient-to-br from-blue-50 to-blue-100/50 shadow-blue-100/50',
-      contacted: 'border-orange-200 bg-gradient-to-br from-orange-50 to-orange-100/50 shadow-orange-100/50',
-      qualified: 'border-purple-200 bg-gradient-to-br from-purple-50 to-purple-100/50 shadow-purple-100/50',
-      proposal: 'border-indigo-200 bg-gradient-to-br from-indigo-50 to-indigo-100/50 shadow-indigo-100/50',
-      won: 'border-green-200 bg-gradient-to-br from-green-50 to-green-100/50 shadow-green-100/50',
-      lost: 'border-red-200 bg-gradient-to-br from-red-50 to-red-100/50 shadow-red-100/50',
-    };
-    return colors[columnId as keyof typeof colors] || 'border-border bg-muted/30';
+  // Depois dos requisitos da etapa, perda e reabertura ainda pedem seus próprios dados
+  const continueMove = async ({ lead, status, changes }: PendingMove) => {
+    const fromKind = columns.find(c => c.id === lead.status)?.kind;
+    const toKind = columns.find(c => c.id === status)?.kind;
+
+    if (toKind === 'lost' && fromKind !== 'lost') {
+      setPendingLoss({ lead, status, changes });
+      return;
+    }
+    if (fromKind === 'lost' && toKind !== 'lost') {
+      setPendingReopen({ lead, status, changes });
+      return;
+    }
+
+    await performMove(lead, status, changes);
   };
 
-  const getBadgeColor = (columnId: string) => {
-    const colors = {
-      new: 'bg-blue-100 text-blue-700 border-blue-200 font-semibold',
-      contacted: 'bg-orange-100 text-orange-700 border-orange-200 font-semibold',
-      qualified: 'bg-purple-100 text-purple-700 border-purple-200 font-semibold',
-      proposal: 'bg-indigo-100 text-indigo-700 border-indigo-200 font-semibold',
-      won: 'bg-green-100 text-green-700 border-green-200 font-semibold',
-      lost: 'bg-red-100 text-red-700 border-red-200 font-semibold',
-    };
-    return colors[columnId as keyof typeof colors] || 'bg-muted text-muted-foreground border-border';
+  const performMove = async (lead: Lead, newStatus: string, changes: Partial<Lead> = {}) => {
+    try {
+      await moveLead(lead, newStatus, changes);
+
+      showUndoToast({
+        title: "Lead atualizado",
+        description: `Lead movido para ${columns.find(c => c.id === newStatus)?.title}`,
+        onUndo: () => undoMove(lead, newStatus, changes),
+      });
+
+      // Negócio ganho sem venda registrada: abre a conversão do lead em venda
+      if (columns.find(c => c.id === newStatus)?.kind === 'won') {
+        const leadSales = await SaleService.getLeadSales(lead.id);
+        if (leadSales.length === 0) setConvertingLead({ ...lead, status: newStatus });
+      }
+    } catch (error) {
+      console.error('Error updating lead status:', error);
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro ao atualizar status do lead",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Devolve o lead à etapa de origem, desfazendo também o que foi preenchido no caminho
+  // (requisitos, motivo da perda, raia). Regras e permissões do banco continuam valendo
+  const undoMove = async (previous: Lead, status: string, changes: Partial<Lead>) => {
+    try {
+      await moveLead(
+        { ...previous, ...changes, status },
+        previous.status,
+        getRevertChanges(previous, { ...changes, status }, getColumnKind)
+      );
+      toast({
+        title: "Movimentação desfeita",
+        description: `${previous.name} voltou para ${columns.find(c => c.id === previous.status)?.title}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro ao desfazer movimentação",
+        variant: "destructive",
+      });
+    }
   };
 
   const formatCurrency = (value: number) => {
@@ -217,23 +332,12 @@ export const KanbanBoard: React.FC = () => {
     }).format(value);
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('pt-BR', {
-      day: '2-digit',
-      month: '2-digit'
-    });
-  };
-
   const handleLeadClick = (lead: Lead) => {
     // Navigate to individual lead page instead of modal
     navigate(`/lead/${lead.id}`);
   };
 
-  const handleLeadsUpdate = (updatedLeads: Lead[]) => {
-    setLeads(updatedLeads);
-  };
-
-  const allLeads = leads;
+  const listBucket = buckets[ALL_STAGES];
 
   return (
     <div className="h-full bg-gradient-to-br from-slate-50 via-white to-blue-50/30 min-h-screen">
@@ -252,6 +356,21 @@ export const KanbanBoard: React.FC = () => {
                 </div>
               </div>
               <div className="flex items-center space-x-3">
+                {/* Pipeline Switcher */}
+                {pipelines.length > 0 && (
+                  <Select value={currentPipeline?.id} onValueChange={setSelectedPipelineId}>
+                    <SelectTrigger className="w-48 bg-white/80">
+                      <SelectValue placeholder="Selecionar pipeline" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pipelines.map((pipeline) => (
+                        <SelectItem key={pipeline.id} value={pipeline.id}>
+                          {pipeline.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 {/* View Mode Toggle */}
                 <div className="flex items-center bg-white/80 rounded-lg border border-slate-200 p-1">
                   <Button
@@ -273,12 +392,45 @@ export const KanbanBoard: React.FC = () => {
                     Lista
                   </Button>
                 </div>
-                {user?.role !== 'master' && (
-                  <div className="flex items-center text-sm text-amber-700 bg-amber-100/80 px-4 py-2 rounded-full border border-amber-200">
-                    <AlertCircle className="w-4 h-4 mr-2" />
-                    Visualização limitada - apenas admins editam
-                  </div>
+                {/* Swimlanes */}
+                {viewMode === 'kanban' && (
+                  <Select value={activeGrouping} onValueChange={(value) => setGrouping(value as KanbanGrouping)}>
+                    <SelectTrigger className="w-48 bg-white/80" title="Agrupar em raias">
+                      <Rows3 className="w-4 h-4 mr-2 shrink-0" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(groupingLabels) as (keyof typeof groupingLabels)[]).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {groupingLabels[option]}
+                        </SelectItem>
+                      ))}
+                      {groupableFields.map((field) => (
+                        <SelectItem key={field.key} value={toCustomFieldGrouping(field.key)}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDuplicatesOpen(true)}
+                  className="bg-white/80"
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicados
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setImportOpen(true)}
+                  className="bg-white/80"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Importar
+                </Button>
               </div>
             </div>
             <Button 
@@ -289,39 +441,68 @@ export const KanbanBoard: React.FC = () => {
               Novo Lead
             </Button>
           </div>
+          <div className="mt-4">
+            <LeadFiltersBar
+              filters={filters}
+              sort={sort}
+              onChange={handleFiltersChange}
+              stages={stages}
+              pipelineId={currentPipeline?.id}
+            />
+          </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-6 py-8">
-        {viewMode === 'kanban' ? (
+        {viewMode === 'kanban' && activeGrouping !== 'none' ? (
+          <DragDropContext onDragEnd={onDragEnd}>
+            <KanbanSwimlanes
+              columns={columns}
+              lanes={lanes}
+              grouping={activeGrouping}
+              totals={totals}
+              laneTotals={laneTotals}
+              buckets={buckets}
+              onLoadMore={loadMore}
+              onLeadClick={handleLeadClick}
+              canDragLead={canDragLead}
+            />
+          </DragDropContext>
+        ) : viewMode === 'kanban' ? (
           <DragDropContext onDragEnd={onDragEnd}>
             <div className="flex space-x-6 overflow-x-auto pb-6">
               {columns.map((column) => {
-                const IconComponent = getColumnIcon(column.id);
-                const totalValue = column.leads?.reduce((sum, lead) => sum + (lead.value || 0), 0) || 0;
+                const IconComponent = getColumnIcon(column);
+                const columnTotals = totals[column.id] || { count: 0, value: 0 };
                 
                 return (
                   <div key={column.id} className="flex-shrink-0 w-80">
-                    <div className={`rounded-2xl border-2 ${getColumnColor(column.id)} p-6 h-full shadow-lg backdrop-blur-sm transition-all duration-200 hover:shadow-xl`}>
+                    <div
+                      className="rounded-2xl border-2 p-6 h-full shadow-lg backdrop-blur-sm transition-all duration-200 hover:shadow-xl"
+                      style={getStageColumnStyle(column.color)}
+                    >
                       <div className="flex items-center justify-between mb-6">
                         <div className="flex items-center space-x-3">
-                          <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${getBadgeColor(column.id)} border-2`}>
+                          <div
+                            className="w-10 h-10 rounded-xl flex items-center justify-center font-semibold border-2"
+                            style={getStageBadgeStyle(column.color)}
+                          >
                             <IconComponent className="w-5 h-5" />
                           </div>
                           <div>
                             <h3 className="font-bold text-lg text-slate-800">
                               {column.title}
                             </h3>
-                            {totalValue > 0 && (
+                            {columnTotals.value > 0 && (
                               <p className="text-sm font-semibold text-slate-600">
-                                {formatCurrency(totalValue)}
+                                {formatCurrency(columnTotals.value)}
                               </p>
                             )}
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
-                          <Badge variant="outline" className={`${getBadgeColor(column.id)} px-3 py-1 text-sm`}>
-                            {column.leads?.length || 0}
+                          <Badge variant="outline" className="px-3 py-1 text-sm font-semibold" style={getStageBadgeStyle(column.color)}>
+                            {columnTotals.count}
                           </Badge>
                           {user?.role === 'master' && (
                             <Button variant="ghost" size="sm" className="hover:bg-white/60 rounded-xl p-2">
@@ -331,123 +512,15 @@ export const KanbanBoard: React.FC = () => {
                         </div>
                       </div>
 
-                      <Droppable droppableId={column.id}>
-                        {(provided, snapshot) => (
-                            <div
-                              {...provided.droppableProps}
-                              ref={provided.innerRef}
-                              className={`space-y-4 min-h-[400px] transition-all duration-300 ease-in-out ${
-                                snapshot.isDraggingOver && user?.role === 'master' 
-                                  ? 'bg-white/60 rounded-xl ring-2 ring-primary/40 shadow-inner transform scale-[1.02]' 
-                                  : ''
-                              }`}
-                            >
-                            {column.leads?.map((lead, index) => (
-                              <Draggable 
-                                key={lead.id} 
-                                draggableId={lead.id} 
-                                index={index} 
-                                isDragDisabled={user?.role !== 'master'}
-                              >
-                                {(provided, snapshot) => (
-                                  <Card
-                                    ref={provided.innerRef}
-                                    {...provided.draggableProps}
-                                    {...provided.dragHandleProps}
-                                    onClick={() => handleLeadClick(lead)}
-                                    className={`${user?.role === 'master' ? 'cursor-move' : 'cursor-pointer'} 
-                                      hover:shadow-xl transition-all duration-300 ease-out border-0 
-                                      bg-white/95 backdrop-blur-sm shadow-md hover:shadow-2xl
-                                      ${snapshot.isDragging ? 'shadow-2xl rotate-1 scale-105 ring-2 ring-primary/30 z-50' : 'hover:scale-[1.02]'} 
-                                      ${user?.role !== 'master' ? 'opacity-90' : ''}
-                                      rounded-xl overflow-hidden group transform-gpu`}
-                                  >
-                                    <CardContent className="p-4">
-                                      <div className="space-y-3">
-                                         {/* Name and Value */}
-                                         <div className="flex items-center justify-between">
-                                           <h3 className="font-bold text-lg text-slate-800 group-hover:text-primary transition-colors line-clamp-1 flex-1">
-                                             {lead.name}
-                                           </h3>
-                                           {lead.value && (
-                                             <span className="text-sm font-semibold text-green-600 ml-2">
-                                               {formatCurrency(lead.value)}
-                                             </span>
-                                           )}
-                                         </div>
-
-                                         {/* Company */}
-                                         {lead.company && (
-                                           <p className="text-sm text-slate-600 font-medium">
-                                             {lead.company}
-                                           </p>
-                                         )}
-                                         
-                                         {/* Tags */}
-                                         {lead.tags.length > 0 && (
-                                           <div className="flex flex-wrap gap-1.5 mt-2">
-                                             {lead.tags.slice(0, 2).map((tag) => (
-                                               <Badge 
-                                                 key={tag} 
-                                                 variant="secondary" 
-                                                 className="text-xs px-2 py-0.5 bg-primary/10 text-primary border border-primary/20 rounded-full font-medium"
-                                               >
-                                                 {tag}
-                                               </Badge>
-                                             ))}
-                                             {lead.tags.length > 2 && (
-                                               <Badge variant="outline" className="text-xs px-2 py-0.5 border-primary/30 text-primary/70 rounded-full">
-                                                 +{lead.tags.length - 2}
-                                               </Badge>
-                                             )}
-                                           </div>
-                                         )}
-
-                                         {/* Bottom info */}
-                                         <div className="flex items-center justify-between pt-2 border-t border-slate-200/60">
-                                           <div className="flex items-center space-x-2">
-                                             <span className="text-xs text-slate-600 font-medium">
-                                               {formatDate(lead.created_at)}
-                                             </span>
-                                           </div>
-                                           <div className="flex items-center space-x-2">
-                                             <span className="text-xs text-slate-500 font-medium">
-                                               {(() => {
-                                                 const assignedUser = allAssignableUsers.find(u => u.user_id === lead.assigned_to);
-                                                 return assignedUser ? assignedUser.name : 'Não atribuído';
-                                               })()}
-                                             </span>
-                                             <Avatar className="w-6 h-6 border-2 border-white shadow-sm">
-                                               <AvatarFallback className="text-xs bg-gradient-to-br from-primary to-primary-dark text-white font-bold">
-                                                 {(() => {
-                                                   const assignedUser = allAssignableUsers.find(u => u.user_id === lead.assigned_to);
-                                                   return assignedUser ? assignedUser.name.split(' ').map(n => n[0]).join('').substring(0, 2).toUpperCase() : '?';
-                                                 })()}
-                                               </AvatarFallback>
-                                             </Avatar>
-                                           </div>
-                                         </div>
-                                      </div>
-                                    </CardContent>
-                                  </Card>
-                                )}
-                              </Draggable>
-                            ))}
-                            {provided.placeholder}
-                            
-                            {/* Empty state */}
-                            {(!column.leads || column.leads.length === 0) && (
-                              <div className="flex flex-col items-center justify-center py-12 text-center">
-                                <div className="w-16 h-16 rounded-full bg-slate-100 flex items-center justify-center mb-4">
-                                  <IconComponent className="w-8 h-8 text-slate-400" />
-                                </div>
-                                <p className="text-sm text-slate-500 font-medium">Nenhum lead aqui</p>
-                                <p className="text-xs text-slate-400">Arraste leads para esta etapa</p>
-                              </div>
-                            )}
-                          </div>
-                        )}
-                      </Droppable>
+                      <KanbanColumnCards
+                        column={column}
+                        icon={IconComponent}
+                        hasMore={!!buckets[column.id]?.hasMore}
+                        loadingMore={!!buckets[column.id]?.loading}
+                        onLoadMore={() => loadMore(column.id)}
+                        onLeadClick={handleLeadClick}
+                        canDragLead={canDragLead}
+                      />
                     </div>
                   </div>
                 );
@@ -456,9 +529,15 @@ export const KanbanBoard: React.FC = () => {
           </DragDropContext>
         ) : (
           <LeadListView 
-            leads={allLeads}
+            leads={listBucket?.leads || []}
+            totalCount={Object.values(totals).reduce((sum, total) => sum + total.count, 0)}
+            hasMore={!!listBucket?.hasMore}
+            loadingMore={!!listBucket?.loading}
+            onLoadMore={() => loadMore(ALL_STAGES)}
+            exportQuery={currentPipeline ? { pipelineId: currentPipeline.id, filters, sort } : undefined}
             onLeadClick={handleLeadClick}
-            onLeadsUpdate={handleLeadsUpdate}
+            onLeadsMerged={refetch}
+            stages={stages}
           />
         )}
       </div>
@@ -467,7 +546,66 @@ export const KanbanBoard: React.FC = () => {
       <NewLeadModal 
         open={newLeadModalOpen} 
         onOpenChange={setNewLeadModalOpen}
-        onLeadCreated={fetchLeads}
+        onLeadCreated={refetch}
+        pipelineId={currentPipeline?.id}
+      />
+
+      {/* Duplicate Leads */}
+      <DuplicateLeadsDialog
+        open={duplicatesOpen}
+        onOpenChange={setDuplicatesOpen}
+        onMerged={refetch}
+      />
+
+      {/* Import Leads */}
+      <ImportLeadsDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        pipelineId={currentPipeline?.id}
+        onImported={refetch}
+      />
+
+      {/* Lead-to-Sale Conversion */}
+      <ConvertLeadDialog
+        lead={convertingLead}
+        open={!!convertingLead}
+        onOpenChange={(open) => !open && setConvertingLead(null)}
+      />
+
+      {/* Stage Entry Requirements */}
+      <StageRequirementsDialog
+        lead={requirementsLead}
+        stage={stages.find(stage => stage.key === pendingRequirements?.status)}
+        open={!!pendingRequirements}
+        onOpenChange={(open) => !open && setPendingRequirements(null)}
+        onConfirm={async (changes) => {
+          if (!pendingRequirements) return;
+          setPendingRequirements(null);
+          await continueMove({ ...pendingRequirements, changes: { ...pendingRequirements.changes, ...changes } });
+        }}
+      />
+
+      {/* Lost Reason */}
+      <MarkLeadLostDialog
+        leadName={pendingLoss?.lead.name}
+        stageName={columns.find(c => c.id === pendingLoss?.status)?.title}
+        open={!!pendingLoss}
+        onOpenChange={(open) => !open && setPendingLoss(null)}
+        onConfirm={async (loss) => {
+          if (pendingLoss) await performMove(pendingLoss.lead, pendingLoss.status, { ...pendingLoss.changes, ...loss });
+        }}
+      />
+
+      {/* Reopen Lost Lead */}
+      <ReopenLeadDialog
+        leadName={pendingReopen?.lead.name}
+        stages={stages.filter(stage => stage.key === pendingReopen?.status)}
+        defaultStatus={pendingReopen?.status}
+        open={!!pendingReopen}
+        onOpenChange={(open) => !open && setPendingReopen(null)}
+        onConfirm={async (status, justification) => {
+          if (pendingReopen) await performMove(pendingReopen.lead, status, { ...pendingReopen.changes, reopen_justification: justification });
+        }}
       />
 
       {/* Lead Detail Modal */}
@@ -0,0 +1,281 @@
+import React, { useEffect, useRef } from 'react';
+import { Droppable, Draggable, DraggableProvided, DraggableStateSnapshot } from '@hello-pangea/dnd';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Gauge, Hourglass, Loader2, LucideIcon } from 'lucide-react';
+import { KanbanColumn, Lead } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { getScoreTier, scoreTierStyles } from '@/lib/scoring';
+import { formatTaskDue, getTaskDueStatus, taskDueStyles, taskTypeIcons } from '@/lib/tasks';
+import { formatStageAge, isLeadRotting } from '@/lib/stageAging';
+
+interface KanbanColumnCardsProps {
+  column: KanbanColumn;
+  icon: LucideIcon;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  onLeadClick: (lead: Lead) => void;
+  canDragLead: (lead: Lead) => boolean;
+}
+
+interface LeadCardProps {
+  lead: Lead;
+  provided: DraggableProvided;
+  snapshot: DraggableStateSnapshot;
+  draggable: boolean;
+  rottingDays: number | null;
+  onClick: () => void;
+}
+
+// Altura estimada de um card + espaçamento, refinada pela medição real de cada item
+const ESTIMATED_CARD_HEIGHT = 170;
+// Quantos cards antes do fim da lista disparam a próxima página
+const LOAD_MORE_THRESHOLD = 5;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(value);
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit'
+  });
+};
+
+export const LeadCard: React.FC<LeadCardProps> = ({ lead, provided, snapshot, draggable, rottingDays, onClick }) => {
+  const { allAssignableUsers } = useAuth();
+  const assignedUser = allAssignableUsers.find(u => u.user_id === lead.assigned_to);
+  const NextTaskIcon = lead.next_task_type ? taskTypeIcons[lead.next_task_type] : null;
+  const rotting = isLeadRotting(lead, rottingDays);
+
+  return (
+    <Card
+      ref={provided.innerRef}
+      {...provided.draggableProps}
+      {...provided.dragHandleProps}
+      onClick={onClick}
+      className={`${draggable ? 'cursor-move' : 'cursor-pointer'}
+        hover:shadow-xl transition-all duration-300 ease-out border-0
+        bg-white/95 backdrop-blur-sm shadow-md hover:shadow-2xl
+        ${snapshot.isDragging ? 'shadow-2xl rotate-1 scale-105 ring-2 ring-primary/30 z-50' : 'hover:scale-[1.02]'}
+        ${!draggable ? 'opacity-90' : ''}
+        ${rotting && !snapshot.isDragging ? 'ring-2 ring-red-400/70' : ''}
+        rounded-xl overflow-hidden group transform-gpu`}
+    >
+      <CardContent className="p-4">
+        <div className="space-y-3">
+          {/* Name and Value */}
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-lg text-slate-800 group-hover:text-primary transition-colors line-clamp-1 flex-1">
+              {lead.name}
+            </h3>
+            {lead.value && (
+              <span className="text-sm font-semibold text-green-600 ml-2">
+                {formatCurrency(lead.value)}
+              </span>
+            )}
+          </div>
+
+          {/* Company */}
+          {lead.company && (
+            <p className="text-sm text-slate-600 font-medium">
+              {lead.company}
+            </p>
+          )}
+
+          {/* Tags */}
+          {lead.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {lead.tags.slice(0, 2).map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="secondary"
+                  className="text-xs px-2 py-0.5 bg-primary/10 text-primary border border-primary/20 rounded-full font-medium"
+                >
+                  {tag}
+                </Badge>
+              ))}
+              {lead.tags.length > 2 && (
+                <Badge variant="outline" className="text-xs px-2 py-0.5 border-primary/30 text-primary/70 rounded-full">
+                  +{lead.tags.length - 2}
+                </Badge>
+              )}
+            </div>
+          )}
+
+          {/* Next action */}
+          {lead.next_task_at && NextTaskIcon && (
+            <div
+              className={`flex items-center space-x-1.5 text-xs font-medium ${taskDueStyles[getTaskDueStatus(lead.next_task_at)]}`}
+              title="Próxima tarefa"
+            >
+              <NextTaskIcon className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{lead.next_task_title}</span>
+              <span className="shrink-0">· {formatTaskDue(lead.next_task_at)}</span>
+            </div>
+          )}
+
+          {/* Bottom info */}
+          <div className="flex items-center justify-between pt-2 border-t border-slate-200/60">
+            <div className="flex items-center space-x-2">
+              <Badge
+                variant="outline"
+                className={`text-xs px-1.5 py-0 rounded-full font-semibold ${scoreTierStyles[getScoreTier(lead.score || 0)]}`}
+                title="Pontuação do lead"
+              >
+                <Gauge className="w-3 h-3 mr-1" />
+                {lead.score || 0}
+              </Badge>
+              <Badge
+                variant="outline"
+                className={`text-xs px-1.5 py-0 rounded-full font-semibold ${
+                  rotting ? 'bg-red-50 text-red-700 border-red-200' : 'text-slate-600 border-slate-200'
+                }`}
+                title={rotting ? `Parado há mais de ${rottingDays} dia(s) nesta etapa` : 'Tempo na etapa atual'}
+              >
+                <Hourglass className="w-3 h-3 mr-1" />
+                {formatStageAge(lead)}
+              </Badge>
+              <span className="text-xs text-slate-600 font-medium">
+                {formatDate(lead.created_at)}
+              </span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-slate-500 font-medium">
+                {assignedUser ? assignedUser.name : 'Não atribuído'}
+              </span>
+              <Avatar className="w-6 h-6 border-2 border-white shadow-sm">
+                <AvatarFallback className="text-xs bg-gradient-to-br from-primary to-primary-dark text-white font-bold">
+                  {assignedUser ? assignedUser.name.split(' ').map(n => n[0]).join('').substring(0, 2).toUpperCase() : '?'}
+                </AvatarFallback>
+              </Avatar>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Lista virtualizada de uma coluna: só os cards visíveis ficam no DOM e as páginas
+// seguintes são carregadas ao chegar perto do fim
+export const KanbanColumnCards: React.FC<KanbanColumnCardsProps> = ({
+  column,
+  icon: IconComponent,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  onLeadClick,
+  canDragLead
+}) => {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const leads = column.leads;
+
+  const virtualizer = useVirtualizer({
+    count: leads.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_CARD_HEIGHT,
+    getItemKey: (index) => leads[index].id,
+    overscan: 4,
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && lastVisibleIndex >= leads.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore();
+    }
+  }, [hasMore, loadingMore, lastVisibleIndex, leads.length, onLoadMore]);
+
+  return (
+    <Droppable
+      droppableId={column.id}
+      mode="virtual"
+      renderClone={(provided, snapshot, rubric) => (
+        <LeadCard
+          lead={leads[rubric.source.index]}
+          provided={provided}
+          snapshot={snapshot}
+          draggable
+          rottingDays={column.rottingDays}
+          onClick={() => onLeadClick(leads[rubric.source.index])}
+        />
+      )}
+    >
+      {(provided, snapshot) => (
+        <div
+          {...provided.droppableProps}
+          ref={(element) => {
+            provided.innerRef(element);
+            scrollRef.current = element;
+          }}
+          className={`h-[calc(100vh-22rem)] min-h-[400px] overflow-y-auto transition-all duration-300 ease-in-out ${
+            snapshot.isDraggingOver
+              ? 'bg-white/60 rounded-xl ring-2 ring-primary/40 shadow-inner'
+              : ''
+          }`}
+        >
+          <div
+            className="relative w-full"
+            style={{ height: virtualizer.getTotalSize() + (snapshot.isUsingPlaceholder ? ESTIMATED_CARD_HEIGHT : 0) }}
+          >
+            {virtualItems.map((item) => {
+              const lead = leads[item.index];
+              return (
+                <div
+                  key={item.key}
+                  data-index={item.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute top-0 left-0 w-full pb-4"
+                  style={{ transform: `translateY(${item.start}px)` }}
+                >
+                  <Draggable
+                    draggableId={lead.id}
+                    index={item.index}
+                    isDragDisabled={!canDragLead(lead)}
+                  >
+                    {(provided, snapshot) => (
+                      <LeadCard
+                        lead={lead}
+                        provided={provided}
+                        snapshot={snapshot}
+                        draggable={canDragLead(lead)}
+                        rottingDays={column.rottingDays}
+                        onClick={() => onLeadClick(lead)}
+                      />
+                    )}
+                  </Draggable>
+                </div>
+              );
+            })}
+          </div>
+
+          {loadingMore && (
+            <div className="flex justify-center py-3">
+              <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+            </div>
+          )}
+
+          {/* Empty state */}
+          {leads.length === 0 && !snapshot.isUsingPlaceholder && (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="w-16 h-16 rounded-full bg-slate-100 flex items-center justify-center mb-4">
+                <IconComponent className="w-8 h-8 text-slate-400" />
+              </div>
+              <p className="text-sm text-slate-500 font-medium">Nenhum lead aqui</p>
+              <p className="text-xs text-slate-400">Arraste leads para esta etapa</p>
+            </div>
+          )}
+        </div>
+      )}
+    </Droppable>
+  );
+};
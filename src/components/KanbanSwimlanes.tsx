@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Droppable, Draggable } from '@hello-pangea/dnd';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { KanbanColumn, KanbanGrouping, Lead, LeadColumnTotals, LeadLaneTotals } from '@/types/crm';
+import { LeadBucket } from '@/hooks/useLeadBoard';
+import { getStageBadgeStyle, getStageColumnStyle } from '@/lib/pipeline';
+import { getLaneKey, KanbanLane, toLaneDroppableId } from '@/lib/swimlanes';
+import { LeadCard } from './KanbanColumnCards';
+
+interface KanbanSwimlanesProps {
+  columns: KanbanColumn[];
+  lanes: KanbanLane[];
+  grouping: KanbanGrouping;
+  totals: Record<string, LeadColumnTotals>;
+  laneTotals: LeadLaneTotals;
+  buckets: Record<string, LeadBucket>;
+  onLoadMore: (status: string) => void;
+  onLeadClick: (lead: Lead) => void;
+  canDragLead: (lead: Lead) => boolean;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// Quadro dividido em raias: cada raia repete as etapas e cada célula é um destino de arraste.
+// As páginas continuam sendo por etapa, então "Carregar mais" traz leads de todas as raias da etapa
+export const KanbanSwimlanes: React.FC<KanbanSwimlanesProps> = ({
+  columns,
+  lanes,
+  grouping,
+  totals,
+  laneTotals,
+  buckets,
+  onLoadMore,
+  onLeadClick,
+  canDragLead
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggleLane = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const leadsByCell = new Map<string, Lead[]>();
+  columns.forEach(column => {
+    column.leads.forEach(lead => {
+      const cellId = toLaneDroppableId(column.id, getLaneKey(lead, grouping));
+      leadsByCell.set(cellId, [...(leadsByCell.get(cellId) || []), lead]);
+    });
+  });
+
+  return (
+    <div className="overflow-x-auto pb-6">
+      <div className="inline-block min-w-full space-y-4">
+        {grouping === 'tag' && (
+          <p className="pl-4 text-xs text-slate-500">
+            Leads com várias tags aparecem só na raia da primeira tag; arrastar para outra raia troca a primeira tag.
+          </p>
+        )}
+
+        {/* Stage headers */}
+        <div className="flex space-x-4 pl-4">
+          {columns.map((column) => (
+            <div key={column.id} className="w-72 flex-shrink-0 flex items-center justify-between">
+              <span className="font-bold text-slate-800 truncate">{column.title}</span>
+              <Badge variant="outline" className="px-2 py-0.5 text-xs font-semibold" style={getStageBadgeStyle(column.color)}>
+                {totals[column.id]?.count || 0}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {lanes.map((lane) => {
+          const isCollapsed = collapsed.has(lane.key);
+          return (
+            <div key={lane.key} className="rounded-2xl border border-slate-200 bg-white/70 shadow-sm">
+              <button
+                type="button"
+                onClick={() => toggleLane(lane.key)}
+                className="flex items-center w-full px-4 py-3 space-x-3 text-left hover:bg-slate-50/80 rounded-2xl"
+              >
+                {isCollapsed ? (
+                  <ChevronRight className="w-4 h-4 text-slate-500" />
+                ) : (
+                  <ChevronDown className="w-4 h-4 text-slate-500" />
+                )}
+                <span className="font-semibold text-slate-800">{lane.label}</span>
+                <Badge variant="secondary" className="text-xs">{lane.totals.count}</Badge>
+                {lane.totals.value > 0 && (
+                  <span className="text-sm font-semibold text-slate-600">{formatCurrency(lane.totals.value)}</span>
+                )}
+              </button>
+
+              {!isCollapsed && (
+                <div className="flex space-x-4 px-4 pb-4">
+                  {columns.map((column) => {
+                    const cellId = toLaneDroppableId(column.id, lane.key);
+                    const leads = leadsByCell.get(cellId) || [];
+                    const bucket = buckets[column.id];
+                    const cellTotal = laneTotals[lane.key]?.[column.id]?.count || 0;
+
+                    return (
+                      <Droppable key={cellId} droppableId={cellId}>
+                        {(provided, snapshot) => (
+                          <div
+                            {...provided.droppableProps}
+                            ref={provided.innerRef}
+                            className={`w-72 flex-shrink-0 min-h-[96px] max-h-[28rem] overflow-y-auto rounded-xl border p-2 space-y-3 transition-all ${
+                              snapshot.isDraggingOver ? 'ring-2 ring-primary/40 shadow-inner' : ''
+                            }`}
+                            style={getStageColumnStyle(column.color)}
+                          >
+                            {leads.map((lead, index) => (
+                              <Draggable
+                                key={lead.id}
+                                draggableId={lead.id}
+                                index={index}
+                                isDragDisabled={!canDragLead(lead)}
+                              >
+                                {(dragProvided, dragSnapshot) => (
+                                  <LeadCard
+                                    lead={lead}
+                                    provided={dragProvided}
+                                    snapshot={dragSnapshot}
+                                    draggable={canDragLead(lead)}
+                                    rottingDays={column.rottingDays}
+                                    onClick={() => onLeadClick(lead)}
+                                  />
+                                )}
+                              </Draggable>
+                            ))}
+                            {provided.placeholder}
+
+                            {bucket?.hasMore && leads.length < cellTotal && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="w-full text-xs text-slate-600"
+                                disabled={bucket.loading}
+                                onClick={() => onLoadMore(column.id)}
+                              >
+                                {bucket.loading ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  `Carregar mais (${cellTotal - leads.length})`
+                                )}
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </Droppable>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
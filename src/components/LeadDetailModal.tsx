@@ -17,6 +17,8 @@ import {
 } from 'lucide-react';
 import { Lead } from '@/types/crm';
 import { useAuth } from './AuthWrapper';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { getStageBadgeStyle } from '@/lib/pipeline';
 
 interface LeadDetailModalProps {
   lead: Lead | null;
@@ -32,6 +34,7 @@ export const LeadDetailModal: React.FC<LeadDetailModalProps> = ({
   onEdit 
 }) => {
   const { allAssignableUsers } = useAuth();
+  const { getStage } = usePipelineStages();
   
   if (!lead) return null;
 
@@ -52,30 +55,6 @@ export const LeadDetailModal: React.FC<LeadDetailModalProps> = ({
     });
   };
 
-  const getStatusColor = (status: string) => {
-    const colors = {
-      new: 'bg-blue-100 text-blue-700 border-blue-200',
-      contacted: 'bg-orange-100 text-orange-700 border-orange-200',
-      qualified: 'bg-purple-100 text-purple-700 border-purple-200',
-      proposal: 'bg-indigo-100 text-indigo-700 border-indigo-200',
-      won: 'bg-green-100 text-green-700 border-green-200',
-      lost: 'bg-red-100 text-red-700 border-red-200',
-    };
-    return colors[status as keyof typeof colors] || 'bg-muted text-muted-foreground';
-  };
-
-  const getStatusText = (status: string) => {
-    const texts = {
-      new: 'Novo Lead',
-      contacted: 'Contatado',
-      qualified: 'Qualificado',
-      proposal: 'Proposta',
-      won: 'Fechado',
-      lost: 'Perdido',
-    };
-    return texts[status as keyof typeof texts] || status;
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
@@ -101,8 +80,11 @@ export const LeadDetailModal: React.FC<LeadDetailModalProps> = ({
         <div className="space-y-6">
           {/* Status */}
           <div className="flex items-center justify-between">
-            <Badge className={`${getStatusColor(lead.status)} font-semibold px-3 py-1 border`}>
-              {getStatusText(lead.status)}
+            <Badge
+              className="font-semibold px-3 py-1 border"
+              style={getStageBadgeStyle(getStage(lead.status, lead.pipeline_id)?.color || '#6B7280')}
+            >
+              {getStage(lead.status, lead.pipeline_id)?.name || lead.status}
             </Badge>
             <div className="flex items-center space-x-2">
               <User className="w-4 h-4 text-muted-foreground" />
@@ -0,0 +1,461 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Search, Filter, ArrowUpDown, Bookmark, Trash2, X, Users } from 'lucide-react';
+import {
+  CustomFieldDefinition,
+  CustomFieldFilter,
+  LeadFilterOptions,
+  LeadFilters,
+  LeadSort,
+  LeadSortField,
+  PipelineStage,
+  SavedView
+} from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { SavedViewService } from '@/services/savedViewService';
+import { LeadService } from '@/services/leadService';
+import { countActiveFilters, sortFieldLabels } from '@/lib/leadFilters';
+import { cleanCustomFieldFilters } from '@/lib/customFields';
+
+interface LeadFiltersBarProps {
+  filters: LeadFilters;
+  sort: LeadSort;
+  onChange: (filters: LeadFilters, sort: LeadSort) => void;
+  stages: PipelineStage[];
+  pipelineId?: string;
+}
+
+interface CheckListProps {
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const CheckList: React.FC<CheckListProps> = ({ options, selected, onChange }) => (
+  <div className="max-h-32 overflow-y-auto space-y-1 pr-1">
+    {options.length === 0 && <p className="text-xs text-muted-foreground">Nenhuma opção</p>}
+    {options.map((option) => (
+      <Label key={option.value} className="flex items-center space-x-2 font-normal text-sm">
+        <Checkbox
+          checked={selected.includes(option.value)}
+          onCheckedChange={(checked) => onChange(
+            checked ? [...selected, option.value] : selected.filter(value => value !== option.value)
+          )}
+        />
+        <span className="truncate">{option.label}</span>
+      </Label>
+    ))}
+  </div>
+);
+
+export const LeadFiltersBar: React.FC<LeadFiltersBarProps> = ({
+  filters,
+  sort,
+  onChange,
+  stages,
+  pipelineId
+}) => {
+  const { user, accountId, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const { views, refetch: refetchViews } = useSavedViews();
+  const { fields: customFields } = useCustomFields();
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [viewShared, setViewShared] = useState(false);
+  const [options, setOptions] = useState<LeadFilterOptions>({ sources: [], tags: [] });
+
+  const activeCount = countActiveFilters({ ...filters, search: undefined });
+
+  // Fontes e tags vêm do servidor, já que nem todos os leads estão carregados
+  const fetchOptions = useCallback(async () => {
+    if (!pipelineId) return;
+    setOptions(await LeadService.getFilterOptions(pipelineId));
+  }, [pipelineId]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, [fetchOptions]);
+
+  const sourceOptions = options.sources.map(source => ({ value: source, label: source }));
+  const tagOptions = options.tags.map(tag => ({ value: tag, label: tag }));
+
+  const setFilter = <K extends keyof LeadFilters>(key: K, value: LeadFilters[K]) => {
+    const next = { ...filters, [key]: value };
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    }
+    onChange(next, sort);
+  };
+
+  const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  const setCustomFilter = (key: string, patch: CustomFieldFilter) => {
+    const current = filters.customFields || {};
+    setFilter('customFields', cleanCustomFieldFilters({ ...current, [key]: { ...current[key], ...patch } }));
+  };
+
+  // Controle de filtro conforme o tipo do campo personalizado
+  const renderCustomFilter = (field: CustomFieldDefinition) => {
+    const condition = filters.customFields?.[field.key] || {};
+
+    switch (field.type) {
+      case 'number':
+      case 'date':
+        return (
+          <div className="flex items-center space-x-2">
+            <Input
+              type={field.type}
+              value={condition.min || ''}
+              onChange={(e) => setCustomFilter(field.key, { min: e.target.value || undefined })}
+              placeholder="Mín."
+              className="h-8"
+            />
+            <Input
+              type={field.type}
+              value={condition.max || ''}
+              onChange={(e) => setCustomFilter(field.key, { max: e.target.value || undefined })}
+              placeholder="Máx."
+              className="h-8"
+            />
+          </div>
+        );
+      case 'boolean':
+        return (
+          <CheckList
+            options={[{ value: 'true', label: 'Sim' }, { value: 'false', label: 'Não' }]}
+            selected={condition.values || []}
+            onChange={(values) => setCustomFilter(field.key, { values })}
+          />
+        );
+      case 'select':
+      case 'multi_select':
+        return (
+          <CheckList
+            options={field.options.map(option => ({ value: option, label: option }))}
+            selected={condition.values || []}
+            onChange={(values) => setCustomFilter(field.key, { values })}
+          />
+        );
+      default:
+        return (
+          <Input
+            value={condition.text || ''}
+            onChange={(e) => setCustomFilter(field.key, { text: e.target.value || undefined })}
+            placeholder="Contém..."
+            className="h-8"
+          />
+        );
+    }
+  };
+
+  const personalViews = views.filter(view => view.user_id === user?.user_id && !view.is_shared);
+  const sharedViews = views.filter(view => view.is_shared);
+
+  const saveView = async () => {
+    if (!viewName.trim() || !accountId || !user) return;
+
+    try {
+      await SavedViewService.createView(accountId, user.user_id, {
+        name: viewName.trim(),
+        filters,
+        sort,
+        is_shared: viewShared,
+      });
+      await refetchViews();
+      setSaveDialogOpen(false);
+      setViewName('');
+      setViewShared(false);
+      toast({
+        title: "Visão salva",
+        description: viewShared ? "A visão está disponível para toda a equipe" : "A visão foi salva para você",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar visão",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteView = async (view: SavedView) => {
+    try {
+      await SavedViewService.deleteView(view.id);
+      await refetchViews();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao remover visão",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem
+      key={view.id}
+      onClick={() => onChange(view.filters || {}, view.sort || sort)}
+      className="flex items-center justify-between"
+    >
+      <span className="truncate">{view.name}</span>
+      {(view.user_id === user?.user_id || user?.role === 'master') && (
+        <button
+          type="button"
+          className="ml-2 text-muted-foreground hover:text-destructive"
+          onClick={(e) => {
+            e.stopPropagation();
+            deleteView(view);
+          }}
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={filters.search || ''}
+          onChange={(e) => setFilter('search', e.target.value)}
+          placeholder="Buscar leads..."
+          className="pl-9 w-64 bg-white/80"
+        />
+      </div>
+
+      <Popover onOpenChange={(open) => open && fetchOptions()}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="bg-white/80">
+            <Filter className="w-4 h-4 mr-2" />
+            Filtros
+            {activeCount > 0 && <Badge className="ml-2 h-5 px-1.5">{activeCount}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[560px] max-h-[80vh] overflow-y-auto" align="start">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Etapa</Label>
+              <CheckList
+                options={stages.map(stage => ({ value: stage.key, label: stage.name }))}
+                selected={filters.statuses || []}
+                onChange={(value) => setFilter('statuses', value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Responsável</Label>
+              <CheckList
+                options={allAssignableUsers.map(u => ({ value: u.user_id, label: u.name }))}
+                selected={filters.assignees || []}
+                onChange={(value) => setFilter('assignees', value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Fonte</Label>
+              <CheckList
+                options={sourceOptions}
+                selected={filters.sources || []}
+                onChange={(value) => setFilter('sources', value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Tags (qualquer uma)</Label>
+              <CheckList
+                options={tagOptions}
+                selected={filters.tags || []}
+                onChange={(value) => setFilter('tags', value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Empresa</Label>
+              <Input
+                value={filters.company || ''}
+                onChange={(e) => setFilter('company', e.target.value)}
+                placeholder="Contém..."
+                className="h-8"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Valor (R$)</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="number"
+                  value={filters.valueMin ?? ''}
+                  onChange={(e) => setFilter('valueMin', parseNumber(e.target.value))}
+                  placeholder="Mín."
+                  className="h-8"
+                />
+                <Input
+                  type="number"
+                  value={filters.valueMax ?? ''}
+                  onChange={(e) => setFilter('valueMax', parseNumber(e.target.value))}
+                  placeholder="Máx."
+                  className="h-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Criado entre</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="date"
+                  value={filters.createdFrom || ''}
+                  onChange={(e) => setFilter('createdFrom', e.target.value)}
+                  className="h-8"
+                />
+                <Input
+                  type="date"
+                  value={filters.createdTo || ''}
+                  onChange={(e) => setFilter('createdTo', e.target.value)}
+                  className="h-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs font-semibold">Atualizado entre</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="date"
+                  value={filters.updatedFrom || ''}
+                  onChange={(e) => setFilter('updatedFrom', e.target.value)}
+                  className="h-8"
+                />
+                <Input
+                  type="date"
+                  value={filters.updatedTo || ''}
+                  onChange={(e) => setFilter('updatedTo', e.target.value)}
+                  className="h-8"
+                />
+              </div>
+            </div>
+          </div>
+          {customFields.length > 0 && (
+            <div className="grid grid-cols-2 gap-4 pt-3 mt-3 border-t border-border">
+              {customFields.map((field) => (
+                <div key={field.id} className="space-y-1">
+                  <Label className="text-xs font-semibold">{field.label}</Label>
+                  {renderCustomFilter(field)}
+                </div>
+              ))}
+            </div>
+          )}
+          {activeCount > 0 && (
+            <div className="flex justify-end pt-3 mt-3 border-t border-border">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(filters.search ? { search: filters.search } : {}, sort)}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Limpar filtros
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <div className="flex items-center">
+        <Select
+          value={sort.field}
+          onValueChange={(value) => onChange(filters, { ...sort, field: value as LeadSortField })}
+        >
+          <SelectTrigger className="w-44 h-9 bg-white/80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(sortFieldLabels) as LeadSortField[]).map((field) => (
+              <SelectItem key={field} value={field}>{sortFieldLabels[field]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(filters, { ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+          title={sort.direction === 'asc' ? 'Crescente' : 'Decrescente'}
+        >
+          <ArrowUpDown className="w-4 h-4" />
+          <span className="ml-1 text-xs">{sort.direction === 'asc' ? 'Asc' : 'Desc'}</span>
+        </Button>
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="bg-white/80">
+            <Bookmark className="w-4 h-4 mr-2" />
+            Visões
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          {personalViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Minhas visões</DropdownMenuLabel>
+              {personalViews.map(renderViewItem)}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel className="flex items-center">
+                <Users className="w-3 h-3 mr-1" />
+                Compartilhadas
+              </DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onClick={() => setSaveDialogOpen(true)}>
+            Salvar visão atual...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Salvar Visão</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Nome</Label>
+              <Input
+                id="view-name"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="Ex.: Propostas acima de R$ 10 mil"
+                autoFocus
+              />
+            </div>
+            <Label className="flex items-center space-x-2 font-normal">
+              <Checkbox checked={viewShared} onCheckedChange={(checked) => setViewShared(checked as boolean)} />
+              <span>Compartilhar com a equipe</span>
+            </Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>Cancelar</Button>
+            <Button onClick={saveView} disabled={!viewName.trim()}>Salvar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,10 +1,19 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { 
   Phone, 
   Mail, 
@@ -13,27 +22,90 @@ import {
   Calendar,
   User,
   Users,
-  Send
+  Send,
+  GitMerge,
+  Download,
+  Loader2,
+  Gauge,
+  MoveRight,
+  MoreHorizontal,
+  Tag,
+  Tags,
+  Globe,
+  Trash2
 } from 'lucide-react';
-import { Lead } from '@/types/crm';
+import { BulkLeadChanges, BulkLeadFailure, Lead, LeadLoss, PipelineStage } from '@/types/crm';
+import { LeadPageQuery, LeadService } from '@/services/leadService';
 import { useAuth } from './AuthWrapper';
 import { useToast } from '@/hooks/use-toast';
+import { useUndoToast } from '@/hooks/useUndoToast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getStageBadgeStyle } from '@/lib/pipeline';
+import { getScoreTier, scoreTierStyles } from '@/lib/scoring';
+import { MergeLeadsDialog } from './MergeLeadsDialog';
+import { ExportLeadsDialog } from './ExportLeadsDialog';
+import { MarkLeadLostDialog } from './MarkLeadLostDialog';
+import { ReopenLeadDialog } from './ReopenLeadDialog';
+import { StageRequirementsDialog } from './StageRequirementsDialog';
+import { BulkLeadAction, BulkLeadActionDialog, BulkLeadActionInput } from './BulkLeadActionDialog';
+import { BulkActionReport, BulkActionReportDialog } from './BulkActionReportDialog';
+import { getMissingStageRequirements, hasMissingRequirements } from '@/lib/stageRequirements';
+import { BulkJob, runBulkJobs } from '@/lib/bulkActions';
+import { getRevertChanges, groupBulkRevert, RevertGroup } from '@/lib/undo';
+
+// Altura estimada de uma linha + espaçamento, refinada pela medição real
+const ESTIMATED_ROW_HEIGHT = 104;
+// Quantas linhas antes do fim disparam a próxima página
+const LOAD_MORE_THRESHOLD = 10;
+
+// Resposta do diálogo de requisitos durante a movimentação em lote
+type RequirementsAnswer = Partial<Lead> | 'skip' | 'cancel';
 
 interface LeadListViewProps {
   leads: Lead[];
+  totalCount: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  exportQuery?: Omit<LeadPageQuery, 'cursor' | 'limit'>;
   onLeadClick: (lead: Lead) => void;
-  onLeadsUpdate: (leads: Lead[]) => void;
+  onLeadsMerged?: () => void;
+  stages?: PipelineStage[]; // etapas do pipeline atual, para mover em lote
 }
 
 export const LeadListView: React.FC<LeadListViewProps> = ({ 
   leads, 
+  totalCount,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  exportQuery,
   onLeadClick, 
-  onLeadsUpdate 
+  onLeadsMerged,
+  stages = []
 }) => {
-  const { user, users } = useAuth();
+  const { user, allAssignableUsers } = useAuth();
   const { toast } = useToast();
+  const showUndoToast = useUndoToast();
+  const { getStage } = usePipelineStages();
+  const { can, canMoveLead } = usePermissions();
+  const isMaster = user?.role === 'master';
+  const canMove = can('move_own_leads') || can('move_any_lead');
   const [selectedLeads, setSelectedLeads] = useState<string[]>([]);
   const [assignToUser, setAssignToUser] = useState<string>('');
+  const [mergePair, setMergePair] = useState<[Lead, Lead] | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [moveToStage, setMoveToStage] = useState('');
+  const [bulkAction, setBulkAction] = useState<BulkLeadAction | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [bulkReport, setBulkReport] = useState<BulkActionReport | null>(null);
+  const isRunningBulk = !!bulkProgress;
+  // Perda/reabertura em lote pedem motivo ou justificativa uma vez só, para todos os leads
+  const [bulkMoveReason, setBulkMoveReason] = useState<'loss' | 'reopen' | null>(null);
+  const [requirementsPrompt, setRequirementsPrompt] = useState<{ lead: Lead; progress: string } | null>(null);
+  const requirementsResolver = useRef<(answer: RequirementsAnswer) => void>();
+  const scrollRef = useRef<HTMLDivElement>(null);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -49,29 +121,10 @@ export const LeadListView: React.FC<LeadListViewProps> = ({
     });
   };
 
-  const getStatusColor = (status: string) => {
-    const colors = {
-      new: 'bg-blue-100 text-blue-700 border-blue-200',
-      contacted: 'bg-orange-100 text-orange-700 border-orange-200',
-      qualified: 'bg-purple-100 text-purple-700 border-purple-200',
-      proposal: 'bg-indigo-100 text-indigo-700 border-indigo-200',
-      won: 'bg-green-100 text-green-700 border-green-200',
-      lost: 'bg-red-100 text-red-700 border-red-200',
-    };
-    return colors[status as keyof typeof colors] || 'bg-muted text-muted-foreground';
-  };
-
-  const getStatusText = (status: string) => {
-    const texts = {
-      new: 'Novo',
-      contacted: 'Contatado',
-      qualified: 'Qualificado',
-      proposal: 'Proposta',
-      won: 'Fechado',
-      lost: 'Perdido',
-    };
-    return texts[status as keyof typeof texts] || status;
-  };
+  // Filter leads based on user permissions
+  const visibleLeads = leads.filter(lead => 
+    isMaster || can('move_any_lead') || lead.assigned_to === user?.user_id
+  );
 
   const handleSelectLead = (leadId: string, checked: boolean) => {
     if (checked) {
@@ -83,13 +136,92 @@ export const LeadListView: React.FC<LeadListViewProps> = ({
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedLeads(leads.map(lead => lead.id));
+      setSelectedLeads(visibleLeads.map(lead => lead.id));
     } else {
       setSelectedLeads([]);
     }
   };
 
-  const handleAssignLeads = () => {
+  const getLeadName = (leadId: string) => leads.find(lead => lead.id === leadId)?.name || leadId;
+  const getStageKind = (status: string) => stages.find(stage => stage.key === status)?.kind;
+  // Leads como estavam antes da ação, para poder desfazê-la
+  const getPreviousLeads = (leadIds: string[]) => leads.filter(lead => leadIds.includes(lead.id));
+
+  const toRevertJobs = (groups: RevertGroup[]): BulkJob[] =>
+    groups.map(group => ({
+      leadIds: group.leadIds,
+      run: (chunk) => LeadService.bulkUpdateLeads(chunk, group.changes, group.tags),
+    }));
+
+  // Lote registrado no banco: os quadros abertos (inclusive este) ignoram os eventos de cada lead
+  // enquanto ele roda e recarregam uma única vez ao fim
+  const runTrackedJobs = async (label: string, jobs: BulkJob[]) => {
+    setBulkProgress({ label, done: 0, total: jobs.reduce((sum, job) => sum + job.leadIds.length, 0) });
+    const jobId = await LeadService.startBulkJob();
+    try {
+      return await runBulkJobs(jobs, (done, total) => setBulkProgress({ label, done, total }));
+    } finally {
+      if (jobId) await LeadService.finishBulkJob(jobId);
+    }
+  };
+
+  // Executa em blocos com barra de progresso; falhas abrem o relatório, sucesso total vira toast.
+  // Os dois oferecem desfazer o que foi gravado (`undo` recebe os leads que deram certo)
+  const runBulkAction = async (
+    title: string,
+    successDescription: (count: number) => string,
+    jobs: BulkJob[],
+    undo: (succeeded: string[]) => BulkJob[],
+    skipped: string[] = []
+  ) => {
+    const result = await runTrackedJobs(title, jobs);
+    setBulkProgress(null);
+
+    const onUndo = result.succeeded.length > 0
+      ? () => runUndo(title, undo(result.succeeded))
+      : undefined;
+
+    if (result.failures.length > 0 || skipped.length > 0) {
+      setBulkReport({
+        title,
+        succeeded: result.succeeded.length,
+        skipped: skipped.length,
+        failures: result.failures.map(failure => ({ name: getLeadName(failure.lead_id), error: failure.error })),
+        onUndo,
+      });
+    } else if (onUndo) {
+      showUndoToast({
+        title,
+        description: successDescription(result.succeeded.length),
+        onUndo,
+      });
+    }
+
+    setSelectedLeads([]);
+  };
+
+  // Reverte só o que foi gravado; o que não puder voltar aparece no relatório
+  const runUndo = async (title: string, jobs: BulkJob[]) => {
+    const label = `Desfazer: ${title}`;
+    const result = await runTrackedJobs(label, jobs);
+    setBulkProgress(null);
+
+    if (result.failures.length > 0) {
+      setBulkReport({
+        title: label,
+        succeeded: result.succeeded.length,
+        skipped: 0,
+        failures: result.failures.map(failure => ({ name: getLeadName(failure.lead_id), error: failure.error })),
+      });
+    } else {
+      toast({
+        title: "Ação desfeita",
+        description: `${result.succeeded.length} lead(s) voltaram ao estado anterior`,
+      });
+    }
+  };
+
+  const handleAssignLeads = async () => {
     if (!assignToUser || selectedLeads.length === 0) {
       toast({
         title: "Erro",
@@ -99,187 +231,479 @@ export const LeadListView: React.FC<LeadListViewProps> = ({
       return;
     }
 
-    const updatedLeads = leads.map(lead => 
-      selectedLeads.includes(lead.id) 
-        ? { ...lead, assigned_to: assignToUser, updated_at: new Date().toISOString() }
-        : lead
+    const assignedUser = allAssignableUsers.find(u => u.id === assignToUser);
+    const leadIds = selectedLeads.filter(id => leads.find(lead => lead.id === id)?.assigned_to !== assignToUser);
+
+    await runBulkAction(
+      "Leads delegados",
+      (count) => `${count} lead(s) atribuído(s) para ${assignedUser?.name}`,
+      [{ leadIds, run: (chunk) => LeadService.bulkUpdateLeads(chunk, { assigned_to: assignToUser }) }],
+      (succeeded) => toRevertJobs(groupBulkRevert(getPreviousLeads(succeeded), { assigned_to: assignToUser }, {}, getStageKind))
     );
+    setAssignToUser('');
+  };
+
+  const handleBulkAction = async (action: BulkLeadAction, input: BulkLeadActionInput) => {
+    const revertUpdate = (changes: BulkLeadChanges, tags: { add?: string[]; remove?: string[] } = {}) =>
+      (succeeded: string[]) => toRevertJobs(groupBulkRevert(getPreviousLeads(succeeded), changes, tags, getStageKind));
+
+    switch (action) {
+      case 'add_tags':
+        await runBulkAction(
+          "Tags adicionadas",
+          (count) => `${input.tags?.join(', ')} adicionada(s) em ${count} lead(s)`,
+          [{ leadIds: selectedLeads, run: (chunk) => LeadService.bulkUpdateLeads(chunk, {}, { add: input.tags }) }],
+          revertUpdate({}, { add: input.tags })
+        );
+        break;
+      case 'remove_tags':
+        await runBulkAction(
+          "Tags removidas",
+          (count) => `${input.tags?.join(', ')} removida(s) de ${count} lead(s)`,
+          [{ leadIds: selectedLeads, run: (chunk) => LeadService.bulkUpdateLeads(chunk, {}, { remove: input.tags }) }],
+          revertUpdate({}, { remove: input.tags })
+        );
+        break;
+      case 'source':
+        await runBulkAction(
+          "Fonte alterada",
+          (count) => `${count} lead(s) agora com a fonte ${input.source}`,
+          [{ leadIds: selectedLeads, run: (chunk) => LeadService.bulkUpdateLeads(chunk, { source: input.source }) }],
+          revertUpdate({ source: input.source })
+        );
+        break;
+      case 'delete':
+        await runBulkAction(
+          "Leads excluídos",
+          (count) => `${count} lead(s) movido(s) para a lixeira`,
+          [{ leadIds: selectedLeads, run: (chunk) => LeadService.bulkDeleteLeads(chunk) }],
+          (succeeded) => [{ leadIds: succeeded, run: (chunk) => LeadService.restoreLeads(chunk) }]
+        );
+        break;
+    }
+  };
+
+  const targetStage = stages.find(stage => stage.key === moveToStage);
+  const getLeadKind = (lead: Lead) => getStage(lead.status, lead.pipeline_id)?.kind;
+  // Entrando na perda ou saindo dela: recebe o motivo/justificativa informado para o lote
+  const changesStageKind = (lead: Lead) =>
+    targetStage?.kind === 'lost' ? getLeadKind(lead) !== 'lost' : getLeadKind(lead) === 'lost';
+
+  const getLeadsToMove = () =>
+    leads.filter(lead => selectedLeads.includes(lead.id) && lead.status !== targetStage?.key);
+
+  const handleMoveLeads = () => {
+    if (!targetStage || selectedLeads.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Selecione leads e uma etapa",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const leadsToMove = getLeadsToMove();
+    if (leadsToMove.length === 0) {
+      toast({
+        title: "Nada a mover",
+        description: `Os leads selecionados já estão em ${targetStage.name}`,
+      });
+      return;
+    }
 
-    onLeadsUpdate(updatedLeads);
-    
-    const assignedUser = users.find(u => u.id === assignToUser);
-    toast({
-      title: "Leads delegados",
-      description: `${selectedLeads.length} lead(s) atribuído(s) para ${assignedUser?.name}`,
+    if (leadsToMove.some(changesStageKind)) {
+      setBulkMoveReason(targetStage.kind === 'lost' ? 'loss' : 'reopen');
+      return;
+    }
+
+    runBulkMove({});
+  };
+
+  const askRequirements = (lead: Lead, progress: string) =>
+    new Promise<RequirementsAnswer>(resolve => {
+      requirementsResolver.current = resolve;
+      setRequirementsPrompt({ lead, progress });
     });
 
-    setSelectedLeads([]);
-    setAssignToUser('');
+  const answerRequirements = (answer: RequirementsAnswer) => {
+    requirementsResolver.current?.(answer);
+    requirementsResolver.current = undefined;
+    setRequirementsPrompt(null);
   };
 
-  const getMasterUsers = () => {
-    if (user?.role !== 'master') return [user!];
-    return [user, ...users]; // Inclui o admin atual + membros da equipe
+  // Primeiro resolve quem não cumpre as regras da etapa (diálogo de requisitos, um a um);
+  // depois grava tudo em lote: os completados no diálogo vão individualmente com seus dados
+  const runBulkMove = async (shared: Partial<Lead>) => {
+    if (!targetStage) return;
+
+    const leadsToMove = getLeadsToMove();
+    const skipped: string[] = [];
+    const denied: BulkLeadFailure[] = [];
+    const withSharedChanges: string[] = [];
+    const plain: string[] = [];
+    const completed: { lead: Lead; changes: Partial<Lead> }[] = [];
+
+    for (let index = 0; index < leadsToMove.length; index++) {
+      const lead = leadsToMove[index];
+      if (!canMoveLead(lead)) {
+        denied.push({ lead_id: lead.id, error: 'Sem permissão para mover' });
+        continue;
+      }
+
+      if (hasMissingRequirements(getMissingStageRequirements(lead, targetStage))) {
+        const answer = await askRequirements(lead, `Lead ${index + 1} de ${leadsToMove.length}`);
+        if (answer === 'cancel') {
+          skipped.push(...leadsToMove.slice(index).map(l => l.id));
+          break;
+        }
+        if (answer === 'skip') {
+          skipped.push(lead.id);
+          continue;
+        }
+        completed.push({ lead, changes: { ...(changesStageKind(lead) ? shared : {}), ...answer } });
+        continue;
+      }
+
+      (changesStageKind(lead) ? withSharedChanges : plain).push(lead.id);
+    }
+
+    const status = targetStage.key;
+    const sharedChanges: BulkLeadChanges = { ...(shared as BulkLeadChanges), status };
+    await runBulkAction(
+      "Leads movidos",
+      (count) => `${count} lead(s) movido(s) para ${targetStage.name}`,
+      [
+        { leadIds: denied.map(failure => failure.lead_id), run: async (chunk) => denied.filter(f => chunk.includes(f.lead_id)) },
+        { leadIds: plain, run: (chunk) => LeadService.bulkUpdateLeads(chunk, { status }) },
+        {
+          leadIds: withSharedChanges,
+          run: (chunk) => LeadService.bulkUpdateLeads(chunk, sharedChanges),
+        },
+        ...completed.map(({ lead, changes }) => ({
+          leadIds: [lead.id],
+          run: async () => {
+            await LeadService.updateLead(lead.id, { ...changes, status });
+            return [];
+          },
+        })),
+      ],
+      (succeeded) => [
+        ...toRevertJobs([
+          ...groupBulkRevert(getPreviousLeads(plain.filter(id => succeeded.includes(id))), { status }, {}, getStageKind),
+          ...groupBulkRevert(
+            getPreviousLeads(withSharedChanges.filter(id => succeeded.includes(id))), sharedChanges, {}, getStageKind
+          ),
+        ]),
+        ...completed
+          .filter(({ lead }) => succeeded.includes(lead.id))
+          .map(({ lead, changes }) => ({
+            leadIds: [lead.id],
+            run: async () => {
+              await LeadService.updateLead(lead.id, getRevertChanges(lead, { ...changes, status }, getStageKind));
+              return [];
+            },
+          })),
+      ],
+      skipped
+    );
+    setMoveToStage('');
   };
 
-  // Filter leads based on user permissions
-  const visibleLeads = leads.filter(lead => 
-    user?.role === 'master' || lead.assigned_to === user?.user_id
-  );
+  // Só as linhas visíveis ficam no DOM; a próxima página é pedida perto do fim
+  const virtualizer = useVirtualizer({
+    count: visibleLeads.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: (index) => visibleLeads[index].id,
+    overscan: 6,
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && lastVisibleIndex >= visibleLeads.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore();
+    }
+  }, [hasMore, loadingMore, lastVisibleIndex, visibleLeads.length, onLoadMore]);
 
   return (
     <div className="space-y-4">
       {/* Bulk Actions */}
-      {user?.role === 'master' && (
-        <Card className="border-primary/20 bg-primary/5">
-          <CardContent className="p-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-4">
-                <Checkbox
-                  checked={selectedLeads.length === visibleLeads.length && visibleLeads.length > 0}
-                  onCheckedChange={handleSelectAll}
-                />
-                <span className="text-sm font-medium">
-                  {selectedLeads.length > 0 ? `${selectedLeads.length} selecionado(s)` : 'Selecionar todos'}
-                </span>
-              </div>
-              
+      <Card className="border-primary/20 bg-primary/5">
+        <CardContent className="p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Checkbox
+                checked={selectedLeads.length === visibleLeads.length && visibleLeads.length > 0}
+                onCheckedChange={handleSelectAll}
+              />
+              <span className="text-sm font-medium">
+                {selectedLeads.length > 0 ? `${selectedLeads.length} selecionado(s)` : 'Selecionar todos'}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {visibleLeads.length} de {totalCount} lead(s) carregado(s)
+              </span>
+            </div>
+            
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" size="sm" onClick={() => setExportOpen(true)}>
+                <Download className="w-4 h-4 mr-2" />
+                Exportar
+              </Button>
               {selectedLeads.length > 0 && (
-                <div className="flex items-center space-x-3">
-                  <Select value={assignToUser} onValueChange={setAssignToUser}>
-                    <SelectTrigger className="w-48">
-                      <SelectValue placeholder="Delegar para..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getMasterUsers().map((u) => (
-                        <SelectItem key={u.id} value={u.id}>
-                          <div className="flex items-center space-x-2">
-                            <User className="w-4 h-4" />
-                            <span>{u.name}</span>
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <Button 
-                    onClick={handleAssignLeads}
-                    size="sm"
-                    className="bg-primary hover:bg-primary/90"
-                  >
-                    <Send className="w-4 h-4 mr-2" />
-                    Delegar
-                  </Button>
-                </div>
+                <>
+                  {isMaster && selectedLeads.length === 2 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        const [first, second] = selectedLeads.map(id => leads.find(lead => lead.id === id)!);
+                        setMergePair([first, second]);
+                      }}
+                    >
+                      <GitMerge className="w-4 h-4 mr-2" />
+                      Mesclar
+                    </Button>
+                  )}
+                  {canMove && stages.length > 0 && (
+                    <>
+                      <Select value={moveToStage} onValueChange={setMoveToStage}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue placeholder="Mover para..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {stages.map((stage) => (
+                            <SelectItem key={stage.id} value={stage.key}>
+                              {stage.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        onClick={handleMoveLeads}
+                        size="sm"
+                        variant="outline"
+                        disabled={isRunningBulk}
+                      >
+                        <MoveRight className="w-4 h-4 mr-2" />
+                        Mover
+                      </Button>
+                    </>
+                  )}
+                  {can('reassign_leads') && (
+                    <>
+                      <Select value={assignToUser} onValueChange={setAssignToUser}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Delegar para..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {allAssignableUsers.map((u) => (
+                            <SelectItem key={u.id} value={u.id}>
+                              <div className="flex items-center space-x-2">
+                                <User className="w-4 h-4" />
+                                <span>{u.name}</span>
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button 
+                        onClick={handleAssignLeads}
+                        size="sm"
+                        className="bg-primary hover:bg-primary/90"
+                        disabled={isRunningBulk}
+                      >
+                        <Send className="w-4 h-4 mr-2" />
+                        Delegar
+                      </Button>
+                    </>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" disabled={isRunningBulk} title="Mais ações em lote">
+                        <MoreHorizontal className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => setBulkAction('add_tags')}>
+                        <Tag className="w-4 h-4 mr-2" />
+                        Adicionar tags
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setBulkAction('remove_tags')}>
+                        <Tags className="w-4 h-4 mr-2" />
+                        Remover tags
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setBulkAction('source')}>
+                        <Globe className="w-4 h-4 mr-2" />
+                        Alterar fonte
+                      </DropdownMenuItem>
+                      {can('delete_leads') && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() => setBulkAction('delete')}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Excluir
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </>
               )}
             </div>
-          </CardContent>
-        </Card>
-      )}
+          </div>
+
+          {bulkProgress && (
+            <div className="flex items-center space-x-3 mt-4">
+              <Loader2 className="w-4 h-4 animate-spin text-primary shrink-0" />
+              <span className="text-sm font-medium whitespace-nowrap">{bulkProgress.label}</span>
+              <Progress
+                value={bulkProgress.total > 0 ? (bulkProgress.done / bulkProgress.total) * 100 : 0}
+                className="h-2"
+              />
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                {bulkProgress.done} de {bulkProgress.total}
+              </span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
 
       {/* Leads List */}
-      <div className="space-y-3">
-        {visibleLeads.map((lead) => (
-          <Card 
-            key={lead.id} 
-            className="hover:shadow-md transition-all duration-200 cursor-pointer group"
-          >
-            <CardContent className="p-4">
-              <div className="flex items-center space-x-4">
-                {/* Checkbox */}
-                {user?.role === 'master' && (
-                  <Checkbox
-                    checked={selectedLeads.includes(lead.id)}
-                    onCheckedChange={(checked) => handleSelectLead(lead.id, checked as boolean)}
-                    onClick={(e) => e.stopPropagation()}
-                  />
-                )}
-
-                {/* Lead Info */}
-                <div 
-                  className="flex-1 grid grid-cols-1 md:grid-cols-6 gap-4 items-center"
-                  onClick={() => onLeadClick(lead)}
+      <div ref={scrollRef} className="h-[calc(100vh-20rem)] min-h-[400px] overflow-y-auto">
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualItems.map((item) => {
+            const lead = visibleLeads[item.index];
+            return (
+              <div
+                key={item.key}
+                data-index={item.index}
+                ref={virtualizer.measureElement}
+                className="absolute top-0 left-0 w-full pb-3"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                <Card 
+                  className="hover:shadow-md transition-all duration-200 cursor-pointer group"
                 >
-                  {/* Name & Tags */}
-                  <div className="md:col-span-2 space-y-2">
-                    <h3 className="font-semibold text-card-foreground group-hover:text-primary transition-colors">
-                      {lead.name}
-                    </h3>
-                    <div className="flex flex-wrap gap-1">
-                      {lead.tags.slice(0, 2).map((tag) => (
-                        <Badge 
-                          key={tag} 
-                          variant="secondary" 
-                          className="text-xs bg-primary/10 text-primary border border-primary/20"
-                        >
-                          {tag}
-                        </Badge>
-                      ))}
-                      {lead.tags.length > 2 && (
-                        <Badge variant="outline" className="text-xs">
-                          +{lead.tags.length - 2}
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
+                  <CardContent className="p-4">
+                    <div className="flex items-center space-x-4">
+                      {/* Checkbox */}
+                      <Checkbox
+                        checked={selectedLeads.includes(lead.id)}
+                        onCheckedChange={(checked) => handleSelectLead(lead.id, checked as boolean)}
+                        onClick={(e) => e.stopPropagation()}
+                      />
 
-                  {/* Contact */}
-                  <div className="space-y-1">
-                    <div className="flex items-center text-sm text-muted-foreground">
-                      <Mail className="w-3 h-3 mr-2 text-primary" />
-                      <span className="truncate">{lead.email}</span>
-                    </div>
-                    <div className="flex items-center text-sm text-muted-foreground">
-                      <Phone className="w-3 h-3 mr-2 text-primary" />
-                      <span>{lead.phone}</span>
-                    </div>
-                  </div>
-
-                  {/* Company */}
-                  <div className="hidden md:block">
-                    {lead.company && (
-                      <div className="flex items-center text-sm text-muted-foreground">
-                        <Building className="w-3 h-3 mr-2 text-primary" />
-                        <span className="truncate">{lead.company}</span>
+                      {/* Lead Info */}
+                      <div 
+                        className="flex-1 grid grid-cols-1 md:grid-cols-6 gap-4 items-center"
+                        onClick={() => onLeadClick(lead)}
+                      >
+                        {/* Name & Tags */}
+                        <div className="md:col-span-2 space-y-2">
+                          <h3 className="font-semibold text-card-foreground group-hover:text-primary transition-colors">
+                            {lead.name}
+                          </h3>
+                          <div className="flex flex-wrap gap-1">
+                            {lead.tags.slice(0, 2).map((tag) => (
+                              <Badge 
+                                key={tag} 
+                                variant="secondary" 
+                                className="text-xs bg-primary/10 text-primary border border-primary/20"
+                              >
+                                {tag}
+                              </Badge>
+                            ))}
+                            {lead.tags.length > 2 && (
+                              <Badge variant="outline" className="text-xs">
+                                +{lead.tags.length - 2}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Contact */}
+                        <div className="space-y-1">
+                          <div className="flex items-center text-sm text-muted-foreground">
+                            <Mail className="w-3 h-3 mr-2 text-primary" />
+                            <span className="truncate">{lead.email}</span>
+                          </div>
+                          <div className="flex items-center text-sm text-muted-foreground">
+                            <Phone className="w-3 h-3 mr-2 text-primary" />
+                            <span>{lead.phone}</span>
+                          </div>
+                        </div>
+
+                        {/* Company */}
+                        <div className="hidden md:block">
+                          {lead.company && (
+                            <div className="flex items-center text-sm text-muted-foreground">
+                              <Building className="w-3 h-3 mr-2 text-primary" />
+                              <span className="truncate">{lead.company}</span>
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Value */}
+                        <div className="hidden md:block">
+                          {lead.value && (
+                            <div className="flex items-center text-sm font-semibold text-green-700">
+                              <DollarSign className="w-3 h-3 mr-1" />
+                              <span>{formatCurrency(lead.value)}</span>
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Status & Date */}
+                        <div className="flex items-center justify-between md:flex-col md:items-end space-y-2">
+                          <Badge
+                            className="text-xs font-medium border"
+                            style={getStageBadgeStyle(getStage(lead.status, lead.pipeline_id)?.color || '#6B7280')}
+                          >
+                            {getStage(lead.status, lead.pipeline_id)?.name || lead.status}
+                          </Badge>
+                          <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                            <Badge
+                              variant="outline"
+                              className={`text-xs px-1.5 py-0 font-semibold ${scoreTierStyles[getScoreTier(lead.score || 0)]}`}
+                              title="Pontuação do lead"
+                            >
+                              <Gauge className="w-3 h-3 mr-1" />
+                              {lead.score || 0}
+                            </Badge>
+                            <Calendar className="w-3 h-3" />
+                            <span>{formatDate(lead.created_at)}</span>
+                          </div>
+                        </div>
                       </div>
-                    )}
-                  </div>
-
-                  {/* Value */}
-                  <div className="hidden md:block">
-                    {lead.value && (
-                      <div className="flex items-center text-sm font-semibold text-green-700">
-                        <DollarSign className="w-3 h-3 mr-1" />
-                        <span>{formatCurrency(lead.value)}</span>
+
+                      {/* Assigned User */}
+                      <div className="flex items-center space-x-2">
+                        <Avatar className="w-8 h-8 border-2 border-white shadow-sm">
+                          <AvatarFallback className="text-xs bg-gradient-to-br from-primary to-primary-dark text-white font-bold">
+                            {lead.assigned_to === user?.user_id ? 'EU' : lead.assigned_to.slice(0, 2).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
                       </div>
-                    )}
-                  </div>
-
-                  {/* Status & Date */}
-                  <div className="flex items-center justify-between md:flex-col md:items-end space-y-2">
-                    <Badge className={`${getStatusColor(lead.status)} text-xs font-medium border`}>
-                      {getStatusText(lead.status)}
-                    </Badge>
-                    <div className="flex items-center text-xs text-muted-foreground">
-                      <Calendar className="w-3 h-3 mr-1" />
-                      <span>{formatDate(lead.created_at)}</span>
                     </div>
-                  </div>
-                </div>
-
-                {/* Assigned User */}
-                <div className="flex items-center space-x-2">
-                  <Avatar className="w-8 h-8 border-2 border-white shadow-sm">
-                    <AvatarFallback className="text-xs bg-gradient-to-br from-primary to-primary-dark text-white font-bold">
-                      {lead.assigned_to === user?.user_id ? 'EU' : lead.assigned_to.slice(0, 2).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                </div>
+                  </CardContent>
+                </Card>
               </div>
-            </CardContent>
-          </Card>
-        ))}
+            );
+          })}
+        </div>
 
-        {visibleLeads.length === 0 && (
+        {loadingMore && (
+          <div className="flex justify-center py-3">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {visibleLeads.length === 0 && !loadingMore && (
           <Card className="border-dashed border-2 border-muted-foreground/20">
             <CardContent className="flex flex-col items-center justify-center py-12">
               <Users className="w-12 h-12 text-muted-foreground/40 mb-4" />
@@ -289,6 +713,68 @@ export const LeadListView: React.FC<LeadListViewProps> = ({
           </Card>
         )}
       </div>
+
+      <ExportLeadsDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        visibleLeads={visibleLeads}
+        visibleCount={totalCount}
+        visibleQuery={exportQuery}
+        selectedLeadIds={selectedLeads}
+      />
+
+      <MarkLeadLostDialog
+        stageName={targetStage?.name}
+        open={bulkMoveReason === 'loss'}
+        onOpenChange={(open) => !open && setBulkMoveReason(null)}
+        onConfirm={async (loss: LeadLoss) => {
+          setBulkMoveReason(null);
+          await runBulkMove(loss);
+        }}
+      />
+
+      <ReopenLeadDialog
+        stages={targetStage ? [targetStage] : []}
+        defaultStatus={targetStage?.key}
+        open={bulkMoveReason === 'reopen'}
+        onOpenChange={(open) => !open && setBulkMoveReason(null)}
+        onConfirm={async (_status, justification) => {
+          setBulkMoveReason(null);
+          await runBulkMove({ reopen_justification: justification });
+        }}
+      />
+
+      <BulkLeadActionDialog
+        action={bulkAction}
+        leads={leads.filter(lead => selectedLeads.includes(lead.id))}
+        onOpenChange={(open) => !open && setBulkAction(null)}
+        onConfirm={handleBulkAction}
+      />
+
+      <BulkActionReportDialog
+        report={bulkReport}
+        onOpenChange={(open) => !open && setBulkReport(null)}
+      />
+
+      <StageRequirementsDialog
+        lead={requirementsPrompt?.lead || null}
+        stage={targetStage}
+        open={!!requirementsPrompt}
+        onOpenChange={(open) => !open && answerRequirements('cancel')}
+        onConfirm={async (changes) => answerRequirements(changes)}
+        onSkip={() => answerRequirements('skip')}
+        progressLabel={requirementsPrompt?.progress}
+      />
+
+      <MergeLeadsDialog
+        leads={mergePair}
+        open={!!mergePair}
+        onOpenChange={(open) => !open && setMergePair(null)}
+        onMerged={() => {
+          setSelectedLeads([]);
+          onLeadsMerged?.();
+        }}
+      />
     </div>
   );
 };
\ No newline at end of file
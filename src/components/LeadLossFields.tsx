@@ -0,0 +1,82 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LeadLoss } from '@/types/crm';
+import { useLossReasons } from '@/hooks/useLossReasons';
+
+interface LeadLossFieldsProps {
+  value: LeadLoss;
+  onChange: (value: LeadLoss) => void;
+}
+
+// Opção vazia do Select (Radix não aceita value="")
+const NO_COMPETITOR = '__none__';
+
+// Motivo (obrigatório), concorrente e comentário da perda; sem motivos cadastrados o motivo é livre
+export const LeadLossFields: React.FC<LeadLossFieldsProps> = ({ value, onChange }) => {
+  const { reasons, competitors } = useLossReasons();
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-card-foreground font-medium">Motivo da perda *</Label>
+          {reasons.length > 0 ? (
+            <Select
+              value={value.lost_reason || undefined}
+              onValueChange={(reason) => onChange({ ...value, lost_reason: reason })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecionar motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map((reason) => (
+                  <SelectItem key={reason.id} value={reason.name}>{reason.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              value={value.lost_reason || ''}
+              onChange={(e) => onChange({ ...value, lost_reason: e.target.value })}
+              placeholder="Por que o negócio foi perdido?"
+            />
+          )}
+        </div>
+        {competitors.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-card-foreground font-medium">Concorrente</Label>
+            <Select
+              value={value.lost_competitor || NO_COMPETITOR}
+              onValueChange={(competitor) => onChange({
+                ...value,
+                lost_competitor: competitor === NO_COMPETITOR ? null : competitor,
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COMPETITOR}>Nenhum / não informado</SelectItem>
+                {competitors.map((competitor) => (
+                  <SelectItem key={competitor.id} value={competitor.name}>{competitor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label className="text-card-foreground font-medium">Comentário</Label>
+        <Textarea
+          value={value.lost_comment || ''}
+          onChange={(e) => onChange({ ...value, lost_comment: e.target.value })}
+          placeholder="Detalhes sobre a perda (opcional)"
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Gauge, Plus, Trash2, RefreshCw } from 'lucide-react';
+import { ScoringRule, ScoringRuleField, ScoringRuleOperator } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { ScoringService } from '@/services/scoringService';
+import {
+  describeScoringRule,
+  isValidScoringValue,
+  scoringFieldLabels,
+  scoringFieldOperators,
+  scoringFieldValueType,
+  scoringFields,
+  scoringOperatorLabels
+} from '@/lib/scoring';
+
+export const LeadScoringSettings: React.FC = () => {
+  const { accountId } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [recalculating, setRecalculating] = useState(false);
+
+  const [newField, setNewField] = useState<ScoringRuleField>('source');
+  const [newOperator, setNewOperator] = useState<ScoringRuleOperator>('equals');
+  const [newValue, setNewValue] = useState('');
+  const [newPoints, setNewPoints] = useState('10');
+
+  const fetchRules = useCallback(async () => {
+    setRules(await ScoringService.getRules());
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const runRuleAction = async (action: () => Promise<void>, successTitle: string) => {
+    try {
+      await action();
+      await fetchRules();
+      toast({
+        title: successTitle,
+        description: "A pontuação dos leads foi recalculada",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar regra",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFieldChange = (field: ScoringRuleField) => {
+    setNewField(field);
+    setNewOperator(scoringFieldOperators[field][0]);
+    setNewValue('');
+  };
+
+  const addRule = async () => {
+    const valueType = scoringFieldValueType[newField];
+    const points = parseInt(newPoints, 10);
+
+    if (!accountId || Number.isNaN(points)) return;
+    if (valueType && !newValue.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe o valor da regra",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (valueType && !isValidScoringValue(newField, newValue.trim())) {
+      toast({
+        title: "Erro",
+        description: "Valor inválido para esta regra",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runRuleAction(async () => {
+      await ScoringService.createRule(accountId, {
+        field: newField,
+        operator: newOperator,
+        value: valueType ? newValue.trim() : null,
+        points,
+      }, rules.length);
+      setNewValue('');
+    }, "Regra adicionada");
+  };
+
+  const updatePoints = (rule: ScoringRule, value: string) => {
+    const points = parseInt(value, 10);
+    if (Number.isNaN(points) || points === rule.points) return;
+    runRuleAction(() => ScoringService.updateRule(rule.id, { points }), "Regra atualizada");
+  };
+
+  const recalculate = async () => {
+    if (!accountId) return;
+    setRecalculating(true);
+    try {
+      const updated = await ScoringService.recalculateScores(accountId);
+      toast({
+        title: "Pontuação recalculada",
+        description: `${updated} lead(s) mudaram de pontuação`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao recalcular pontuação",
+        variant: "destructive",
+      });
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const valueType = scoringFieldValueType[newField];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Gauge className="w-5 h-5 text-primary" />
+            <span>Pontuação de Leads</span>
+          </div>
+          <Button variant="outline" size="sm" onClick={recalculate} disabled={recalculating}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${recalculating ? 'animate-spin' : ''}`} />
+            Recalcular agora
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Cada regra que o lead atende soma seus pontos (use valores negativos para penalizar).
+            A pontuação é recalculada sempre que o lead, seus feedbacks ou as regras mudam.
+            Regras de último contato dependem do tempo e são atualizadas toda madrugada; use "Recalcular agora" para atualizá-las na hora.
+          </p>
+
+          <div className="grid gap-3">
+            {rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhuma regra cadastrada. Todos os leads ficam com 0 pontos.</p>
+            )}
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center space-x-3 p-3 border border-card-border rounded-lg">
+                <Switch
+                  checked={rule.is_active}
+                  onCheckedChange={(checked) => runRuleAction(
+                    () => ScoringService.updateRule(rule.id, { is_active: checked }),
+                    checked ? "Regra ativada" : "Regra desativada"
+                  )}
+                />
+                <span className={`flex-1 text-sm ${rule.is_active ? 'text-card-foreground' : 'text-muted-foreground line-through'}`}>
+                  {describeScoringRule(rule)}
+                </span>
+                <Input
+                  key={`${rule.id}-${rule.points}`}
+                  type="number"
+                  defaultValue={rule.points}
+                  onBlur={(e) => updatePoints(rule, e.target.value)}
+                  className="w-20 h-8"
+                />
+                <span className="text-xs text-muted-foreground">pts</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => runRuleAction(() => ScoringService.deleteRule(rule.id), "Regra removida")}
+                  className="text-destructive hover:bg-destructive-light"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Add New Rule */}
+          <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-card-border">
+            <Select value={newField} onValueChange={(value) => handleFieldChange(value as ScoringRuleField)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scoringFields.map((field) => (
+                  <SelectItem key={field} value={field}>{scoringFieldLabels[field]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newOperator} onValueChange={(value) => setNewOperator(value as ScoringRuleOperator)}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scoringFieldOperators[newField].map((operator) => (
+                  <SelectItem key={operator} value={operator}>{scoringOperatorLabels[operator]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {valueType && (
+              <Input
+                type={valueType}
+                value={newValue}
+                onChange={(e) => setNewValue(e.target.value)}
+                placeholder={valueType === 'number' ? '0' : 'Valor'}
+                className="w-40"
+              />
+            )}
+            <Input
+              type="number"
+              value={newPoints}
+              onChange={(e) => setNewPoints(e.target.value)}
+              placeholder="Pontos"
+              className="w-24"
+            />
+            <Button
+              onClick={addRule}
+              className="bg-gradient-to-r from-primary to-primary-dark"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar Regra
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
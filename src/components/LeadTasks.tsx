@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListChecks, Plus, Trash2 } from 'lucide-react';
+import { LeadTask, TaskType } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { TaskService } from '@/services/taskService';
+import {
+  formatTaskDue,
+  fromDateTimeLocalValue,
+  getTaskDueStatus,
+  taskDueStyles,
+  taskTypeIcons,
+  taskTypeLabels,
+  taskTypes,
+  toDateTimeLocalValue
+} from '@/lib/tasks';
+
+interface LeadTasksProps {
+  leadId: string;
+  assignedTo: string;
+}
+
+// Próxima hora cheia, sugestão padrão de vencimento para uma nova tarefa
+const nextFullHour = () => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return toDateTimeLocalValue(date);
+};
+
+export const LeadTasks: React.FC<LeadTasksProps> = ({ leadId, assignedTo }) => {
+  const { user, accountId, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<LeadTask[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [title, setTitle] = useState('');
+  const [type, setType] = useState<TaskType>('call');
+  const [dueAt, setDueAt] = useState(nextFullHour);
+  const [assignee, setAssignee] = useState(assignedTo || user?.user_id || '');
+
+  const fetchTasks = useCallback(async () => {
+    setTasks(await TaskService.getLeadTasks(leadId));
+  }, [leadId]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  const runTaskAction = async (action: () => Promise<void>, fallbackMessage: string) => {
+    try {
+      await action();
+      await fetchTasks();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || fallbackMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addTask = async () => {
+    if (!user || !accountId || saving) return;
+    if (!title.trim() || !dueAt || !assignee) {
+      toast({
+        title: "Erro",
+        description: "Informe título, vencimento e responsável",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    await runTaskAction(async () => {
+      await TaskService.createTask(accountId, user.user_id, {
+        lead_id: leadId,
+        title: title.trim(),
+        type,
+        due_at: fromDateTimeLocalValue(dueAt),
+        assigned_to: assignee,
+      });
+      setTitle('');
+      setDueAt(nextFullHour());
+      toast({
+        title: "Tarefa criada",
+        description: `${taskTypeLabels[type]} agendada para ${formatTaskDue(fromDateTimeLocalValue(dueAt))}`,
+      });
+    }, "Erro inesperado ao criar tarefa");
+    setSaving(false);
+  };
+
+  const canDelete = (task: LeadTask) =>
+    task.created_by === user?.user_id || user?.role === 'master';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ListChecks className="w-5 h-5" />
+          <span>Tarefas</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {tasks.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma tarefa para este lead</p>
+          )}
+          {tasks.map((task) => {
+            const TypeIcon = taskTypeIcons[task.type];
+            const done = !!task.completed_at;
+            const owner = allAssignableUsers.find(u => u.user_id === task.assigned_to);
+
+            return (
+              <div key={task.id} className="flex items-center space-x-3 p-3 border border-card-border rounded-lg">
+                <Checkbox
+                  checked={done}
+                  onCheckedChange={(checked) => runTaskAction(
+                    () => TaskService.setCompleted(task.id, checked === true),
+                    "Erro inesperado ao atualizar tarefa"
+                  )}
+                />
+                <TypeIcon className="w-4 h-4 text-primary shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium truncate ${done ? 'line-through text-muted-foreground' : ''}`}>
+                    {task.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    <span className={done ? '' : taskDueStyles[getTaskDueStatus(task.due_at)]}>
+                      {formatTaskDue(task.due_at)}
+                    </span>
+                    {' · '}
+                    {owner ? owner.name : 'Usuário removido'}
+                  </p>
+                </div>
+                {canDelete(task) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => runTaskAction(
+                      () => TaskService.deleteTask(task.id),
+                      "Erro inesperado ao remover tarefa"
+                    )}
+                    className="text-destructive hover:bg-destructive-light"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Nova tarefa */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 pt-4 border-t border-card-border">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Ex.: Ligar de volta na quinta"
+            className="md:col-span-2"
+          />
+          <Select value={type} onValueChange={(value) => setType(value as TaskType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {taskTypes.map((taskType) => (
+                <SelectItem key={taskType} value={taskType}>{taskTypeLabels[taskType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+          />
+          <Select value={assignee} onValueChange={setAssignee}>
+            <SelectTrigger>
+              <SelectValue placeholder="Responsável" />
+            </SelectTrigger>
+            <SelectContent>
+              {allAssignableUsers.map((assignableUser) => (
+                <SelectItem key={assignableUser.user_id} value={assignableUser.user_id}>
+                  {assignableUser.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={addTask}
+            disabled={saving}
+            className="bg-gradient-to-r from-primary to-primary-dark"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar Tarefa
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
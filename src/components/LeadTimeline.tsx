@@ -0,0 +1,234 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { MessageSquare, History, Sparkles, GitMerge, Trash2, ArchiveRestore, UserMinus } from 'lucide-react';
+import { Lead, LeadFeedback, LeadHistoryEntry } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { useCompanies } from '@/hooks/useCompanies';
+import { formatCustomFieldValue } from '@/lib/customFields';
+
+interface LeadTimelineProps {
+  lead?: Lead;
+  contacts?: Lead[]; // linha do tempo combinada (empresa): cada item indica de qual contato é
+  feedback: LeadFeedback[];
+  history: LeadHistoryEntry[];
+}
+
+type TimelineItem =
+  | { type: 'feedback'; id: string; created_at: string; feedback: LeadFeedback }
+  | { type: 'history'; id: string; created_at: string; entry: LeadHistoryEntry };
+
+const fieldLabels: Record<string, string> = {
+  name: 'Nome',
+  email: 'E-mail',
+  phone: 'Telefone',
+  company: 'Empresa',
+  company_id: 'Empresa vinculada',
+  value: 'Valor',
+  status: 'Etapa',
+  tags: 'Tags',
+  notes: 'Observações',
+  source: 'Fonte',
+  assigned_to: 'Responsável',
+  user_id: 'Dono do lead',
+  pipeline_id: 'Pipeline',
+  lost_reason: 'Motivo da perda',
+  lost_competitor: 'Concorrente',
+  lost_comment: 'Comentário da perda',
+  reopen_justification: 'Justificativa de reabertura',
+  checklist_done: 'Checklist concluído',
+};
+
+const actionLabels: Record<LeadHistoryEntry['action'], string> = {
+  insert: 'criou o lead',
+  update: 'alterou o lead',
+  merge: 'mesclou um lead duplicado',
+  delete: 'moveu o lead para a lixeira',
+  restore: 'restaurou o lead da lixeira',
+  transfer: 'transferiu o lead ao remover',
+};
+
+// Campos personalizados aparecem no histórico como "cf:<chave>"
+const CUSTOM_FIELD_PREFIX = 'cf:';
+
+// Campos técnicos que não fazem sentido na linha do tempo
+const hiddenFields = ['user_id', 'lost_at', 'lost_from_status'];
+
+// Na transferência o dono também aparece; o nome do membro removido vem registrado na própria entrada
+const transferHiddenFields = ['removed_member', 'lost_at', 'lost_from_status'];
+
+const getRemovedMemberName = (entry: LeadHistoryEntry) =>
+  (entry.changes.removed_member?.old as string | null | undefined) || 'membro removido';
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export const LeadTimeline: React.FC<LeadTimelineProps> = ({ lead, contacts, feedback, history }) => {
+  const { allAssignableUsers } = useAuth();
+  const { getStage } = usePipelineStages();
+  const { pipelines } = usePipelines();
+  const { fields: customFields } = useCustomFields();
+  const { companies } = useCompanies();
+
+  const getItemLead = (leadId: string) => contacts?.find(contact => contact.id === leadId) || lead;
+
+  const getCustomField = (field: string) =>
+    customFields.find(f => CUSTOM_FIELD_PREFIX + f.key === field);
+
+  const getFieldLabel = (field: string) => {
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      return getCustomField(field)?.label || field.slice(CUSTOM_FIELD_PREFIX.length);
+    }
+    return fieldLabels[field] || field;
+  };
+
+  const formatValue = (field: string, value: unknown, entry: LeadHistoryEntry, side: 'old' | 'new'): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) return formatCustomFieldValue(getCustomField(field), value);
+
+    switch (field) {
+      case 'status': {
+        // A chave da etapa só é única dentro do pipeline da época da alteração
+        const pipelineId = (entry.changes.pipeline_id?.[side] as string | undefined) || getItemLead(entry.lead_id)?.pipeline_id;
+        return getStage(String(value), pipelineId)?.name || String(value);
+      }
+      case 'company_id':
+        return companies.find(company => company.id === value)?.name || 'Empresa removida';
+      case 'pipeline_id':
+        return pipelines.find(p => p.id === value)?.name || 'Pipeline removido';
+      case 'assigned_to':
+      case 'user_id':
+        return allAssignableUsers.find(u => u.user_id === value)?.name
+          || (entry.action === 'transfer' && side === 'old' ? getRemovedMemberName(entry) : 'Outro usuário');
+      case 'value':
+        return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value));
+      case 'tags':
+      case 'checklist_done':
+        return Array.isArray(value) && value.length > 0 ? value.join(', ') : '—';
+      default:
+        return String(value);
+    }
+  };
+
+  const items: TimelineItem[] = [
+    ...feedback.map(msg => ({ type: 'feedback' as const, id: msg.id, created_at: msg.created_at, feedback: msg })),
+    ...history.map(entry => ({ type: 'history' as const, id: entry.id, created_at: entry.created_at, entry })),
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">Nenhuma conversa ainda</p>
+        {!contacts && <p className="text-xs">Inicie a conversa abaixo</p>}
+      </div>
+    );
+  }
+
+  const renderContact = (leadId: string) => {
+    const contact = contacts?.find(c => c.id === leadId);
+    if (!contact) return null;
+    return (
+      <Link to={`/lead/${contact.id}`} className="text-xs text-primary hover:underline">
+        {contact.name}
+      </Link>
+    );
+  };
+
+  return (
+    <>
+      {items.map((item) => {
+        if (item.type === 'feedback') {
+          const msg = item.feedback;
+          return (
+            <div key={`feedback-${msg.id}`} className="p-3 bg-muted/50 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <Avatar className="w-6 h-6">
+                    <AvatarFallback className="text-xs bg-primary text-primary-foreground">
+                      {msg.profiles?.name?.charAt(0) || 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm font-medium">
+                    {msg.profiles?.name || 'Usuário'}
+                  </span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {formatTime(msg.created_at)}
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground">{msg.message}</p>
+              {renderContact(msg.lead_id)}
+            </div>
+          );
+        }
+
+        const { entry } = item;
+        const actor = entry.changed_by ? entry.profiles?.name || 'Usuário' : 'Sistema';
+        const fields = Object.keys(entry.changes).filter(field =>
+          !(entry.action === 'transfer' ? transferHiddenFields : hiddenFields).includes(field)
+        );
+
+        return (
+          <div key={`history-${entry.id}`} className="flex space-x-2 px-3 py-2 border-l-2 border-card-border">
+            {entry.action === 'insert' ? (
+              <Sparkles className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            ) : entry.action === 'merge' ? (
+              <GitMerge className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            ) : entry.action === 'delete' ? (
+              <Trash2 className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            ) : entry.action === 'restore' ? (
+              <ArchiveRestore className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            ) : entry.action === 'transfer' ? (
+              <UserMinus className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            ) : (
+              <History className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium">
+                  {actor} {actionLabels[entry.action]}
+                  {entry.action === 'transfer' && ` ${getRemovedMemberName(entry)}`}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatTime(entry.created_at)}
+                </span>
+              </div>
+              {(entry.action === 'update' || entry.action === 'transfer') && (
+                <ul className="mt-1 space-y-0.5">
+                  {fields.map(field => (
+                    <li key={field} className="text-xs text-muted-foreground break-words">
+                      <span className="font-medium">{getFieldLabel(field)}:</span>{' '}
+                      {formatValue(field, entry.changes[field].old, entry, 'old')}
+                      {' → '}
+                      {formatValue(field, entry.changes[field].new, entry, 'new')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {entry.action === 'merge' && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Lead incorporado: {(entry.changes.merged_lead?.old as { name?: string } | null)?.name || '—'}
+                </p>
+              )}
+              {entry.action === 'insert' && entry.changes.source && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Fonte: {formatValue('source', entry.changes.source.new, entry, 'new')}
+                </p>
+              )}
+              {renderContact(entry.lead_id)}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { ArchiveRestore, Loader2, Save, Trash2 } from 'lucide-react';
+import { Lead } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { LeadService } from '@/services/leadService';
+import { AccountSettingsService, DEFAULT_ACCOUNT_SETTINGS } from '@/services/accountSettingsService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+// Lixeira da conta: o master restaura ou remove de vez; o restante sai sozinho após o prazo de retenção
+export const LeadTrash: React.FC = () => {
+  const { accountId, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_ACCOUNT_SETTINGS.trash_retention_days);
+  const [retentionDraft, setRetentionDraft] = useState(String(DEFAULT_ACCOUNT_SETTINGS.trash_retention_days));
+  const [working, setWorking] = useState(false);
+  const [confirmPurge, setConfirmPurge] = useState(false);
+
+  const fetchTrash = useCallback(async () => {
+    setLoading(true);
+    const [deletedLeads, settings] = await Promise.all([
+      LeadService.getDeletedLeads(),
+      AccountSettingsService.getAccountSettings(),
+    ]);
+    setLeads(deletedLeads);
+    setSelected(prev => prev.filter(id => deletedLeads.some(lead => lead.id === id)));
+    setRetentionDays(settings.trash_retention_days);
+    setRetentionDraft(String(settings.trash_retention_days));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const getUserName = (userId?: string | null) =>
+    allAssignableUsers.find(u => u.user_id === userId)?.name || 'Usuário removido';
+
+  const getDaysLeft = (deletedAt: string) =>
+    Math.max(0, Math.ceil((new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  const saveRetention = async () => {
+    const days = Number(retentionDraft);
+    if (!accountId || !Number.isInteger(days) || days < 1 || days > 365) {
+      toast({
+        title: "Erro",
+        description: "Informe um prazo entre 1 e 365 dias",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await AccountSettingsService.saveAccountSettings(accountId, { trash_retention_days: days });
+      setRetentionDays(days);
+      toast({
+        title: "Prazo atualizado",
+        description: `Leads ficam ${days} dia(s) na lixeira antes da remoção definitiva`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const restoreSelected = async () => {
+    setWorking(true);
+    try {
+      const failures = await LeadService.restoreLeads(selected);
+      toast({
+        title: "Leads restaurados",
+        description: `${selected.length - failures.length} lead(s) voltaram para o funil`,
+      });
+      setSelected([]);
+      await fetchTrash();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao restaurar",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const purgeSelected = async () => {
+    setWorking(true);
+    try {
+      const purged = await LeadService.purgeLeads(selected);
+      toast({
+        title: "Leads removidos",
+        description: `${purged} lead(s) removido(s) definitivamente`,
+      });
+      setSelected([]);
+      await fetchTrash();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao remover",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Trash2 className="w-5 h-5 text-primary" />
+          <span>Lixeira de Leads</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end space-x-3">
+          <div className="space-y-1">
+            <Label htmlFor="trash-retention">Prazo de retenção (dias)</Label>
+            <Input
+              id="trash-retention"
+              type="number"
+              min={1}
+              max={365}
+              value={retentionDraft}
+              onChange={(e) => setRetentionDraft(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={saveRetention}
+            disabled={retentionDraft === String(retentionDays)}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Salvar
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Leads excluídos ficam aqui pelo prazo acima e depois são removidos definitivamente, junto com histórico, tarefas e conversas.
+        </p>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-sm font-medium">
+            <Checkbox
+              checked={leads.length > 0 && selected.length === leads.length}
+              onCheckedChange={(checked) => setSelected(checked === true ? leads.map(lead => lead.id) : [])}
+              disabled={leads.length === 0}
+            />
+            <span>{selected.length > 0 ? `${selected.length} selecionado(s)` : `${leads.length} lead(s) na lixeira`}</span>
+          </label>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={restoreSelected} disabled={selected.length === 0 || working}>
+              <ArchiveRestore className="w-4 h-4 mr-2" />
+              Restaurar
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setConfirmPurge(true)}
+              disabled={selected.length === 0 || working}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Excluir definitivamente
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : leads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">A lixeira está vazia.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto border border-card-border rounded-lg divide-y divide-card-border">
+            {leads.map((lead) => (
+              <label key={lead.id} className="flex items-center space-x-3 p-3 text-sm cursor-pointer hover:bg-muted/40">
+                <Checkbox
+                  checked={selected.includes(lead.id)}
+                  onCheckedChange={(checked) => setSelected(prev =>
+                    checked === true ? [...prev, lead.id] : prev.filter(id => id !== lead.id)
+                  )}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">
+                    {lead.name}
+                    {lead.company && <span className="text-muted-foreground font-normal"> · {lead.company}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Excluído por {getUserName(lead.deleted_by)} em {formatDate(lead.deleted_at!)}
+                  </p>
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {getDaysLeft(lead.deleted_at!)} dia(s) restante(s)
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmPurge} onOpenChange={setConfirmPurge}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir definitivamente</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selected.length} lead(s) serão removidos junto com histórico, tarefas e conversas. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={purgeSelected}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir definitivamente
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
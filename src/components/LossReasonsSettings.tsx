@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Plus, ThumbsDown, X } from 'lucide-react';
+import { LossReason, LossReasonKind } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { useLossReasons } from '@/hooks/useLossReasons';
+import { LossReasonService } from '@/services/lossReasonService';
+
+const sections: { kind: LossReasonKind; title: string; placeholder: string; empty: string }[] = [
+  { kind: 'reason', title: 'Motivos de perda', placeholder: 'Ex.: Preço alto', empty: 'Nenhum motivo cadastrado.' },
+  { kind: 'competitor', title: 'Concorrentes', placeholder: 'Nome do concorrente', empty: 'Nenhum concorrente cadastrado.' },
+];
+
+export const LossReasonsSettings: React.FC = () => {
+  const { accountId } = useAuth();
+  const { toast } = useToast();
+  const { reasons, competitors, refetch } = useLossReasons();
+  const [newNames, setNewNames] = useState<Record<LossReasonKind, string>>({ reason: '', competitor: '' });
+
+  const itemsByKind: Record<LossReasonKind, LossReason[]> = { reason: reasons, competitor: competitors };
+
+  const addItem = async (kind: LossReasonKind) => {
+    const name = newNames[kind].trim();
+    if (!name || !accountId) return;
+
+    try {
+      await LossReasonService.createLossReason(accountId, kind, name, itemsByKind[kind].length);
+      await refetch();
+      setNewNames(prev => ({ ...prev, [kind]: '' }));
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeItem = async (item: LossReason) => {
+    try {
+      await LossReasonService.deleteLossReason(item.id);
+      await refetch();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao remover",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ThumbsDown className="w-5 h-5 text-primary" />
+          <span>Motivos de Perda</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Todo lead movido para uma etapa de perda precisa de um motivo. Remover um item da lista não altera os leads já perdidos.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {sections.map((section) => (
+              <div key={section.kind} className="space-y-3">
+                <Label className="font-semibold">{section.title}</Label>
+                <div className="flex flex-wrap gap-2">
+                  {itemsByKind[section.kind].length === 0 && (
+                    <p className="text-sm text-muted-foreground">{section.empty}</p>
+                  )}
+                  {itemsByKind[section.kind].map((item) => (
+                    <Badge key={item.id} variant="secondary" className="flex items-center gap-1">
+                      {item.name}
+                      <X className="w-3 h-3 cursor-pointer" onClick={() => removeItem(item)} />
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex space-x-2">
+                  <Input
+                    value={newNames[section.kind]}
+                    onChange={(e) => setNewNames(prev => ({ ...prev, [section.kind]: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && addItem(section.kind)}
+                    placeholder={section.placeholder}
+                  />
+                  <Button variant="outline" onClick={() => addItem(section.kind)}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { LeadLoss } from '@/types/crm';
+import { LeadLossFields } from './LeadLossFields';
+
+interface MarkLeadLostDialogProps {
+  leadName?: string;
+  stageName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (loss: LeadLoss) => Promise<void>;
+}
+
+const emptyLoss: LeadLoss = { lost_reason: '', lost_competitor: null, lost_comment: '' };
+
+export const MarkLeadLostDialog: React.FC<MarkLeadLostDialogProps> = ({
+  leadName,
+  stageName,
+  open,
+  onOpenChange,
+  onConfirm
+}) => {
+  const [loss, setLoss] = useState<LeadLoss>(emptyLoss);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setLoss(emptyLoss);
+  }, [open]);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      await onConfirm({
+        lost_reason: loss.lost_reason?.trim(),
+        lost_competitor: loss.lost_competitor || null,
+        lost_comment: loss.lost_comment?.trim() || null,
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Marcar como perdido</DialogTitle>
+          <DialogDescription>
+            {leadName ? `${leadName} vai para ${stageName || 'a etapa de perda'}. ` : ''}
+            Informe o motivo para entrar no relatório de ganhos e perdas.
+          </DialogDescription>
+        </DialogHeader>
+        <LeadLossFields value={loss} onChange={setLoss} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={!loss.lost_reason?.trim() || isSubmitting}
+          >
+            Marcar como perdido
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { GitMerge } from 'lucide-react';
+import { Lead, LeadMergeFields } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { LeadService } from '@/services/leadService';
+import { mergeNotes, mergeTags } from '@/lib/duplicates';
+
+interface MergeLeadsDialogProps {
+  leads: [Lead, Lead] | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged?: (survivorId: string) => void;
+}
+
+type MergeField = 'name' | 'email' | 'phone' | 'company' | 'value' | 'source' | 'assigned_to' | 'stage';
+type Side = 0 | 1;
+
+const mergeFieldLabels: Record<MergeField, string> = {
+  name: 'Nome',
+  email: 'E-mail',
+  phone: 'Telefone',
+  company: 'Empresa',
+  value: 'Valor',
+  source: 'Fonte',
+  assigned_to: 'Responsável',
+  stage: 'Etapa',
+};
+
+const mergeFields = Object.keys(mergeFieldLabels) as MergeField[];
+
+const getRawValue = (lead: Lead, field: MergeField) =>
+  field === 'stage' ? `${lead.pipeline_id}:${lead.status}` : lead[field];
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '' || value === 0;
+
+export const MergeLeadsDialog: React.FC<MergeLeadsDialogProps> = ({
+  leads,
+  open,
+  onOpenChange,
+  onMerged
+}) => {
+  const { allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const { getStage } = usePipelineStages();
+  const [survivor, setSurvivor] = useState<Side>(0);
+  const [choices, setChoices] = useState<Record<MergeField, Side>>({} as Record<MergeField, Side>);
+  const [notes, setNotes] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  // Por padrão fica o lead mais antigo, completando campos vazios com o outro
+  useEffect(() => {
+    if (!leads) return;
+
+    const initialSurvivor: Side = new Date(leads[0].created_at) <= new Date(leads[1].created_at) ? 0 : 1;
+    const other: Side = initialSurvivor === 0 ? 1 : 0;
+
+    setSurvivor(initialSurvivor);
+    setChoices(mergeFields.reduce((acc, field) => {
+      acc[field] = isEmpty(getRawValue(leads[initialSurvivor], field)) ? other : initialSurvivor;
+      return acc;
+    }, {} as Record<MergeField, Side>));
+    setNotes(mergeNotes(leads[initialSurvivor], leads[other]));
+  }, [leads]);
+
+  if (!leads) return null;
+
+  const formatValue = (lead: Lead, field: MergeField) => {
+    switch (field) {
+      case 'stage':
+        return getStage(lead.status, lead.pipeline_id)?.name || lead.status;
+      case 'assigned_to':
+        return allAssignableUsers.find(u => u.user_id === lead.assigned_to)?.name || 'Outro usuário';
+      case 'value':
+        return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(lead.value || 0);
+      default:
+        return lead[field] || '—';
+    }
+  };
+
+  const handleMerge = async () => {
+    const duplicate: Side = survivor === 0 ? 1 : 0;
+    const pick = (field: MergeField) => leads[choices[field]];
+
+    const fields: LeadMergeFields = {
+      name: pick('name').name,
+      email: pick('email').email,
+      phone: pick('phone').phone,
+      company: pick('company').company || '',
+      value: pick('value').value || 0,
+      source: pick('source').source,
+      assigned_to: pick('assigned_to').assigned_to,
+      pipeline_id: pick('stage').pipeline_id,
+      status: pick('stage').status,
+      tags: mergeTags(leads[survivor].tags, leads[duplicate].tags),
+      notes,
+    };
+
+    setMerging(true);
+    try {
+      await LeadService.mergeLeads(leads[survivor].id, leads[duplicate].id, fields);
+      toast({
+        title: "Leads mesclados",
+        description: `${leads[duplicate].name} foi incorporado a ${fields.name}`,
+      });
+      onOpenChange(false);
+      onMerged?.(leads[survivor].id);
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao mesclar leads",
+        variant: "destructive",
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <GitMerge className="w-5 h-5" />
+            <span>Mesclar Leads</span>
+          </DialogTitle>
+          <DialogDescription>
+            Escolha o valor que deve permanecer em cada campo. Tags são unidas e feedbacks e histórico
+            do lead removido passam para o lead principal. O lead removido vai para a lixeira.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="font-medium">Lead principal</Label>
+            <RadioGroup
+              value={String(survivor)}
+              onValueChange={(value) => setSurvivor(Number(value) as Side)}
+              className="grid-cols-2"
+            >
+              {leads.map((lead, index) => (
+                <Label
+                  key={lead.id}
+                  className="flex items-center space-x-2 p-3 border border-card-border rounded-lg cursor-pointer"
+                >
+                  <RadioGroupItem value={String(index)} />
+                  <span className="truncate">{lead.name}</span>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {new Date(lead.created_at).toLocaleDateString('pt-BR')}
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            {mergeFields.map((field) => {
+              const sameValue = getRawValue(leads[0], field) === getRawValue(leads[1], field);
+              return (
+                <div key={field} className="grid grid-cols-[120px_1fr] items-center gap-3">
+                  <span className="text-sm text-muted-foreground">{mergeFieldLabels[field]}</span>
+                  {sameValue ? (
+                    <span className="text-sm px-3 py-2">{formatValue(leads[0], field)}</span>
+                  ) : (
+                    <RadioGroup
+                      value={String(choices[field])}
+                      onValueChange={(value) => setChoices(prev => ({ ...prev, [field]: Number(value) as Side }))}
+                      className="grid-cols-2"
+                    >
+                      {leads.map((lead, index) => (
+                        <Label
+                          key={lead.id}
+                          className="flex items-center space-x-2 px-3 py-2 border border-card-border rounded-lg cursor-pointer font-normal"
+                        >
+                          <RadioGroupItem value={String(index)} />
+                          <span className="truncate">{formatValue(lead, field)}</span>
+                        </Label>
+                      ))}
+                    </RadioGroup>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="grid grid-cols-[120px_1fr] items-start gap-3">
+              <span className="text-sm text-muted-foreground pt-1">Tags</span>
+              <div className="flex flex-wrap gap-1">
+                {mergeTags(leads[0].tags, leads[1].tags).map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[120px_1fr] items-start gap-3">
+              <span className="text-sm text-muted-foreground pt-2">Observações</span>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="min-h-[80px]"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleMerge} disabled={merging}>
+            <GitMerge className="w-4 h-4 mr-2" />
+            {merging ? 'Mesclando...' : 'Mesclar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
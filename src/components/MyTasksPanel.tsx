@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertTriangle, CalendarClock, CalendarDays, ListChecks, LucideIcon } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { LeadTask } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { TaskService } from '@/services/taskService';
+import {
+  TaskDueStatus,
+  formatTaskDue,
+  groupTasksByDue,
+  taskDueStyles,
+  taskTypeIcons,
+  taskTypeLabels
+} from '@/lib/tasks';
+
+const sections: { status: TaskDueStatus; title: string; empty: string; icon: LucideIcon }[] = [
+  { status: 'overdue', title: 'Atrasadas', empty: 'Nenhuma tarefa atrasada', icon: AlertTriangle },
+  { status: 'today', title: 'Hoje', empty: 'Nada para hoje', icon: CalendarClock },
+  { status: 'upcoming', title: 'Próximas', empty: 'Nenhuma tarefa agendada', icon: CalendarDays },
+];
+
+export const MyTasksPanel: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [tasks, setTasks] = useState<LeadTask[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTasks = useCallback(async () => {
+    if (!user) return;
+    setTasks(await TaskService.getOpenTasksForUser(user.user_id));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  // Tarefas criadas ou concluídas por outras pessoas (ou em outra aba) atualizam a lista
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`my-tasks-${user.user_id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_tasks', filter: `assigned_to=eq.${user.user_id}` },
+        () => fetchTasks()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchTasks]);
+
+  const groups = useMemo(() => groupTasksByDue(tasks), [tasks]);
+
+  const completeTask = async (task: LeadTask) => {
+    try {
+      await TaskService.setCompleted(task.id, true);
+      setTasks(prev => prev.filter(t => t.id !== task.id));
+      toast({
+        title: "Tarefa concluída",
+        description: task.title,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao concluir tarefa",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-card-foreground">Minhas Tarefas</h2>
+        <p className="text-muted-foreground">Ligações, reuniões e e-mails atribuídos a você</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {sections.map(({ status, title, empty, icon: SectionIcon }) => (
+          <Card key={status}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <div className={`flex items-center space-x-2 ${taskDueStyles[status]}`}>
+                  <SectionIcon className="w-5 h-5" />
+                  <span>{title}</span>
+                </div>
+                <Badge variant="secondary">{groups[status].length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {groups[status].length === 0 && (
+                <div className="flex flex-col items-center justify-center py-8 text-center">
+                  <ListChecks className="w-8 h-8 text-slate-300 mb-2" />
+                  <p className="text-sm text-muted-foreground">{empty}</p>
+                </div>
+              )}
+              {groups[status].map((task) => {
+                const TypeIcon = taskTypeIcons[task.type];
+                return (
+                  <div key={task.id} className="flex items-start space-x-3 p-3 border border-card-border rounded-lg">
+                    <Checkbox className="mt-0.5" onCheckedChange={() => completeTask(task)} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{task.title}</p>
+                      <button
+                        onClick={() => navigate(`/lead/${task.lead_id}`)}
+                        className="text-xs text-primary hover:underline truncate block max-w-full text-left"
+                      >
+                        {task.leads?.name || 'Lead'}
+                      </button>
+                      <div className="flex items-center space-x-1.5 text-xs text-muted-foreground mt-1">
+                        <TypeIcon className="w-3 h-3" />
+                        <span>{taskTypeLabels[task.type]}</span>
+                        <span>·</span>
+                        <span className={taskDueStyles[status]}>{formatTaskDue(task.due_at)}</span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,11 +7,22 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { X, Plus } from 'lucide-react';
-import { Lead } from '@/types/crm';
+import { X, Plus, AlertTriangle } from 'lucide-react';
+import { CustomFieldValue, Lead } from '@/types/crm';
 import { useAuth } from './AuthWrapper';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePipelines } from '@/hooks/usePipelines';
+import { getInitialStage } from '@/lib/pipeline';
+import { duplicateReasonLabels } from '@/lib/duplicates';
+import { LeadService } from '@/services/leadService';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { getMissingRequiredFields } from '@/lib/customFields';
+import { CustomFieldInputs } from './CustomFieldInputs';
+import { useAssignmentRules } from '@/hooks/useAssignmentRules';
+import { AUTO_ASSIGNEE, hasUsableAssignmentRule } from '@/lib/assignment';
+import { DuplicateReason } from '@/types/crm';
 
 interface NewLeadModalProps {
   open: boolean;
@@ -21,11 +33,16 @@ interface NewLeadModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onLeadCreated?: () => void;
+  pipelineId?: string;
 }
 
-export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange, onLeadCreated }) => {
-  const { user, allAssignableUsers } = useAuth();
+export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange, onLeadCreated, pipelineId }) => {
+  const navigate = useNavigate();
+  const { user, accountId, allAssignableUsers } = useAuth();
   const { toast } = useToast();
+  const { pipelines, defaultPipeline } = usePipelines();
+  const { fields: customFields } = useCustomFields();
+  const { rules: assignmentRules } = useAssignmentRules();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const [formData, setFormData] = useState({
@@ -34,12 +51,43 @@ export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange,
     phone: '',
     company: '',
     value: '',
-    assignedTo: user?.user_id || '',
+    assignedTo: '', // vazio = padrão (automático quando há regras de distribuição)
     notes: '',
     tags: [] as string[],
     source: '',
+    pipelineId: '',
+    customFields: {} as Record<string, CustomFieldValue>,
   });
   const [tagInput, setTagInput] = useState('');
+  const [duplicates, setDuplicates] = useState<(Lead & { match_reason: DuplicateReason })[]>([]);
+  const selectedPipelineId = formData.pipelineId || pipelineId || defaultPipeline?.id;
+  const { stages } = usePipelineStages(selectedPipelineId);
+  const assignedTo = formData.assignedTo
+    || (hasUsableAssignmentRule(assignmentRules) ? AUTO_ASSIGNEE : user?.user_id || '');
+
+  // Ao alterar os dados de contato, a verificação de duplicados precisa ser refeita
+  useEffect(() => {
+    setDuplicates([]);
+  }, [formData.name, formData.email, formData.phone, formData.company]);
+
+  const checkDuplicates = async () => {
+    if (!accountId) return [];
+
+    const matches = await LeadService.findDuplicates(accountId, {
+      name: formData.name,
+      email: formData.email,
+      phone: formData.phone,
+      company: formData.company,
+    });
+    const matchedLeads = await LeadService.getLeadsByIds(matches.map(match => match.lead_id));
+
+    return matches
+      .map(match => {
+        const lead = matchedLeads.find(l => l.id === match.lead_id);
+        return lead ? { ...lead, match_reason: match.match_reason } : null;
+      })
+      .filter(Boolean) as (Lead & { match_reason: DuplicateReason })[];
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -53,6 +101,16 @@ export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange,
       return;
     }
 
+    const missingFields = getMissingRequiredFields(customFields, formData.customFields);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Erro",
+        description: `Preencha os campos obrigatórios: ${missingFields.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!user) {
       toast({
         title: "Erro",
@@ -65,18 +123,30 @@ export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange,
     setIsSubmitting(true);
 
     try {
+      // Primeiro envio: avisa sobre possíveis duplicados; o segundo confirma a criação
+      if (duplicates.length === 0) {
+        const found = await checkDuplicates();
+        if (found.length > 0) {
+          setDuplicates(found);
+          return;
+        }
+      }
+
       const newLead = {
         name: formData.name,
         email: formData.email,
         phone: formData.phone,
         company: formData.company || null,
         value: formData.value ? parseFloat(formData.value) : 0,
-        status: 'new',
-        assigned_to: formData.assignedTo,
+        pipeline_id: selectedPipelineId,
+        status: getInitialStage(stages)?.key || 'new',
+        // Sem responsável, o banco escolhe pelas regras de distribuição
+        assigned_to: assignedTo === AUTO_ASSIGNEE ? null : assignedTo,
         notes: formData.notes || '',
         tags: formData.tags,
         source: formData.source || 'Manual',
         user_id: user.user_id,
+        custom_fields: formData.customFields,
       };
 
       const { error } = await supabase
@@ -105,12 +175,15 @@ export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange,
         phone: '',
         company: '',
         value: '',
-        assignedTo: user?.user_id || '',
+        assignedTo: '',
         notes: '',
         tags: [],
         source: '',
+        pipelineId: '',
+        customFields: {},
       });
       setTagInput('');
+      setDuplicates([]);
       
       // Call refresh callback
       if (onLeadCreated) {
@@ -234,20 +307,38 @@ export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange,
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="assignedTo" className="text-card-foreground font-medium">Responsável</Label>
-            <Select value={formData.assignedTo} onValueChange={(value) => setFormData(prev => ({ ...prev, assignedTo: value }))}>
-              <SelectTrigger className="border-input focus:ring-primary">
-                <SelectValue placeholder="Selecionar responsável" />
-              </SelectTrigger>
-              <SelectContent>
-                {assignableUsers.map((u) => (
-                  <SelectItem key={u.id} value={u.id}>
-                    {u.name} {u.role === 'master' && '(Admin)'}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="assignedTo" className="text-card-foreground font-medium">Responsável</Label>
+              <Select value={assignedTo} onValueChange={(value) => setFormData(prev => ({ ...prev, assignedTo: value }))}>
+                <SelectTrigger className="border-input focus:ring-primary">
+                  <SelectValue placeholder="Selecionar responsável" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_ASSIGNEE}>Automático (regras de distribuição)</SelectItem>
+                  {assignableUsers.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.name} {u.role === 'master' && '(Admin)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pipeline" className="text-card-foreground font-medium">Pipeline</Label>
+              <Select value={selectedPipelineId} onValueChange={(value) => setFormData(prev => ({ ...prev, pipelineId: value }))}>
+                <SelectTrigger className="border-input focus:ring-primary">
+                  <SelectValue placeholder="Selecionar pipeline" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={pipeline.id}>
+                      {pipeline.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -285,6 +376,12 @@ export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange,
             )}
           </div>
 
+          <CustomFieldInputs
+            fields={customFields}
+            values={formData.customFields}
+            onChange={(values) => setFormData(prev => ({ ...prev, customFields: values }))}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="notes" className="text-card-foreground font-medium">Observações</Label>
             <Textarea
@@ -296,12 +393,44 @@ export const NewLeadModal: React.FC<NewLeadModalProps> = ({ open, onOpenChange,
             />
           </div>
 
+          {duplicates.length > 0 && (
+            <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 space-y-3">
+              <div className="flex items-center text-sm font-medium text-amber-800">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                Este lead parece já existir
+              </div>
+              <div className="space-y-2">
+                {duplicates.map((lead) => (
+                  <div key={lead.id} className="flex items-center justify-between text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{lead.name}{lead.company ? ` · ${lead.company}` : ''}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {duplicateReasonLabels[lead.match_reason]} · {lead.email}
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        onOpenChange(false);
+                        navigate(`/lead/${lead.id}`);
+                      }}
+                    >
+                      Abrir
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3 pt-4 border-t border-border">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
               Cancelar
             </Button>
             <Button type="submit" className="bg-gradient-to-r from-primary to-primary-dark text-primary-foreground" disabled={isSubmitting}>
-              {isSubmitting ? "Criando..." : "Criar Lead"}
+              {isSubmitting ? "Criando..." : duplicates.length > 0 ? "Criar mesmo assim" : "Criar Lead"}
             </Button>
           </div>
         </form>
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell, CheckCheck } from 'lucide-react';
+import { AppNotification } from '@/types/crm';
+import { useNotifications } from '@/hooks/useNotifications';
+import { getNotificationIcon } from '@/lib/notifications';
+
+export const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+
+  const openNotification = (notification: AppNotification) => {
+    markAsRead(notification);
+    if (notification.lead_id) {
+      setOpen(false);
+      navigate(`/lead/${notification.lead_id}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative hover:bg-muted" aria-label="Notificações">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="end">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-card-border">
+          <p className="font-semibold text-card-foreground">Notificações</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={markAllAsRead}
+            disabled={unreadCount === 0}
+            className="text-xs h-7"
+          >
+            <CheckCheck className="w-3.5 h-3.5 mr-1" />
+            Marcar todas como lidas
+          </Button>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-10 text-center">
+              <Bell className="w-8 h-8 text-slate-300 mb-2" />
+              <p className="text-sm text-muted-foreground">Nenhuma notificação por aqui</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-card-border">
+              {notifications.map((notification) => {
+                const Icon = getNotificationIcon(notification.type);
+                const unread = !notification.read_at;
+                return (
+                  <li key={notification.id}>
+                    <button
+                      onClick={() => openNotification(notification)}
+                      className={`w-full flex items-start space-x-3 px-4 py-3 text-left hover:bg-muted/60 transition-colors ${
+                        unread ? 'bg-primary/5' : ''
+                      }`}
+                    >
+                      <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+                        <Icon className="w-4 h-4 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-sm truncate ${unread ? 'font-semibold text-card-foreground' : 'text-muted-foreground'}`}>
+                          {notification.title}
+                        </p>
+                        {notification.body && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                        )}
+                        <p className="text-[11px] text-muted-foreground mt-1">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: ptBR })}
+                        </p>
+                      </div>
+                      {unread && <span className="w-2 h-2 rounded-full bg-primary mt-1.5 shrink-0" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
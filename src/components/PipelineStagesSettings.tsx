@@ -0,0 +1,609 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  Kanban,
+  Save,
+  Plus,
+  Trash2,
+  Edit3,
+  ArrowUp,
+  ArrowDown,
+  ListChecks,
+  Hourglass,
+  X
+} from 'lucide-react';
+import { Pipeline, PipelineStage, StageKind } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePipelines } from '@/hooks/usePipelines';
+import { PipelineService } from '@/services/pipelineService';
+import { StageRules, StageRulesDialog } from './StageRulesDialog';
+import { stageHasRules } from '@/lib/stageRequirements';
+
+const stageKindLabels: Record<StageKind, string> = {
+  open: 'Em andamento',
+  won: 'Ganho',
+  lost: 'Perdido',
+};
+
+const stageColors = [
+  '#3B82F6', '#06B6D4', '#8B5CF6', '#6366F1', '#EC4899',
+  '#F97316', '#EAB308', '#22C55E', '#EF4444', '#6B7280',
+];
+
+export const PipelineStagesSettings: React.FC = () => {
+  const { accountId } = useAuth();
+  const { toast } = useToast();
+  const { pipelines, defaultPipeline, refetch: refetchPipelines } = usePipelines();
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string | null>(null);
+  const currentPipeline = pipelines.find(p => p.id === selectedPipelineId) || defaultPipeline;
+  const { stages, refetch } = usePipelineStages(currentPipeline?.id ?? null);
+
+  const [newPipelineName, setNewPipelineName] = useState('');
+  const [editingPipelineName, setEditingPipelineName] = useState<string | null>(null);
+  const [pipelineToDelete, setPipelineToDelete] = useState<Pipeline | null>(null);
+  const [targetPipelineId, setTargetPipelineId] = useState('');
+
+  const [editingStage, setEditingStage] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [newStageName, setNewStageName] = useState('');
+  const [stageToDelete, setStageToDelete] = useState<PipelineStage | null>(null);
+  const [targetStageKey, setTargetStageKey] = useState('');
+  const [rulesStage, setRulesStage] = useState<PipelineStage | null>(null);
+  const [rottingStageId, setRottingStageId] = useState<string | null>(null);
+  const [rottingDraft, setRottingDraft] = useState('');
+
+  const runStageAction = async (action: () => Promise<void>, successTitle: string, successDescription: string) => {
+    try {
+      await action();
+      await refetch();
+      toast({
+        title: successTitle,
+        description: successDescription,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar etapa",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addNewPipeline = async () => {
+    if (!newPipelineName.trim()) return;
+
+    try {
+      const pipelineId = await PipelineService.createPipeline(newPipelineName.trim());
+      await Promise.all([refetchPipelines(), refetch()]);
+      setSelectedPipelineId(pipelineId);
+      setNewPipelineName('');
+      toast({
+        title: "Pipeline criado",
+        description: "O novo pipeline foi criado com as etapas padrão",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao criar pipeline",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePipelineRename = async () => {
+    if (!currentPipeline || !editingPipelineName?.trim()) return;
+
+    try {
+      await PipelineService.renamePipeline(currentPipeline.id, editingPipelineName.trim());
+      await refetchPipelines();
+      setEditingPipelineName(null);
+      toast({
+        title: "Pipeline atualizado",
+        description: "O nome do pipeline foi alterado com sucesso",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao renomear pipeline",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDeletePipeline = async () => {
+    if (!pipelineToDelete || !targetPipelineId) return;
+
+    try {
+      const moved = await PipelineService.deletePipeline(pipelineToDelete.id, targetPipelineId);
+      await Promise.all([refetchPipelines(), refetch()]);
+      setSelectedPipelineId(targetPipelineId);
+      toast({
+        title: "Pipeline removido",
+        description: `O pipeline foi removido e ${moved} lead(s) foram movidos`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao remover pipeline",
+        variant: "destructive",
+      });
+    } finally {
+      setPipelineToDelete(null);
+      setTargetPipelineId('');
+    }
+  };
+
+  const handleStageEdit = (stageId: string, newName: string) => {
+    if (!newName.trim()) return;
+
+    runStageAction(
+      () => PipelineService.updateStage(stageId, { name: newName.trim() }),
+      "Etapa atualizada",
+      "O nome da etapa foi alterado com sucesso"
+    );
+    setEditingStage(null);
+    setEditingName('');
+  };
+
+  const handleStageChange = (
+    stageId: string,
+    changes: { color?: string; kind?: StageKind } | { rotting_days: number | null } | StageRules
+  ) => {
+    runStageAction(
+      () => PipelineService.updateStage(stageId, changes),
+      "Etapa atualizada",
+      "Configuração da etapa salva com sucesso"
+    );
+  };
+
+  // Vazio desliga o alerta de lead parado na etapa
+  const saveRottingDays = (stage: PipelineStage) => {
+    const days = rottingDraft.trim() ? parseInt(rottingDraft, 10) : null;
+    if (days !== null && (isNaN(days) || days < 1)) {
+      toast({
+        title: "Erro",
+        description: "Informe um número de dias maior que zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    handleStageChange(stage.id, { rotting_days: days });
+    setRottingStageId(null);
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    runStageAction(
+      () => PipelineService.reorderStages(reordered),
+      "Ordem atualizada",
+      "As etapas foram reordenadas"
+    );
+  };
+
+  const addNewStage = () => {
+    if (!newStageName.trim() || !accountId || !currentPipeline) return;
+
+    runStageAction(
+      async () => {
+        await PipelineService.createStage(
+          accountId,
+          currentPipeline.id,
+          { name: newStageName.trim(), color: '#6B7280', kind: 'open' },
+          stages.length
+        );
+      },
+      "Etapa criada",
+      "Nova etapa adicionada ao kanban"
+    );
+    setNewStageName('');
+  };
+
+  const requestDeleteStage = (stage: PipelineStage) => {
+    if (stages.length <= 2) {
+      toast({
+        title: "Erro",
+        description: "Você precisa ter pelo menos 2 etapas",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStageToDelete(stage);
+    setTargetStageKey('');
+  };
+
+  const confirmDeleteStage = async () => {
+    if (!stageToDelete || !targetStageKey) return;
+
+    try {
+      const moved = await PipelineService.deleteStage(stageToDelete.id, targetStageKey);
+      await refetch();
+      toast({
+        title: "Etapa removida",
+        description: `A etapa foi removida do kanban e ${moved} lead(s) foram movidos`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao remover etapa",
+        variant: "destructive",
+      });
+    } finally {
+      setStageToDelete(null);
+      setTargetStageKey('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Kanban className="w-5 h-5" />
+          <span>Configuração do Kanban</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Configure as etapas do seu funil de vendas. Você pode editar nomes, cores e ordem,
+            indicar quais etapas representam ganho ou perda, adicionar novas etapas ou remover as existentes.
+            Em etapas em andamento, defina após quantos dias um lead parado é destacado no kanban.
+            Cada pipeline tem suas próprias etapas.
+          </p>
+
+          {/* Pipelines */}
+          <div className="flex flex-wrap items-center gap-2 pb-4 border-b border-card-border">
+            {editingPipelineName !== null ? (
+              <>
+                <Input
+                  value={editingPipelineName}
+                  onChange={(e) => setEditingPipelineName(e.target.value)}
+                  placeholder="Nome do pipeline"
+                  className="w-56"
+                  autoFocus
+                />
+                <Button
+                  size="sm"
+                  onClick={handlePipelineRename}
+                  className="bg-success text-success-foreground"
+                >
+                  <Save className="w-3 h-3" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditingPipelineName(null)}>
+                  <X className="w-3 h-3" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <Select value={currentPipeline?.id ?? ''} onValueChange={setSelectedPipelineId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Selecione o pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>
+                        {pipeline.name}{pipeline.is_default ? ' (padrão)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setEditingPipelineName(currentPipeline?.name ?? '')}
+                  disabled={!currentPipeline}
+                >
+                  <Edit3 className="w-3 h-3" />
+                </Button>
+                {pipelines.length > 1 && currentPipeline && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setPipelineToDelete(currentPipeline);
+                      setTargetPipelineId('');
+                    }}
+                    className="text-destructive hover:bg-destructive-light"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </>
+            )}
+            <div className="flex items-center gap-2 ml-auto">
+              <Input
+                value={newPipelineName}
+                onChange={(e) => setNewPipelineName(e.target.value)}
+                placeholder="Nome do novo pipeline"
+                className="w-56"
+              />
+              <Button variant="outline" onClick={addNewPipeline}>
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Pipeline
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-3">
+            {stages.map((stage, index) => (
+              <div key={stage.id} className="flex items-center space-x-3 p-3 border border-card-border rounded-lg">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      className="w-4 h-4 rounded-full ring-offset-2 hover:ring-2 hover:ring-muted-foreground/40"
+                      style={{ backgroundColor: stage.color }}
+                      title="Cor da etapa"
+                    />
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-2">
+                    <div className="grid grid-cols-5 gap-2">
+                      {stageColors.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          className={`w-6 h-6 rounded-full ${stage.color === color ? 'ring-2 ring-offset-2 ring-primary' : ''}`}
+                          style={{ backgroundColor: color }}
+                          onClick={() => handleStageChange(stage.id, { color })}
+                        />
+                      ))}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+
+                <span className="text-sm font-medium text-muted-foreground w-8">
+                  #{index + 1}
+                </span>
+
+                {editingStage === stage.id ? (
+                  <div className="flex-1 flex items-center space-x-2">
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      placeholder="Nome da etapa"
+                      className="flex-1"
+                      autoFocus
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleStageEdit(stage.id, editingName)}
+                      className="bg-success text-success-foreground"
+                    >
+                      <Save className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingStage(null);
+                        setEditingName('');
+                      }}
+                    >
+                      Cancelar
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex-1 flex items-center justify-between">
+                    <span className="font-medium text-card-foreground">{stage.name}</span>
+                    <div className="flex items-center space-x-1">
+                      <Select
+                        value={stage.kind}
+                        onValueChange={(value) => handleStageChange(stage.id, { kind: value as StageKind })}
+                      >
+                        <SelectTrigger className="w-36 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(stageKindLabels) as StageKind[]).map((kind) => (
+                            <SelectItem key={kind} value={kind}>
+                              {stageKindLabels[kind]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRulesStage(stage)}
+                        className={stageHasRules(stage) ? 'text-primary' : ''}
+                        title="Regras de entrada"
+                      >
+                        <ListChecks className="w-3 h-3" />
+                      </Button>
+                      <Popover
+                        open={rottingStageId === stage.id}
+                        onOpenChange={(open) => {
+                          setRottingStageId(open ? stage.id : null);
+                          if (open) setRottingDraft(stage.rotting_days?.toString() ?? '');
+                        }}
+                      >
+                        <PopoverTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={stage.kind !== 'open'}
+                            className={stage.rotting_days ? 'text-primary' : ''}
+                            title={stage.rotting_days
+                              ? `Lead parado após ${stage.rotting_days} dia(s)`
+                              : 'Alerta de lead parado'}
+                          >
+                            <Hourglass className="w-3 h-3" />
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-64 space-y-3">
+                          <div className="space-y-2">
+                            <Label htmlFor={`rotting-${stage.id}`}>Destacar leads parados há (dias)</Label>
+                            <Input
+                              id={`rotting-${stage.id}`}
+                              type="number"
+                              min={1}
+                              value={rottingDraft}
+                              onChange={(e) => setRottingDraft(e.target.value)}
+                              onKeyDown={(e) => e.key === 'Enter' && saveRottingDays(stage)}
+                              placeholder="Sem alerta"
+                            />
+                          </div>
+                          <Button size="sm" className="w-full" onClick={() => saveRottingDays(stage)}>
+                            Salvar
+                          </Button>
+                        </PopoverContent>
+                      </Popover>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moveStage(index, -1)}
+                        disabled={index === 0}
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moveStage(index, 1)}
+                        disabled={index === stages.length - 1}
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setEditingStage(stage.id);
+                          setEditingName(stage.name);
+                        }}
+                      >
+                        <Edit3 className="w-3 h-3" />
+                      </Button>
+                      {stages.length > 2 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => requestDeleteStage(stage)}
+                          className="text-destructive hover:bg-destructive-light"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Add New Stage */}
+          <div className="flex items-center space-x-2 pt-4 border-t border-card-border">
+            <Input
+              value={newStageName}
+              onChange={(e) => setNewStageName(e.target.value)}
+              placeholder="Nome da nova etapa"
+              className="flex-1"
+            />
+            <Button
+              onClick={addNewStage}
+              className="bg-gradient-to-r from-primary to-primary-dark"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar Etapa
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      {/* Stage Rules Dialog */}
+      <StageRulesDialog
+        stage={rulesStage}
+        onOpenChange={(open) => !open && setRulesStage(null)}
+        onSave={(stage, rules) => handleStageChange(stage.id, rules)}
+      />
+
+      {/* Delete Pipeline Dialog */}
+      <AlertDialog open={!!pipelineToDelete} onOpenChange={(open) => !open && setPipelineToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover Pipeline</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os leads do pipeline <strong>{pipelineToDelete?.name}</strong> serão movidos para
+              outro pipeline, na etapa equivalente. Escolha o destino:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Select value={targetPipelineId} onValueChange={setTargetPipelineId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Mover leads para..." />
+            </SelectTrigger>
+            <SelectContent>
+              {pipelines
+                .filter(pipeline => pipeline.id !== pipelineToDelete?.id)
+                .map((pipeline) => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>
+                    {pipeline.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDeletePipeline}
+              disabled={!targetPipelineId}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remover Pipeline
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Stage Dialog */}
+      <AlertDialog open={!!stageToDelete} onOpenChange={(open) => !open && setStageToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover Etapa</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os leads da etapa <strong>{stageToDelete?.name}</strong> precisam ser movidos
+              para outra etapa antes da remoção. Escolha o destino:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Select value={targetStageKey} onValueChange={setTargetStageKey}>
+            <SelectTrigger>
+              <SelectValue placeholder="Mover leads para..." />
+            </SelectTrigger>
+            <SelectContent>
+              {stages
+                .filter(stage => stage.id !== stageToDelete?.id)
+                .map((stage) => (
+                  <SelectItem key={stage.id} value={stage.key}>
+                    {stage.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDeleteStage}
+              disabled={!targetStageKey}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remover Etapa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
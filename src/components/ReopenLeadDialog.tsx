@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PipelineStage } from '@/types/crm';
+
+interface ReopenLeadDialogProps {
+  leadName?: string;
+  stages: PipelineStage[]; // etapas de destino possíveis
+  defaultStatus?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (status: string, justification: string) => Promise<void>;
+}
+
+// Reabrir um lead perdido exige justificativa, que fica registrada no histórico
+export const ReopenLeadDialog: React.FC<ReopenLeadDialogProps> = ({
+  leadName,
+  stages,
+  defaultStatus,
+  open,
+  onOpenChange,
+  onConfirm
+}) => {
+  const [status, setStatus] = useState('');
+  const [justification, setJustification] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Chaves em texto para não reiniciar o formulário a cada render de quem passa a lista filtrada
+  const stageKeys = stages.map(stage => stage.key).join(',');
+
+  useEffect(() => {
+    if (!open) return;
+    const keys = stageKeys.split(',').filter(Boolean);
+    setStatus(defaultStatus && keys.includes(defaultStatus) ? defaultStatus : keys[0] || '');
+    setJustification('');
+  }, [open, stageKeys, defaultStatus]);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      await onConfirm(status, justification.trim());
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Reabrir lead perdido</DialogTitle>
+          <DialogDescription>
+            {leadName ? `${leadName} volta para o funil. ` : ''}O motivo da perda é limpo e a justificativa fica no histórico.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {stages.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-card-foreground font-medium">Voltar para a etapa</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.key}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label className="text-card-foreground font-medium">Justificativa *</Label>
+            <Textarea
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Ex.: Cliente voltou a pedir proposta"
+              rows={3}
+              autoFocus
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleConfirm} disabled={!status || !justification.trim() || isSubmitting}>
+            Reabrir lead
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
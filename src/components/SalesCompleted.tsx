@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,17 +17,22 @@ import {
   Building,
   Tag as TagIcon,
   Download,
-  Search
+  Search,
+  Target
 } from 'lucide-react';
 import { Sale, Tag } from '@/types/crm';
 import { useAuth } from './AuthWrapper';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useToast } from '@/hooks/use-toast';
+import { useSales } from '@/hooks/useSales';
+import { SaleService } from '@/services/saleService';
+import { toAppointmentTimestamp } from '@/lib/calendar';
 
 export const SalesCompleted: React.FC = () => {
-  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { user, accountId } = useAuth();
   const { toast } = useToast();
-  const [sales, setSales] = useLocalStorage<Sale[]>(`sales-${user?.id}`, []);
+  const { sales, refetch: refetchSales } = useSales();
   const [tags, setTags] = useLocalStorage<Tag[]>(`tags-${user?.id}`, []);
   const [searchTerm, setSearchTerm] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -48,7 +54,7 @@ export const SalesCompleted: React.FC = () => {
      sale.customerEmail.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!newSale.customerName || !newSale.customerEmail || !newSale.product || !newSale.value) {
@@ -60,21 +66,30 @@ export const SalesCompleted: React.FC = () => {
       return;
     }
 
-    const sale: Sale = {
-      id: Date.now().toString(),
-      customerName: newSale.customerName!,
-      customerEmail: newSale.customerEmail!,
-      customerPhone: newSale.customerPhone!,
-      product: newSale.product!,
-      value: newSale.value!,
-      tags: newSale.tags || [],
-      appointmentDate: newSale.appointmentDate,
-      completedAt: new Date().toISOString(),
-      userId: user?.id || '',
-      notes: newSale.notes || '',
-    };
+    if (!user || !accountId) return;
+
+    try {
+      await SaleService.createSale(accountId, {
+        customerName: newSale.customerName!,
+        customerEmail: newSale.customerEmail!,
+        customerPhone: newSale.customerPhone || '',
+        product: newSale.product!,
+        value: newSale.value!,
+        tags: newSale.tags || [],
+        appointmentDate: toAppointmentTimestamp(newSale.appointmentDate),
+        userId: user.user_id,
+        notes: newSale.notes || '',
+      });
+      await refetchSales();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao registrar venda",
+        variant: "destructive",
+      });
+      return;
+    }
 
-    setSales([...sales, sale]);
     setNewSale({
       customerName: '',
       customerEmail: '',
@@ -329,6 +344,16 @@ export const SalesCompleted: React.FC = () => {
                       <DollarSign className="w-3 h-3 text-success" />
                       <span className="font-semibold text-success">{formatCurrency(sale.value)}</span>
                     </div>
+                    {sale.leadId && (
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/lead/${sale.leadId}`)}
+                        className="flex items-center space-x-2 text-sm text-primary hover:underline"
+                      >
+                        <Target className="w-3 h-3" />
+                        <span>Lead: {sale.leadName || 'ver lead de origem'}</span>
+                      </button>
+                    )}
                   </div>
 
                   <div className="space-y-2">
@@ -339,7 +364,7 @@ export const SalesCompleted: React.FC = () => {
                     {sale.appointmentDate && (
                       <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                         <Calendar className="w-3 h-3" />
-                        <span>Atendimento: {formatDate(sale.appointmentDate)}</span>
+                        <span>Atendimento: {new Date(sale.appointmentDate).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}</span>
                       </div>
                     )}
                     {sale.tags.length > 0 && (
@@ -11,44 +11,29 @@ import {
   Shield,
   Palette,
   Database,
-  Kanban,
-  Save,
-  Plus,
-  Trash2,
-  Edit3
+  Save
 } from 'lucide-react';
 import { useAuth } from './AuthWrapper';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-
-interface KanbanStage {
-  id: string;
-  name: string;
-  color: string;
-}
+import { PipelineStagesSettings } from './PipelineStagesSettings';
+import { LeadScoringSettings } from './LeadScoringSettings';
+import { CustomFieldsSettings } from './CustomFieldsSettings';
+import { LossReasonsSettings } from './LossReasonsSettings';
+import { LeadTrash } from './LeadTrash';
+import { AssignmentRulesSettings } from './AssignmentRulesSettings';
+import { requestBrowserNotificationPermission } from '@/lib/notifications';
 
 export const SettingsPanel: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   
-  // Kanban stages configuration
-  const [kanbanStages, setKanbanStages] = useLocalStorage<KanbanStage[]>(`kanban-stages-${user?.id}`, [
-    { id: 'new', name: 'Novos Leads', color: '#3B82F6' },
-    { id: 'contacted', name: 'Contatados', color: '#EAB308' },
-    { id: 'qualified', name: 'Qualificados', color: '#8B5CF6' },
-    { id: 'proposal', name: 'Proposta', color: '#F97316' },
-    { id: 'won', name: 'Ganho', color: '#22C55E' },
-    { id: 'lost', name: 'Perdido', color: '#EF4444' },
-  ]);
-
   // User preferences
   const [preferences, setPreferences] = useLocalStorage(`preferences-${user?.id}`, {
-    emailNotifications: true,
     browserNotifications: true,
     dailyReports: true,
     weeklyReports: false,
-    autoAssignLeads: false,
     showWelcomeTour: true,
   });
 
@@ -60,9 +45,6 @@ export const SettingsPanel: React.FC = () => {
     company: '',
   });
 
-  const [editingStage, setEditingStage] = useState<string | null>(null);
-  const [newStageName, setNewStageName] = useState('');
-
   const handleSaveProfile = async () => {
     if (!user) return;
 
@@ -99,6 +81,19 @@ export const SettingsPanel: React.FC = () => {
     }
   };
 
+  // Avisos do navegador precisam da permissão do sistema; sem ela a preferência não é ligada
+  const handleBrowserNotificationsChange = async (value: boolean) => {
+    if (value && (await requestBrowserNotificationPermission()) !== 'granted') {
+      toast({
+        title: "Permissão negada",
+        description: "Libere as notificações deste site nas configurações do navegador",
+        variant: "destructive",
+      });
+      return;
+    }
+    handlePreferenceChange('browserNotifications', value);
+  };
+
   const handlePreferenceChange = (key: string, value: boolean) => {
     setPreferences(prev => ({
       ...prev,
@@ -111,58 +106,6 @@ export const SettingsPanel: React.FC = () => {
     });
   };
 
-  const handleStageEdit = (stageId: string, newName: string) => {
-    if (!newName.trim()) return;
-    
-    const updatedStages = kanbanStages.map(stage =>
-      stage.id === stageId ? { ...stage, name: newName } : stage
-    );
-    
-    setKanbanStages(updatedStages);
-    setEditingStage(null);
-    setNewStageName('');
-    
-    toast({
-      title: "Etapa atualizada",
-      description: "O nome da etapa foi alterado com sucesso",
-    });
-  };
-
-  const addNewStage = () => {
-    if (!newStageName.trim()) return;
-
-    const newStage: KanbanStage = {
-      id: Date.now().toString(),
-      name: newStageName,
-      color: '#6B7280' // Default gray color
-    };
-
-    setKanbanStages([...kanbanStages, newStage]);
-    setNewStageName('');
-    
-    toast({
-      title: "Etapa criada",
-      description: "Nova etapa adicionada ao kanban",
-    });
-  };
-
-  const deleteStage = (stageId: string) => {
-    if (kanbanStages.length <= 2) {
-      toast({
-        title: "Erro",
-        description: "Você precisa ter pelo menos 2 etapas",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setKanbanStages(kanbanStages.filter(stage => stage.id !== stageId));
-    toast({
-      title: "Etapa removida",
-      description: "A etapa foi removida do kanban",
-    });
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -243,29 +186,16 @@ export const SettingsPanel: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="font-medium text-card-foreground">Notificações por Email</p>
-                <p className="text-sm text-muted-foreground">
-                  Receber notificações importantes por email
-                </p>
-              </div>
-              <Switch
-                checked={preferences.emailNotifications}
-                onCheckedChange={(value) => handlePreferenceChange('emailNotifications', value)}
-              />
-            </div>
-
             <div className="flex items-center justify-between">
               <div>
                 <p className="font-medium text-card-foreground">Notificações do Navegador</p>
                 <p className="text-sm text-muted-foreground">
-                  Receber notificações push no navegador
+                  Avisar sobre novas notificações quando o CRM estiver em segundo plano
                 </p>
               </div>
               <Switch
                 checked={preferences.browserNotifications}
-                onCheckedChange={(value) => handlePreferenceChange('browserNotifications', value)}
+                onCheckedChange={handleBrowserNotificationsChange}
               />
             </div>
 
@@ -294,129 +224,27 @@ export const SettingsPanel: React.FC = () => {
                 onCheckedChange={(value) => handlePreferenceChange('weeklyReports', value)}
               />
             </div>
-
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="font-medium text-card-foreground">Auto-atribuir Leads</p>
-                <p className="text-sm text-muted-foreground">
-                  Atribuir automaticamente novos leads para você
-                </p>
-              </div>
-              <Switch
-                checked={preferences.autoAssignLeads}
-                onCheckedChange={(value) => handlePreferenceChange('autoAssignLeads', value)}
-              />
-            </div>
           </CardContent>
         </Card>
       </div>
 
       {/* Kanban Configuration - Only for master users */}
-      {user?.role === 'master' && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Kanban className="w-5 h-5" />
-              <span>Configuração do Kanban</span>
-            </CardTitle>
-          </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <p className="text-sm text-muted-foreground">
-              Configure as etapas do seu funil de vendas. Você pode editar os nomes, 
-              adicionar novas etapas ou remover as existentes.
-            </p>
+      {user?.role === 'master' && <PipelineStagesSettings />}
 
-            <div className="grid gap-3">
-              {kanbanStages.map((stage, index) => (
-                <div key={stage.id} className="flex items-center space-x-3 p-3 border border-card-border rounded-lg">
-                  <div 
-                    className="w-4 h-4 rounded-full"
-                    style={{ backgroundColor: stage.color }}
-                  />
-                  
-                  <span className="text-sm font-medium text-muted-foreground w-8">
-                    #{index + 1}
-                  </span>
-                  
-                  {editingStage === stage.id ? (
-                    <div className="flex-1 flex items-center space-x-2">
-                      <Input
-                        value={newStageName}
-                        onChange={(e) => setNewStageName(e.target.value)}
-                        placeholder="Nome da etapa"
-                        className="flex-1"
-                        autoFocus
-                      />
-                      <Button 
-                        size="sm" 
-                        onClick={() => handleStageEdit(stage.id, newStageName)}
-                        className="bg-success text-success-foreground"
-                      >
-                        <Save className="w-3 h-3" />
-                      </Button>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => {
-                          setEditingStage(null);
-                          setNewStageName('');
-                        }}
-                      >
-                        Cancelar
-                      </Button>
-                    </div>
-                  ) : (
-                    <div className="flex-1 flex items-center justify-between">
-                      <span className="font-medium text-card-foreground">{stage.name}</span>
-                      <div className="flex items-center space-x-1">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => {
-                            setEditingStage(stage.id);
-                            setNewStageName(stage.name);
-                          }}
-                        >
-                          <Edit3 className="w-3 h-3" />
-                        </Button>
-                        {kanbanStages.length > 2 && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => deleteStage(stage.id)}
-                            className="text-destructive hover:bg-destructive-light"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
+      {/* Lead Scoring - Only for master users */}
+      {user?.role === 'master' && <LeadScoringSettings />}
 
-            {/* Add New Stage */}
-            <div className="flex items-center space-x-2 pt-4 border-t border-card-border">
-              <Input
-                value={newStageName}
-                onChange={(e) => setNewStageName(e.target.value)}
-                placeholder="Nome da nova etapa"
-                className="flex-1"
-              />
-              <Button 
-                onClick={addNewStage}
-                className="bg-gradient-to-r from-primary to-primary-dark"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Adicionar Etapa
-              </Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-      )}
+      {/* Custom Fields - Only for master users */}
+      {user?.role === 'master' && <CustomFieldsSettings />}
+
+      {/* Lead Assignment - Only for master users */}
+      {user?.role === 'master' && <AssignmentRulesSettings />}
+
+      {/* Loss Reasons - Only for master users */}
+      {user?.role === 'master' && <LossReasonsSettings />}
+
+      {/* Lead Trash - Only for master users */}
+      {user?.role === 'master' && <LeadTrash />}
 
       {/* System Info */}
       <Card className="border-primary-muted bg-primary-muted/5">
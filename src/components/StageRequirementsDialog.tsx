@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Lead, PipelineStage } from '@/types/crm';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { CustomFieldInputs } from './CustomFieldInputs';
+import {
+  getCustomFieldRequirementKey,
+  getMissingStageRequirements,
+  hasMissingRequirements,
+  MissingStageRequirements,
+  requirableFieldLabels,
+  StandardRequirableField
+} from '@/lib/stageRequirements';
+
+interface StageRequirementsDialogProps {
+  lead: Lead | null;
+  stage?: PipelineStage;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (changes: Partial<Lead>) => Promise<void>;
+  // Movimentação em lote: permite pular o lead atual e mostra a posição na fila
+  onSkip?: () => void;
+  progressLabel?: string;
+}
+
+type TextField = Exclude<StandardRequirableField, 'value' | 'tags'>;
+
+const emptyMissing: MissingStageRequirements = { fields: [], checklist: [] };
+
+// Coleta o que falta para o lead entrar na etapa, sem sair do fluxo de movimentação
+export const StageRequirementsDialog: React.FC<StageRequirementsDialogProps> = ({
+  lead,
+  stage,
+  open,
+  onOpenChange,
+  onConfirm,
+  onSkip,
+  progressLabel
+}) => {
+  const { fields: customFields } = useCustomFields();
+  const [draft, setDraft] = useState<Partial<Lead>>({});
+  const [tagInput, setTagInput] = useState('');
+  // Fixado ao abrir para os campos não sumirem enquanto são preenchidos
+  const [missing, setMissing] = useState<MissingStageRequirements>(emptyMissing);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !lead) return;
+    setDraft({
+      ...lead,
+      custom_fields: { ...(lead.custom_fields || {}) },
+      checklist_done: [...(lead.checklist_done || [])],
+    });
+    setTagInput((lead.tags || []).join(', '));
+    setMissing(getMissingStageRequirements(lead, stage));
+  }, [open, lead, stage]);
+
+  const missingCustomFields = useMemo(() => {
+    const keys = missing.fields.map(getCustomFieldRequirementKey).filter(Boolean);
+    return customFields.filter(field => keys.includes(field.key));
+  }, [missing, customFields]);
+
+  const standardFields = missing.fields.filter(field => !getCustomFieldRequirementKey(field)) as StandardRequirableField[];
+  const stillMissing = hasMissingRequirements(getMissingStageRequirements(draft, stage));
+
+  const setText = (field: TextField, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleChecklistItem = (item: string, checked: boolean) => {
+    setDraft(prev => {
+      const done = prev.checklist_done || [];
+      return { ...prev, checklist_done: checked ? [...done, item] : done.filter(i => i !== item) };
+    });
+  };
+
+  const handleConfirm = async () => {
+    const changes: Partial<Lead> = {};
+    standardFields.forEach(field => {
+      (changes as Record<string, unknown>)[field] = draft[field];
+    });
+    if (missingCustomFields.length > 0) changes.custom_fields = draft.custom_fields;
+    if (missing.checklist.length > 0) changes.checklist_done = draft.checklist_done;
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(changes);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderStandardField = (field: StandardRequirableField) => {
+    const id = `stage-requirement-${field}`;
+    switch (field) {
+      case 'value':
+        return (
+          <Input
+            id={id}
+            type="number"
+            step="0.01"
+            value={draft.value ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, value: parseFloat(e.target.value) || 0 }))}
+            placeholder="0,00"
+          />
+        );
+      case 'tags':
+        return (
+          <Input
+            id={id}
+            value={tagInput}
+            onChange={(e) => {
+              setTagInput(e.target.value);
+              setDraft(prev => ({
+                ...prev,
+                tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean),
+              }));
+            }}
+            placeholder="Separe as tags por vírgula"
+          />
+        );
+      case 'notes':
+        return (
+          <Textarea
+            id={id}
+            value={draft.notes || ''}
+            onChange={(e) => setText('notes', e.target.value)}
+            rows={3}
+          />
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={field === 'email' ? 'email' : 'text'}
+            value={draft[field] || ''}
+            onChange={(e) => setText(field, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Requisitos da etapa {stage?.name}</DialogTitle>
+          <DialogDescription>
+            {progressLabel ? `${progressLabel} · ` : ''}
+            Complete os dados de {lead?.name || 'o lead'} para movê-lo para esta etapa.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {standardFields.map((field) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`stage-requirement-${field}`} className="font-medium">
+                {requirableFieldLabels[field]} *
+              </Label>
+              {renderStandardField(field)}
+            </div>
+          ))}
+
+          <CustomFieldInputs
+            fields={missingCustomFields}
+            values={draft.custom_fields || {}}
+            onChange={(values) => setDraft(prev => ({ ...prev, custom_fields: values }))}
+          />
+
+          {missing.checklist.length > 0 && (
+            <div className="space-y-2">
+              <Label className="font-medium">Checklist</Label>
+              {missing.checklist.map((item) => (
+                <label key={item} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={(draft.checklist_done || []).includes(item)}
+                    onCheckedChange={(checked) => toggleChecklistItem(item, checked === true)}
+                  />
+                  <span>{item}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          {onSkip && (
+            <Button variant="outline" onClick={onSkip} disabled={isSubmitting}>Pular lead</Button>
+          )}
+          <Button onClick={handleConfirm} disabled={stillMissing || isSubmitting}>
+            {isSubmitting ? 'Salvando...' : 'Salvar e mover'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, X } from 'lucide-react';
+import { PipelineStage } from '@/types/crm';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { requirableFieldLabels, requirableFields, toCustomFieldRequirement } from '@/lib/stageRequirements';
+
+export interface StageRules {
+  required_fields: string[];
+  checklist: string[];
+}
+
+interface StageRulesDialogProps {
+  stage: PipelineStage | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (stage: PipelineStage, rules: StageRules) => void;
+}
+
+// Campos obrigatórios e checklist que o lead precisa cumprir para entrar na etapa
+export const StageRulesDialog: React.FC<StageRulesDialogProps> = ({ stage, onOpenChange, onSave }) => {
+  const { fields: customFields } = useCustomFields();
+  const [requiredFields, setRequiredFields] = useState<string[]>([]);
+  const [checklist, setChecklist] = useState<string[]>([]);
+  const [newItem, setNewItem] = useState('');
+
+  useEffect(() => {
+    if (!stage) return;
+    setRequiredFields(stage.required_fields || []);
+    setChecklist(stage.checklist || []);
+    setNewItem('');
+  }, [stage]);
+
+  const toggleField = (field: string, checked: boolean) => {
+    setRequiredFields(prev => checked ? [...prev, field] : prev.filter(f => f !== field));
+  };
+
+  const addItem = () => {
+    const item = newItem.trim();
+    if (item && !checklist.includes(item)) {
+      setChecklist(prev => [...prev, item]);
+    }
+    setNewItem('');
+  };
+
+  const fieldOptions = [
+    ...requirableFields.map(field => ({ value: field, label: requirableFieldLabels[field] })),
+    ...customFields.map(field => ({ value: toCustomFieldRequirement(field.key), label: field.label })),
+  ];
+
+  return (
+    <Dialog open={!!stage} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Regras de entrada · {stage?.name}</DialogTitle>
+          <DialogDescription>
+            Leads só entram nesta etapa com os campos abaixo preenchidos e o checklist concluído.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label className="font-semibold">Campos obrigatórios</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {fieldOptions.map((option) => (
+                <label key={option.value} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={requiredFields.includes(option.value)}
+                    onCheckedChange={(checked) => toggleField(option.value, checked === true)}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="font-semibold">Checklist</Label>
+            <div className="flex flex-wrap gap-2">
+              {checklist.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nenhum item de checklist.</p>
+              )}
+              {checklist.map((item) => (
+                <Badge key={item} variant="secondary" className="flex items-center gap-1">
+                  {item}
+                  <X
+                    className="w-3 h-3 cursor-pointer"
+                    onClick={() => setChecklist(prev => prev.filter(i => i !== item))}
+                  />
+                </Badge>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <Input
+                value={newItem}
+                onChange={(e) => setNewItem(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addItem()}
+                placeholder="Ex.: Proposta enviada"
+              />
+              <Button variant="outline" onClick={addItem}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => {
+              if (stage) onSave(stage, { required_fields: requiredFields, checklist });
+              onOpenChange(false);
+            }}
+          >
+            Salvar regras
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PipelineStage, StageTimeStat } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { PipelineService } from '@/services/pipelineService';
+import { buildStageTimeReport, formatDuration, StageTimeRow } from '@/lib/stageAging';
+
+interface StageTimeReportProps {
+  pipelineId: string | null; // null = todos os pipelines
+  stages: PipelineStage[];
+  getStageLabel: (stage: PipelineStage) => string;
+}
+
+const StageTimeTable: React.FC<{ title: string; rows: StageTimeRow[]; emptyText: string }> = ({ title, rows, emptyText }) => (
+  <div className="space-y-3">
+    <h4 className="font-semibold text-card-foreground">{title}</h4>
+    {rows.length === 0 && <p className="text-sm text-muted-foreground">{emptyText}</p>}
+    {rows.length > 0 && (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th className="font-medium pb-2" />
+            <th className="font-medium pb-2 text-right" title="Média dos leads que já saíram da etapa">Tempo médio</th>
+            <th className="font-medium pb-2 text-right">Passagens</th>
+            <th className="font-medium pb-2 text-right" title="Leads que estão na etapa agora e há quanto tempo, em média">Em aberto</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t border-card-border">
+              <td className="py-2 font-medium truncate max-w-[12rem]">
+                <div className="flex items-center space-x-2">
+                  {row.color && <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: row.color }} />}
+                  <span className="truncate">{row.label}</span>
+                </div>
+              </td>
+              <td className="py-2 text-right">{formatDuration(row.completedAvgSeconds)}</td>
+              <td className="py-2 text-right text-muted-foreground">{row.completedCount}</td>
+              <td className="py-2 text-right text-muted-foreground">
+                {row.openCount > 0 ? `${row.openCount} · ${formatDuration(row.openAvgSeconds)}` : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+// Tempo médio que os leads passam em cada etapa em andamento, por etapa e por responsável
+export const StageTimeReport: React.FC<StageTimeReportProps> = ({ pipelineId, stages, getStageLabel }) => {
+  const { user, allAssignableUsers } = useAuth();
+  const [stats, setStats] = useState<StageTimeStat[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchStats = async () => {
+      setStats(await PipelineService.getStageTimeStats(pipelineId ?? undefined));
+    };
+
+    fetchStats();
+  }, [user, pipelineId]);
+
+  const report = useMemo(() => buildStageTimeReport(
+    // Mesmo recorte do restante do painel: vendedores veem só os próprios leads
+    user?.role === 'master' ? stats : stats.filter(stat => stat.assigned_to === user?.user_id),
+    {
+      stages,
+      getStageLabel,
+      getAssigneeName: (userId) => userId
+        ? allAssignableUsers.find(u => u.user_id === userId)?.name || 'Outro usuário'
+        : 'Não atribuído',
+    }
+  ), [stats, stages, getStageLabel, allAssignableUsers, user]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tempo nas Etapas</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <StageTimeTable title="Por etapa" rows={report.byStage} emptyText="Nenhuma etapa em andamento." />
+          <StageTimeTable title="Por responsável" rows={report.byAssignee} emptyText="Nenhum lead passou pelas etapas ainda." />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -6,6 +6,8 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Plus, 
   Users, 
@@ -17,14 +19,22 @@ import {
   Trash2,
   Settings,
   Shield,
-  Activity
+  Activity,
+  Loader2
 } from 'lucide-react';
 import { useAuth } from './AuthWrapper';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { UserService } from '@/services/userService';
+import { useTeamPermissions } from '@/hooks/useTeamPermissions';
+import { PermissionService } from '@/services/permissionService';
+import { DEFAULT_MEMBER_PERMISSIONS, leadPermissionLabels, leadPermissions } from '@/lib/permissions';
+import { LeadPermission, MemberOwnership } from '@/types/auth';
+
+// Valor do seletor de destinatário para distribuir entre os demais membros
+const ROUND_ROBIN = 'round_robin';
 
 export const UsersPanel: React.FC = () => {
-  const { user, userStats, users, addSubUser, userManagementLoading } = useAuth();
+  const { user, userStats, users, allAssignableUsers, addSubUser, refreshUsers, userManagementLoading } = useAuth();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newUser, setNewUser] = useState({
@@ -34,6 +44,10 @@ export const UsersPanel: React.FC = () => {
   });
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<{ id: string; name: string } | null>(null);
+  const [ownership, setOwnership] = useState<MemberOwnership | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [removing, setRemoving] = useState(false);
+  const { permissionsByUser, refetch: refetchPermissions } = useTeamPermissions();
 
   // Only master users can access this panel
   if (user?.role !== 'master') {
@@ -68,51 +82,75 @@ export const UsersPanel: React.FC = () => {
     }
   };
 
-  const handleDeleteUser = (userId: string, userName: string) => {
+  const handleDeleteUser = async (userId: string, userName: string) => {
     setUserToDelete({ id: userId, name: userName });
+    setOwnership(null);
+    setRecipient('');
     setDeleteConfirmOpen(true);
+    setOwnership(await UserService.getMemberOwnership(userId));
   };
 
   const confirmDeleteUser = async () => {
-    if (!userToDelete || !user) return;
+    if (!userToDelete || !user || !recipient) return;
 
+    setRemoving(true);
     try {
-      // First, delete the user's profile
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .delete()
-        .eq('user_id', userToDelete.id);
-
-      if (profileError) {
-        console.error('Error deleting profile:', profileError);
-        toast({
-          title: "Erro",
-          description: "Erro ao excluir perfil do usuário",
-          variant: "destructive",
-        });
-        return;
-      }
+      // Leads, tarefas e vendas mudam de dono na mesma transação que remove o perfil.
+      // A conta de acesso continua existindo, mas sem perfil não entra no CRM
+      const moved = await UserService.removeTeamMember(
+        userToDelete.id,
+        recipient === ROUND_ROBIN ? null : recipient
+      );
 
-      // Note: We can't delete from auth.users directly due to RLS
-      // The user account will remain but without profile access
-      
+      const recipientName = allAssignableUsers.find(u => u.user_id === recipient)?.name;
       toast({
         title: "Usuário removido",
-        description: `${userToDelete.name} foi removido da equipe`,
+        description: recipient === ROUND_ROBIN
+          ? `${userToDelete.name} foi removido da equipe e ${moved} lead(s) foram distribuídos em rodízio`
+          : `${userToDelete.name} foi removido da equipe e ${moved} lead(s) foram transferidos para ${recipientName}`,
       });
 
-      // Refresh team users list
-      window.location.reload();
+      setDeleteConfirmOpen(false);
+      setUserToDelete(null);
+      await Promise.all([refreshUsers(), refetchPermissions()]);
     } catch (error) {
-      console.error('Error deleting user:', error);
       toast({
         title: "Erro",
-        description: "Erro inesperado ao remover usuário",
+        description: (error as Error).message || "Erro inesperado ao remover usuário",
         variant: "destructive",
       });
     } finally {
-      setDeleteConfirmOpen(false);
-      setUserToDelete(null);
+      setRemoving(false);
+    }
+  };
+
+  const togglePermission = async (memberId: string, permission: LeadPermission, enabled: boolean) => {
+    if (!user) return;
+
+    const current = permissionsByUser[memberId] || DEFAULT_MEMBER_PERMISSIONS;
+    try {
+      await PermissionService.saveMemberPermissions(user.user_id, memberId, { ...current, [permission]: enabled });
+      await refetchPermissions();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar permissões",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Inativos não recebem leads das regras de distribuição
+  const toggleActive = async (memberId: string, active: boolean) => {
+    try {
+      await UserService.setMemberActive(memberId, active);
+      await refreshUsers();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao alterar status",
+        variant: "destructive",
+      });
     }
   };
 
@@ -338,10 +376,13 @@ export const UsersPanel: React.FC = () => {
                   </div>
 
                   <div className="flex items-center space-x-2">
-                    <Badge variant="outline" className="bg-muted text-muted-foreground">
-                      <Activity className="w-3 h-3 mr-1" />
-                      Offline
-                    </Badge>
+                    <label className="flex items-center space-x-2 text-sm text-muted-foreground cursor-pointer">
+                      <Switch
+                        checked={subUser.is_active !== false}
+                        onCheckedChange={(checked) => toggleActive(subUser.user_id, checked)}
+                      />
+                      <span>{subUser.is_active !== false ? 'Ativo' : 'Inativo'}</span>
+                    </label>
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -352,6 +393,22 @@ export const UsersPanel: React.FC = () => {
                     </Button>
                   </div>
                 </div>
+
+                {/* Member Permissions */}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 mt-4 pt-4 border-t border-card-border">
+                  {leadPermissions.map((permission) => (
+                    <label key={permission} className="flex items-start space-x-3 cursor-pointer">
+                      <Switch
+                        checked={(permissionsByUser[subUser.user_id] || DEFAULT_MEMBER_PERMISSIONS)[permission]}
+                        onCheckedChange={(checked) => togglePermission(subUser.user_id, permission, checked)}
+                      />
+                      <div>
+                        <p className="text-sm font-medium text-card-foreground">{leadPermissionLabels[permission].label}</p>
+                        <p className="text-xs text-muted-foreground">{leadPermissionLabels[permission].description}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
               </CardContent>
             </Card>
           ))
@@ -383,15 +440,16 @@ export const UsersPanel: React.FC = () => {
               <span>Usuário da Equipe</span>
             </h4>
             <p className="text-sm text-muted-foreground">
-              Acesso limitado: gerenciar apenas seus próprios leads, registrar vendas, 
-              ver analytics pessoais. Não pode adicionar usuários ou modificar configurações.
+              Acesso limitado: gerenciar os próprios leads, registrar vendas e ver analytics pessoais.
+              Mover, editar valores, excluir e transferir leads dependem das permissões marcadas em cada membro.
+              Não pode adicionar usuários ou modificar configurações.
             </p>
           </div>
         </CardContent>
       </Card>
 
       {/* Delete Confirmation Dialog */}
-      <AlertDialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
+      <AlertDialog open={deleteConfirmOpen} onOpenChange={(open) => !removing && setDeleteConfirmOpen(open)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Remover Usuário</AlertDialogTitle>
@@ -400,13 +458,65 @@ export const UsersPanel: React.FC = () => {
               Esta ação não pode ser desfeita e o usuário perderá acesso ao sistema.
             </AlertDialogDescription>
           </AlertDialogHeader>
+
+          {ownership ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="rounded-lg border border-card-border p-3">
+                  <p className="text-2xl font-bold text-card-foreground">{ownership.leads}</p>
+                  <p className="text-xs text-muted-foreground">Leads</p>
+                </div>
+                <div className="rounded-lg border border-card-border p-3">
+                  <p className="text-2xl font-bold text-card-foreground">{ownership.tasks}</p>
+                  <p className="text-xs text-muted-foreground">Tarefas abertas</p>
+                </div>
+                <div className="rounded-lg border border-card-border p-3">
+                  <p className="text-2xl font-bold text-card-foreground">{ownership.sales}</p>
+                  <p className="text-xs text-muted-foreground">Vendas</p>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-card-foreground">Transferir para</label>
+                <Select value={recipient} onValueChange={setRecipient}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Escolha quem recebe" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ROUND_ROBIN}>Distribuir em rodízio entre os membros ativos</SelectItem>
+                    {allAssignableUsers
+                      .filter(u => u.user_id !== userToDelete?.id)
+                      .map(u => (
+                        <SelectItem key={u.user_id} value={u.user_id}>
+                          {u.name}{u.role === 'master' ? ' (Administrador)' : ''}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  A transferência fica registrada no histórico de cada lead. No rodízio, as tarefas
+                  acompanham o novo responsável pelo lead.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogCancel disabled={removing}>Cancelar</AlertDialogCancel>
             <AlertDialogAction 
-              onClick={confirmDeleteUser}
+              onClick={(e) => {
+                e.preventDefault();
+                confirmDeleteUser();
+              }}
+              disabled={!recipient || removing}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              Remover Usuário
+              {removing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Transferir e remover
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
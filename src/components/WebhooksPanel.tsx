@@ -23,7 +23,7 @@ import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useToast } from '@/hooks/use-toast';
 
 export const WebhooksPanel: React.FC = () => {
-  const { user } = useAuth();
+  const { user, accountId } = useAuth();
   const { toast } = useToast();
   const [webhooks, setWebhooks] = useLocalStorage<WebhookType[]>(`webhooks-${user?.id}`, []);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -416,9 +416,15 @@ export const WebhooksPanel: React.FC = () => {
                 <div>&nbsp;&nbsp;"value": 5000,</div>
                 <div>&nbsp;&nbsp;"source": "Site",</div>
                 <div>&nbsp;&nbsp;"tags": ["interessado", "premium"],</div>
-                <div>&nbsp;&nbsp;"notes": "Interessado no produto premium"</div>
+                <div>&nbsp;&nbsp;"notes": "Interessado no produto premium",</div>
+                <div>&nbsp;&nbsp;"accountId": "{accountId}"</div>
                 <div>{"}"}</div>
               </div>
+              <p className="text-sm text-muted-foreground mt-2">
+                Opcionalmente envie <code>"pipelineId"</code> para escolher o pipeline; sem ele, o lead entra no pipeline padrão da conta.
+                Envie <code>"assignedTo"</code> com o id de um usuário para definir o responsável; sem ele, o lead segue
+                as regras de distribuição da conta (Configurações) e, se nenhuma se aplicar, fica com o administrador.
+              </p>
             </div>
           <div>
             <h4 className="font-medium text-card-foreground">Webhooks de Saída:</h4>
@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, XCircle, Percent } from 'lucide-react';
+import { Lead } from '@/types/crm';
+import { useAuth } from './AuthWrapper';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { buildWinLossReport, LossBreakdownRow, WinLossRow, winRate } from '@/lib/winLoss';
+
+interface WinLossReportProps {
+  leads: Lead[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatPercentage = (value: number) => `${value.toFixed(1)}%`;
+
+const LossBars: React.FC<{ title: string; rows: LossBreakdownRow[] }> = ({ title, rows }) => (
+  <div className="space-y-3">
+    <h4 className="font-semibold text-card-foreground">{title}</h4>
+    {rows.length === 0 && <p className="text-sm text-muted-foreground">Nenhum lead perdido.</p>}
+    {rows.map((row) => (
+      <div key={row.label}>
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium truncate">{row.label}</span>
+          <span className="text-muted-foreground">{row.count} · {formatCurrency(row.value)}</span>
+        </div>
+        <div className="w-full bg-muted rounded-full h-2 mt-1">
+          <div
+            className="bg-destructive/70 h-2 rounded-full transition-all"
+            style={{ width: `${(row.count / rows[0].count) * 100}%` }}
+          />
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const WinLossTable: React.FC<{ title: string; rows: WinLossRow[] }> = ({ title, rows }) => (
+  <div className="space-y-3">
+    <h4 className="font-semibold text-card-foreground">{title}</h4>
+    {rows.length === 0 && <p className="text-sm text-muted-foreground">Nenhum negócio fechado.</p>}
+    {rows.length > 0 && (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th className="font-medium pb-2" />
+            <th className="font-medium pb-2 text-right">Ganhos</th>
+            <th className="font-medium pb-2 text-right">Perdidos</th>
+            <th className="font-medium pb-2 text-right">Taxa</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t border-card-border">
+              <td className="py-2 font-medium truncate max-w-[10rem]">{row.label}</td>
+              <td className="py-2 text-right text-success">{row.won}</td>
+              <td className="py-2 text-right text-destructive">{row.lost}</td>
+              <td className="py-2 text-right">{formatPercentage(winRate(row))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export const WinLossReport: React.FC<WinLossReportProps> = ({ leads }) => {
+  const { allAssignableUsers } = useAuth();
+  const { getStage } = usePipelineStages();
+
+  const report = useMemo(() => buildWinLossReport(leads, {
+    getKind: (lead) => getStage(lead.status, lead.pipeline_id)?.kind,
+    getAssigneeName: (userId) => allAssignableUsers.find(u => u.user_id === userId)?.name || 'Outro usuário',
+    getStageName: (lead, key) => getStage(key, lead.pipeline_id)?.name || key,
+  }), [leads, getStage, allAssignableUsers]);
+
+  const { totals } = report;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ganhos e Perdas</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="flex items-center space-x-3 p-4 border border-card-border rounded-lg">
+            <CheckCircle2 className="w-8 h-8 text-success" />
+            <div>
+              <p className="text-sm text-muted-foreground">Ganhos</p>
+              <p className="text-xl font-bold text-success">{totals.won}</p>
+              <p className="text-xs text-muted-foreground">{formatCurrency(totals.wonValue)}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3 p-4 border border-card-border rounded-lg">
+            <XCircle className="w-8 h-8 text-destructive" />
+            <div>
+              <p className="text-sm text-muted-foreground">Perdidos</p>
+              <p className="text-xl font-bold text-destructive">{totals.lost}</p>
+              <p className="text-xs text-muted-foreground">{formatCurrency(totals.lostValue)}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3 p-4 border border-card-border rounded-lg">
+            <Percent className="w-8 h-8 text-primary" />
+            <div>
+              <p className="text-sm text-muted-foreground">Taxa de ganho</p>
+              <p className="text-xl font-bold text-primary">{formatPercentage(winRate(totals))}</p>
+              <p className="text-xs text-muted-foreground">{totals.won + totals.lost} negócios fechados</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <LossBars title="Motivos de perda" rows={report.byReason} />
+          <LossBars title="Etapa em que foi perdido" rows={report.byLostStage} />
+          <WinLossTable title="Por fonte" rows={report.bySource} />
+          <WinLossTable title="Por responsável" rows={report.byAssignee} />
+        </div>
+
+        {report.byCompetitor.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-card-foreground">Perdidos para concorrentes</h4>
+            <div className="flex flex-wrap gap-2">
+              {report.byCompetitor.map((row) => (
+                <Badge key={row.label} variant="secondary">
+                  {row.label}: {row.count}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AssignmentService } from '@/services/assignmentService';
+import { AssignmentRule } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+
+export const useAssignmentRules = () => {
+  const { accountId } = useAuth();
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRules = useCallback(async () => {
+    if (!accountId) return;
+    const data = await AssignmentService.getRules();
+    setRules(data.filter(rule => rule.account_id === accountId));
+    setLoading(false);
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  return {
+    rules,
+    loading,
+    refetch: fetchRules,
+  };
+};
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CompanyService, CompanyWithContacts } from '@/services/companyService';
+import { useAuth } from '@/components/AuthWrapper';
+
+export const useCompanies = () => {
+  const { accountId } = useAuth();
+  const [companies, setCompanies] = useState<CompanyWithContacts[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCompanies = useCallback(async () => {
+    if (!accountId) return;
+    const data = await CompanyService.getCompanies();
+    setCompanies(data.filter(company => company.account_id === accountId));
+    setLoading(false);
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchCompanies();
+  }, [fetchCompanies]);
+
+  return {
+    companies,
+    loading,
+    refetch: fetchCompanies,
+  };
+};
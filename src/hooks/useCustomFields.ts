@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CustomFieldService } from '@/services/customFieldService';
+import { CustomFieldDefinition } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+
+export const useCustomFields = () => {
+  const { accountId } = useAuth();
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFields = useCallback(async () => {
+    if (!accountId) return;
+    const data = await CustomFieldService.getFields();
+    setFields(data.filter(field => field.account_id === accountId));
+    setLoading(false);
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  return {
+    fields,
+    loading,
+    refetch: fetchFields,
+  };
+};
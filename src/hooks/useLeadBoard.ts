@@ -0,0 +1,314 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { LEAD_PAGE_SIZE, LeadService } from '@/services/leadService';
+import { KanbanGrouping, Lead, LeadColumnTotals, LeadFilters, LeadLaneTotals, LeadSort } from '@/types/crm';
+import { applyLeadFilters, compareLeads, getSortCursor } from '@/lib/leadFilters';
+import { useAuth } from '@/components/AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+
+// Chave do grupo único da visão em lista (todas as etapas do pipeline)
+export const ALL_STAGES = '*';
+
+export interface LeadBucket {
+  leads: Lead[];
+  hasMore: boolean;
+  loading: boolean;
+}
+
+interface UseLeadBoardOptions {
+  pipelineId?: string;
+  bucketKeys: string[]; // etapas (kanban) ou [ALL_STAGES] (lista)
+  filters: LeadFilters;
+  sort: LeadSort;
+  grouping?: KanbanGrouping; // raias do kanban; totais por raia só são buscados quando há agrupamento
+}
+
+const TOTALS_REFRESH_DELAY = 500;
+// Eventos realtime são agrupados por este intervalo; rajadas maiores que o limite
+// (ex.: importação) viram uma única recarga em vez de um ajuste por lead
+const REALTIME_BATCH_DELAY = 300;
+const REALTIME_BURST_THRESHOLD = 20;
+// Lote de outra tela que não avisou o fim (ex.: aba fechada no meio) deixa de segurar os eventos
+const BULK_JOB_TIMEOUT = 2 * 60 * 1000;
+
+const statusOf = (key: string) => (key === ALL_STAGES ? null : key);
+
+// Leads do pipeline paginados por etapa no servidor, mantidos em dia pelo realtime
+export const useLeadBoard = ({ pipelineId, bucketKeys, filters, sort, grouping = 'none' }: UseLeadBoardOptions) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [buckets, setBuckets] = useState<Record<string, LeadBucket>>({});
+  const [totals, setTotals] = useState<Record<string, LeadColumnTotals>>({});
+  const [laneTotals, setLaneTotals] = useState<LeadLaneTotals>({});
+  const [loading, setLoading] = useState(true);
+
+  const bucketsRef = useRef(buckets);
+  // Invalida respostas de cargas anteriores quando filtros, ordenação ou pipeline mudam
+  const generation = useRef(0);
+  // Movimentos otimistas ainda não confirmados pelo banco (leadId -> etapa de destino)
+  const pendingMoves = useRef(new Map<string, string>());
+  const totalsTimer = useRef<ReturnType<typeof setTimeout>>();
+  const realtimeQueue = useRef<{ leadId: string; lead: Lead | null }[]>([]);
+  const realtimeTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const keysSignature = bucketKeys.join('|');
+
+  useEffect(() => {
+    bucketsRef.current = buckets;
+  }, [buckets]);
+
+  const fetchLaneTotals = useCallback(async () => {
+    if (!pipelineId || grouping === 'none') {
+      setLaneTotals({});
+      return;
+    }
+    setLaneTotals(await LeadService.getLaneTotals(pipelineId, grouping, filters));
+  }, [pipelineId, grouping, filters]);
+
+  const fetchTotals = useCallback(async () => {
+    if (!pipelineId) return;
+    const [columnTotals] = await Promise.all([LeadService.getColumnTotals(pipelineId, filters), fetchLaneTotals()]);
+    setTotals(columnTotals);
+  }, [pipelineId, filters, fetchLaneTotals]);
+
+  // Trocar o agrupamento não recarrega os leads, só os totais das raias
+  useEffect(() => {
+    fetchLaneTotals();
+  }, [fetchLaneTotals]);
+
+  const scheduleTotalsRefresh = useCallback(() => {
+    clearTimeout(totalsTimer.current);
+    totalsTimer.current = setTimeout(fetchTotals, TOTALS_REFRESH_DELAY);
+  }, [fetchTotals]);
+
+  useEffect(() => () => {
+    clearTimeout(totalsTimer.current);
+    clearTimeout(realtimeTimer.current);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const keys = keysSignature ? keysSignature.split('|') : [];
+    if (!user || !pipelineId || keys.length === 0) return;
+
+    const requestId = ++generation.current;
+    setLoading(true);
+
+    try {
+      const [pages, columnTotals] = await Promise.all([
+        Promise.all(keys.map(key => LeadService.getLeadsPage({ pipelineId, status: statusOf(key), filters, sort }))),
+        LeadService.getColumnTotals(pipelineId, filters),
+      ]);
+      if (requestId !== generation.current) return;
+
+      setBuckets(Object.fromEntries(keys.map((key, index) => [key, {
+        leads: pages[index],
+        hasMore: pages[index].length === LEAD_PAGE_SIZE,
+        loading: false,
+      }])));
+      setTotals(columnTotals);
+    } catch (error) {
+      console.error('Error fetching leads:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar leads",
+        variant: "destructive",
+      });
+    } finally {
+      if (requestId === generation.current) setLoading(false);
+    }
+  }, [user, pipelineId, keysSignature, filters, sort, toast]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const loadMore = useCallback(async (key: string) => {
+    const bucket = bucketsRef.current[key];
+    if (!pipelineId || !bucket || bucket.loading || !bucket.hasMore) return;
+
+    const requestId = generation.current;
+    const last = bucket.leads[bucket.leads.length - 1];
+    setBuckets(prev => ({ ...prev, [key]: { ...prev[key], loading: true } }));
+
+    try {
+      const page = await LeadService.getLeadsPage({
+        pipelineId,
+        status: statusOf(key),
+        filters,
+        sort,
+        cursor: last ? getSortCursor(last, sort) : null,
+      });
+      if (requestId !== generation.current) return;
+
+      setBuckets(prev => {
+        const current = prev[key];
+        const known = new Set(current.leads.map(lead => lead.id));
+        return {
+          ...prev,
+          [key]: {
+            leads: [...current.leads, ...page.filter(lead => !known.has(lead.id))],
+            hasMore: page.length === LEAD_PAGE_SIZE,
+            loading: false,
+          },
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching leads page:', error);
+      setBuckets(prev => ({ ...prev, [key]: { ...prev[key], loading: false } }));
+    }
+  }, [pipelineId, filters, sort]);
+
+  // Remove o lead de onde estiver e, se ainda casa com a visão, encaixa na posição da ordenação.
+  // Leads além da faixa já carregada ficam para quando a próxima página chegar
+  const applyChange = useCallback((leadId: string, lead: Lead | null) => {
+    setBuckets(prev => Object.fromEntries(Object.entries(prev).map(([key, bucket]) => {
+      let leads = bucket.leads.filter(item => item.id !== leadId);
+
+      const belongs = !!lead &&
+        lead.pipeline_id === pipelineId &&
+        (key === ALL_STAGES || lead.status === key) &&
+        applyLeadFilters([lead], filters).length > 0;
+      const last = leads[leads.length - 1];
+
+      if (belongs && (!bucket.hasMore || !last || compareLeads(lead, last, sort) <= 0)) {
+        const index = leads.findIndex(item => compareLeads(lead, item, sort) < 0);
+        leads = index === -1 ? [...leads, lead] : [...leads.slice(0, index), lead, ...leads.slice(index)];
+      }
+
+      return [key, { ...bucket, leads }];
+    })));
+  }, [pipelineId, filters, sort]);
+
+  const flushRealtime = useCallback(() => {
+    realtimeTimer.current = undefined;
+    const events = realtimeQueue.current.splice(0);
+
+    if (events.length > REALTIME_BURST_THRESHOLD) {
+      refresh();
+      return;
+    }
+    events.forEach(({ leadId, lead }) => applyChange(leadId, lead));
+    scheduleTotalsRefresh();
+  }, [applyChange, refresh, scheduleTotalsRefresh]);
+
+  // Handlers mais recentes para o canal realtime, que não é recriado a cada mudança de filtro
+  const realtimeHandlers = useRef({ flushRealtime, refresh });
+  useEffect(() => {
+    realtimeHandlers.current = { flushRealtime, refresh };
+  }, [flushRealtime, refresh]);
+
+  useEffect(() => {
+    if (!user) return;
+    let wasSubscribed = false;
+    // Lotes em andamento na conta (id -> timer de segurança); enquanto houver algum,
+    // os eventos de cada lead são descartados e o fim do último vira uma única recarga
+    const bulkJobs = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const finishBulkJob = (jobId: string) => {
+      const timer = bulkJobs.get(jobId);
+      if (!timer) return;
+      clearTimeout(timer);
+      bulkJobs.delete(jobId);
+      if (bulkJobs.size === 0) realtimeHandlers.current.refresh();
+    };
+
+    const queueChange = (leadId: string, lead: Lead | null) => {
+      if (bulkJobs.size > 0) return;
+      realtimeQueue.current.push({ leadId, lead });
+      if (!realtimeTimer.current) {
+        realtimeTimer.current = setTimeout(() => realtimeHandlers.current.flushRealtime(), REALTIME_BATCH_DELAY);
+      }
+    };
+
+    const channel = supabase
+      .channel(`leads-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'leads' }, (payload) => {
+        const inserted = payload.new as Lead;
+        queueChange(inserted.id, inserted);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'leads' }, (payload) => {
+        const updated = payload.new as Lead;
+        // Ignora eco antigo enquanto o arraste otimista deste lead não foi confirmado
+        const pendingStatus = pendingMoves.current.get(updated.id);
+        if (pendingStatus && pendingStatus !== updated.status) return;
+
+        queueChange(updated.id, updated);
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'leads' }, (payload) => {
+        const deletedId = (payload.old as Partial<Lead>).id;
+        if (!deletedId) return;
+        queueChange(deletedId, null);
+      })
+      // Ida para a lixeira não chega como evento de leads (a linha deixa de ser visível);
+      // a volta chega como UPDATE normal, então só a exclusão precisa ser tratada aqui
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'lead_trash_events' }, (payload) => {
+        const event = payload.new as { action: string; lead_ids: string[] };
+        if (event.action !== 'delete') return;
+        event.lead_ids.forEach(leadId => queueChange(leadId, null));
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'lead_bulk_jobs' }, (payload) => {
+        const jobId = (payload.new as { id: string }).id;
+        bulkJobs.set(jobId, setTimeout(() => finishBulkJob(jobId), BULK_JOB_TIMEOUT));
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'lead_bulk_jobs' }, (payload) => {
+        const job = payload.new as { id: string; status: string };
+        if (job.status === 'done') finishBulkJob(job.id);
+      })
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        // Eventos perdidos enquanto a conexão caiu só são recuperados com recarga completa
+        if (wasSubscribed) realtimeHandlers.current.refresh();
+        wasSubscribed = true;
+      });
+    return () => {
+      bulkJobs.forEach(timer => clearTimeout(timer));
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  // Move o lead na hora e persiste; em caso de erro volta à etapa original e relança
+  // changes leva dados exigidos pela etapa de destino (ex.: motivo da perda, justificativa de reabertura)
+  const moveLead = useCallback(async (lead: Lead, status: string, changes: Partial<Lead> = {}) => {
+    const updatedAt = new Date().toISOString();
+    pendingMoves.current.set(lead.id, status);
+    applyChange(lead.id, {
+      ...lead,
+      ...changes,
+      status,
+      updated_at: updatedAt,
+      // O banco reinicia a contagem ao mudar de etapa; aqui só espelha para o card
+      stage_entered_at: status !== lead.status ? updatedAt : lead.stage_entered_at,
+    });
+    setTotals(prev => {
+      const from = prev[lead.status] || { count: 0, value: 0 };
+      const to = prev[status] || { count: 0, value: 0 };
+      return {
+        ...prev,
+        [lead.status]: { count: from.count - 1, value: from.value - (lead.value || 0) },
+        [status]: { count: to.count + 1, value: to.value + ((changes.value ?? lead.value) || 0) },
+      };
+    });
+
+    try {
+      const { error } = await supabase
+        .from('leads')
+        .update({ ...changes, status, updated_at: updatedAt })
+        .eq('id', lead.id);
+
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      applyChange(lead.id, lead);
+      fetchTotals();
+      throw error;
+    } finally {
+      if (pendingMoves.current.get(lead.id) === status) pendingMoves.current.delete(lead.id);
+    }
+  }, [applyChange, fetchTotals]);
+
+  // Alterações feitas localmente por outras telas (ex.: delegação em massa)
+  const applyLocalChanges = useCallback((leads: Lead[]) => {
+    leads.forEach(lead => applyChange(lead.id, lead));
+  }, [applyChange]);
+
+  return { buckets, totals, laneTotals, loading, loadMore, moveLead, applyLocalChanges, refetch: refresh };
+};
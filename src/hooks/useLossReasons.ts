@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LossReasonService } from '@/services/lossReasonService';
+import { LossReason } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+
+export const useLossReasons = () => {
+  const { accountId } = useAuth();
+  const [lossReasons, setLossReasons] = useState<LossReason[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLossReasons = useCallback(async () => {
+    if (!accountId) return;
+    const data = await LossReasonService.getLossReasons();
+    setLossReasons(data.filter(reason => reason.account_id === accountId));
+    setLoading(false);
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchLossReasons();
+  }, [fetchLossReasons]);
+
+  return {
+    reasons: lossReasons.filter(reason => reason.kind === 'reason'),
+    competitors: lossReasons.filter(reason => reason.kind === 'competitor'),
+    loading,
+    refetch: fetchLossReasons,
+  };
+};
@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { NotificationService, NOTIFICATIONS_LIMIT } from '@/services/notificationService';
+import { AppNotification } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+import { showBrowserNotification } from '@/lib/notifications';
+
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+    const [list, count] = await Promise.all([
+      NotificationService.getNotifications(),
+      NotificationService.getUnreadCount(),
+    ]);
+    setNotifications(list);
+    setUnreadCount(count);
+  }, [user]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  // Entrega em tempo real; updates chegam quando outra aba marca como lida
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications-${user.user_id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.user_id}` },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)].slice(0, NOTIFICATIONS_LIMIT));
+          setUnreadCount(prev => prev + 1);
+          showBrowserNotification(user.user_id, notification);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.user_id}` },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          setNotifications(prev => prev.map(n => (n.id === notification.id ? notification : n)));
+          NotificationService.getUnreadCount().then(setUnreadCount);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const markAsRead = useCallback(async (notification: AppNotification) => {
+    if (notification.read_at) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read_at: readAt } : n)));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+    try {
+      await NotificationService.markAsRead(notification.id);
+    } catch {
+      fetchNotifications();
+    }
+  }, [fetchNotifications]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: readAt })));
+    setUnreadCount(0);
+    try {
+      await NotificationService.markAllAsRead(user.user_id);
+    } catch {
+      fetchNotifications();
+    }
+  }, [user, fetchNotifications]);
+
+  return {
+    notifications,
+    unreadCount,
+    markAsRead,
+    markAllAsRead,
+    refetch: fetchNotifications,
+  };
+};
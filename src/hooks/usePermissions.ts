@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PermissionService } from '@/services/permissionService';
+import { LeadPermission, MemberPermissions } from '@/types/auth';
+import { Lead } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+import { canMoveLead, DEFAULT_MEMBER_PERMISSIONS, MASTER_PERMISSIONS } from '@/lib/permissions';
+
+// Permissões do usuário logado; o banco aplica as mesmas regras (RLS e enforce_lead_permissions)
+export const usePermissions = () => {
+  const { user } = useAuth();
+  const [permissions, setPermissions] = useState<MemberPermissions>(
+    user?.role === 'master' ? MASTER_PERMISSIONS : DEFAULT_MEMBER_PERMISSIONS
+  );
+  const [loading, setLoading] = useState(true);
+
+  const fetchPermissions = useCallback(async () => {
+    if (!user) return;
+
+    if (user.role === 'master') {
+      setPermissions(MASTER_PERMISSIONS);
+    } else {
+      const rows = await PermissionService.getMemberPermissions();
+      const own = rows.find(row => row.user_id === user.user_id);
+      setPermissions(own || DEFAULT_MEMBER_PERMISSIONS);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchPermissions();
+  }, [fetchPermissions]);
+
+  const can = useCallback((permission: LeadPermission) => permissions[permission], [permissions]);
+
+  const canMove = useCallback(
+    (lead: Pick<Lead, 'assigned_to'>) => canMoveLead(permissions, lead.assigned_to, user?.user_id),
+    [permissions, user]
+  );
+
+  return {
+    permissions,
+    can,
+    canMoveLead: canMove,
+    loading,
+    refetch: fetchPermissions,
+  };
+};
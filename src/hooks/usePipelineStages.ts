@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { PipelineService } from '@/services/pipelineService';
+import { PipelineStage } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+
+// Etapas da conta; quando pipelineId é informado, `stages` traz apenas as daquele pipeline
+export const usePipelineStages = (pipelineId?: string | null) => {
+  const { accountId } = useAuth();
+  const [allStages, setAllStages] = useState<PipelineStage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStages = useCallback(async () => {
+    if (!accountId) return;
+    const data = await PipelineService.getStages();
+    setAllStages(data.filter(stage => stage.account_id === accountId));
+    setLoading(false);
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchStages();
+  }, [fetchStages]);
+
+  // Mantém todas as telas em sincronia quando o master altera as etapas
+  useEffect(() => {
+    const channel = supabase
+      .channel(`pipeline-stages-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'pipeline_stages' }, () => {
+        fetchStages();
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [fetchStages]);
+
+  const stages = useMemo(
+    () => pipelineId ? allStages.filter(stage => stage.pipeline_id === pipelineId) : allStages,
+    [allStages, pipelineId]
+  );
+
+  const getStage = useCallback(
+    (key: string, stagePipelineId: string | null | undefined = pipelineId) =>
+      allStages.find(stage =>
+        stage.key === key && (!stagePipelineId || stage.pipeline_id === stagePipelineId)
+      ),
+    [allStages, pipelineId]
+  );
+
+  return {
+    stages,
+    allStages,
+    loading,
+    getStage,
+    refetch: fetchStages,
+  };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { PipelineService } from '@/services/pipelineService';
+import { Pipeline } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+
+export const usePipelines = () => {
+  const { accountId } = useAuth();
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPipelines = useCallback(async () => {
+    if (!accountId) return;
+    const data = await PipelineService.getPipelines();
+    setPipelines(data.filter(pipeline => pipeline.account_id === accountId));
+    setLoading(false);
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchPipelines();
+  }, [fetchPipelines]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`pipelines-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'pipelines' }, () => {
+        fetchPipelines();
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [fetchPipelines]);
+
+  const defaultPipeline = useMemo(
+    () => pipelines.find(pipeline => pipeline.is_default) || pipelines[0],
+    [pipelines]
+  );
+
+  return {
+    pipelines,
+    defaultPipeline,
+    loading,
+    refetch: fetchPipelines,
+  };
+};
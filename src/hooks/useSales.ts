@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SaleService } from '@/services/saleService';
+import { Sale } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+import { toAppointmentTimestamp } from '@/lib/calendar';
+
+// Vendas registradas antes da tabela sales existir ficavam só no navegador
+const readLegacySales = (key: string): Sale[] => {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : [];
+  } catch (error) {
+    console.error(`Error reading localStorage key "${key}":`, error);
+    return [];
+  }
+};
+
+export const useSales = () => {
+  const { user, accountId } = useAuth();
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSales = useCallback(async () => {
+    if (!user || !accountId) return;
+
+    const legacyKey = `sales-${user.id}`;
+    const legacySales = readLegacySales(legacyKey);
+    if (legacySales.length > 0) {
+      try {
+        await SaleService.importSales(accountId, legacySales.map(sale => ({
+          leadId: sale.leadId,
+          customerName: sale.customerName,
+          customerEmail: sale.customerEmail,
+          customerPhone: sale.customerPhone,
+          product: sale.product,
+          value: sale.value,
+          tags: sale.tags || [],
+          appointmentDate: toAppointmentTimestamp(sale.appointmentDate),
+          completedAt: sale.completedAt,
+          userId: user.user_id,
+          notes: sale.notes,
+        })));
+        window.localStorage.removeItem(legacyKey);
+      } catch (error) {
+        // Mantém no localStorage para tentar de novo no próximo carregamento
+        console.error('Erro ao migrar vendas locais:', error);
+      }
+    }
+
+    setSales(await SaleService.getSales());
+    setLoading(false);
+  }, [user, accountId]);
+
+  useEffect(() => {
+    fetchSales();
+  }, [fetchSales]);
+
+  return {
+    sales,
+    loading,
+    refetch: fetchSales,
+  };
+};
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SavedViewService } from '@/services/savedViewService';
+import { SavedView } from '@/types/crm';
+import { useAuth } from '@/components/AuthWrapper';
+
+export const useSavedViews = () => {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchViews = useCallback(async () => {
+    if (!user) return;
+    setViews(await SavedViewService.getViews());
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  return {
+    views,
+    loading,
+    refetch: fetchViews,
+  };
+};
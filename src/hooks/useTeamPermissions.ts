@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PermissionService } from '@/services/permissionService';
+import { MemberPermissions } from '@/types/auth';
+import { useAuth } from '@/components/AuthWrapper';
+
+// Permissões de cada membro da equipe, indexadas pelo user_id (só para o master)
+export const useTeamPermissions = () => {
+  const { user } = useAuth();
+  const [permissionsByUser, setPermissionsByUser] = useState<Record<string, MemberPermissions>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchPermissions = useCallback(async () => {
+    if (!user || user.role !== 'master') return;
+    const rows = await PermissionService.getMemberPermissions();
+    setPermissionsByUser(Object.fromEntries(rows.map(({ user_id, ...permissions }) => [user_id, permissions])));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchPermissions();
+  }, [fetchPermissions]);
+
+  return {
+    permissionsByUser,
+    loading,
+    refetch: fetchPermissions,
+  };
+};
@@ -0,0 +1,28 @@
+import React, { useCallback } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { UNDO_TOAST_DURATION } from '@/lib/undo';
+
+interface UndoToastOptions {
+  title: string;
+  description: string;
+  onUndo: () => void;
+}
+
+// Toast de sucesso com "Desfazer". Só um toast aparece por vez, então o botão vale para a última ação
+export const useUndoToast = () => {
+  const { toast } = useToast();
+
+  return useCallback(({ title, description, onUndo }: UndoToastOptions) => {
+    toast({
+      title,
+      description,
+      duration: UNDO_TOAST_DURATION,
+      action: (
+        <ToastAction altText="Desfazer" onClick={onUndo}>
+          Desfazer
+        </ToastAction>
+      ),
+    });
+  }, [toast]);
+};
@@ -16,14 +16,15 @@ export const useUserManagement = (currentUser: AuthUser | null) => {
   }), []);
 
   const fetchTeamUsers = useCallback(async () => {
-    if (!currentUser || currentUser.role !== 'master') {
+    if (!currentUser) {
       setUsers([]);
       return;
     }
 
     setLoading(true);
     try {
-      const profiles = await UserService.getTeamUsers(currentUser.user_id);
+      // Membros só recebem os colegas quando têm permissão para transferir leads (RLS)
+      const profiles = await UserService.getTeamUsers(currentUser.master_account_id || currentUser.user_id);
       const transformedUsers = profiles.map(transformProfile);
       setUsers(transformedUsers);
     } catch (error) {
@@ -86,8 +87,11 @@ export const useUserManagement = (currentUser: AuthUser | null) => {
   const getAllAssignableUsers = useCallback((): AuthUser[] => {
     // Retorna o admin atual + membros da equipe para atribuição de leads
     if (!currentUser) return [];
+    if (currentUser.role !== 'master') {
+      return [currentUser, ...users.filter(u => u.user_id !== currentUser.user_id)];
+    }
     return [currentUser, ...getTeamMembers()];
-  }, [currentUser, getTeamMembers]);
+  }, [currentUser, users, getTeamMembers]);
 
   const getUserStats = useCallback((): UserStats => {
     if (!currentUser || currentUser.role !== 'master') {
@@ -97,7 +101,7 @@ export const useUserManagement = (currentUser: AuthUser | null) => {
     const teamMembers = getTeamMembers();
     return {
       totalUsers: teamMembers.length + 1, // +1 para o admin
-      activeUsers: teamMembers.length + 1, // Assumindo que todos estão ativos
+      activeUsers: teamMembers.filter(member => member.is_active !== false).length + 1,
       administrators: 1, // Apenas o master
     };
   }, [currentUser, getTeamMembers]);
@@ -14,100 +14,978 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_settings: {
+        Row: {
+          account_id: string
+          created_at: string
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_settings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      companies: {
+        Row: {
+          account_id: string
+          address: string | null
+          cnpj: string | null
+          created_at: string
+          domain: string | null
+          id: string
+          name: string
+          segment: string | null
+          size: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          address?: string | null
+          cnpj?: string | null
+          created_at?: string
+          domain?: string | null
+          id?: string
+          name: string
+          segment?: string | null
+          size?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          address?: string | null
+          cnpj?: string | null
+          created_at?: string
+          domain?: string | null
+          id?: string
+          name?: string
+          segment?: string | null
+          size?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "companies_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      custom_field_definitions: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          is_required: boolean
+          key: string
+          label: string
+          options: string[]
+          position: number
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          key: string
+          label: string
+          options?: string[]
+          position?: number
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          key?: string
+          label?: string
+          options?: string[]
+          position?: number
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lead_assignment_rule_members: {
+        Row: {
+          assigned_count: number
+          last_assigned_at: string | null
+          position: number
+          rule_id: string
+          user_id: string
+          weight: number
+        }
+        Insert: {
+          assigned_count?: number
+          last_assigned_at?: string | null
+          position?: number
+          rule_id: string
+          user_id: string
+          weight?: number
+        }
+        Update: {
+          assigned_count?: number
+          last_assigned_at?: string | null
+          position?: number
+          rule_id?: string
+          user_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_assignment_rule_members_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "lead_assignment_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_assignment_rules: {
+        Row: {
+          account_id: string
+          conditions: Json
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          position: number
+          strategy: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          conditions?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          position?: number
+          strategy: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          conditions?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          position?: number
+          strategy?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lead_bulk_jobs: {
+        Row: {
+          account_id: string
+          created_at: string
+          created_by: string
+          finished_at: string | null
+          id: string
+          status: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          created_by: string
+          finished_at?: string | null
+          id?: string
+          status?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          created_by?: string
+          finished_at?: string | null
+          id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_bulk_jobs_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "lead_bulk_jobs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       lead_feedback: {
         Row: {
           created_at: string
           id: string
-          lead_id: string
-          message: string
+          lead_id: string
+          message: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lead_id: string
+          message: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lead_id?: string
+          message?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_feedback_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      lead_history: {
+        Row: {
+          action: string
+          changed_by: string | null
+          changes: Json
+          created_at: string
+          id: string
+          lead_id: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          lead_id: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          lead_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "lead_history_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_scoring_rules: {
+        Row: {
+          account_id: string
+          created_at: string
+          field: string
+          id: string
+          is_active: boolean
+          operator: string
+          points: number
+          position: number
+          updated_at: string
+          value: string | null
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          field: string
+          id?: string
+          is_active?: boolean
+          operator: string
+          points: number
+          position?: number
+          updated_at?: string
+          value?: string | null
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          field?: string
+          id?: string
+          is_active?: boolean
+          operator?: string
+          points?: number
+          position?: number
+          updated_at?: string
+          value?: string | null
+        }
+        Relationships: []
+      }
+      lead_stage_periods: {
+        Row: {
+          assigned_to: string | null
+          entered_at: string
+          exited_at: string | null
+          id: string
+          lead_id: string
+          pipeline_id: string
+          status: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          entered_at?: string
+          exited_at?: string | null
+          id?: string
+          lead_id: string
+          pipeline_id: string
+          status: string
+        }
+        Update: {
+          assigned_to?: string | null
+          entered_at?: string
+          exited_at?: string | null
+          id?: string
+          lead_id?: string
+          pipeline_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_stage_periods_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "lead_stage_periods_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_periods_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_tasks: {
+        Row: {
+          account_id: string
+          assigned_to: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          due_at: string
+          due_notified_at: string | null
+          id: string
+          lead_id: string
+          title: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          assigned_to: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_at: string
+          due_notified_at?: string | null
+          id?: string
+          lead_id: string
+          title: string
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          assigned_to?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_at?: string
+          due_notified_at?: string | null
+          id?: string
+          lead_id?: string
+          title?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_tasks_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_trash_events: {
+        Row: {
+          account_id: string
+          action: string
+          created_at: string
+          id: string
+          lead_ids: string[]
+        }
+        Insert: {
+          account_id: string
+          action: string
+          created_at?: string
+          id?: string
+          lead_ids: string[]
+        }
+        Update: {
+          account_id?: string
+          action?: string
+          created_at?: string
+          id?: string
+          lead_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_trash_events_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      leads: {
+        Row: {
+          assigned_to: string
+          checklist_done: string[]
+          company: string | null
+          company_id: string | null
+          created_at: string
+          custom_fields: Json
+          deleted_at: string | null
+          deleted_by: string | null
+          email: string
+          id: string
+          lost_at: string | null
+          lost_comment: string | null
+          lost_competitor: string | null
+          lost_from_status: string | null
+          lost_reason: string | null
+          name: string
+          next_task_at: string | null
+          next_task_title: string | null
+          next_task_type: string | null
+          notes: string | null
+          phone: string
+          pipeline_id: string
+          reopen_justification: string | null
+          score: number
+          source: string
+          stage_entered_at: string
+          status: string
+          tags: string[] | null
+          updated_at: string
+          user_id: string
+          value: number | null
+        }
+        Insert: {
+          assigned_to: string
+          checklist_done?: string[]
+          company?: string | null
+          company_id?: string | null
+          created_at?: string
+          custom_fields?: Json
+          deleted_at?: string | null
+          deleted_by?: string | null
+          email: string
+          id?: string
+          lost_at?: string | null
+          lost_comment?: string | null
+          lost_competitor?: string | null
+          lost_from_status?: string | null
+          lost_reason?: string | null
+          name: string
+          next_task_at?: string | null
+          next_task_title?: string | null
+          next_task_type?: string | null
+          notes?: string | null
+          phone: string
+          pipeline_id?: string
+          reopen_justification?: string | null
+          score?: number
+          source: string
+          stage_entered_at?: string
+          status?: string
+          tags?: string[] | null
+          updated_at?: string
+          user_id: string
+          value?: number | null
+        }
+        Update: {
+          assigned_to?: string
+          checklist_done?: string[]
+          company?: string | null
+          company_id?: string | null
+          created_at?: string
+          custom_fields?: Json
+          deleted_at?: string | null
+          deleted_by?: string | null
+          email?: string
+          id?: string
+          lost_at?: string | null
+          lost_comment?: string | null
+          lost_competitor?: string | null
+          lost_from_status?: string | null
+          lost_reason?: string | null
+          name?: string
+          next_task_at?: string | null
+          next_task_title?: string | null
+          next_task_type?: string | null
+          notes?: string | null
+          phone?: string
+          pipeline_id?: string
+          reopen_justification?: string | null
+          score?: number
+          source?: string
+          stage_entered_at?: string
+          status?: string
+          tags?: string[] | null
+          updated_at?: string
+          user_id?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leads_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leads_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "leads_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      loss_reasons: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          position: number
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          id?: string
+          kind?: string
+          name: string
+          position?: number
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loss_reasons_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      member_permissions: {
+        Row: {
+          account_id: string
+          created_at: string
+          delete_leads: boolean
+          edit_lead_values: boolean
+          move_any_lead: boolean
+          move_own_leads: boolean
+          reassign_leads: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          delete_leads?: boolean
+          edit_lead_values?: boolean
+          move_any_lead?: boolean
+          move_own_leads?: boolean
+          reassign_leads?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          delete_leads?: boolean
+          edit_lead_values?: boolean
+          move_any_lead?: boolean
+          move_own_leads?: boolean
+          reassign_leads?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_permissions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "member_permissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          lead_id: string | null
+          read_at: string | null
+          task_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          read_at?: string | null
+          task_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          read_at?: string | null
+          task_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "lead_tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_stages: {
+        Row: {
+          account_id: string
+          checklist: string[]
+          color: string
+          created_at: string
+          id: string
+          key: string
+          kind: string
+          name: string
+          pipeline_id: string
+          position: number
+          required_fields: string[]
+          rotting_days: number | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          checklist?: string[]
+          color?: string
+          created_at?: string
+          id?: string
+          key: string
+          kind?: string
+          name: string
+          pipeline_id: string
+          position?: number
+          required_fields?: string[]
+          rotting_days?: number | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          checklist?: string[]
+          color?: string
+          created_at?: string
+          id?: string
+          key?: string
+          kind?: string
+          name?: string
+          pipeline_id?: string
+          position?: number
+          required_fields?: string[]
+          rotting_days?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stages_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "pipeline_stages_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipelines: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          position: number
           updated_at: string
-          user_id: string
         }
         Insert: {
+          account_id: string
           created_at?: string
           id?: string
-          lead_id: string
-          message: string
+          is_default?: boolean
+          name: string
+          position?: number
           updated_at?: string
-          user_id: string
         }
         Update: {
+          account_id?: string
           created_at?: string
           id?: string
-          lead_id?: string
-          message?: string
+          is_default?: boolean
+          name?: string
+          position?: number
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "lead_feedback_lead_id_fkey"
-            columns: ["lead_id"]
-            isOneToOne: false
-            referencedRelation: "leads"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "lead_feedback_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "pipelines_account_id_fkey"
+            columns: ["account_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
         ]
       }
-      leads: {
+      profiles: {
         Row: {
-          assigned_to: string
-          company: string | null
           created_at: string
           email: string
           id: string
+          is_active: boolean
+          master_account_id: string | null
           name: string
-          notes: string | null
-          phone: string
-          source: string
-          status: string
-          tags: string[] | null
+          role: Database["public"]["Enums"]["app_role"]
           updated_at: string
           user_id: string
-          value: number | null
         }
         Insert: {
-          assigned_to: string
-          company?: string | null
           created_at?: string
           email: string
           id?: string
+          is_active?: boolean
+          master_account_id?: string | null
           name: string
-          notes?: string | null
-          phone: string
-          source: string
-          status?: string
-          tags?: string[] | null
+          role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id: string
-          value?: number | null
         }
         Update: {
-          assigned_to?: string
-          company?: string | null
           created_at?: string
           email?: string
           id?: string
+          is_active?: boolean
+          master_account_id?: string | null
           name?: string
-          notes?: string | null
-          phone?: string
-          source?: string
-          status?: string
-          tags?: string[] | null
+          role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id?: string
-          value?: number | null
+        }
+        Relationships: []
+      }
+      sales: {
+        Row: {
+          account_id: string
+          appointment_date: string | null
+          company_id: string | null
+          completed_at: string
+          created_at: string
+          customer_email: string
+          customer_name: string
+          customer_phone: string
+          id: string
+          lead_id: string | null
+          notes: string
+          product: string
+          tags: string[]
+          updated_at: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          account_id: string
+          appointment_date?: string | null
+          company_id?: string | null
+          completed_at?: string
+          created_at?: string
+          customer_email?: string
+          customer_name: string
+          customer_phone?: string
+          id?: string
+          lead_id?: string | null
+          notes?: string
+          product: string
+          tags?: string[]
+          updated_at?: string
+          user_id: string
+          value?: number
+        }
+        Update: {
+          account_id?: string
+          appointment_date?: string | null
+          company_id?: string | null
+          completed_at?: string
+          created_at?: string
+          customer_email?: string
+          customer_name?: string
+          customer_phone?: string
+          id?: string
+          lead_id?: string | null
+          notes?: string
+          product?: string
+          tags?: string[]
+          updated_at?: string
+          user_id?: string
+          value?: number
         }
         Relationships: [
           {
-            foreignKeyName: "leads_user_id_fkey"
+            foreignKeyName: "sales_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "sales_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -115,44 +993,250 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      saved_views: {
         Row: {
+          account_id: string
           created_at: string
-          email: string
+          filters: Json
           id: string
-          master_account_id: string | null
+          is_shared: boolean
           name: string
-          role: Database["public"]["Enums"]["app_role"]
+          sort: Json | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          account_id: string
           created_at?: string
-          email: string
+          filters?: Json
           id?: string
-          master_account_id?: string | null
+          is_shared?: boolean
           name: string
-          role?: Database["public"]["Enums"]["app_role"]
+          sort?: Json | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          account_id?: string
           created_at?: string
-          email?: string
+          filters?: Json
           id?: string
-          master_account_id?: string | null
+          is_shared?: boolean
           name?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          sort?: Json | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "saved_views_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      bulk_delete_leads: {
+        Args: {
+          _lead_ids: string[]
+        }
+        Returns: {
+          error: string
+          lead_id: string
+        }[]
+      }
+      bulk_update_leads: {
+        Args: {
+          _add_tags?: string[]
+          _changes?: Json
+          _lead_ids: string[]
+          _remove_tags?: string[]
+        }
+        Returns: {
+          error: string
+          lead_id: string
+        }[]
+      }
+      calculate_lead_score: {
+        Args: {
+          _lead: Database["public"]["Tables"]["leads"]["Row"]
+        }
+        Returns: number
+      }
+      create_notification: {
+        Args: {
+          _body: string
+          _lead_id?: string
+          _task_id?: string
+          _title: string
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      create_pipeline: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      custom_field_matches: {
+        Args: {
+          _condition: Json
+          _value: Json
+        }
+        Returns: boolean
+      }
+      delete_pipeline: {
+        Args: {
+          _pipeline_id: string
+          _target_pipeline_id: string
+        }
+        Returns: number
+      }
+      delete_pipeline_stage: {
+        Args: {
+          _stage_id: string
+          _target_key: string
+        }
+        Returns: number
+      }
+      find_duplicate_lead_pairs: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          duplicate_id: string
+          lead_id: string
+          match_reason: string
+          score: number
+        }[]
+      }
+      find_duplicate_leads: {
+        Args: {
+          _account_id: string
+          _company?: string
+          _email: string
+          _exclude_lead_id?: string
+          _name: string
+          _phone: string
+        }
+        Returns: {
+          lead_id: string
+          match_reason: string
+          score: number
+        }[]
+      }
+      finish_lead_bulk_job: {
+        Args: {
+          _job_id: string
+        }
+        Returns: undefined
+      }
+      get_account_id: {
+        Args: {
+          _user_id: string
+        }
+        Returns: string
+      }
+      get_deleted_leads: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["leads"]["Row"][]
+      }
+      get_lead_account_id: {
+        Args: {
+          _lead_id: string
+        }
+        Returns: string
+      }
+      get_lead_filter_options: {
+        Args: {
+          _pipeline_id: string
+        }
+        Returns: Json
+      }
+      get_leads_page: {
+        Args: {
+          _cursor?: Json
+          _filters?: Json
+          _limit?: number
+          _pipeline_id: string
+          _sort_direction?: string
+          _sort_field?: string
+          _status?: string
+        }
+        Returns: Database["public"]["Tables"]["leads"]["Row"][]
+      }
+      get_member_ownership: {
+        Args: {
+          _member_id: string
+        }
+        Returns: {
+          lead_count: number
+          sale_count: number
+          task_count: number
+        }[]
+      }
+      get_pipeline_column_totals: {
+        Args: {
+          _filters?: Json
+          _pipeline_id: string
+        }
+        Returns: {
+          lead_count: number
+          status: string
+          total_value: number
+        }[]
+      }
+      get_pipeline_lane_totals: {
+        Args: {
+          _filters?: Json
+          _group_by: string
+          _pipeline_id: string
+        }
+        Returns: {
+          lane: string
+          lead_count: number
+          status: string
+          total_value: number
+        }[]
+      }
+      get_stage_time_stats: {
+        Args: {
+          _pipeline_id?: string
+        }
+        Returns: {
+          assigned_to: string
+          completed_avg_seconds: number
+          completed_count: number
+          open_avg_seconds: number
+          open_count: number
+          pipeline_id: string
+          status: string
+        }[]
+      }
+      get_transferring_member: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_lead_permission: {
+        Args: {
+          _permission: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -160,6 +1244,137 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_free_email_domain: {
+        Args: {
+          _email: string
+        }
+        Returns: boolean
+      }
+      is_structural_lead_move: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      lead_lane_key: {
+        Args: {
+          _group_by: string
+          _lead: Database["public"]["Tables"]["leads"]["Row"]
+        }
+        Returns: string
+      }
+      lead_matches_filters: {
+        Args: {
+          _filters: Json
+          _lead: Database["public"]["Tables"]["leads"]["Row"]
+        }
+        Returns: boolean
+      }
+      lead_missing_stage_requirements: {
+        Args: {
+          _lead: Database["public"]["Tables"]["leads"]["Row"]
+          _stage: Database["public"]["Tables"]["pipeline_stages"]["Row"]
+        }
+        Returns: string[]
+      }
+      lead_name_similarity: {
+        Args: {
+          _company_a: string
+          _company_b: string
+          _name_a: string
+          _name_b: string
+        }
+        Returns: number
+      }
+      map_stage_key: {
+        Args: {
+          _from_pipeline_id: string
+          _key: string
+          _to_pipeline_id: string
+        }
+        Returns: string
+      }
+      merge_leads: {
+        Args: {
+          _duplicate_id: string
+          _fields: Json
+          _survivor_id: string
+        }
+        Returns: undefined
+      }
+      normalize_email: {
+        Args: {
+          _email: string
+        }
+        Returns: string
+      }
+      normalize_phone: {
+        Args: {
+          _phone: string
+        }
+        Returns: string
+      }
+      notify_due_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      purge_expired_leads: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      purge_leads: {
+        Args: {
+          _lead_ids: string[]
+        }
+        Returns: number
+      }
+      recalculate_lead_scores: {
+        Args: {
+          _account_id: string
+        }
+        Returns: number
+      }
+      recalculate_time_based_scores: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      refresh_lead_next_task: {
+        Args: {
+          _lead_id: string
+        }
+        Returns: undefined
+      }
+      remove_team_member: {
+        Args: {
+          _member_id: string
+          _recipient_id?: string
+        }
+        Returns: number
+      }
+      restore_leads: {
+        Args: {
+          _lead_ids: string[]
+        }
+        Returns: {
+          error: string
+          lead_id: string
+        }[]
+      }
+      seed_default_pipeline_stages: {
+        Args: {
+          _pipeline_id: string
+        }
+        Returns: undefined
+      }
+      set_member_active: {
+        Args: {
+          _active: boolean
+          _member_id: string
+        }
+        Returns: undefined
+      }
+      start_lead_bulk_job: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
     }
     Enums: {
       app_role: "master" | "user"
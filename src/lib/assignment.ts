@@ -0,0 +1,52 @@
+import { AssignmentConditions, AssignmentRule, AssignmentStrategy, CustomFieldDefinition } from '@/types/crm';
+import { cleanCustomFieldFilters } from './customFields';
+
+// Valor do seletor de responsável que deixa a escolha para as regras de distribuição
+export const AUTO_ASSIGNEE = 'auto';
+
+export const assignmentStrategyLabels: Record<AssignmentStrategy, { label: string; description: string }> = {
+  user: { label: 'Usuário fixo', description: 'Todos os leads da regra vão para a mesma pessoa' },
+  round_robin: { label: 'Rodízio', description: 'Um lead para cada membro, em sequência' },
+  least_open: { label: 'Menos leads em aberto', description: 'Quem tem menos leads em etapas abertas recebe' },
+  weighted: { label: 'Divisão por peso', description: 'Cada membro recebe uma parte proporcional ao peso' },
+};
+
+export const assignmentStrategies = Object.keys(assignmentStrategyLabels) as AssignmentStrategy[];
+
+// Descarta condições vazias para a regra continuar valendo para todos os leads quando nada foi preenchido
+export const cleanAssignmentConditions = (conditions: AssignmentConditions): AssignmentConditions => {
+  const clean: AssignmentConditions = {};
+  if (conditions.sources?.length) clean.sources = conditions.sources;
+  if (conditions.tags?.length) clean.tags = conditions.tags;
+  if (conditions.valueMin !== undefined) clean.valueMin = conditions.valueMin;
+  if (conditions.valueMax !== undefined) clean.valueMax = conditions.valueMax;
+  const customFields = cleanCustomFieldFilters(conditions.customFields);
+  if (customFields) clean.customFields = customFields;
+  return clean;
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// Resumo das condições em uma linha, no formato usado na lista de regras
+export const describeAssignmentConditions = (
+  conditions: AssignmentConditions,
+  fields: CustomFieldDefinition[]
+) => {
+  const parts: string[] = [];
+  if (conditions.sources?.length) parts.push(`Fonte: ${conditions.sources.join(', ')}`);
+  if (conditions.tags?.length) parts.push(`Tags: ${conditions.tags.join(', ')}`);
+  if (conditions.valueMin !== undefined) parts.push(`Valor ≥ ${formatCurrency(conditions.valueMin)}`);
+  if (conditions.valueMax !== undefined) parts.push(`Valor ≤ ${formatCurrency(conditions.valueMax)}`);
+  Object.entries(conditions.customFields || {}).forEach(([key, condition]) => {
+    const label = fields.find(field => field.key === key)?.label || key;
+    const range = [condition.min && `≥ ${condition.min}`, condition.max && `≤ ${condition.max}`].filter(Boolean);
+    const values = condition.values?.map(value => (value === 'true' ? 'Sim' : value === 'false' ? 'Não' : value));
+    parts.push(`${label}: ${condition.text ? `contém "${condition.text}"` : values?.join(', ') || range.join(' e ')}`);
+  });
+  return parts.length ? parts.join(' · ') : 'Todos os leads';
+};
+
+// Regra ativa com alguém para receber: só então o "Automático" faz sentido como padrão
+export const hasUsableAssignmentRule = (rules: AssignmentRule[]) =>
+  rules.some(rule => rule.is_active && rule.members.length > 0);
@@ -0,0 +1,49 @@
+import { BulkLeadFailure } from '@/types/crm';
+
+// Leads por chamada: pequeno o bastante para o progresso andar, grande o bastante para poucas idas ao banco
+export const BULK_CHUNK_SIZE = 25;
+
+export interface BulkJob {
+  leadIds: string[];
+  run: (chunk: string[]) => Promise<BulkLeadFailure[]>;
+}
+
+export interface BulkResult {
+  succeeded: string[];
+  failures: BulkLeadFailure[];
+}
+
+// Executa os trabalhos em blocos, em sequência. Se um bloco inteiro falha (ex.: rede),
+// todos os leads dele entram como falha com a mesma mensagem e os próximos blocos seguem
+export const runBulkJobs = async (
+  jobs: BulkJob[],
+  onProgress: (done: number, total: number) => void
+): Promise<BulkResult> => {
+  const total = jobs.reduce((sum, job) => sum + job.leadIds.length, 0);
+  const failures: BulkLeadFailure[] = [];
+  const succeeded: string[] = [];
+  let done = 0;
+
+  onProgress(0, total);
+
+  for (const job of jobs) {
+    for (let start = 0; start < job.leadIds.length; start += BULK_CHUNK_SIZE) {
+      const chunk = job.leadIds.slice(start, start + BULK_CHUNK_SIZE);
+      let chunkFailures: BulkLeadFailure[];
+
+      try {
+        chunkFailures = await job.run(chunk);
+      } catch (error) {
+        chunkFailures = chunk.map(leadId => ({ lead_id: leadId, error: (error as Error).message }));
+      }
+
+      const failed = new Set(chunkFailures.map(failure => failure.lead_id));
+      failures.push(...chunkFailures);
+      succeeded.push(...chunk.filter(leadId => !failed.has(leadId)));
+      done += chunk.length;
+      onProgress(done, total);
+    }
+  }
+
+  return { succeeded, failures };
+};
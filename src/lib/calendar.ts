@@ -0,0 +1,109 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { LeadTask, Sale, TaskType } from '@/types/crm';
+
+export type CalendarViewMode = 'month' | 'week' | 'day';
+
+export const calendarViewLabels: Record<CalendarViewMode, string> = {
+  month: 'Mês',
+  week: 'Semana',
+  day: 'Dia',
+};
+
+export interface CalendarItem {
+  id: string;
+  kind: 'task' | 'appointment';
+  title: string;
+  subtitle?: string;
+  start: Date;
+  allDay: boolean;
+  leadId?: string;
+  assignedTo: string;
+  taskType?: TaskType;
+  completed: boolean;
+}
+
+export const calendarLocale = ptBR;
+
+// Intervalo [start, end) carregado para a visualização; o mês inclui as semanas completas das bordas
+export const getCalendarRange = (view: CalendarViewMode, date: Date) => {
+  if (view === 'day') {
+    const start = startOfDay(date);
+    return { start, end: addDays(start, 1) };
+  }
+  if (view === 'week') {
+    const start = startOfWeek(date, { locale: ptBR });
+    return { start, end: addDays(start, 7) };
+  }
+  const start = startOfWeek(startOfMonth(date), { locale: ptBR });
+  return { start, end: startOfDay(addDays(endOfWeek(endOfMonth(date), { locale: ptBR }), 1)) };
+};
+
+export const getCalendarDays = (view: CalendarViewMode, date: Date) => {
+  const { start, end } = getCalendarRange(view, date);
+  return eachDayOfInterval({ start, end: addDays(end, -1) });
+};
+
+export const shiftCalendarDate = (view: CalendarViewMode, date: Date, amount: number) => {
+  if (view === 'month') return addMonths(date, amount);
+  if (view === 'week') return addWeeks(date, amount);
+  return addDays(date, amount);
+};
+
+export const formatCalendarTitle = (view: CalendarViewMode, date: Date) => {
+  if (view === 'month') return format(date, "MMMM 'de' yyyy", { locale: ptBR });
+  if (view === 'day') return format(date, "EEEE, d 'de' MMMM 'de' yyyy", { locale: ptBR });
+
+  const { start, end } = getCalendarRange('week', date);
+  return `${format(start, 'd MMM', { locale: ptBR })} – ${format(addDays(end, -1), "d MMM 'de' yyyy", { locale: ptBR })}`;
+};
+
+export const taskToCalendarItem = (task: LeadTask): CalendarItem => ({
+  id: task.id,
+  kind: 'task',
+  title: task.title,
+  subtitle: task.leads?.name,
+  start: new Date(task.due_at),
+  allDay: false,
+  leadId: task.lead_id,
+  assignedTo: task.assigned_to,
+  taskType: task.type,
+  completed: !!task.completed_at,
+});
+
+export const saleToCalendarItem = (sale: Sale): CalendarItem => ({
+  id: sale.id,
+  kind: 'appointment',
+  title: `Atendimento: ${sale.customerName}`,
+  subtitle: sale.product,
+  start: new Date(sale.appointmentDate!),
+  allDay: false,
+  leadId: sale.leadId,
+  assignedTo: sale.userId,
+  completed: false,
+});
+
+// Valor de <input type="datetime-local"> (hora local, sem fuso) ou ISO das vendas antigas; inválido vira undefined
+export const toAppointmentTimestamp = (value?: string) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// Novo horário ao soltar um item: mantém a hora original no mês e usa a hora da faixa na semana/dia
+export const rescheduleTo = (original: Date, day: Date, hour?: number) => {
+  const next = new Date(day);
+  next.setHours(hour ?? original.getHours(), original.getMinutes(), 0, 0);
+  return next;
+};
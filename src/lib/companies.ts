@@ -0,0 +1,22 @@
+import { CompanySize } from '@/types/crm';
+
+export const companySizeLabels: Record<CompanySize, string> = {
+  '1-10': '1 a 10 funcionários',
+  '11-50': '11 a 50 funcionários',
+  '51-200': '51 a 200 funcionários',
+  '201-500': '201 a 500 funcionários',
+  '501-1000': '501 a 1000 funcionários',
+  '1000+': 'Mais de 1000 funcionários',
+};
+
+export const companySizes = Object.keys(companySizeLabels) as CompanySize[];
+
+// O banco guarda só os dígitos; exibição no formato 00.000.000/0000-00
+export const formatCnpj = (cnpj: string | null | undefined) => {
+  if (!cnpj) return '';
+  return cnpj.length === 14
+    ? cnpj.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5')
+    : cnpj;
+};
+
+export const isValidCnpj = (cnpj: string) => cnpj.replace(/\D/g, '').length === 14;
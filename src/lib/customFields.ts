@@ -0,0 +1,91 @@
+import {
+  CustomFieldDefinition,
+  CustomFieldFilter,
+  CustomFieldType,
+  CustomFieldValue,
+  Lead
+} from '@/types/crm';
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Data',
+  select: 'Seleção única',
+  multi_select: 'Seleção múltipla',
+  boolean: 'Sim/Não',
+};
+
+export const customFieldTypes = Object.keys(customFieldTypeLabels) as CustomFieldType[];
+
+export const customFieldHasOptions = (type: CustomFieldType) =>
+  type === 'select' || type === 'multi_select';
+
+// Chave estável gerada a partir do rótulo ("Faixa de orçamento" -> "faixa_de_orcamento")
+export const toCustomFieldKey = (label: string) => {
+  const key = label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(key) ? key : `campo_${key}`;
+};
+
+export const isEmptyCustomFieldValue = (value: CustomFieldValue | undefined | null) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Rótulos dos campos obrigatórios sem valor
+export const getMissingRequiredFields = (
+  fields: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue> = {}
+) => fields.filter(field => field.is_required && isEmptyCustomFieldValue(values[field.key])).map(field => field.label);
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition | undefined, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+
+  switch (field?.type) {
+    case 'number':
+      return Number(value).toLocaleString('pt-BR');
+    case 'date':
+      return new Date(`${value}T00:00:00`).toLocaleDateString('pt-BR');
+    default:
+      return String(value);
+  }
+};
+
+const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Mesma regra de custom_field_matches no banco
+export const customFieldMatches = (value: CustomFieldValue | undefined, condition: CustomFieldFilter) => {
+  if (value === undefined || value === null) return false;
+
+  const text = Array.isArray(value) ? JSON.stringify(value) : String(value);
+  if (condition.text && !normalizeText(text).includes(normalizeText(condition.text))) return false;
+
+  if (condition.values?.length) {
+    const items = Array.isArray(value) ? value : [String(value)];
+    if (!items.some(item => condition.values!.includes(item))) return false;
+  }
+
+  const compare = (bound: string) =>
+    typeof value === 'number' ? value - Number(bound) : text.localeCompare(bound);
+  if (condition.min && compare(condition.min) < 0) return false;
+  if (condition.max && compare(condition.max) > 0) return false;
+
+  return true;
+};
+
+export const leadMatchesCustomFilters = (lead: Lead, filters: Record<string, CustomFieldFilter> = {}) =>
+  Object.entries(filters).every(([key, condition]) => customFieldMatches(lead.custom_fields?.[key], condition));
+
+export const isActiveCustomFieldFilter = (condition?: CustomFieldFilter) =>
+  !!condition && (!!condition.text || !!condition.values?.length || !!condition.min || !!condition.max);
+
+// Remove condições vazias para não poluir a URL nem as visualizações salvas
+export const cleanCustomFieldFilters = (filters: Record<string, CustomFieldFilter> = {}) => {
+  const entries = Object.entries(filters).filter(([, condition]) => isActiveCustomFieldFilter(condition));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
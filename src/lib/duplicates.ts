@@ -0,0 +1,24 @@
+import { DuplicateReason, Lead } from '@/types/crm';
+
+export const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  email: 'Mesmo e-mail',
+  phone: 'Mesmo telefone',
+  name: 'Nome e empresa parecidos',
+};
+
+// Tags sem repetição, preservando a ordem em que aparecem
+export const mergeTags = (...tagLists: (string[] | null | undefined)[]) =>
+  Array.from(new Set(tagLists.flatMap(tags => tags || [])));
+
+// Observações distintas dos dois leads, separadas por linha em branco
+export const mergeNotes = (...leads: Lead[]) =>
+  Array.from(new Set(leads.map(lead => (lead.notes || '').trim()).filter(Boolean))).join('\n\n');
+
+// Mesmas regras de public.normalize_email / public.normalize_phone
+export const normalizeEmail = (email?: string | null) => (email || '').trim().toLowerCase() || null;
+
+export const normalizePhone = (phone?: string | null) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length < 8) return null;
+  return digits.length >= 12 && digits.startsWith('55') ? digits.slice(2) : digits;
+};
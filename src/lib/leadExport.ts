@@ -0,0 +1,88 @@
+import { Lead, Pipeline, PipelineStage } from '@/types/crm';
+import { AuthUser } from '@/types/auth';
+
+export type ExportColumn =
+  | 'name' | 'email' | 'phone' | 'company' | 'value' | 'status' | 'pipeline'
+  | 'tags' | 'assigned_to' | 'source' | 'notes' | 'created_at' | 'updated_at';
+
+export const exportColumnLabels: Record<ExportColumn, string> = {
+  name: 'Nome',
+  email: 'E-mail',
+  phone: 'Telefone',
+  company: 'Empresa',
+  value: 'Valor',
+  status: 'Etapa',
+  pipeline: 'Pipeline',
+  tags: 'Tags',
+  assigned_to: 'Responsável',
+  source: 'Fonte',
+  notes: 'Observações',
+  created_at: 'Criado em',
+  updated_at: 'Atualizado em',
+};
+
+export const exportColumns = Object.keys(exportColumnLabels) as ExportColumn[];
+
+// 'joined': uma coluna com as tags separadas; 'columns': uma coluna por tag, marcada com "x"
+export type TagsMode = 'joined' | 'columns';
+
+export interface ExportContext {
+  users: AuthUser[];
+  pipelines: Pipeline[];
+  getStage: (key: string, pipelineId?: string | null) => PipelineStage | undefined;
+}
+
+const getColumnValue = (lead: Lead, column: Exclude<ExportColumn, 'tags'>, context: ExportContext) => {
+  switch (column) {
+    case 'value':
+      return lead.value || 0;
+    case 'status':
+      return context.getStage(lead.status, lead.pipeline_id)?.name || lead.status;
+    case 'pipeline':
+      return context.pipelines.find(p => p.id === lead.pipeline_id)?.name || '';
+    case 'assigned_to':
+      return context.users.find(u => u.user_id === lead.assigned_to)?.name || '';
+    case 'created_at':
+    case 'updated_at':
+      return new Date(lead[column]).toLocaleString('pt-BR');
+    default:
+      return lead[column] || '';
+  }
+};
+
+export const buildExportTable = (
+  leads: Lead[],
+  columns: ExportColumn[],
+  context: ExportContext,
+  tagsMode: TagsMode,
+  tagSeparator: string
+): (string | number)[][] => {
+  const allTags = Array.from(new Set(leads.flatMap(lead => lead.tags || []))).sort();
+
+  const header = columns.flatMap(column =>
+    column === 'tags' && tagsMode === 'columns'
+      ? allTags.map(tag => `Tag: ${tag}`)
+      : [exportColumnLabels[column]]
+  );
+
+  const rows = leads.map(lead =>
+    columns.flatMap(column => {
+      if (column !== 'tags') return [getColumnValue(lead, column, context)];
+      const tags = lead.tags || [];
+      return tagsMode === 'columns'
+        ? allTags.map(tag => (tags.includes(tag) ? 'x' : ''))
+        : [tags.join(tagSeparator)];
+    })
+  );
+
+  return [header, ...rows];
+};
+
+// JSON mantém as tags como lista, independente do modo escolhido para planilhas
+export const buildExportJson = (leads: Lead[], columns: ExportColumn[], context: ExportContext) =>
+  leads.map(lead =>
+    columns.reduce((acc, column) => {
+      acc[column] = column === 'tags' ? lead.tags || [] : getColumnValue(lead, column, context);
+      return acc;
+    }, {} as Record<string, unknown>)
+  );
@@ -0,0 +1,199 @@
+import { Lead, LeadFilters, LeadPageCursor, LeadSort, LeadSortField } from '@/types/crm';
+import { cleanCustomFieldFilters, leadMatchesCustomFilters } from './customFields';
+
+export const defaultLeadSort: LeadSort = { field: 'created_at', direction: 'desc' };
+
+export const sortFieldLabels: Record<LeadSortField, string> = {
+  created_at: 'Data de criação',
+  updated_at: 'Última atualização',
+  value: 'Valor',
+  score: 'Pontuação',
+  name: 'Nome',
+  company: 'Empresa',
+};
+
+const normalizeText = (text?: string | null) =>
+  (text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Compara só a data (YYYY-MM-DD) no fuso local, com limites inclusivos
+const toDateKey = (isoString: string) => {
+  const date = new Date(isoString);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const inDateRange = (isoString: string, from?: string, to?: string) => {
+  const key = toDateKey(isoString);
+  return (!from || key >= from) && (!to || key <= to);
+};
+
+export const applyLeadFilters = (leads: Lead[], filters: LeadFilters) => {
+  const search = normalizeText(filters.search).trim();
+  const company = normalizeText(filters.company).trim();
+
+  return leads.filter(lead => {
+    if (search) {
+      const haystack = normalizeText(
+        [lead.name, lead.email, lead.phone, lead.company, lead.notes, lead.source, ...(lead.tags || [])].join(' ')
+      );
+      if (!haystack.includes(search)) return false;
+    }
+    if (filters.statuses?.length && !filters.statuses.includes(lead.status)) return false;
+    if (filters.assignees?.length && !filters.assignees.includes(lead.assigned_to)) return false;
+    if (filters.sources?.length && !filters.sources.includes(lead.source)) return false;
+    if (filters.tags?.length && !filters.tags.some(tag => (lead.tags || []).includes(tag))) return false;
+    if (company && !normalizeText(lead.company).includes(company)) return false;
+    if (filters.valueMin !== undefined && (lead.value || 0) < filters.valueMin) return false;
+    if (filters.valueMax !== undefined && (lead.value || 0) > filters.valueMax) return false;
+    if (!inDateRange(lead.created_at, filters.createdFrom, filters.createdTo)) return false;
+    if (!inDateRange(lead.updated_at, filters.updatedFrom, filters.updatedTo)) return false;
+    if (!leadMatchesCustomFilters(lead, filters.customFields)) return false;
+    return true;
+  });
+};
+
+const getSortValue = (lead: Lead, field: LeadSortField) => {
+  switch (field) {
+    case 'value':
+      return lead.value || 0;
+    case 'score':
+      return lead.score || 0;
+    case 'name':
+    case 'company':
+      return lead[field] || '';
+    default:
+      return lead[field];
+  }
+};
+
+// Mesma ordem do servidor (campo + id como desempate), usada para encaixar eventos do realtime
+export const compareLeads = (a: Lead, b: Lead, sort: LeadSort) => {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  let result: number;
+
+  switch (sort.field) {
+    case 'value':
+      result = (a.value || 0) - (b.value || 0);
+      break;
+    case 'score':
+      result = (a.score || 0) - (b.score || 0);
+      break;
+    case 'name':
+    case 'company':
+      result = (a[sort.field] || '').localeCompare(b[sort.field] || '', 'pt-BR');
+      break;
+    default:
+      result = new Date(a[sort.field]).getTime() - new Date(b[sort.field]).getTime();
+  }
+
+  return (result || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)) * direction;
+};
+
+export const sortLeads = (leads: Lead[], sort: LeadSort) =>
+  [...leads].sort((a, b) => compareLeads(a, b, sort));
+
+export const getSortCursor = (lead: Lead, sort: LeadSort): LeadPageCursor => ({
+  value: getSortValue(lead, sort.field),
+  id: lead.id,
+});
+
+// Datas do filtro são dias no fuso local; o servidor recebe o intervalo em timestamps [início, fim)
+const startOfDay = (dateKey?: string, offsetDays = 0) => {
+  if (!dateKey) return undefined;
+  const date = new Date(`${dateKey}T00:00:00`);
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString();
+};
+
+export const toServerFilters = (filters: LeadFilters) => ({
+  ...filters,
+  createdFrom: startOfDay(filters.createdFrom),
+  createdTo: startOfDay(filters.createdTo, 1),
+  updatedFrom: startOfDay(filters.updatedFrom),
+  updatedTo: startOfDay(filters.updatedTo, 1),
+});
+
+// Cada campo personalizado filtrado conta como um filtro
+export const countActiveFilters = ({ customFields, ...filters }: LeadFilters) =>
+  Object.values(filters).filter(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''
+  ).length + Object.keys(cleanCustomFieldFilters(customFields) || {}).length;
+
+// Representação na URL: um parâmetro por filtro, listas separadas por vírgula
+const listParams = { statuses: 'status', assignees: 'assignee', sources: 'source', tags: 'tags' } as const;
+const textParams = {
+  search: 'q', company: 'company',
+  createdFrom: 'created_from', createdTo: 'created_to',
+  updatedFrom: 'updated_from', updatedTo: 'updated_to',
+} as const;
+const numberParams = { valueMin: 'value_min', valueMax: 'value_max' } as const;
+
+// Campos personalizados vão juntos em um único parâmetro JSON
+const customFieldsParam = 'cf';
+
+export const filterParamNames = [
+  ...Object.values(listParams), ...Object.values(textParams), ...Object.values(numberParams),
+  customFieldsParam, 'sort',
+];
+
+// Tags e fontes podem conter vírgula
+const encodeListItem = (item: string) => item.replace(/%/g, '%25').replace(/,/g, '%2C');
+const decodeListItem = (item: string) => item.replace(/%2C/gi, ',').replace(/%25/g, '%');
+
+export const filtersToSearchParams = (filters: LeadFilters, sort: LeadSort, base?: URLSearchParams) => {
+  const params = new URLSearchParams(base);
+  filterParamNames.forEach(name => params.delete(name));
+
+  (Object.keys(listParams) as (keyof typeof listParams)[]).forEach(key => {
+    const value = filters[key];
+    if (value?.length) params.set(listParams[key], value.map(encodeListItem).join(','));
+  });
+  (Object.keys(textParams) as (keyof typeof textParams)[]).forEach(key => {
+    const value = filters[key];
+    if (value) params.set(textParams[key], value);
+  });
+  (Object.keys(numberParams) as (keyof typeof numberParams)[]).forEach(key => {
+    const value = filters[key];
+    if (value !== undefined) params.set(numberParams[key], String(value));
+  });
+  const customFields = cleanCustomFieldFilters(filters.customFields);
+  if (customFields) params.set(customFieldsParam, JSON.stringify(customFields));
+
+  if (sort.field !== defaultLeadSort.field || sort.direction !== defaultLeadSort.direction) {
+    params.set('sort', `${sort.field}:${sort.direction}`);
+  }
+
+  return params;
+};
+
+export const searchParamsToFilters = (params: URLSearchParams): { filters: LeadFilters; sort: LeadSort } => {
+  const filters: LeadFilters = {};
+
+  (Object.keys(listParams) as (keyof typeof listParams)[]).forEach(key => {
+    const value = params.get(listParams[key]);
+    if (value) filters[key] = value.split(',').map(decodeListItem).filter(Boolean);
+  });
+  (Object.keys(textParams) as (keyof typeof textParams)[]).forEach(key => {
+    const value = params.get(textParams[key]);
+    if (value) filters[key] = value;
+  });
+  (Object.keys(numberParams) as (keyof typeof numberParams)[]).forEach(key => {
+    const value = Number(params.get(numberParams[key]) ?? NaN);
+    if (params.has(numberParams[key]) && Number.isFinite(value)) filters[key] = value;
+  });
+  try {
+    const customFields = cleanCustomFieldFilters(JSON.parse(params.get(customFieldsParam) || '{}'));
+    if (customFields) filters.customFields = customFields;
+  } catch {
+    // Parâmetro editado à mão; ignora
+  }
+
+  const [field, direction] = (params.get('sort') || '').split(':');
+  // Só chaves próprias: herdadas como "toString" não são ordenações válidas
+  const sort: LeadSort = Object.prototype.hasOwnProperty.call(sortFieldLabels, field) && (direction === 'asc' || direction === 'desc')
+    ? { field: field as LeadSortField, direction }
+    : defaultLeadSort;
+
+  return { filters, sort };
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseImportValue } from './leadImport';
+
+describe('parseImportValue', () => {
+  it('lê separador de milhar com ponto ou vírgula', () => {
+    expect(parseImportValue('R$ 1.500')).toBe(1500);
+    expect(parseImportValue('1,500')).toBe(1500);
+    expect(parseImportValue('1.500.000')).toBe(1500000);
+    expect(parseImportValue('1,500,000')).toBe(1500000);
+  });
+
+  it('lê decimais nos formatos brasileiro e americano', () => {
+    expect(parseImportValue('1.234,56')).toBe(1234.56);
+    expect(parseImportValue('R$ 1.500,00')).toBe(1500);
+    expect(parseImportValue('1,500.00')).toBe(1500);
+    expect(parseImportValue('1234.56')).toBe(1234.56);
+    expect(parseImportValue('12,5')).toBe(12.5);
+    expect(parseImportValue('1500')).toBe(1500);
+  });
+
+  it('trata vazio como zero e recusa números mal formados', () => {
+    expect(parseImportValue('')).toBe(0);
+    expect(parseImportValue('R$')).toBe(0);
+    expect(parseImportValue('1,5,6')).toBeNull();
+    expect(parseImportValue('1.234.56,7.8')).toBeNull();
+    expect(parseImportValue('1.2.3')).toBeNull();
+  });
+});
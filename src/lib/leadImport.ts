@@ -0,0 +1,171 @@
+import { Lead } from '@/types/crm';
+import { AuthUser } from '@/types/auth';
+import { normalizeEmail, normalizePhone } from './duplicates';
+
+export type ImportField =
+  | 'name' | 'email' | 'phone' | 'company' | 'value'
+  | 'tags' | 'assigned_to' | 'source' | 'notes';
+
+export const importFieldLabels: Record<ImportField, string> = {
+  name: 'Nome *',
+  email: 'E-mail *',
+  phone: 'Telefone',
+  company: 'Empresa',
+  value: 'Valor',
+  tags: 'Tags',
+  assigned_to: 'Responsável (nome ou e-mail)',
+  source: 'Fonte',
+  notes: 'Observações',
+};
+
+export const importFields = Object.keys(importFieldLabels) as ImportField[];
+
+// Coluna da planilha (índice) escolhida para cada campo; -1 = não importar
+export type ColumnMapping = Record<ImportField, number>;
+
+const headerSynonyms: Record<ImportField, string[]> = {
+  name: ['nome', 'name', 'nome completo', 'cliente', 'contato', 'full name'],
+  email: ['email', 'e-mail', 'e mail', 'mail'],
+  phone: ['telefone', 'phone', 'celular', 'whatsapp', 'fone', 'tel', 'mobile'],
+  company: ['empresa', 'company', 'organizacao', 'organização', 'razao social', 'razão social'],
+  value: ['valor', 'value', 'valor estimado', 'ticket', 'amount'],
+  tags: ['tags', 'tag', 'etiquetas', 'marcadores'],
+  assigned_to: ['responsavel', 'responsável', 'vendedor', 'assigned to', 'assigned_to', 'owner', 'dono'],
+  source: ['fonte', 'origem', 'source', 'canal'],
+  notes: ['observacoes', 'observações', 'notas', 'notes', 'obs', 'comentarios', 'comentários'],
+};
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[_-]+/g, ' ').trim();
+
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalizeHeader);
+
+  return importFields.reduce((mapping, field) => {
+    const synonyms = headerSynonyms[field].map(normalizeHeader);
+    mapping[field] = normalizedHeaders.findIndex(header => synonyms.includes(header));
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+// Só separador de milhar: "1.500", "1,500", "1.500.000"
+const THOUSANDS_ONLY = /^-?\d{1,3}([.,])\d{3}(\1\d{3})*$/;
+// Parte inteira antes da vírgula/ponto decimal: dígitos soltos ou em grupos de três
+const INTEGER_PART = /^-?(\d{1,3}([.,])\d{3}(\2\d{3})*|\d*)$/;
+
+// Aceita "1.234,56", "1,234.56", "1234.56", "R$ 1.500", "1.500.000". O último ponto ou vírgula
+// é o decimal, a não ser que venha antes de exatamente três dígitos (aí é milhar)
+export const parseImportValue = (raw: string): number | null => {
+  const cleaned = raw.replace(/[^\d,.-]/g, '');
+  if (!cleaned) return 0;
+  if (THOUSANDS_ONLY.test(cleaned)) return Number(cleaned.replace(/[.,]/g, ''));
+
+  const decimalIndex = Math.max(cleaned.lastIndexOf(','), cleaned.lastIndexOf('.'));
+  if (decimalIndex === -1) {
+    const value = Number(cleaned);
+    return Number.isFinite(value) ? value : null;
+  }
+
+  const integerPart = cleaned.slice(0, decimalIndex);
+  const decimalPart = cleaned.slice(decimalIndex + 1);
+  if (!INTEGER_PART.test(integerPart) || integerPart.includes(cleaned[decimalIndex]) || !/^\d+$/.test(decimalPart)) {
+    return null;
+  }
+
+  const value = Number(`${integerPart.replace(/[.,]/g, '')}.${decimalPart}`);
+  return Number.isFinite(value) ? value : null;
+};
+
+export type ImportLeadData = Pick<Lead,
+  'name' | 'email' | 'phone' | 'company' | 'value' | 'tags' | 'assigned_to' | 'source' | 'notes'
+>;
+
+export interface ImportRow {
+  rowNumber: number; // linha na planilha, como o usuário vê
+  raw: string[];
+  lead: ImportLeadData;
+  errors: string[];
+}
+
+interface ValidateOptions {
+  mapping: ColumnMapping;
+  hasHeaderRow: boolean;
+  users: AuthUser[];
+  defaultAssignee: string; // user_id ou AUTO_ASSIGNEE (regras de distribuição)
+  defaultSource: string;
+  existingLeads: Pick<Lead, 'email' | 'phone'>[];
+}
+
+export const validateImportRows = (rows: string[][], options: ValidateOptions): ImportRow[] => {
+  const { mapping, hasHeaderRow, users, defaultAssignee, defaultSource, existingLeads } = options;
+
+  const existingEmails = new Set(existingLeads.map(lead => normalizeEmail(lead.email)).filter(Boolean));
+  const existingPhones = new Set(existingLeads.map(lead => normalizePhone(lead.phone)).filter(Boolean));
+  const seenEmails = new Set<string>();
+
+  const cell = (row: string[], field: ImportField) =>
+    mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '';
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+
+    const name = cell(row, 'name');
+    const email = cell(row, 'email');
+    const phone = cell(row, 'phone');
+    const assigneeRaw = cell(row, 'assigned_to');
+    const value = parseImportValue(cell(row, 'value'));
+
+    if (!name) errors.push('Nome obrigatório');
+    if (!email) {
+      errors.push('E-mail obrigatório');
+    } else if (!/^\S+@\S+\.\S+$/.test(email)) {
+      errors.push('E-mail inválido');
+    }
+    if (value === null) errors.push('Valor inválido');
+
+    let assignedTo = defaultAssignee;
+    if (assigneeRaw) {
+      const search = assigneeRaw.toLowerCase();
+      const assignee = users.find(u => u.email.toLowerCase() === search || u.name.toLowerCase() === search);
+      if (assignee) {
+        assignedTo = assignee.user_id;
+      } else {
+        errors.push(`Responsável "${assigneeRaw}" não encontrado na equipe`);
+      }
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+    const normalizedPhone = normalizePhone(phone);
+    if (normalizedEmail && existingEmails.has(normalizedEmail)) {
+      errors.push('Já existe um lead com este e-mail');
+    } else if (normalizedPhone && existingPhones.has(normalizedPhone)) {
+      errors.push('Já existe um lead com este telefone');
+    } else if (normalizedEmail && seenEmails.has(normalizedEmail)) {
+      errors.push('E-mail repetido na planilha');
+    }
+    if (normalizedEmail) seenEmails.add(normalizedEmail);
+
+    return {
+      rowNumber: index + (hasHeaderRow ? 2 : 1),
+      raw: row,
+      errors,
+      lead: {
+        name,
+        email,
+        phone,
+        company: cell(row, 'company'),
+        value: value ?? 0,
+        tags: cell(row, 'tags').split(/[,;|]/).map(tag => tag.trim()).filter(Boolean),
+        assigned_to: assignedTo,
+        source: cell(row, 'source') || defaultSource,
+        notes: cell(row, 'notes'),
+      },
+    };
+  });
+};
+
+// Planilha de rejeitados: colunas originais + motivo
+export const buildRejectedReport = (headers: string[], rejected: { raw: string[]; rowNumber: number; errors: string[] }[]) => [
+  ['Linha', ...headers, 'Erros'],
+  ...rejected.map(row => [row.rowNumber, ...row.raw, row.errors.join('; ')]),
+];
@@ -0,0 +1,45 @@
+import { Bell, CalendarClock, MessageSquare, UserPlus, Webhook, LucideIcon } from 'lucide-react';
+import { AppNotification, NotificationType } from '@/types/crm';
+
+export const notificationTypeIcons: Record<NotificationType, LucideIcon> = {
+  lead_assigned: UserPlus,
+  lead_feedback: MessageSquare,
+  webhook_lead: Webhook,
+  task_due: CalendarClock,
+};
+
+export const getNotificationIcon = (type: string): LucideIcon =>
+  notificationTypeIcons[type as NotificationType] || Bell;
+
+// Mesma chave de preferências usada no SettingsPanel; lida na hora para refletir mudanças sem recarregar
+const browserNotificationsEnabled = (userId: string) => {
+  try {
+    const stored = window.localStorage.getItem(`preferences-${userId}`);
+    return stored ? JSON.parse(stored).browserNotifications !== false : true;
+  } catch {
+    return false;
+  }
+};
+
+export const requestBrowserNotificationPermission = async () => {
+  if (!('Notification' in window)) return 'denied' as NotificationPermission;
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Só mostra o aviso do sistema quando a aba não está em foco; com ela aberta o sino já basta
+export const showBrowserNotification = (userId: string, notification: AppNotification) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  if (!browserNotificationsEnabled(userId) || document.visibilityState === 'visible') return;
+
+  const browserNotification = new Notification(notification.title, {
+    body: notification.body || undefined,
+    tag: notification.id,
+  });
+  browserNotification.onclick = () => {
+    window.focus();
+    if (notification.lead_id) {
+      window.location.assign(`/lead/${notification.lead_id}`);
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { LeadPermission, MemberPermissions } from '@/types/auth';
+
+export const leadPermissionLabels: Record<LeadPermission, { label: string; description: string }> = {
+  move_own_leads: { label: 'Mover os próprios leads', description: 'Trocar a etapa dos leads sob sua responsabilidade' },
+  move_any_lead: { label: 'Mover qualquer lead', description: 'Ver e trocar a etapa de todos os leads da conta' },
+  edit_lead_values: { label: 'Editar valores', description: 'Alterar o valor do negócio' },
+  delete_leads: { label: 'Excluir leads', description: 'Remover leads da conta' },
+  reassign_leads: { label: 'Transferir leads', description: 'Trocar o responsável pelo lead' },
+};
+
+export const leadPermissions = Object.keys(leadPermissionLabels) as LeadPermission[];
+
+// Mesmos padrões das colunas de member_permissions (membro sem configuração)
+export const DEFAULT_MEMBER_PERMISSIONS: MemberPermissions = {
+  move_own_leads: true,
+  move_any_lead: false,
+  edit_lead_values: true,
+  delete_leads: false,
+  reassign_leads: false,
+};
+
+export const MASTER_PERMISSIONS: MemberPermissions = {
+  move_own_leads: true,
+  move_any_lead: true,
+  edit_lead_values: true,
+  delete_leads: true,
+  reassign_leads: true,
+};
+
+export const pickPermissions = (row: Partial<MemberPermissions>): MemberPermissions =>
+  Object.fromEntries(
+    leadPermissions.map(permission => [permission, row[permission] ?? DEFAULT_MEMBER_PERMISSIONS[permission]])
+  ) as MemberPermissions;
+
+// Mesma regra de enforce_lead_permissions no banco
+export const canMoveLead = (permissions: MemberPermissions, assignedTo: string, userId?: string) =>
+  permissions.move_any_lead || (permissions.move_own_leads && assignedTo === userId);
@@ -0,0 +1,55 @@
+import type { CSSProperties } from 'react';
+import { PipelineStage } from '@/types/crm';
+
+// Cores das etapas vêm do banco em hex; aplica transparência via sufixo alpha (#RRGGBBAA)
+const withAlpha = (hex: string, alpha: string) =>
+  /^#[0-9a-fA-F]{6}$/.test(hex) ? `${hex}${alpha}` : hex;
+
+export const getStageColumnStyle = (color: string): CSSProperties => ({
+  borderColor: withAlpha(color, '55'),
+  background: `linear-gradient(135deg, ${withAlpha(color, '0D')}, ${withAlpha(color, '1F')})`,
+});
+
+export const getStageBadgeStyle = (color: string): CSSProperties => ({
+  backgroundColor: withAlpha(color, '1F'),
+  borderColor: withAlpha(color, '55'),
+  color,
+});
+
+export const sortStages = (stages: PipelineStage[]) =>
+  [...stages].sort((a, b) => a.position - b.position);
+
+// Etapa inicial para leads novos: primeira etapa aberta do pipeline
+export const getInitialStage = (stages: PipelineStage[]) =>
+  sortStages(stages).find(stage => stage.kind === 'open') || sortStages(stages)[0];
+
+// Mesma regra de public.map_stage_key: mesma chave, senão mesmo tipo (ganho/perdido),
+// senão a etapa aberta na posição relativa mais próxima, senão a primeira etapa
+export const mapStageToPipeline = (
+  stageKey: string,
+  fromStages: PipelineStage[],
+  toStages: PipelineStage[]
+): PipelineStage | undefined => {
+  const target = sortStages(toStages);
+  const sameKey = target.find(stage => stage.key === stageKey);
+  if (sameKey) return sameKey;
+
+  const source = sortStages(fromStages);
+  const sourceStage = source.find(stage => stage.key === stageKey);
+  if (!sourceStage) return target[0];
+
+  if (sourceStage.kind !== 'open') {
+    const sameKind = target.find(stage => stage.kind === sourceStage.kind);
+    if (sameKind) return sameKind;
+  }
+
+  const sourceIndex = source.filter(
+    stage => stage.kind === 'open' && stage.position < sourceStage.position
+  ).length;
+  const openTargets = target.filter(stage => stage.kind === 'open');
+  if (openTargets.length > 0) {
+    return openTargets[Math.min(sourceIndex, openTargets.length - 1)];
+  }
+
+  return target[0];
+};
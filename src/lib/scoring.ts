@@ -0,0 +1,76 @@
+import { ScoringRule, ScoringRuleField, ScoringRuleOperator } from '@/types/crm';
+
+export const scoringFieldLabels: Record<ScoringRuleField, string> = {
+  source: 'Fonte',
+  tag: 'Tag',
+  value: 'Valor',
+  company: 'Empresa',
+  email_domain: 'Domínio do e-mail',
+  last_contact: 'Último contato',
+  feedback_count: 'Qtd. de feedbacks',
+};
+
+export const scoringOperatorLabels: Record<ScoringRuleOperator, string> = {
+  equals: 'é igual a',
+  contains: 'inclui',
+  gte: 'maior ou igual a',
+  lte: 'menor ou igual a',
+  present: 'preenchida',
+  absent: 'não preenchida',
+  corporate: 'corporativo',
+  free: 'gratuito (Gmail, Hotmail...)',
+  within_days: 'há no máximo (dias)',
+  older_than_days: 'há mais de (dias)',
+};
+
+// Operadores válidos por campo e o tipo de valor que cada campo espera (null = sem valor)
+export const scoringFieldOperators: Record<ScoringRuleField, ScoringRuleOperator[]> = {
+  source: ['equals'],
+  tag: ['contains'],
+  value: ['gte', 'lte'],
+  company: ['present', 'absent'],
+  email_domain: ['corporate', 'free'],
+  last_contact: ['within_days', 'older_than_days'],
+  feedback_count: ['gte', 'lte'],
+};
+
+export const scoringFieldValueType: Record<ScoringRuleField, 'text' | 'number' | null> = {
+  source: 'text',
+  tag: 'text',
+  value: 'number',
+  company: null,
+  email_domain: null,
+  last_contact: 'number',
+  feedback_count: 'number',
+};
+
+// Mesmo formato exigido por is_valid_scoring_rule no banco: dias e quantidades são inteiros
+const scoringValuePatterns: Partial<Record<ScoringRuleField, RegExp>> = {
+  value: /^-?\d+(\.\d+)?$/,
+  last_contact: /^\d{1,5}$/,
+  feedback_count: /^\d{1,9}$/,
+};
+
+export const isValidScoringValue = (field: ScoringRuleField, value: string) =>
+  scoringValuePatterns[field]?.test(value) ?? true;
+
+export const scoringFields = Object.keys(scoringFieldLabels) as ScoringRuleField[];
+
+export const describeScoringRule = (rule: Pick<ScoringRule, 'field' | 'operator' | 'value'>) =>
+  [scoringFieldLabels[rule.field], scoringOperatorLabels[rule.operator], rule.value]
+    .filter(Boolean)
+    .join(' ');
+
+export type ScoreTier = 'hot' | 'warm' | 'cold';
+
+export const getScoreTier = (score: number): ScoreTier => {
+  if (score >= 50) return 'hot';
+  if (score >= 20) return 'warm';
+  return 'cold';
+};
+
+export const scoreTierStyles: Record<ScoreTier, string> = {
+  hot: 'bg-red-100 text-red-700 border-red-200',
+  warm: 'bg-amber-100 text-amber-700 border-amber-200',
+  cold: 'bg-slate-100 text-slate-600 border-slate-200',
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { escapeFormula, parseSpreadsheet } from './spreadsheet';
+
+const xlsxFile = (rows: unknown[][], format?: { cell: string; z: string }) => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  if (format) sheet[format.cell].z = format.z;
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Leads');
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new File([data], 'leads.xlsx');
+};
+
+describe('parseSpreadsheet', () => {
+  it('usa o valor numérico da célula, não a formatação', async () => {
+    const file = xlsxFile([['Nome', 'Valor'], ['Ana', 1500]], { cell: 'B2', z: '#,##0.00' });
+    const sheet = await parseSpreadsheet(file);
+    expect(sheet.rows).toEqual([['Ana', '1500']]);
+  });
+
+  it('mantém o texto do CSV sem converter números', async () => {
+    const file = new File(['Nome,Valor\nAna,"1.500"\nBia,"1,500.00"\n'], 'leads.csv');
+    const sheet = await parseSpreadsheet(file);
+    expect(sheet.headers).toEqual(['Nome', 'Valor']);
+    expect(sheet.rows).toEqual([['Ana', '1.500'], ['Bia', '1,500.00']]);
+  });
+});
+
+describe('escapeFormula', () => {
+  it('neutraliza texto que seria lido como fórmula', () => {
+    expect(escapeFormula('=HYPERLINK("http://x")')).toBe('\'=HYPERLINK("http://x")');
+    expect(escapeFormula('+5511999999999')).toBe('\'+5511999999999');
+    expect(escapeFormula('-1')).toBe('\'-1');
+    expect(escapeFormula('@SUM(A1)')).toBe('\'@SUM(A1)');
+    expect(escapeFormula('\tcmd')).toBe('\'\tcmd');
+    expect(escapeFormula('\rcmd')).toBe('\'\rcmd');
+  });
+
+  it('mantém números e texto comum', () => {
+    expect(escapeFormula(-1500)).toBe(-1500);
+    expect(escapeFormula('Ana Souza')).toBe('Ana Souza');
+  });
+});
@@ -0,0 +1,81 @@
+import * as XLSX from 'xlsx';
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+  hasHeaderRow: boolean;
+}
+
+const emailPattern = /\S+@\S+\.\S+/;
+
+// Números saem com o valor gravado na célula, não com a formatação da planilha
+// (1500 com formato "#,##0.00" viraria "1,500.00"); datas no formato brasileiro
+const cellToText = (cell: unknown) =>
+  cell instanceof Date ? cell.toLocaleDateString('pt-BR') : String(cell ?? '').trim();
+
+// Lê a primeira aba de um CSV/XLSX como texto. No CSV o texto fica como está (raw), sem
+// conversão automática de números. A primeira linha só é tratada como cabeçalho se não
+// tiver cara de dado (e-mail ou número)
+export const parseSpreadsheet = async (file: File): Promise<SheetData> => {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array', codepage: 65001, raw: true, cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [], hasHeaderRow: false };
+
+  const matrix = XLSX.utils
+    .sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: false })
+    .map(row => row.map(cellToText))
+    .filter(row => row.some(cell => cell !== ''));
+
+  if (matrix.length === 0) return { headers: [], rows: [], hasHeaderRow: false };
+
+  const width = Math.max(...matrix.map(row => row.length));
+  const normalized = matrix.map(row => Array.from({ length: width }, (_, i) => row[i] || ''));
+  const [firstRow] = normalized;
+
+  const hasHeaderRow = firstRow.every(cell => !emailPattern.test(cell) && !/^[\d\s().+-]{6,}$/.test(cell));
+
+  return hasHeaderRow
+    ? {
+        headers: firstRow.map((cell, i) => cell || `Coluna ${i + 1}`),
+        rows: normalized.slice(1),
+        hasHeaderRow,
+      }
+    : {
+        headers: firstRow.map((_, i) => `Coluna ${i + 1}`),
+        rows: normalized,
+        hasHeaderRow,
+      };
+};
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// Texto que o Excel/Sheets interpretaria como fórmula (dados vindos do webhook, por exemplo)
+// ganha um apóstrofo na frente e é exibido como texto
+export const escapeFormula = (cell: string | number) =>
+  typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+
+// Gera e baixa um arquivo a partir de linhas já formatadas (primeira linha = cabeçalho)
+export const downloadSpreadsheet = (rows: (string | number)[][], fileName: string, format: SpreadsheetFormat) => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows.map(row => row.map(escapeFormula)));
+
+  if (format === 'xlsx') {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Leads');
+    XLSX.writeFile(workbook, `${fileName}.xlsx`);
+    return;
+  }
+
+  // BOM para o Excel abrir acentos corretamente
+  const csv = '\uFEFF' + XLSX.utils.sheet_to_csv(sheet);
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
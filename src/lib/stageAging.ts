@@ -0,0 +1,95 @@
+import { Lead, PipelineStage, StageTimeStat } from '@/types/crm';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Leads anteriores à coluna stage_entered_at caem no updated_at
+const getStageEnteredAt = (lead: Lead) => new Date(lead.stage_entered_at || lead.updated_at);
+
+export const getStageAgeDays = (lead: Lead, now: Date = new Date()) =>
+  Math.max(0, Math.floor((now.getTime() - getStageEnteredAt(lead).getTime()) / DAY_MS));
+
+// "3h" no primeiro dia, depois "12d"
+export const formatStageAge = (lead: Lead, now: Date = new Date()) => {
+  const elapsed = Math.max(0, now.getTime() - getStageEnteredAt(lead).getTime());
+  return elapsed < DAY_MS ? `${Math.floor(elapsed / HOUR_MS)}h` : `${Math.floor(elapsed / DAY_MS)}d`;
+};
+
+export const isLeadRotting = (lead: Lead, rottingDays: number | null | undefined, now: Date = new Date()) =>
+  !!rottingDays && getStageAgeDays(lead, now) >= rottingDays;
+
+export const formatDuration = (seconds: number) => {
+  if (seconds <= 0) return '—';
+  const days = seconds / (DAY_MS / 1000);
+  if (days >= 1) return `${days.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} dias`;
+  return `${Math.max(1, Math.round(seconds / 3600))} h`;
+};
+
+export interface StageTimeRow {
+  key: string;
+  label: string;
+  color?: string;
+  completedCount: number;
+  completedAvgSeconds: number;
+  openCount: number;
+  openAvgSeconds: number;
+}
+
+export interface StageTimeReportData {
+  byStage: StageTimeRow[];
+  byAssignee: StageTimeRow[];
+}
+
+interface StageTimeLabels {
+  stages: PipelineStage[];
+  getStageLabel: (stage: PipelineStage) => string;
+  getAssigneeName: (userId: string | null) => string;
+}
+
+const emptyRow = (key: string, label: string, color?: string): StageTimeRow => ({
+  key, label, color, completedCount: 0, completedAvgSeconds: 0, openCount: 0, openAvgSeconds: 0,
+});
+
+// Junta médias de grupos diferentes ponderando pela quantidade de períodos
+const addStat = (row: StageTimeRow, stat: StageTimeStat) => {
+  const completed = row.completedCount + stat.completed_count;
+  if (completed > 0) {
+    row.completedAvgSeconds =
+      (row.completedAvgSeconds * row.completedCount + stat.completed_avg_seconds * stat.completed_count) / completed;
+  }
+  const open = row.openCount + stat.open_count;
+  if (open > 0) {
+    row.openAvgSeconds = (row.openAvgSeconds * row.openCount + stat.open_avg_seconds * stat.open_count) / open;
+  }
+  row.completedCount = completed;
+  row.openCount = open;
+};
+
+// Só etapas em andamento entram: leads ganhos ou perdidos ficam parados por definição
+export const buildStageTimeReport = (stats: StageTimeStat[], labels: StageTimeLabels): StageTimeReportData => {
+  const stageRows = new Map<string, StageTimeRow>();
+  const assigneeRows = new Map<string, StageTimeRow>();
+
+  labels.stages
+    .filter(stage => stage.kind === 'open')
+    .forEach(stage => {
+      const key = `${stage.pipeline_id}:${stage.key}`;
+      stageRows.set(key, emptyRow(key, labels.getStageLabel(stage), stage.color));
+    });
+
+  stats.forEach((stat) => {
+    const stageRow = stageRows.get(`${stat.pipeline_id}:${stat.status}`);
+    if (!stageRow) return;
+    addStat(stageRow, stat);
+
+    const assigneeKey = stat.assigned_to || 'unassigned';
+    const assigneeRow = assigneeRows.get(assigneeKey) || emptyRow(assigneeKey, labels.getAssigneeName(stat.assigned_to));
+    addStat(assigneeRow, stat);
+    assigneeRows.set(assigneeKey, assigneeRow);
+  });
+
+  return {
+    byStage: Array.from(stageRows.values()),
+    byAssignee: Array.from(assigneeRows.values()).sort((a, b) => b.completedAvgSeconds - a.completedAvgSeconds),
+  };
+};
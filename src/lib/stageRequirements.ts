@@ -0,0 +1,81 @@
+import { CustomFieldDefinition, Lead, PipelineStage } from '@/types/crm';
+import { isEmptyCustomFieldValue } from './customFields';
+
+export type StandardRequirableField = 'value' | 'company' | 'phone' | 'email' | 'source' | 'tags' | 'notes';
+
+// Colunas do lead que podem ser exigidas numa etapa (mesmos rótulos de lead_missing_stage_requirements)
+export const requirableFieldLabels: Record<StandardRequirableField, string> = {
+  value: 'Valor',
+  company: 'Empresa',
+  phone: 'Telefone',
+  email: 'E-mail',
+  source: 'Fonte',
+  tags: 'Tags',
+  notes: 'Observações',
+};
+
+export const requirableFields = Object.keys(requirableFieldLabels) as StandardRequirableField[];
+
+// Campos personalizados entram em required_fields como "cf:<chave>"
+export const CUSTOM_FIELD_REQUIREMENT_PREFIX = 'cf:';
+
+export const toCustomFieldRequirement = (key: string) => `${CUSTOM_FIELD_REQUIREMENT_PREFIX}${key}`;
+
+export const getCustomFieldRequirementKey = (field: string) =>
+  field.startsWith(CUSTOM_FIELD_REQUIREMENT_PREFIX) ? field.slice(CUSTOM_FIELD_REQUIREMENT_PREFIX.length) : null;
+
+export const getRequirementLabel = (field: string, customFields: CustomFieldDefinition[]) => {
+  const customKey = getCustomFieldRequirementKey(field);
+  if (customKey) return customFields.find(f => f.key === customKey)?.label || customKey;
+  return requirableFieldLabels[field as StandardRequirableField] || field;
+};
+
+export interface MissingStageRequirements {
+  fields: string[];
+  checklist: string[];
+}
+
+const isBlank = (value: string | null | undefined) => !value || !value.trim();
+
+// Mesma regra do gatilho validate_lead_stage_requirements no banco
+export const isRequirementFilled = (lead: Partial<Lead>, field: string) => {
+  const customKey = getCustomFieldRequirementKey(field);
+  if (customKey) {
+    const value = lead.custom_fields?.[customKey];
+    return !isEmptyCustomFieldValue(value) && value !== false;
+  }
+
+  switch (field as StandardRequirableField) {
+    case 'value':
+      return (lead.value || 0) > 0;
+    case 'tags':
+      return (lead.tags?.length || 0) > 0;
+    case 'company':
+    case 'phone':
+    case 'email':
+    case 'source':
+    case 'notes':
+      return !isBlank(lead[field as 'company' | 'phone' | 'email' | 'source' | 'notes']);
+    default:
+      return true;
+  }
+};
+
+export const getMissingStageRequirements = (
+  lead: Partial<Lead>,
+  stage: PipelineStage | undefined
+): MissingStageRequirements => {
+  if (!stage) return { fields: [], checklist: [] };
+
+  const done = lead.checklist_done || [];
+  return {
+    fields: (stage.required_fields || []).filter(field => !isRequirementFilled(lead, field)),
+    checklist: (stage.checklist || []).filter(item => !done.includes(item)),
+  };
+};
+
+export const hasMissingRequirements = (missing: MissingStageRequirements) =>
+  missing.fields.length > 0 || missing.checklist.length > 0;
+
+export const stageHasRules = (stage: PipelineStage | undefined) =>
+  !!stage && ((stage.required_fields?.length || 0) > 0 || (stage.checklist?.length || 0) > 0);
@@ -0,0 +1,148 @@
+import { CustomFieldDefinition, KanbanGrouping, Lead, LeadColumnTotals, LeadLaneTotals } from '@/types/crm';
+import { isEmptyCustomFieldValue } from './customFields';
+
+export interface KanbanLane {
+  key: string; // '' = leads sem valor para o agrupamento
+  label: string;
+  totals: LeadColumnTotals;
+}
+
+export const groupingLabels: Record<'none' | 'assignee' | 'source' | 'tag', string> = {
+  none: 'Sem agrupamento',
+  assignee: 'Responsável',
+  source: 'Fonte',
+  tag: 'Tag',
+};
+
+const emptyLaneLabels: Record<'assignee' | 'source' | 'tag', string> = {
+  assignee: 'Sem responsável',
+  source: 'Sem fonte',
+  tag: 'Sem tag',
+};
+
+const CUSTOM_FIELD_GROUPING_PREFIX = 'cf:';
+
+export const toCustomFieldGrouping = (key: string): KanbanGrouping => `${CUSTOM_FIELD_GROUPING_PREFIX}${key}`;
+
+const getCustomFieldGroupingKey = (grouping: KanbanGrouping) =>
+  grouping.startsWith(CUSTOM_FIELD_GROUPING_PREFIX) ? grouping.slice(CUSTOM_FIELD_GROUPING_PREFIX.length) : null;
+
+// Só campos com poucas opções fazem sentido como raias
+export const isGroupableCustomField = (field: CustomFieldDefinition) =>
+  field.type === 'select' || field.type === 'boolean';
+
+// Mesma regra de lead_lane_key no banco; com várias tags, vale a primeira
+export const getLaneKey = (lead: Lead, grouping: KanbanGrouping): string => {
+  const customKey = getCustomFieldGroupingKey(grouping);
+  if (customKey) {
+    const value = lead.custom_fields?.[customKey];
+    return isEmptyCustomFieldValue(value) ? '' : String(value);
+  }
+
+  switch (grouping) {
+    case 'assignee':
+      return lead.assigned_to || '';
+    case 'source':
+      return (lead.source || '').trim();
+    case 'tag':
+      return lead.tags?.[0] || '';
+    default:
+      return '';
+  }
+};
+
+// Responsável é obrigatório: nenhum lead pode ser arrastado para a raia "Sem responsável"
+export const canMoveToLane = (grouping: KanbanGrouping, lane: string) => !(grouping === 'assignee' && lane === '');
+
+// Alterações no lead para levá-lo de uma raia a outra. Na raia vazia o valor é removido
+export const getLaneChanges = (lead: Lead, grouping: KanbanGrouping, fromLane: string, toLane: string): Partial<Lead> => {
+  const customKey = getCustomFieldGroupingKey(grouping);
+  if (customKey) {
+    const customFields = { ...(lead.custom_fields || {}) };
+    if (toLane === '') {
+      delete customFields[customKey];
+    } else {
+      customFields[customKey] = toLane === 'true' || toLane === 'false' ? toLane === 'true' : toLane;
+    }
+    return { custom_fields: customFields };
+  }
+
+  switch (grouping) {
+    case 'assignee':
+      return { assigned_to: toLane };
+    case 'source':
+      return { source: toLane };
+    case 'tag': {
+      const others = (lead.tags || []).filter(tag => tag !== fromLane && tag !== toLane);
+      return { tags: toLane ? [toLane, ...others] : others };
+    }
+    default:
+      return {};
+  }
+};
+
+// Cada célula do quadro agrupado é um droppable "<etapa>::<raia>"; chaves de etapa não têm ":"
+const LANE_SEPARATOR = '::';
+
+export const toLaneDroppableId = (status: string, lane: string) => `${status}${LANE_SEPARATOR}${lane}`;
+
+export const parseDroppableId = (droppableId: string): { status: string; lane: string | null } => {
+  const index = droppableId.indexOf(LANE_SEPARATOR);
+  if (index === -1) return { status: droppableId, lane: null };
+  return { status: droppableId.slice(0, index), lane: droppableId.slice(index + LANE_SEPARATOR.length) };
+};
+
+interface LaneOptions {
+  grouping: KanbanGrouping;
+  laneTotals: LeadLaneTotals;
+  loadedLeads: Lead[];
+  customFields: CustomFieldDefinition[];
+  // Raias que aparecem mesmo vazias, para servir de destino (ex.: vendedores sem leads)
+  extraKeys: string[];
+  getAssigneeName: (userId: string) => string;
+}
+
+export const getLaneLabel = (key: string, grouping: KanbanGrouping, options: Pick<LaneOptions, 'customFields' | 'getAssigneeName'>) => {
+  const customKey = getCustomFieldGroupingKey(grouping);
+  if (key === '') {
+    return customKey ? 'Sem valor' : emptyLaneLabels[grouping as keyof typeof emptyLaneLabels] || 'Sem valor';
+  }
+  if (customKey) {
+    const field = options.customFields.find(f => f.key === customKey);
+    if (field?.type === 'boolean') return key === 'true' ? 'Sim' : 'Não';
+    return key;
+  }
+  return grouping === 'assignee' ? options.getAssigneeName(key) : key;
+};
+
+// Raias com leads no servidor ou já carregados, mais as fixas; a raia vazia fica por último
+export const buildLanes = ({ grouping, laneTotals, loadedLeads, customFields, extraKeys, getAssigneeName }: LaneOptions): KanbanLane[] => {
+  const customKey = getCustomFieldGroupingKey(grouping);
+  const field = customKey ? customFields.find(f => f.key === customKey) : undefined;
+  const fixedKeys = field?.type === 'boolean' ? ['true', 'false'] : field?.options || [];
+
+  const keys = new Set<string>([
+    ...fixedKeys,
+    ...extraKeys,
+    ...Object.keys(laneTotals),
+    ...loadedLeads.map(lead => getLaneKey(lead, grouping)),
+  ]);
+
+  const lanes = Array.from(keys).map(key => {
+    const totals = Object.values(laneTotals[key] || {}).reduce(
+      (sum, total) => ({ count: sum.count + total.count, value: sum.value + total.value }),
+      { count: 0, value: 0 }
+    );
+    return { key, label: getLaneLabel(key, grouping, { customFields, getAssigneeName }), totals };
+  });
+
+  const position = (key: string) => {
+    const index = fixedKeys.indexOf(key);
+    return index === -1 ? fixedKeys.length : index;
+  };
+
+  return lanes.sort((a, b) => {
+    if (a.key === '' || b.key === '') return a.key === '' ? 1 : -1;
+    return position(a.key) - position(b.key) || a.label.localeCompare(b.label, 'pt-BR');
+  });
+};
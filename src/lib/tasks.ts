@@ -0,0 +1,58 @@
+import { Mail, Phone, Users, LucideIcon } from 'lucide-react';
+import { LeadTask, TaskType } from '@/types/crm';
+
+export const taskTypeLabels: Record<TaskType, string> = {
+  call: 'Ligação',
+  meeting: 'Reunião',
+  email: 'E-mail',
+};
+
+export const taskTypeIcons: Record<TaskType, LucideIcon> = {
+  call: Phone,
+  meeting: Users,
+  email: Mail,
+};
+
+export const taskTypes = Object.keys(taskTypeLabels) as TaskType[];
+
+export type TaskDueStatus = 'overdue' | 'today' | 'upcoming';
+
+// Atrasada = vencida antes de agora; hoje = vence até o fim do dia local
+export const getTaskDueStatus = (dueAt: string, now: Date = new Date()): TaskDueStatus => {
+  const due = new Date(dueAt);
+  if (due < now) return 'overdue';
+
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return due <= endOfToday ? 'today' : 'upcoming';
+};
+
+export const taskDueStyles: Record<TaskDueStatus, string> = {
+  overdue: 'text-red-600',
+  today: 'text-amber-600',
+  upcoming: 'text-slate-600',
+};
+
+export const formatTaskDue = (dueAt: string) => {
+  return new Date(dueAt).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Separa as tarefas em aberto nas seções da página "Minhas Tarefas", mantendo a ordem por vencimento
+export const groupTasksByDue = (tasks: LeadTask[], now: Date = new Date()) => {
+  const groups: Record<TaskDueStatus, LeadTask[]> = { overdue: [], today: [], upcoming: [] };
+  tasks.forEach((task) => groups[getTaskDueStatus(task.due_at, now)].push(task));
+  return groups;
+};
+
+// Converte entre o valor de <input type="datetime-local"> (horário local) e ISO
+export const toDateTimeLocalValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocalValue = (value: string) => new Date(value).toISOString();
@@ -0,0 +1,82 @@
+import { BulkLeadChanges, Lead, StageKind } from '@/types/crm';
+
+// Tempo que o toast com "Desfazer" fica aberto
+export const UNDO_TOAST_DURATION = 10000;
+
+// Desfazer uma perda é uma reabertura como outra qualquer: fica registrada com este texto
+export const UNDO_REOPEN_JUSTIFICATION = 'Movimentação desfeita';
+
+export type StageKindLookup = (status: string) => StageKind | undefined;
+
+// Volta o lead para a etapa anterior. Saindo da perda o banco pede justificativa;
+// voltando para a perda, reaproveita o motivo que o lead tinha
+const getStageRevertChanges = (previous: Lead, movedTo: string, getStageKind: StageKindLookup): Partial<Lead> => {
+  const fromKind = getStageKind(previous.status);
+  const toKind = getStageKind(movedTo);
+
+  if (toKind === 'lost' && fromKind !== 'lost') {
+    return { status: previous.status, reopen_justification: UNDO_REOPEN_JUSTIFICATION };
+  }
+  if (fromKind === 'lost' && toKind !== 'lost') {
+    return {
+      status: previous.status,
+      lost_reason: previous.lost_reason ?? null,
+      lost_competitor: previous.lost_competitor ?? null,
+      lost_comment: previous.lost_comment ?? null,
+    };
+  }
+  return { status: previous.status };
+};
+
+// Alterações que desfazem `changes` aplicadas sobre `previous` (o lead como estava antes)
+export const getRevertChanges = (
+  previous: Lead,
+  changes: Partial<Lead>,
+  getStageKind: StageKindLookup
+): Partial<Lead> => {
+  const revert = Object.fromEntries(
+    Object.keys(changes)
+      .filter(key => key !== 'status')
+      .map(key => [key, previous[key as keyof Lead] ?? null])
+  ) as Partial<Lead>;
+
+  if (changes.status !== undefined && changes.status !== previous.status) {
+    return { ...revert, ...getStageRevertChanges(previous, changes.status, getStageKind) };
+  }
+  return revert;
+};
+
+export interface RevertGroup {
+  leadIds: string[];
+  changes: BulkLeadChanges;
+  tags: { add: string[]; remove: string[] };
+}
+
+// Desfaz uma alteração em lote agrupando os leads pelo que precisa voltar,
+// para que a reversão também rode em poucas chamadas
+export const groupBulkRevert = (
+  previousLeads: Lead[],
+  changes: BulkLeadChanges,
+  tags: { add?: string[]; remove?: string[] },
+  getStageKind: StageKindLookup
+): RevertGroup[] => {
+  const groups = new Map<string, RevertGroup>();
+
+  previousLeads.forEach(lead => {
+    const revert = getRevertChanges(lead, changes, getStageKind) as BulkLeadChanges;
+    const currentTags = lead.tags || [];
+    const revertTags = {
+      // Só sai o que a ação acrescentou; tags que o lead já tinha continuam
+      remove: (tags.add || []).filter(tag => !currentTags.includes(tag)),
+      add: (tags.remove || []).filter(tag => currentTags.includes(tag)),
+    };
+    if (Object.keys(revert).length === 0 && revertTags.add.length === 0 && revertTags.remove.length === 0) return;
+
+    const key = JSON.stringify([revert, revertTags]);
+    const group = groups.get(key) || { leadIds: [], changes: revert, tags: revertTags };
+    group.leadIds.push(lead.id);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values());
+};
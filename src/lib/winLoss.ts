@@ -0,0 +1,94 @@
+import { Lead, StageKind } from '@/types/crm';
+
+export interface WinLossRow {
+  key: string;
+  label: string;
+  won: number;
+  lost: number;
+  wonValue: number;
+  lostValue: number;
+}
+
+export interface LossBreakdownRow {
+  label: string;
+  count: number;
+  value: number;
+}
+
+export interface WinLossReportData {
+  totals: WinLossRow;
+  byReason: LossBreakdownRow[];
+  byCompetitor: LossBreakdownRow[];
+  byLostStage: LossBreakdownRow[];
+  bySource: WinLossRow[];
+  byAssignee: WinLossRow[];
+}
+
+interface WinLossLabels {
+  getKind: (lead: Lead) => StageKind | undefined;
+  getAssigneeName: (userId: string) => string;
+  getStageName: (lead: Lead, key: string) => string;
+}
+
+export const winRate = (row: Pick<WinLossRow, 'won' | 'lost'>) =>
+  row.won + row.lost > 0 ? (row.won / (row.won + row.lost)) * 100 : 0;
+
+const emptyRow = (key: string, label: string): WinLossRow => ({ key, label, won: 0, lost: 0, wonValue: 0, lostValue: 0 });
+
+const byCountDesc = <T extends { count: number }>(a: T, b: T) => b.count - a.count;
+
+// Só entram leads em etapas de ganho ou perda; leads perdidos antes do motivo obrigatório aparecem como "Não informado"
+export const buildWinLossReport = (leads: Lead[], labels: WinLossLabels): WinLossReportData => {
+  const totals = emptyRow('total', 'Total');
+  const sources = new Map<string, WinLossRow>();
+  const assignees = new Map<string, WinLossRow>();
+  const reasons = new Map<string, LossBreakdownRow>();
+  const competitors = new Map<string, LossBreakdownRow>();
+  const lostStages = new Map<string, LossBreakdownRow>();
+
+  const addTo = (map: Map<string, WinLossRow>, key: string, label: string, kind: 'won' | 'lost', value: number) => {
+    const row = map.get(key) || emptyRow(key, label);
+    row[kind] += 1;
+    row[kind === 'won' ? 'wonValue' : 'lostValue'] += value;
+    map.set(key, row);
+  };
+
+  const addLoss = (map: Map<string, LossBreakdownRow>, label: string, value: number) => {
+    const row = map.get(label) || { label, count: 0, value: 0 };
+    row.count += 1;
+    row.value += value;
+    map.set(label, row);
+  };
+
+  leads.forEach(lead => {
+    const kind = labels.getKind(lead);
+    if (kind !== 'won' && kind !== 'lost') return;
+
+    const value = lead.value || 0;
+    totals[kind] += 1;
+    totals[kind === 'won' ? 'wonValue' : 'lostValue'] += value;
+    addTo(sources, lead.source || '—', lead.source || 'Sem fonte', kind, value);
+    addTo(assignees, lead.assigned_to, labels.getAssigneeName(lead.assigned_to), kind, value);
+
+    if (kind === 'lost') {
+      addLoss(reasons, lead.lost_reason || 'Não informado', value);
+      if (lead.lost_competitor) addLoss(competitors, lead.lost_competitor, value);
+      addLoss(
+        lostStages,
+        lead.lost_from_status ? labels.getStageName(lead, lead.lost_from_status) : 'Não informado',
+        value
+      );
+    }
+  });
+
+  const sortRows = (rows: WinLossRow[]) => rows.sort((a, b) => (b.won + b.lost) - (a.won + a.lost));
+
+  return {
+    totals,
+    byReason: Array.from(reasons.values()).sort(byCountDesc),
+    byCompetitor: Array.from(competitors.values()).sort(byCountDesc),
+    byLostStage: Array.from(lostStages.values()).sort(byCountDesc),
+    bySource: sortRows(Array.from(sources.values())),
+    byAssignee: sortRows(Array.from(assignees.values())),
+  };
+};
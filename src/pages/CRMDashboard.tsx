@@ -6,6 +6,9 @@ import { WebhooksPanel } from '@/components/WebhooksPanel';
 import { AnalyticsPanel } from '@/components/AnalyticsPanel';
 import { UsersPanel } from '@/components/UsersPanel';
 import { SettingsPanel } from '@/components/SettingsPanel';
+import { MyTasksPanel } from '@/components/MyTasksPanel';
+import { CalendarPanel } from '@/components/CalendarPanel';
+import { CompaniesPanel } from '@/components/CompaniesPanel';
 
 export const CRMDashboard: React.FC = () => {
   const [currentPage, setCurrentPage] = useState('dashboard');
@@ -14,6 +17,12 @@ export const CRMDashboard: React.FC = () => {
     switch (currentPage) {
       case 'dashboard':
         return <KanbanBoard />;
+      case 'tasks':
+        return <MyTasksPanel />;
+      case 'calendar':
+        return <CalendarPanel />;
+      case 'companies':
+        return <CompaniesPanel />;
       case 'sales':
         return <SalesCompleted />;
       case 'webhooks':
@@ -0,0 +1,419 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CompanyDialog } from '@/components/CompanyDialog';
+import { LeadTimeline } from '@/components/LeadTimeline';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  ArrowLeft,
+  Building2,
+  Globe,
+  FileText,
+  Briefcase,
+  Users,
+  MapPin,
+  DollarSign,
+  Handshake,
+  Receipt,
+  MessageSquare,
+  Edit,
+  Trash2
+} from 'lucide-react';
+import { useAuth } from '@/components/AuthWrapper';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { getStageBadgeStyle } from '@/lib/pipeline';
+import { companySizeLabels, formatCnpj } from '@/lib/companies';
+import { CompanyInput, CompanyService } from '@/services/companyService';
+import { SaleService } from '@/services/saleService';
+import { Company, Lead, LeadFeedback, LeadHistoryEntry, Sale } from '@/types/crm';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const CompanyDetail: React.FC = () => {
+  const { companyId } = useParams<{ companyId: string }>();
+  const navigate = useNavigate();
+  const { user, allAssignableUsers } = useAuth();
+  const { toast } = useToast();
+  const { getStage } = usePipelineStages();
+
+  const [company, setCompany] = useState<Company | null>(null);
+  const [contacts, setContacts] = useState<Lead[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [feedback, setFeedback] = useState<LeadFeedback[]>([]);
+  const [history, setHistory] = useState<LeadHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const fetchCompanyData = useCallback(async () => {
+    if (!companyId) return;
+
+    const [companyData, contactList, saleList] = await Promise.all([
+      CompanyService.getCompany(companyId),
+      CompanyService.getContacts(companyId),
+      SaleService.getCompanySales(companyId),
+    ]);
+
+    setCompany(companyData);
+    setContacts(contactList);
+    setSales(saleList);
+    setLoading(false);
+
+    const activity = await CompanyService.getActivity(contactList.map(contact => contact.id));
+    setFeedback(activity.feedback);
+    setHistory(activity.history);
+  }, [companyId]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchCompanyData();
+  }, [user, fetchCompanyData]);
+
+  const saveCompany = async (input: CompanyInput) => {
+    if (!company) return false;
+
+    try {
+      await CompanyService.updateCompany(company.id, input);
+      await fetchCompanyData();
+      toast({
+        title: "Empresa atualizada",
+        description: input.name,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao salvar empresa",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const deleteCompany = async () => {
+    if (!company) return;
+
+    try {
+      await CompanyService.deleteCompany(company.id);
+      toast({
+        title: "Empresa removida",
+        description: `Os contatos de ${company.name} continuam no CRM, sem empresa vinculada`,
+      });
+      navigate('/crm');
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao remover empresa",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getUserName = (userId: string) =>
+    allAssignableUsers.find(u => u.user_id === userId)?.name || 'Outro usuário';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!company) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Empresa não encontrada</h2>
+          <Button onClick={() => navigate('/crm')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Voltar ao CRM
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const openDeals = contacts.filter(contact => getStage(contact.status, contact.pipeline_id)?.kind === 'open');
+  const openDealsValue = openDeals.reduce((sum, deal) => sum + (deal.value || 0), 0);
+  const wonRevenue = sales.reduce((sum, sale) => sum + sale.value, 0);
+
+  const details = [
+    { icon: Globe, label: 'Domínio', value: company.domain },
+    { icon: FileText, label: 'CNPJ', value: formatCnpj(company.cnpj) },
+    { icon: Briefcase, label: 'Segmento', value: company.segment },
+    { icon: Users, label: 'Porte', value: company.size && companySizeLabels[company.size] },
+  ];
+
+  const renderStageBadge = (contact: Lead) => {
+    const stage = getStage(contact.status, contact.pipeline_id);
+    return (
+      <Badge className="border" style={getStageBadgeStyle(stage?.color || '#6B7280')}>
+        {stage?.name || contact.status}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50/30">
+      <div className="max-w-6xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/crm')}
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Voltar</span>
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-slate-800">{company.name}</h1>
+              <p className="text-slate-600">Detalhes da Empresa</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => setEditOpen(true)}
+              className="flex items-center space-x-2"
+            >
+              <Edit className="w-4 h-4" />
+              <span>Editar</span>
+            </Button>
+            {user?.role === 'master' && (
+              <Button
+                variant="outline"
+                onClick={() => setDeleteOpen(true)}
+                className="flex items-center space-x-2 text-destructive hover:bg-destructive-light"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Excluir</span>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-primary-muted rounded-lg flex items-center justify-center">
+                  <Users className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Contatos</p>
+                  <p className="text-2xl font-bold text-primary">{contacts.length}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-warning-light rounded-lg flex items-center justify-center">
+                  <Handshake className="w-5 h-5 text-warning" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    {openDeals.length} {openDeals.length === 1 ? 'negócio em aberto' : 'negócios em aberto'}
+                  </p>
+                  <p className="text-2xl font-bold text-warning">{formatCurrency(openDealsValue)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-2">
+                <div className="w-10 h-10 bg-success-light rounded-lg flex items-center justify-center">
+                  <DollarSign className="w-5 h-5 text-success" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Receita ganha</p>
+                  <p className="text-2xl font-bold text-success">{formatCurrency(wonRevenue)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Company Info */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Building2 className="w-5 h-5" />
+                  <span>Informações da Empresa</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {details.map(({ icon: Icon, label, value }) => (
+                    <div key={label} className="flex items-center space-x-3">
+                      <Icon className="w-5 h-5 text-primary" />
+                      <div>
+                        <p className="text-sm text-muted-foreground">{label}</p>
+                        <p className="font-medium">{value || 'Não informado'}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {company.address && (
+                  <div className="flex items-center space-x-3">
+                    <MapPin className="w-5 h-5 text-primary" />
+                    <div>
+                      <p className="text-sm text-muted-foreground">Endereço</p>
+                      <p className="font-medium whitespace-pre-line">{company.address}</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Contacts */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Users className="w-5 h-5" />
+                  <span>Contatos</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {contacts.length === 0 && (
+                  <p className="text-muted-foreground text-sm">
+                    Nenhum contato vinculado.
+                    {company.domain && ` Leads com e-mail @${company.domain} entram aqui automaticamente.`}
+                  </p>
+                )}
+                {contacts.map((contact) => (
+                  <div
+                    key={contact.id}
+                    className="flex items-center justify-between p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+                    onClick={() => navigate(`/lead/${contact.id}`)}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{contact.name}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {contact.email} · {getUserName(contact.assigned_to)}
+                      </p>
+                    </div>
+                    {renderStageBadge(contact)}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Open Deals */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Handshake className="w-5 h-5" />
+                  <span>Negócios em Aberto</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {openDeals.length === 0 && (
+                  <p className="text-muted-foreground text-sm">Nenhum negócio em andamento.</p>
+                )}
+                {openDeals.map((deal) => (
+                  <div
+                    key={deal.id}
+                    className="flex items-center justify-between p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+                    onClick={() => navigate(`/lead/${deal.id}`)}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <p className="font-medium truncate">{deal.name}</p>
+                      {renderStageBadge(deal)}
+                    </div>
+                    <p className="font-semibold text-green-600">{formatCurrency(deal.value || 0)}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Sales */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Receipt className="w-5 h-5" />
+                  <span>Vendas</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {sales.length === 0 && (
+                  <p className="text-muted-foreground text-sm">Nenhuma venda registrada para esta empresa.</p>
+                )}
+                {sales.map((sale) => (
+                  <div key={sale.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{sale.product}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {sale.leadName || sale.customerName} · Concluída em {new Date(sale.completedAt).toLocaleDateString('pt-BR')}
+                      </p>
+                    </div>
+                    <p className="font-semibold text-green-600">{formatCurrency(sale.value)}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Combined Activity */}
+          <div className="lg:col-span-1">
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <MessageSquare className="w-5 h-5" />
+                  <span>Atividades dos Contatos</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3 max-h-[36rem] overflow-y-auto">
+                  <LeadTimeline contacts={contacts} feedback={feedback} history={history} />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <CompanyDialog
+        open={editOpen}
+        company={company}
+        onOpenChange={setEditOpen}
+        onSave={saveCompany}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir Empresa</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir <strong>{company.name}</strong>? Contatos e vendas continuam no CRM, apenas sem empresa vinculada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteCompany}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir Empresa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
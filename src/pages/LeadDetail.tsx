@@ -1,12 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
 import { EditLeadModal } from '@/components/EditLeadModal';
+import { LeadTimeline } from '@/components/LeadTimeline';
+import { LeadTasks } from '@/components/LeadTasks';
+import { ConvertLeadDialog } from '@/components/ConvertLeadDialog';
+import { ReopenLeadDialog } from '@/components/ReopenLeadDialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { 
   ArrowLeft, 
   Mail, 
@@ -19,76 +23,56 @@ import {
   Send,
   Clock,
   User,
-  Edit
+  Edit,
+  Receipt,
+  ThumbsDown,
+  RotateCcw,
+  Trash2
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthWrapper';
 import { useToast } from '@/hooks/use-toast';
-
-interface Lead {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  company?: string;
-  value?: number;
-  status: 'new' | 'contacted' | 'qualified' | 'proposal' | 'won' | 'lost';
-  tags: string[];
-  assigned_to: string;
-  created_at: string;
-  updated_at: string;
-  notes: string;
-  source: string;
-  user_id: string;
-}
-
-interface LeadFeedback {
-  id: string;
-  lead_id: string;
-  user_id: string;
-  message: string;
-  created_at: string;
-  profiles?: {
-    name: string;
-  };
-}
-
-const statusColors = {
-  new: 'bg-blue-100 text-blue-700 border-blue-200',
-  contacted: 'bg-orange-100 text-orange-700 border-orange-200',
-  qualified: 'bg-purple-100 text-purple-700 border-purple-200',
-  proposal: 'bg-indigo-100 text-indigo-700 border-indigo-200',
-  won: 'bg-green-100 text-green-700 border-green-200',
-  lost: 'bg-red-100 text-red-700 border-red-200',
-};
-
-const statusNames = {
-  new: 'Novo Lead',
-  contacted: 'Contatado',
-  qualified: 'Qualificado',
-  proposal: 'Proposta',
-  won: 'Fechado',
-  lost: 'Perdido',
-};
+import { useUndoToast } from '@/hooks/useUndoToast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { usePipelines } from '@/hooks/usePipelines';
+import { getStageBadgeStyle } from '@/lib/pipeline';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { formatCustomFieldValue } from '@/lib/customFields';
+import { SaleService } from '@/services/saleService';
+import { LeadService } from '@/services/leadService';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Lead, LeadFeedback, LeadHistoryEntry, Sale } from '@/types/crm';
 
 export const LeadDetail: React.FC = () => {
   const { leadId } = useParams<{ leadId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const showUndoToast = useUndoToast();
+  const { allStages, getStage } = usePipelineStages();
+  const { pipelines } = usePipelines();
+  const { fields: customFields } = useCustomFields();
+  const { can, canMoveLead } = usePermissions();
   
   const [lead, setLead] = useState<Lead | null>(null);
   const [feedback, setFeedback] = useState<LeadFeedback[]>([]);
+  const [history, setHistory] = useState<LeadHistoryEntry[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [convertOpen, setConvertOpen] = useState(false);
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
 
   useEffect(() => {
     if (!leadId || !user) return;
     
     fetchLead();
     fetchFeedback();
+    fetchHistory();
+    fetchSales();
   }, [leadId, user]);
 
   const fetchLead = async () => {
@@ -149,6 +133,100 @@ export const LeadDetail: React.FC = () => {
     }
   };
 
+  const fetchHistory = async () => {
+    if (!leadId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('lead_history')
+        .select(`
+          *,
+          profiles:changed_by (name)
+        `)
+        .eq('lead_id', leadId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching history:', error);
+        return;
+      }
+
+      setHistory((data || []) as unknown as LeadHistoryEntry[]);
+    } catch (error) {
+      console.error('Error fetching history:', error);
+    }
+  };
+
+  const fetchSales = async () => {
+    if (!leadId) return;
+    setSales(await SaleService.getLeadSales(leadId));
+  };
+
+  const reopenLead = async (status: string, justification: string) => {
+    if (!lead) return;
+
+    const { error } = await supabase
+      .from('leads')
+      .update({ status, reopen_justification: justification, updated_at: new Date().toISOString() })
+      .eq('id', lead.id);
+
+    if (error) {
+      console.error('Error reopening lead:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao reabrir lead: " + error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Lead reaberto",
+      description: `${lead.name} voltou para ${getStage(status, lead.pipeline_id)?.name || status}`,
+    });
+    fetchLead();
+    fetchHistory();
+  };
+
+  const deleteLead = async () => {
+    if (!lead) return;
+
+    try {
+      await LeadService.deleteLead(lead.id);
+      showUndoToast({
+        title: "Lead excluído",
+        description: `${lead.name} foi para a lixeira`,
+        onUndo: () => restoreLead(lead),
+      });
+      navigate('/crm');
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro inesperado ao excluir lead",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const restoreLead = async (deleted: Lead) => {
+    try {
+      const [failure] = await LeadService.restoreLeads([deleted.id]);
+      if (failure) throw new Error(failure.error);
+
+      toast({
+        title: "Lead restaurado",
+        description: `${deleted.name} saiu da lixeira`,
+      });
+      navigate(`/lead/${deleted.id}`);
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message || "Erro ao restaurar lead",
+        variant: "destructive",
+      });
+    }
+  };
+
   const sendMessage = async () => {
     if (!newMessage.trim() || !leadId || !user || sending) return;
 
@@ -258,8 +336,21 @@ export const LeadDetail: React.FC = () => {
               <Edit className="w-4 h-4" />
               <span>Editar</span>
             </Button>
-            <Badge className={`${statusColors[lead.status]} px-4 py-2 text-sm font-semibold`}>
-              {statusNames[lead.status]}
+            {can('delete_leads') && (
+              <Button
+                variant="outline"
+                onClick={() => setDeleteOpen(true)}
+                className="flex items-center space-x-2 text-destructive hover:bg-destructive-light"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Excluir</span>
+              </Button>
+            )}
+            <Badge
+              className="px-4 py-2 text-sm font-semibold border"
+              style={getStageBadgeStyle(getStage(lead.status, lead.pipeline_id)?.color || '#6B7280')}
+            >
+              {getStage(lead.status, lead.pipeline_id)?.name || lead.status}
             </Badge>
           </div>
         </div>
@@ -298,7 +389,13 @@ export const LeadDetail: React.FC = () => {
                       <Building2 className="w-5 h-5 text-primary" />
                       <div>
                         <p className="text-sm text-muted-foreground">Empresa</p>
-                        <p className="font-medium">{lead.company}</p>
+                        {lead.company_id ? (
+                          <Link to={`/company/${lead.company_id}`} className="font-medium text-primary hover:underline">
+                            {lead.company}
+                          </Link>
+                        ) : (
+                          <p className="font-medium">{lead.company}</p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -334,6 +431,20 @@ export const LeadDetail: React.FC = () => {
                   )}
                 </div>
 
+                {customFields.length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {customFields.map((field) => (
+                        <div key={field.id}>
+                          <p className="text-sm text-muted-foreground">{field.label}</p>
+                          <p className="font-medium">{formatCustomFieldValue(field, lead.custom_fields?.[field.key])}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
                 {lead.notes && (
                   <>
                     <Separator />
@@ -346,6 +457,96 @@ export const LeadDetail: React.FC = () => {
               </CardContent>
             </Card>
 
+            {/* Loss */}
+            {getStage(lead.status, lead.pipeline_id)?.kind === 'lost' && (
+              <Card className="border-destructive/30">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center space-x-2">
+                      <ThumbsDown className="w-5 h-5 text-destructive" />
+                      <span>Negócio perdido</span>
+                    </span>
+                    {canMoveLead(lead) && (
+                      <Button size="sm" variant="outline" onClick={() => setReopenOpen(true)}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Reabrir
+                      </Button>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Motivo</p>
+                      <p className="font-medium">{lead.lost_reason || 'Não informado'}</p>
+                    </div>
+                    {lead.lost_competitor && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Concorrente</p>
+                        <p className="font-medium">{lead.lost_competitor}</p>
+                      </div>
+                    )}
+                    {lead.lost_from_status && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Perdido na etapa</p>
+                        <p className="font-medium">
+                          {getStage(lead.lost_from_status, lead.pipeline_id)?.name || lead.lost_from_status}
+                        </p>
+                      </div>
+                    )}
+                    {lead.lost_at && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Perdido em</p>
+                        <p className="font-medium">{formatDate(lead.lost_at)}</p>
+                      </div>
+                    )}
+                  </div>
+                  {lead.lost_comment && (
+                    <p className="text-muted-foreground">{lead.lost_comment}</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Tasks */}
+            <LeadTasks leadId={lead.id} assignedTo={lead.assigned_to} />
+
+            {/* Sales */}
+            {(sales.length > 0 || getStage(lead.status, lead.pipeline_id)?.kind === 'won') && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center space-x-2">
+                      <Receipt className="w-5 h-5" />
+                      <span>Venda</span>
+                    </span>
+                    {sales.length === 0 && (
+                      <Button size="sm" onClick={() => setConvertOpen(true)}>
+                        Registrar venda
+                      </Button>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {sales.length === 0 && (
+                    <p className="text-muted-foreground text-sm">Negócio ganho, mas a venda ainda não foi registrada.</p>
+                  )}
+                  {sales.map((sale) => (
+                    <div key={sale.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{sale.product}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Concluída em {new Date(sale.completedAt).toLocaleDateString('pt-BR')}
+                          {sale.appointmentDate && ` · Atendimento em ${new Date(sale.appointmentDate).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}`}
+                        </p>
+                      </div>
+                      <p className="font-semibold text-green-600">{formatCurrency(sale.value)}</p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Timeline/Metadata */}
             <Card>
               <CardHeader>
@@ -368,6 +569,12 @@ export const LeadDetail: React.FC = () => {
                     <p className="text-sm text-muted-foreground">Fonte</p>
                     <p className="font-medium">{lead.source}</p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Pipeline</p>
+                    <p className="font-medium">
+                      {pipelines.find(p => p.id === lead.pipeline_id)?.name || '-'}
+                    </p>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -379,45 +586,13 @@ export const LeadDetail: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <MessageSquare className="w-5 h-5" />
-                  <span>Feedback & Notas</span>
+                  <span>Atividades & Notas</span>
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
                 {/* Messages */}
                 <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {feedback.length > 0 ? (
-                    feedback.map((msg) => (
-                      <div key={msg.id} className="p-3 bg-muted/50 rounded-lg">
-                        <div className="flex items-center justify-between mb-2">
-                          <div className="flex items-center space-x-2">
-                            <Avatar className="w-6 h-6">
-                              <AvatarFallback className="text-xs bg-primary text-primary-foreground">
-                                {msg.profiles?.name?.charAt(0) || 'U'}
-                              </AvatarFallback>
-                            </Avatar>
-                            <span className="text-sm font-medium">
-                              {msg.profiles?.name || 'Usuário'}
-                            </span>
-                          </div>
-                          <span className="text-xs text-muted-foreground">
-                            {new Date(msg.created_at).toLocaleString('pt-BR', {
-                              day: '2-digit',
-                              month: '2-digit',
-                              hour: '2-digit',
-                              minute: '2-digit'
-                            })}
-                          </span>
-                        </div>
-                        <p className="text-sm text-muted-foreground">{msg.message}</p>
-                      </div>
-                    ))
-                  ) : (
-                    <div className="text-center py-8 text-muted-foreground">
-                      <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                      <p className="text-sm">Nenhuma conversa ainda</p>
-                      <p className="text-xs">Inicie a conversa abaixo</p>
-                    </div>
-                  )}
+                  <LeadTimeline lead={lead} feedback={feedback} history={history} />
                 </div>
 
                 <Separator />
@@ -460,8 +635,51 @@ export const LeadDetail: React.FC = () => {
         lead={lead}
         open={editModalOpen}
         onOpenChange={setEditModalOpen}
-        onLeadUpdated={fetchLead}
+        onLeadUpdated={() => {
+          fetchLead();
+          fetchHistory();
+          fetchSales();
+        }}
+      />
+
+      {/* Reopen Lost Lead */}
+      <ReopenLeadDialog
+        leadName={lead.name}
+        stages={allStages.filter(stage => stage.pipeline_id === lead.pipeline_id && stage.kind !== 'lost')}
+        defaultStatus={lead.lost_from_status}
+        open={reopenOpen}
+        onOpenChange={setReopenOpen}
+        onConfirm={reopenLead}
+      />
+
+      {/* Lead-to-Sale Conversion */}
+      <ConvertLeadDialog
+        lead={lead}
+        open={convertOpen}
+        onOpenChange={setConvertOpen}
+        onConverted={fetchSales}
       />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir Lead</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir <strong>{lead.name}</strong>? O lead vai para a lixeira e o administrador pode restaurá-lo até o fim do prazo de retenção.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteLead}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir Lead
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
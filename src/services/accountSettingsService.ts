@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AccountSettings } from '@/types/crm';
+
+// Mesmos padrões das colunas de account_settings, usados enquanto a conta não tem linha
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  trash_retention_days: 30,
+};
+
+export class AccountSettingsService {
+  static async getAccountSettings(): Promise<AccountSettings> {
+    try {
+      const { data, error } = await supabase
+        .from('account_settings')
+        .select('trash_retention_days')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Erro ao buscar configurações da conta:', error);
+        return DEFAULT_ACCOUNT_SETTINGS;
+      }
+
+      return data || DEFAULT_ACCOUNT_SETTINGS;
+    } catch (error) {
+      console.error('Erro no AccountSettingsService.getAccountSettings:', error);
+      return DEFAULT_ACCOUNT_SETTINGS;
+    }
+  }
+
+  static async saveAccountSettings(accountId: string, settings: AccountSettings): Promise<void> {
+    const { error } = await supabase
+      .from('account_settings')
+      .upsert({ account_id: accountId, ...settings }, { onConflict: 'account_id' });
+
+    if (error) {
+      console.error('Erro ao salvar configurações da conta:', error);
+      throw new Error(error.message);
+    }
+  }
+}
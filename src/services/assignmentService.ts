@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { AssignmentConditions, AssignmentRule, AssignmentRuleMember, AssignmentStrategy } from '@/types/crm';
+
+export interface AssignmentRuleInput {
+  name: string;
+  conditions: AssignmentConditions;
+  strategy: AssignmentStrategy;
+  is_active?: boolean;
+}
+
+// A escolha do responsável acontece no banco (trigger), para todo lead inserido sem assigned_to
+export class AssignmentService {
+  static async getRules(): Promise<AssignmentRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_assignment_rules')
+        .select('*, lead_assignment_rule_members(user_id, weight, position)')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar regras de distribuição:', error);
+        return [];
+      }
+
+      return (data || []).map(({ lead_assignment_rule_members: members, ...rule }) => ({
+        ...rule,
+        conditions: (rule.conditions || {}) as unknown as AssignmentConditions,
+        strategy: rule.strategy as AssignmentStrategy,
+        members: [...(members || [])]
+          .sort((a, b) => a.position - b.position)
+          .map(member => ({ user_id: member.user_id, weight: member.weight })),
+      }));
+    } catch (error) {
+      console.error('Erro no AssignmentService.getRules:', error);
+      return [];
+    }
+  }
+
+  static async createRule(
+    accountId: string,
+    rule: AssignmentRuleInput,
+    members: AssignmentRuleMember[],
+    position: number
+  ): Promise<void> {
+    const { data, error } = await supabase
+      .from('lead_assignment_rules')
+      .insert({ ...rule, conditions: rule.conditions as unknown as Json, account_id: accountId, position })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Erro ao criar regra de distribuição:', error);
+      throw new Error(error.message);
+    }
+
+    await this.saveMembers(data.id, members);
+  }
+
+  static async updateRule(ruleId: string, rule: Partial<AssignmentRuleInput>): Promise<void> {
+    const { conditions, ...changes } = rule;
+    const { error } = await supabase
+      .from('lead_assignment_rules')
+      .update(conditions ? { ...changes, conditions: conditions as unknown as Json } : changes)
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error('Erro ao atualizar regra de distribuição:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  // Substitui quem recebe os leads da regra; rodízio e divisão por peso recomeçam do zero
+  static async saveMembers(ruleId: string, members: AssignmentRuleMember[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('lead_assignment_rule_members')
+      .delete()
+      .eq('rule_id', ruleId);
+
+    if (deleteError) {
+      console.error('Erro ao atualizar destinatários da regra:', deleteError);
+      throw new Error(deleteError.message);
+    }
+
+    if (members.length === 0) return;
+
+    const { error } = await supabase
+      .from('lead_assignment_rule_members')
+      .insert(members.map((member, index) => ({
+        rule_id: ruleId,
+        user_id: member.user_id,
+        weight: member.weight,
+        position: index,
+      })));
+
+    if (error) {
+      console.error('Erro ao atualizar destinatários da regra:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async reorderRules(orderedRules: AssignmentRule[]): Promise<void> {
+    const { error } = await supabase
+      .from('lead_assignment_rules')
+      .upsert(orderedRules.map((rule, index) => ({
+        id: rule.id,
+        account_id: rule.account_id,
+        name: rule.name,
+        strategy: rule.strategy,
+        position: index,
+      })));
+
+    if (error) {
+      console.error('Erro ao reordenar regras de distribuição:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async deleteRule(ruleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_assignment_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error('Erro ao remover regra de distribuição:', error);
+      throw new Error(error.message);
+    }
+  }
+}
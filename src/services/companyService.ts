@@ -0,0 +1,148 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Company, Lead, LeadFeedback, LeadHistoryEntry } from '@/types/crm';
+
+export type CompanyInput = Pick<Company, 'name' | 'domain' | 'cnpj' | 'segment' | 'size' | 'address'>;
+
+export type CompanyWithContacts = Company & { contactCount: number };
+
+const toErrorMessage = (error: { code?: string; message: string }) =>
+  error.code === '23505' ? 'Já existe uma empresa com esse domínio ou CNPJ' : error.message;
+
+// Empresas agrupam os contatos (leads) de um mesmo cliente; o vínculo pelo domínio do e-mail é feito no banco
+export class CompanyService {
+  static async getCompanies(): Promise<CompanyWithContacts[]> {
+    try {
+      const { data, error } = await supabase
+        .from('companies')
+        .select('*, leads(count)')
+        .is('leads.deleted_at', null)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar empresas:', error);
+        return [];
+      }
+
+      return (data || []).map(({ leads, ...company }) => ({
+        ...(company as Company),
+        contactCount: leads?.[0]?.count ?? 0,
+      }));
+    } catch (error) {
+      console.error('Erro no CompanyService.getCompanies:', error);
+      return [];
+    }
+  }
+
+  static async getCompany(companyId: string): Promise<Company | null> {
+    try {
+      const { data, error } = await supabase
+        .from('companies')
+        .select('*')
+        .eq('id', companyId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Erro ao buscar empresa:', error);
+        return null;
+      }
+
+      return data as Company | null;
+    } catch (error) {
+      console.error('Erro no CompanyService.getCompany:', error);
+      return null;
+    }
+  }
+
+  static async createCompany(accountId: string, company: CompanyInput): Promise<Company> {
+    const { data, error } = await supabase
+      .from('companies')
+      .insert({ ...company, account_id: accountId })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Erro ao criar empresa:', error);
+      throw new Error(toErrorMessage(error));
+    }
+
+    return data as Company;
+  }
+
+  static async updateCompany(companyId: string, company: Partial<CompanyInput>): Promise<void> {
+    const { error } = await supabase
+      .from('companies')
+      .update(company)
+      .eq('id', companyId);
+
+    if (error) {
+      console.error('Erro ao atualizar empresa:', error);
+      throw new Error(toErrorMessage(error));
+    }
+  }
+
+  // Leads e vendas continuam existindo, só perdem o vínculo
+  static async deleteCompany(companyId: string): Promise<void> {
+    const { error } = await supabase
+      .from('companies')
+      .delete()
+      .eq('id', companyId);
+
+    if (error) {
+      console.error('Erro ao remover empresa:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  // Contatos fora da lixeira que o usuário pode ver
+  static async getContacts(companyId: string): Promise<Lead[]> {
+    try {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .eq('company_id', companyId)
+        .is('deleted_at', null)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar contatos da empresa:', error);
+        return [];
+      }
+
+      return (data || []) as Lead[];
+    } catch (error) {
+      console.error('Erro no CompanyService.getContacts:', error);
+      return [];
+    }
+  }
+
+  // Atividades e histórico de todos os contatos, para a linha do tempo combinada
+  static async getActivity(leadIds: string[]): Promise<{ feedback: LeadFeedback[]; history: LeadHistoryEntry[] }> {
+    if (leadIds.length === 0) return { feedback: [], history: [] };
+
+    try {
+      const [feedbackResult, historyResult] = await Promise.all([
+        supabase
+          .from('lead_feedback')
+          .select('*, profiles:user_id (name)')
+          .in('lead_id', leadIds)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('lead_history')
+          .select('*, profiles:changed_by (name)')
+          .in('lead_id', leadIds)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (feedbackResult.error) console.error('Erro ao buscar atividades da empresa:', feedbackResult.error);
+      if (historyResult.error) console.error('Erro ao buscar histórico da empresa:', historyResult.error);
+
+      return {
+        feedback: (feedbackResult.data || []) as LeadFeedback[],
+        history: (historyResult.data || []) as unknown as LeadHistoryEntry[],
+      };
+    } catch (error) {
+      console.error('Erro no CompanyService.getActivity:', error);
+      return { feedback: [], history: [] };
+    }
+  }
+}
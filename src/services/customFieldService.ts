@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CustomFieldDefinition, CustomFieldType } from '@/types/crm';
+
+export interface CustomFieldInput {
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  is_required: boolean;
+}
+
+// Os valores ficam em leads.custom_fields e são normalizados por trigger conforme estas definições
+export class CustomFieldService {
+  static async getFields(): Promise<CustomFieldDefinition[]> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar campos personalizados:', error);
+        return [];
+      }
+
+      return (data || []) as CustomFieldDefinition[];
+    } catch (error) {
+      console.error('Erro no CustomFieldService.getFields:', error);
+      return [];
+    }
+  }
+
+  static async createField(accountId: string, key: string, field: CustomFieldInput, position: number): Promise<void> {
+    const { error } = await supabase
+      .from('custom_field_definitions')
+      .insert({ ...field, key, account_id: accountId, position });
+
+    if (error) {
+      console.error('Erro ao criar campo personalizado:', error);
+      throw new Error(error.code === '23505' ? 'Já existe um campo com esse nome' : error.message);
+    }
+  }
+
+  // A chave não muda depois de criada, para não perder os valores já gravados nos leads
+  static async updateField(fieldId: string, field: Partial<CustomFieldInput>): Promise<void> {
+    const { error } = await supabase
+      .from('custom_field_definitions')
+      .update(field)
+      .eq('id', fieldId);
+
+    if (error) {
+      console.error('Erro ao atualizar campo personalizado:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async deleteField(fieldId: string): Promise<void> {
+    const { error } = await supabase
+      .from('custom_field_definitions')
+      .delete()
+      .eq('id', fieldId);
+
+    if (error) {
+      console.error('Erro ao remover campo personalizado:', error);
+      throw new Error(error.message);
+    }
+  }
+}
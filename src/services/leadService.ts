@@ -0,0 +1,416 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, TablesInsert } from '@/integrations/supabase/types';
+import {
+  BulkLeadChanges,
+  BulkLeadFailure,
+  DuplicateMatch,
+  DuplicatePair,
+  KanbanGrouping,
+  Lead,
+  LeadColumnTotals,
+  LeadFilterOptions,
+  LeadFilters,
+  LeadLaneTotals,
+  LeadMergeFields,
+  LeadPageCursor,
+  LeadSort
+} from '@/types/crm';
+import { getSortCursor, toServerFilters } from '@/lib/leadFilters';
+
+export interface DuplicateCandidate {
+  name: string;
+  email: string;
+  phone: string;
+  company?: string;
+}
+
+export interface BatchInsertResult {
+  inserted: number;
+  failures: { index: number; error: string }[];
+}
+
+export interface LeadPageQuery {
+  pipelineId: string;
+  status?: string | null; // nulo = todas as etapas do pipeline
+  filters: LeadFilters;
+  sort: LeadSort;
+  cursor?: LeadPageCursor | null;
+  limit?: number;
+}
+
+const INSERT_BATCH_SIZE = 100;
+export const LEAD_PAGE_SIZE = 50;
+const FULL_FETCH_PAGE_SIZE = 1000;
+
+export class LeadService {
+  static async getLeadsByIds(leadIds: string[]): Promise<Lead[]> {
+    if (leadIds.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .in('id', leadIds);
+
+      if (error) {
+        console.error('Erro ao buscar leads:', error);
+        return [];
+      }
+
+      return (data || []) as Lead[];
+    } catch (error) {
+      console.error('Erro no LeadService.getLeadsByIds:', error);
+      return [];
+    }
+  }
+
+  // Possíveis duplicados de um lead antes de inserir (ou de um lead existente, via excludeLeadId)
+  static async findDuplicates(
+    accountId: string,
+    candidate: DuplicateCandidate,
+    excludeLeadId?: string
+  ): Promise<DuplicateMatch[]> {
+    try {
+      const { data, error } = await supabase.rpc('find_duplicate_leads', {
+        _account_id: accountId,
+        _email: candidate.email,
+        _phone: candidate.phone,
+        _name: candidate.name,
+        _company: candidate.company || null,
+        _exclude_lead_id: excludeLeadId || null,
+      });
+
+      if (error) {
+        console.error('Erro ao buscar duplicados:', error);
+        return [];
+      }
+
+      return (data || []) as DuplicateMatch[];
+    } catch (error) {
+      console.error('Erro no LeadService.findDuplicates:', error);
+      return [];
+    }
+  }
+
+  static async findDuplicatePairs(): Promise<DuplicatePair[]> {
+    try {
+      const { data, error } = await supabase.rpc('find_duplicate_lead_pairs');
+
+      if (error) {
+        console.error('Erro ao varrer duplicados:', error);
+        return [];
+      }
+
+      return (data || []) as DuplicatePair[];
+    } catch (error) {
+      console.error('Erro no LeadService.findDuplicatePairs:', error);
+      return [];
+    }
+  }
+
+  // Mantém survivorId com os valores escolhidos; feedbacks e histórico do duplicado são movidos
+  static async mergeLeads(survivorId: string, duplicateId: string, fields: LeadMergeFields): Promise<void> {
+    const { error } = await supabase.rpc('merge_leads', {
+      _survivor_id: survivorId,
+      _duplicate_id: duplicateId,
+      _fields: fields,
+    });
+
+    if (error) {
+      console.error('Erro ao mesclar leads:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async updateLead(leadId: string, changes: Partial<Lead>): Promise<void> {
+    const { error } = await supabase
+      .from('leads')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', leadId);
+
+    if (error) {
+      console.error('Erro ao atualizar lead:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  // Exclusão manda para a lixeira; o lead volta com restoreLeads
+  static async deleteLead(leadId: string): Promise<void> {
+    const [failure] = await LeadService.bulkDeleteLeads([leadId]);
+
+    if (failure) {
+      throw new Error(failure.error);
+    }
+  }
+
+  // Mesma alteração em vários leads; devolve só os que falharam (o restante é gravado)
+  static async bulkUpdateLeads(
+    leadIds: string[],
+    changes: BulkLeadChanges,
+    tags: { add?: string[]; remove?: string[] } = {}
+  ): Promise<BulkLeadFailure[]> {
+    const { data, error } = await supabase.rpc('bulk_update_leads', {
+      _lead_ids: leadIds,
+      _changes: changes as unknown as Json,
+      _add_tags: tags.add || [],
+      _remove_tags: tags.remove || [],
+    });
+
+    if (error) {
+      console.error('Erro ao atualizar leads em lote:', error);
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  static async bulkDeleteLeads(leadIds: string[]): Promise<BulkLeadFailure[]> {
+    const { data, error } = await supabase.rpc('bulk_delete_leads', { _lead_ids: leadIds });
+
+    if (error) {
+      console.error('Erro ao excluir leads em lote:', error);
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  // Início e fim de uma ação em lote, avisados aos outros quadros da conta pelo realtime.
+  // Falhar aqui não impede a ação: os quadros só recebem os eventos de cada lead
+  static async startBulkJob(): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('start_lead_bulk_job');
+
+      if (error) {
+        console.error('Erro ao iniciar lote:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Erro no LeadService.startBulkJob:', error);
+      return null;
+    }
+  }
+
+  static async finishBulkJob(jobId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('finish_lead_bulk_job', { _job_id: jobId });
+      if (error) console.error('Erro ao finalizar lote:', error);
+    } catch (error) {
+      console.error('Erro no LeadService.finishBulkJob:', error);
+    }
+  }
+
+  // Lixeira da conta (só o master recebe linhas), mais recentes primeiro
+  static async getDeletedLeads(): Promise<Lead[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_deleted_leads');
+
+      if (error) {
+        console.error('Erro ao buscar leads excluídos:', error);
+        return [];
+      }
+
+      return (data || []) as Lead[];
+    } catch (error) {
+      console.error('Erro no LeadService.getDeletedLeads:', error);
+      return [];
+    }
+  }
+
+  // Tira leads da lixeira; devolve só os que não puderam ser restaurados
+  static async restoreLeads(leadIds: string[]): Promise<BulkLeadFailure[]> {
+    const { data, error } = await supabase.rpc('restore_leads', { _lead_ids: leadIds });
+
+    if (error) {
+      console.error('Erro ao restaurar leads:', error);
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  // Devolve quantos leads foram removidos de vez
+  static async purgeLeads(leadIds: string[]): Promise<number> {
+    const { data, error } = await supabase.rpc('purge_leads', { _lead_ids: leadIds });
+
+    if (error) {
+      console.error('Erro ao remover leads da lixeira:', error);
+      throw new Error(error.message);
+    }
+
+    return data || 0;
+  }
+
+  // Insere em lotes; se um lote falhar, tenta linha a linha para isolar as rejeitadas
+  static async insertLeadsInBatches(
+    leads: TablesInsert<'leads'>[],
+    onProgress?: (processed: number) => void
+  ): Promise<BatchInsertResult> {
+    const result: BatchInsertResult = { inserted: 0, failures: [] };
+
+    for (let start = 0; start < leads.length; start += INSERT_BATCH_SIZE) {
+      const batch = leads.slice(start, start + INSERT_BATCH_SIZE);
+      const { error } = await supabase.from('leads').insert(batch);
+
+      if (!error) {
+        result.inserted += batch.length;
+      } else {
+        console.error('Erro ao inserir lote de leads:', error);
+        for (let offset = 0; offset < batch.length; offset++) {
+          const { error: rowError } = await supabase.from('leads').insert(batch[offset]);
+          if (rowError) {
+            result.failures.push({ index: start + offset, error: rowError.message });
+          } else {
+            result.inserted += 1;
+          }
+        }
+      }
+
+      onProgress?.(Math.min(start + INSERT_BATCH_SIZE, leads.length));
+    }
+
+    return result;
+  }
+
+  // Página de leads ordenada e filtrada no servidor; use o último lead como cursor da próxima
+  static async getLeadsPage(query: LeadPageQuery): Promise<Lead[]> {
+    const { data, error } = await supabase.rpc('get_leads_page', {
+      _pipeline_id: query.pipelineId,
+      _status: query.status || null,
+      _filters: toServerFilters(query.filters) as unknown as Json,
+      _sort_field: query.sort.field,
+      _sort_direction: query.sort.direction,
+      _cursor: (query.cursor || null) as unknown as Json,
+      _limit: query.limit || LEAD_PAGE_SIZE,
+    });
+
+    if (error) {
+      console.error('Erro ao buscar página de leads:', error);
+      throw new Error(error.message);
+    }
+
+    return (data || []) as Lead[];
+  }
+
+  // Percorre todas as páginas (ex.: exportação dos leads filtrados)
+  static async getAllLeads(query: Omit<LeadPageQuery, 'cursor' | 'limit'>): Promise<Lead[]> {
+    const leads: Lead[] = [];
+    let cursor: LeadPageCursor | null = null;
+
+    for (;;) {
+      const page = await LeadService.getLeadsPage({ ...query, cursor, limit: FULL_FETCH_PAGE_SIZE });
+      leads.push(...page);
+      if (page.length < FULL_FETCH_PAGE_SIZE) return leads;
+      cursor = getSortCursor(page[page.length - 1], query.sort);
+    }
+  }
+
+  // Quantidade e valor por etapa (chave = status), calculados no servidor com os filtros atuais
+  static async getColumnTotals(pipelineId: string, filters: LeadFilters): Promise<Record<string, LeadColumnTotals>> {
+    try {
+      const { data, error } = await supabase.rpc('get_pipeline_column_totals', {
+        _pipeline_id: pipelineId,
+        _filters: toServerFilters(filters) as unknown as Json,
+      });
+
+      if (error) {
+        console.error('Erro ao buscar totais do pipeline:', error);
+        return {};
+      }
+
+      return (data || []).reduce((acc, row) => {
+        acc[row.status] = { count: Number(row.lead_count), value: Number(row.total_value) };
+        return acc;
+      }, {} as Record<string, LeadColumnTotals>);
+    } catch (error) {
+      console.error('Erro no LeadService.getColumnTotals:', error);
+      return {};
+    }
+  }
+
+  // Totais por raia e etapa do kanban agrupado (mesmos filtros da listagem)
+  static async getLaneTotals(pipelineId: string, grouping: KanbanGrouping, filters: LeadFilters): Promise<LeadLaneTotals> {
+    try {
+      const { data, error } = await supabase.rpc('get_pipeline_lane_totals', {
+        _pipeline_id: pipelineId,
+        _group_by: grouping,
+        _filters: toServerFilters(filters) as unknown as Json,
+      });
+
+      if (error) {
+        console.error('Erro ao buscar totais das raias:', error);
+        return {};
+      }
+
+      return (data || []).reduce((acc, row) => {
+        acc[row.lane] = acc[row.lane] || {};
+        acc[row.lane][row.status] = { count: Number(row.lead_count), value: Number(row.total_value) };
+        return acc;
+      }, {} as LeadLaneTotals);
+    } catch (error) {
+      console.error('Erro no LeadService.getLaneTotals:', error);
+      return {};
+    }
+  }
+
+  static async getFilterOptions(pipelineId: string): Promise<LeadFilterOptions> {
+    try {
+      const { data, error } = await supabase.rpc('get_lead_filter_options', { _pipeline_id: pipelineId });
+
+      if (error) {
+        console.error('Erro ao buscar opções de filtro:', error);
+        return { sources: [], tags: [] };
+      }
+
+      return data as unknown as LeadFilterOptions;
+    } catch (error) {
+      console.error('Erro no LeadService.getFilterOptions:', error);
+      return { sources: [], tags: [] };
+    }
+  }
+
+  // Só e-mail e telefone de todos os leads visíveis, para checar duplicados em importações
+  static async getLeadContacts(): Promise<Pick<Lead, 'email' | 'phone'>[]> {
+    const contacts: Pick<Lead, 'email' | 'phone'>[] = [];
+
+    for (let from = 0; ; from += FULL_FETCH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('email, phone')
+        .order('id')
+        .range(from, from + FULL_FETCH_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Erro ao buscar contatos dos leads:', error);
+        throw new Error(error.message);
+      }
+
+      contacts.push(...(data || []));
+      if (!data || data.length < FULL_FETCH_PAGE_SIZE) return contacts;
+    }
+  }
+
+  // Todos os leads da conta, de todos os pipelines e sem filtros (ex.: exportação da conta inteira)
+  static async getAccountLeads(): Promise<Lead[]> {
+    const leads: Lead[] = [];
+
+    for (let from = 0; ; from += FULL_FETCH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(from, from + FULL_FETCH_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Erro ao buscar leads da conta:', error);
+        throw new Error(error.message);
+      }
+
+      leads.push(...((data || []) as Lead[]));
+      if (!data || data.length < FULL_FETCH_PAGE_SIZE) return leads;
+    }
+  }
+}
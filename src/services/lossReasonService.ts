@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LossReason, LossReasonKind } from '@/types/crm';
+
+// Motivos de perda e concorrentes; o lead guarda o nome escolhido, não o id
+export class LossReasonService {
+  static async getLossReasons(): Promise<LossReason[]> {
+    try {
+      const { data, error } = await supabase
+        .from('loss_reasons')
+        .select('*')
+        .order('position', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar motivos de perda:', error);
+        return [];
+      }
+
+      return (data || []) as LossReason[];
+    } catch (error) {
+      console.error('Erro no LossReasonService.getLossReasons:', error);
+      return [];
+    }
+  }
+
+  static async createLossReason(accountId: string, kind: LossReasonKind, name: string, position: number): Promise<void> {
+    const { error } = await supabase
+      .from('loss_reasons')
+      .insert({ account_id: accountId, kind, name, position });
+
+    if (error) {
+      console.error('Erro ao criar motivo de perda:', error);
+      throw new Error(error.code === '23505' ? 'Esse item já está cadastrado' : error.message);
+    }
+  }
+
+  static async deleteLossReason(reasonId: string): Promise<void> {
+    const { error } = await supabase
+      .from('loss_reasons')
+      .delete()
+      .eq('id', reasonId);
+
+    if (error) {
+      console.error('Erro ao remover motivo de perda:', error);
+      throw new Error(error.message);
+    }
+  }
+}
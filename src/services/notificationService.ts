@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AppNotification } from '@/types/crm';
+
+export const NOTIFICATIONS_LIMIT = 30;
+
+// Notificações são criadas pelo banco (triggers e job de tarefas vencidas); o cliente só lê e marca como lidas
+export class NotificationService {
+  static async getNotifications(limit: number = NOTIFICATIONS_LIMIT): Promise<AppNotification[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Erro ao buscar notificações:', error);
+        return [];
+      }
+
+      return (data || []) as AppNotification[];
+    } catch (error) {
+      console.error('Erro no NotificationService.getNotifications:', error);
+      return [];
+    }
+  }
+
+  static async getUnreadCount(): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .is('read_at', null);
+
+      if (error) {
+        console.error('Erro ao contar notificações:', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      console.error('Erro no NotificationService.getUnreadCount:', error);
+      return 0;
+    }
+  }
+
+  static async markAsRead(notificationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Erro ao marcar notificação como lida:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async markAllAsRead(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Erro ao marcar notificações como lidas:', error);
+      throw new Error(error.message);
+    }
+  }
+}
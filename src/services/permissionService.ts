@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MemberPermissions } from '@/types/auth';
+import { pickPermissions } from '@/lib/permissions';
+
+export type MemberPermissionsRow = MemberPermissions & { user_id: string };
+
+export class PermissionService {
+  // O membro vê só a própria linha; o master vê as da equipe
+  static async getMemberPermissions(): Promise<MemberPermissionsRow[]> {
+    try {
+      const { data, error } = await supabase
+        .from('member_permissions')
+        .select('*');
+
+      if (error) {
+        console.error('Erro ao buscar permissões:', error);
+        return [];
+      }
+
+      return (data || []).map(row => ({ ...pickPermissions(row), user_id: row.user_id }));
+    } catch (error) {
+      console.error('Erro no PermissionService.getMemberPermissions:', error);
+      return [];
+    }
+  }
+
+  static async saveMemberPermissions(accountId: string, userId: string, permissions: MemberPermissions): Promise<void> {
+    const { error } = await supabase
+      .from('member_permissions')
+      .upsert({ account_id: accountId, user_id: userId, ...permissions }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Erro ao salvar permissões:', error);
+      throw new Error(error.message);
+    }
+  }
+}
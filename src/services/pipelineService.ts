@@ -0,0 +1,192 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Pipeline, PipelineStage, StageKind, StageTimeStat } from '@/types/crm';
+
+export interface StageInput {
+  name: string;
+  color: string;
+  kind: StageKind;
+  required_fields?: string[];
+  checklist?: string[];
+  rotting_days?: number | null;
+}
+
+export class PipelineService {
+  static async getPipelines(): Promise<Pipeline[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pipelines')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar pipelines:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Erro no PipelineService.getPipelines:', error);
+      return [];
+    }
+  }
+
+  // Cria o pipeline já com as etapas padrão
+  static async createPipeline(name: string): Promise<string> {
+    const { data, error } = await supabase.rpc('create_pipeline', { _name: name });
+
+    if (error) {
+      console.error('Erro ao criar pipeline:', error);
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async renamePipeline(pipelineId: string, name: string): Promise<void> {
+    const { error } = await supabase
+      .from('pipelines')
+      .update({ name })
+      .eq('id', pipelineId);
+
+    if (error) {
+      console.error('Erro ao renomear pipeline:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  // Remove o pipeline movendo seus leads para targetPipelineId; retorna quantos leads foram movidos
+  static async deletePipeline(pipelineId: string, targetPipelineId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('delete_pipeline', {
+      _pipeline_id: pipelineId,
+      _target_pipeline_id: targetPipelineId,
+    });
+
+    if (error) {
+      console.error('Erro ao remover pipeline:', error);
+      throw new Error(error.message);
+    }
+
+    return data ?? 0;
+  }
+
+  static async getStages(): Promise<PipelineStage[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pipeline_stages')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar etapas do pipeline:', error);
+        return [];
+      }
+
+      return (data || []) as PipelineStage[];
+    } catch (error) {
+      console.error('Erro no PipelineService.getStages:', error);
+      return [];
+    }
+  }
+
+  static async createStage(accountId: string, pipelineId: string, stage: StageInput, position: number): Promise<PipelineStage> {
+    const { data, error } = await supabase
+      .from('pipeline_stages')
+      .insert({
+        account_id: accountId,
+        pipeline_id: pipelineId,
+        key: PipelineService.generateStageKey(stage.name),
+        name: stage.name,
+        color: stage.color,
+        kind: stage.kind,
+        position,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Erro ao criar etapa:', error);
+      throw new Error(error.message);
+    }
+
+    return data as PipelineStage;
+  }
+
+  static async updateStage(stageId: string, changes: Partial<StageInput>): Promise<void> {
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .update(changes)
+      .eq('id', stageId);
+
+    if (error) {
+      console.error('Erro ao atualizar etapa:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async reorderStages(orderedStages: PipelineStage[]): Promise<void> {
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .upsert(orderedStages.map((stage, index) => ({
+        id: stage.id,
+        account_id: stage.account_id,
+        pipeline_id: stage.pipeline_id,
+        key: stage.key,
+        name: stage.name,
+        position: index,
+      })));
+
+    if (error) {
+      console.error('Erro ao reordenar etapas:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  // Remove a etapa movendo seus leads para targetKey; retorna quantos leads foram movidos
+  static async deleteStage(stageId: string, targetKey: string): Promise<number> {
+    const { data, error } = await supabase.rpc('delete_pipeline_stage', {
+      _stage_id: stageId,
+      _target_key: targetKey,
+    });
+
+    if (error) {
+      console.error('Erro ao remover etapa:', error);
+      throw new Error(error.message);
+    }
+
+    return data ?? 0;
+  }
+
+  // Tempo médio nas etapas por responsável; sem pipeline, considera todos os da conta
+  static async getStageTimeStats(pipelineId?: string): Promise<StageTimeStat[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_stage_time_stats', pipelineId ? { _pipeline_id: pipelineId } : {});
+
+      if (error) {
+        console.error('Erro ao buscar tempo nas etapas:', error);
+        return [];
+      }
+
+      return (data || []).map(row => ({
+        ...row,
+        completed_count: Number(row.completed_count),
+        completed_avg_seconds: Number(row.completed_avg_seconds),
+        open_count: Number(row.open_count),
+        open_avg_seconds: Number(row.open_avg_seconds),
+      }));
+    } catch (error) {
+      console.error('Erro no PipelineService.getStageTimeStats:', error);
+      return [];
+    }
+  }
+
+  private static generateStageKey(name: string): string {
+    const slug = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 32);
+    return `${slug || 'etapa'}-${Date.now().toString(36)}`;
+  }
+}
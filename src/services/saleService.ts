@@ -0,0 +1,176 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Sale } from '@/types/crm';
+
+type SaleRow = Tables<'sales'> & {
+  leads?: { name: string } | null;
+};
+
+export type SaleInput = Omit<Sale, 'id' | 'leadName' | 'proof' | 'completedAt'> & {
+  completedAt?: string;
+};
+
+const toSale = (row: SaleRow): Sale => ({
+  id: row.id,
+  leadId: row.lead_id || undefined,
+  leadName: row.leads?.name,
+  companyId: row.company_id || undefined,
+  customerName: row.customer_name,
+  customerEmail: row.customer_email,
+  customerPhone: row.customer_phone,
+  product: row.product,
+  value: Number(row.value),
+  tags: row.tags || [],
+  appointmentDate: row.appointment_date || undefined,
+  completedAt: row.completed_at,
+  userId: row.user_id,
+  notes: row.notes,
+});
+
+const toRow = (accountId: string, sale: SaleInput) => ({
+  account_id: accountId,
+  user_id: sale.userId,
+  lead_id: sale.leadId || null,
+  customer_name: sale.customerName,
+  customer_email: sale.customerEmail || '',
+  customer_phone: sale.customerPhone || '',
+  product: sale.product,
+  value: sale.value,
+  tags: sale.tags || [],
+  appointment_date: sale.appointmentDate || null,
+  notes: sale.notes || '',
+  // Sem empresa informada, o banco vincula pelo lead ou pelo e-mail do cliente
+  ...(sale.companyId ? { company_id: sale.companyId } : {}),
+  ...(sale.completedAt ? { completed_at: sale.completedAt } : {}),
+});
+
+// O banco usa snake_case; a interface Sale continua em camelCase para as telas existentes
+export class SaleService {
+  static async getSales(): Promise<Sale[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sales')
+        .select('*, leads(name)')
+        .order('completed_at', { ascending: false });
+
+      if (error) {
+        console.error('Erro ao buscar vendas:', error);
+        return [];
+      }
+
+      return ((data || []) as SaleRow[]).map(toSale);
+    } catch (error) {
+      console.error('Erro no SaleService.getSales:', error);
+      return [];
+    }
+  }
+
+  static async getLeadSales(leadId: string): Promise<Sale[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sales')
+        .select('*, leads(name)')
+        .eq('lead_id', leadId)
+        .order('completed_at', { ascending: false });
+
+      if (error) {
+        console.error('Erro ao buscar vendas do lead:', error);
+        return [];
+      }
+
+      return ((data || []) as SaleRow[]).map(toSale);
+    } catch (error) {
+      console.error('Erro no SaleService.getLeadSales:', error);
+      return [];
+    }
+  }
+
+  static async getCompanySales(companyId: string): Promise<Sale[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sales')
+        .select('*, leads(name)')
+        .eq('company_id', companyId)
+        .order('completed_at', { ascending: false });
+
+      if (error) {
+        console.error('Erro ao buscar vendas da empresa:', error);
+        return [];
+      }
+
+      return ((data || []) as SaleRow[]).map(toSale);
+    } catch (error) {
+      console.error('Erro no SaleService.getCompanySales:', error);
+      return [];
+    }
+  }
+
+  // Atendimentos em [from, to) (ISO); sem userId traz todos os visíveis
+  static async getAppointmentsInRange(from: string, to: string, userId?: string): Promise<Sale[]> {
+    try {
+      let query = supabase
+        .from('sales')
+        .select('*, leads(name)')
+        .gte('appointment_date', from)
+        .lt('appointment_date', to)
+        .order('appointment_date', { ascending: true });
+
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Erro ao buscar atendimentos do período:', error);
+        return [];
+      }
+
+      return ((data || []) as SaleRow[]).map(toSale);
+    } catch (error) {
+      console.error('Erro no SaleService.getAppointmentsInRange:', error);
+      return [];
+    }
+  }
+
+  static async createSale(accountId: string, sale: SaleInput): Promise<Sale> {
+    const { data, error } = await supabase
+      .from('sales')
+      .insert(toRow(accountId, sale))
+      .select('*, leads(name)')
+      .single();
+
+    if (error) {
+      console.error('Erro ao registrar venda:', error);
+      throw new Error(error.message);
+    }
+
+    return toSale(data as SaleRow);
+  }
+
+  // Importa de uma vez as vendas que ainda estavam só no localStorage
+  static async importSales(accountId: string, sales: SaleInput[]): Promise<void> {
+    if (sales.length === 0) return;
+
+    const { error } = await supabase
+      .from('sales')
+      .insert(sales.map(sale => toRow(accountId, sale)));
+
+    if (error) {
+      console.error('Erro ao importar vendas:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async updateAppointment(saleId: string, appointmentDate: string): Promise<void> {
+    const { error } = await supabase
+      .from('sales')
+      .update({ appointment_date: appointmentDate })
+      .eq('id', saleId);
+
+    if (error) {
+      console.error('Erro ao reagendar atendimento:', error);
+      throw new Error(error.message);
+    }
+  }
+}
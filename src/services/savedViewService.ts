@@ -0,0 +1,81 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { LeadFilters, LeadSort, SavedView } from '@/types/crm';
+
+export interface SavedViewInput {
+  name: string;
+  filters: LeadFilters;
+  sort: LeadSort;
+  is_shared: boolean;
+}
+
+export class SavedViewService {
+  static async getViews(): Promise<SavedView[]> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_views')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar visões salvas:', error);
+        return [];
+      }
+
+      return (data || []) as unknown as SavedView[];
+    } catch (error) {
+      console.error('Erro no SavedViewService.getViews:', error);
+      return [];
+    }
+  }
+
+  static async createView(accountId: string, userId: string, view: SavedViewInput): Promise<SavedView> {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .insert({
+        account_id: accountId,
+        user_id: userId,
+        name: view.name,
+        filters: view.filters as unknown as Json,
+        sort: view.sort as unknown as Json,
+        is_shared: view.is_shared,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Erro ao salvar visão:', error);
+      throw new Error(error.message);
+    }
+
+    return data as unknown as SavedView;
+  }
+
+  static async updateView(viewId: string, view: Partial<SavedViewInput>): Promise<void> {
+    const { error } = await supabase
+      .from('saved_views')
+      .update({
+        ...view,
+        filters: view.filters as unknown as Json | undefined,
+        sort: view.sort as unknown as Json | undefined,
+      })
+      .eq('id', viewId);
+
+    if (error) {
+      console.error('Erro ao atualizar visão:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async deleteView(viewId: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', viewId);
+
+    if (error) {
+      console.error('Erro ao remover visão:', error);
+      throw new Error(error.message);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ScoringRule, ScoringRuleField, ScoringRuleOperator } from '@/types/crm';
+
+export interface ScoringRuleInput {
+  field: ScoringRuleField;
+  operator: ScoringRuleOperator;
+  value: string | null;
+  points: number;
+  is_active?: boolean;
+}
+
+// Alterar regras recalcula a pontuação dos leads da conta no banco (trigger)
+export class ScoringService {
+  static async getRules(): Promise<ScoringRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_scoring_rules')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar regras de pontuação:', error);
+        return [];
+      }
+
+      return (data || []) as ScoringRule[];
+    } catch (error) {
+      console.error('Erro no ScoringService.getRules:', error);
+      return [];
+    }
+  }
+
+  static async createRule(accountId: string, rule: ScoringRuleInput, position: number): Promise<void> {
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .insert({ ...rule, account_id: accountId, position });
+
+    if (error) {
+      console.error('Erro ao criar regra de pontuação:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async updateRule(ruleId: string, rule: Partial<ScoringRuleInput>): Promise<void> {
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .update(rule)
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error('Erro ao atualizar regra de pontuação:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async deleteRule(ruleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error('Erro ao remover regra de pontuação:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  // Regras de "último contato" envelhecem com o tempo; retorna quantos leads mudaram
+  static async recalculateScores(accountId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('recalculate_lead_scores', { _account_id: accountId });
+
+    if (error) {
+      console.error('Erro ao recalcular pontuação:', error);
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+}
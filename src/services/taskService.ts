@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LeadTask, TaskType } from '@/types/crm';
+
+export interface LeadTaskInput {
+  lead_id: string;
+  title: string;
+  type: TaskType;
+  due_at: string;
+  assigned_to: string;
+}
+
+// A próxima tarefa em aberto de cada lead é espelhada em leads.next_task_* por trigger
+export class TaskService {
+  static async getLeadTasks(leadId: string): Promise<LeadTask[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_tasks')
+        .select('*')
+        .eq('lead_id', leadId)
+        .order('completed_at', { ascending: true, nullsFirst: true })
+        .order('due_at', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar tarefas do lead:', error);
+        return [];
+      }
+
+      return (data || []) as LeadTask[];
+    } catch (error) {
+      console.error('Erro no TaskService.getLeadTasks:', error);
+      return [];
+    }
+  }
+
+  // Tarefas em aberto do usuário, com o nome do lead para exibição
+  static async getOpenTasksForUser(userId: string): Promise<LeadTask[]> {
+    try {
+      const { data, error } = await supabase
+        .from('lead_tasks')
+        .select('*, leads(name)')
+        .eq('assigned_to', userId)
+        .is('completed_at', null)
+        .order('due_at', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar tarefas do usuário:', error);
+        return [];
+      }
+
+      return (data || []) as LeadTask[];
+    } catch (error) {
+      console.error('Erro no TaskService.getOpenTasksForUser:', error);
+      return [];
+    }
+  }
+
+  // Tarefas (abertas e concluídas) com vencimento em [from, to); sem assignedTo traz todas as visíveis
+  static async getTasksInRange(from: string, to: string, assignedTo?: string): Promise<LeadTask[]> {
+    try {
+      let query = supabase
+        .from('lead_tasks')
+        .select('*, leads(name)')
+        .gte('due_at', from)
+        .lt('due_at', to)
+        .order('due_at', { ascending: true });
+
+      if (assignedTo) {
+        query = query.eq('assigned_to', assignedTo);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Erro ao buscar tarefas do período:', error);
+        return [];
+      }
+
+      return (data || []) as LeadTask[];
+    } catch (error) {
+      console.error('Erro no TaskService.getTasksInRange:', error);
+      return [];
+    }
+  }
+
+  static async createTask(accountId: string, userId: string, task: LeadTaskInput): Promise<void> {
+    const { error } = await supabase
+      .from('lead_tasks')
+      .insert({ ...task, account_id: accountId, created_by: userId });
+
+    if (error) {
+      console.error('Erro ao criar tarefa:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async setCompleted(taskId: string, completed: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('lead_tasks')
+      .update({ completed_at: completed ? new Date().toISOString() : null })
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('Erro ao atualizar tarefa:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async rescheduleTask(taskId: string, dueAt: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_tasks')
+      .update({ due_at: dueAt })
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('Erro ao reagendar tarefa:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async deleteTask(taskId: string): Promise<void> {
+    const { error } = await supabase
+      .from('lead_tasks')
+      .delete()
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('Erro ao remover tarefa:', error);
+      throw new Error(error.message);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
-import { UserProfile, CreateUserData } from '@/types/auth';
+import { UserProfile, CreateUserData, MemberOwnership } from '@/types/auth';
 
 export class UserService {
   static async createSubUser(masterUserId: string, userData: CreateUserData): Promise<UserProfile | null> {
@@ -68,6 +68,53 @@ export class UserService {
     }
   }
 
+  static async getMemberOwnership(memberId: string): Promise<MemberOwnership> {
+    try {
+      const { data, error } = await supabase.rpc('get_member_ownership', { _member_id: memberId });
+
+      if (error) {
+        console.error('Erro ao buscar dados do membro:', error);
+        return { leads: 0, tasks: 0, sales: 0 };
+      }
+
+      const [row] = data || [];
+      return {
+        leads: Number(row?.lead_count || 0),
+        tasks: Number(row?.task_count || 0),
+        sales: Number(row?.sale_count || 0),
+      };
+    } catch (error) {
+      console.error('Erro no UserService.getMemberOwnership:', error);
+      return { leads: 0, tasks: 0, sales: 0 };
+    }
+  }
+
+  // Inativos continuam entrando no CRM, mas a distribuição automática os ignora
+  static async setMemberActive(memberId: string, active: boolean): Promise<void> {
+    const { error } = await supabase.rpc('set_member_active', { _member_id: memberId, _active: active });
+
+    if (error) {
+      console.error('Erro ao alterar status do membro:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  // Transfere leads, tarefas e vendas e remove o perfil numa única transação.
+  // Sem destinatário, os leads são distribuídos em rodízio entre os demais membros
+  static async removeTeamMember(memberId: string, recipientId: string | null): Promise<number> {
+    const { data, error } = await supabase.rpc('remove_team_member', {
+      _member_id: memberId,
+      _recipient_id: recipientId ?? undefined,
+    });
+
+    if (error) {
+      console.error('Erro ao remover membro da equipe:', error);
+      throw new Error(error.message);
+    }
+
+    return data || 0;
+  }
+
   static async createMasterProfile(authUser: any): Promise<UserProfile | null> {
     try {
       const newProfile = {
@@ -5,6 +5,7 @@ export interface UserProfile {
   email: string;
   role: 'master' | 'user';
   master_account_id?: string;
+  is_active: boolean; // inativos não recebem leads da distribuição automática
   created_at: string;
   updated_at: string;
 }
@@ -25,4 +26,20 @@ export interface UserStats {
   totalUsers: number;
   activeUsers: number;
   administrators: number;
-}
\ No newline at end of file
+}
+
+// O que passa para outro membro quando este é removido da equipe
+export interface MemberOwnership {
+  leads: number; // dono ou responsável, incluindo os da lixeira
+  tasks: number; // tarefas em aberto
+  sales: number;
+}
+export type LeadPermission =
+  | 'move_own_leads'
+  | 'move_any_lead'
+  | 'edit_lead_values'
+  | 'delete_leads'
+  | 'reassign_leads';
+
+// Concedidas pelo master a cada membro; masters têm todas
+export type MemberPermissions = Record<LeadPermission, boolean>;
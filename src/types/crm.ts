@@ -4,8 +4,9 @@ export interface Lead {
   email: string;
   phone: string;
   company?: string;
+  company_id?: string | null; // empresa vinculada; preenchida no banco pelo domínio do e-mail
   value?: number;
-  status: 'new' | 'contacted' | 'qualified' | 'proposal' | 'won' | 'lost';
+  status: string; // PipelineStage.key
   tags: string[];
   assigned_to: string; // User ID
   created_at: string;
@@ -13,11 +14,275 @@ export interface Lead {
   notes: string;
   source: string;
   user_id: string;
+  pipeline_id: string;
+  score: number; // calculado no banco pelas regras de pontuação
+  // Próxima tarefa em aberto, mantida no banco a partir de lead_tasks
+  next_task_at?: string | null;
+  next_task_title?: string | null;
+  next_task_type?: TaskType | null;
+  custom_fields?: Record<string, CustomFieldValue>; // chave do campo -> valor
+  // Preenchidos ao entrar numa etapa de perda e limpos ao reabrir (validado no banco)
+  lost_reason?: string | null;
+  lost_competitor?: string | null;
+  lost_comment?: string | null;
+  lost_at?: string | null;
+  lost_from_status?: string | null;
+  reopen_justification?: string | null;
+  checklist_done?: string[]; // itens de checklist das etapas já concluídos
+  stage_entered_at?: string; // mantido no banco: reinicia a cada mudança de etapa ou pipeline
+  deleted_at?: string | null; // preenchido = lead na lixeira
+  deleted_by?: string | null;
+}
+
+export type CompanySize = '1-10' | '11-50' | '51-200' | '201-500' | '501-1000' | '1000+';
+
+export interface Company {
+  id: string;
+  account_id: string;
+  name: string;
+  domain: string | null; // domínio dos e-mails corporativos, usado no vínculo automático
+  cnpj: string | null; // só dígitos
+  segment: string | null;
+  size: CompanySize | null;
+  address: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LossReasonKind = 'reason' | 'competitor';
+
+export interface LossReason {
+  id: string;
+  account_id: string;
+  kind: LossReasonKind;
+  name: string;
+  position: number;
+  created_at: string;
+}
+
+export type LeadLoss = Pick<Lead, 'lost_reason' | 'lost_competitor' | 'lost_comment'>;
+
+// Campos que as ações em lote alteram igualmente em todos os leads selecionados
+export type BulkLeadChanges = Partial<Pick<Lead,
+  'assigned_to' | 'status' | 'source' | 'lost_reason' | 'lost_competitor' | 'lost_comment' | 'reopen_justification'
+>>;
+
+export interface BulkLeadFailure {
+  lead_id: string;
+  error: string;
+}
+
+export interface LeadFeedback {
+  id: string;
+  lead_id: string;
+  user_id: string | null; // null = autor removido da equipe
+  message: string;
+  created_at: string;
+  profiles?: {
+    name: string;
+  };
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'boolean';
+
+// Datas como YYYY-MM-DD; multi_select como lista de opções
+export type CustomFieldValue = string | number | boolean | string[];
+
+export interface CustomFieldDefinition {
+  id: string;
+  account_id: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  is_required: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Condição de filtro de um campo personalizado; o que vale depende do tipo do campo
+export interface CustomFieldFilter {
+  text?: string;
+  values?: string[];
+  min?: string;
+  max?: string;
+}
+
+export type TaskType = 'call' | 'meeting' | 'email';
+
+export interface LeadTask {
+  id: string;
+  lead_id: string;
+  account_id: string;
+  title: string;
+  type: TaskType;
+  due_at: string;
+  assigned_to: string;
+  completed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  leads?: {
+    name: string;
+  } | null;
+}
+
+export type NotificationType = 'lead_assigned' | 'lead_feedback' | 'webhook_lead' | 'task_due';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  lead_id: string | null;
+  task_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface LeadFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface LeadHistoryEntry {
+  id: string;
+  lead_id: string;
+  action: 'insert' | 'update' | 'merge' | 'delete' | 'restore' | 'transfer';
+  changes: Record<string, LeadFieldChange>;
+  changed_by: string | null; // null = sistema (ex.: webhook)
+  created_at: string;
+  profiles?: {
+    name: string;
+  } | null;
+}
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateMatch {
+  lead_id: string;
+  match_reason: DuplicateReason;
+  score: number;
+}
+
+export interface DuplicatePair extends DuplicateMatch {
+  duplicate_id: string;
+}
+
+// Valores finais do lead que sobrevive a uma mesclagem
+export type LeadMergeFields = Partial<Pick<Lead,
+  'name' | 'email' | 'phone' | 'company' | 'value' | 'source' |
+  'assigned_to' | 'pipeline_id' | 'status' | 'notes' | 'tags'
+>>;
+
+export type ScoringRuleField =
+  | 'source' | 'tag' | 'value' | 'company' | 'email_domain' | 'last_contact' | 'feedback_count';
+
+export type ScoringRuleOperator =
+  | 'equals' | 'contains' | 'gte' | 'lte' | 'present' | 'absent'
+  | 'corporate' | 'free' | 'within_days' | 'older_than_days';
+
+export interface ScoringRule {
+  id: string;
+  account_id: string;
+  field: ScoringRuleField;
+  operator: ScoringRuleOperator;
+  value: string | null;
+  points: number;
+  is_active: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AssignmentStrategy = 'user' | 'round_robin' | 'least_open' | 'weighted';
+
+// Mesmo formato dos filtros do quadro; sem condições, a regra vale para todo lead
+export type AssignmentConditions = Pick<LeadFilters, 'sources' | 'tags' | 'valueMin' | 'valueMax' | 'customFields'>;
+
+export interface AssignmentRuleMember {
+  user_id: string;
+  weight: number; // só conta na estratégia 'weighted'
+}
+
+export interface AssignmentRule {
+  id: string;
+  account_id: string;
+  name: string;
+  conditions: AssignmentConditions;
+  strategy: AssignmentStrategy;
+  is_active: boolean;
+  position: number;
+  members: AssignmentRuleMember[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Filtros do kanban/lista; campos ausentes não filtram. Datas em YYYY-MM-DD
+export interface LeadFilters {
+  search?: string;
+  statuses?: string[];
+  assignees?: string[];
+  sources?: string[];
+  tags?: string[];
+  company?: string;
+  valueMin?: number;
+  valueMax?: number;
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  customFields?: Record<string, CustomFieldFilter>;
+}
+
+export type LeadSortField = 'created_at' | 'updated_at' | 'value' | 'score' | 'name' | 'company';
+
+export interface LeadSort {
+  field: LeadSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Cursor da paginação no servidor: valor do campo de ordenação e id do último lead carregado
+export interface LeadPageCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface LeadColumnTotals {
+  count: number;
+  value: number;
+}
+
+// Agrupamento do kanban em raias; cf:<chave> agrupa por um campo personalizado de lista ou sim/não
+export type KanbanGrouping = 'none' | 'assignee' | 'source' | 'tag' | `cf:${string}`;
+
+// Totais por raia e etapa: chave da raia -> chave da etapa -> totais ('' = lead sem valor)
+export type LeadLaneTotals = Record<string, Record<string, LeadColumnTotals>>;
+
+export interface LeadFilterOptions {
+  sources: string[];
+  tags: string[];
+}
+
+export interface SavedView {
+  id: string;
+  account_id: string;
+  user_id: string;
+  name: string;
+  filters: LeadFilters;
+  sort: LeadSort | null;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Sale {
   id: string;
   leadId?: string;
+  leadName?: string; // nome do lead de origem, quando a venda veio de uma conversão
+  companyId?: string; // herdada do lead ou pelo domínio do e-mail do cliente
   customerName: string;
   customerEmail: string;
   customerPhone: string;
@@ -31,12 +296,59 @@ export interface Sale {
   notes: string;
 }
 
+export type StageKind = 'open' | 'won' | 'lost';
+
+export interface Pipeline {
+  id: string;
+  account_id: string;
+  name: string;
+  position: number;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelineStage {
+  id: string;
+  account_id: string;
+  pipeline_id: string;
+  key: string;
+  name: string;
+  color: string;
+  position: number;
+  kind: StageKind;
+  // Regras de entrada: colunas do lead ou "cf:<chave>", e itens de checklist (validados no banco)
+  required_fields: string[];
+  checklist: string[];
+  rotting_days: number | null; // dias na etapa até o lead ser destacado como parado
+  created_at: string;
+  updated_at: string;
+}
+
 export interface KanbanColumn {
   id: string;
   title: string;
+  color: string;
+  kind: StageKind;
+  rottingDays: number | null;
   leads: Lead[];
 }
 
+// Linha de get_stage_time_stats: tempos em segundos, por etapa e responsável
+export interface StageTimeStat {
+  pipeline_id: string;
+  status: string;
+  assigned_to: string | null;
+  completed_count: number;
+  completed_avg_seconds: number;
+  open_count: number;
+  open_avg_seconds: number;
+}
+
+export interface AccountSettings {
+  trash_retention_days: number; // dias na lixeira antes da remoção definitiva
+}
+
 export interface Webhook {
   id: string;
   name: string;
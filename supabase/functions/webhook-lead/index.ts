@@ -15,6 +15,9 @@ interface LeadWebhookData {
   tags?: string[];
   notes?: string;
   assignedTo?: string;
+  accountId?: string;
+  pipelineId?: string;
+  customFields?: Record<string, unknown>;
 }
 
 Deno.serve(async (req) => {
@@ -41,7 +44,7 @@ Deno.serve(async (req) => {
     console.log('Request body:', body);
 
     // Validate required fields
-    const { name, email, phone, company, value, source, tags, notes, assignedTo } = body as LeadWebhookData;
+    const { name, email, phone, company, value, source, tags, notes, assignedTo, accountId: requestedAccountId, pipelineId, customFields } = body as LeadWebhookData;
 
     if (!name || !email || !phone || !source) {
       return new Response(
@@ -56,6 +59,139 @@ Deno.serve(async (req) => {
       );
     }
 
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Conta do lead: a do responsável informado ou a do accountId (id do administrador)
+    if (!assignedTo && !requestedAccountId) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Missing account', 
+          required: ['assignedTo or accountId'] 
+        }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { data: accountId } = await supabase.rpc('get_account_id', { _user_id: assignedTo || requestedAccountId });
+
+    if (!accountId) {
+      return new Response(
+        JSON.stringify({ error: 'Account not found', accountId: requestedAccountId, assignedTo }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Leads entram no pipeline informado (ou no padrão da conta), na primeira etapa aberta
+    let pipelineQuery = supabase
+      .from('pipelines')
+      .select('id')
+      .eq('account_id', accountId);
+    pipelineQuery = pipelineId
+      ? pipelineQuery.eq('id', pipelineId)
+      : pipelineQuery.eq('is_default', true);
+    const { data: pipeline } = await pipelineQuery.maybeSingle();
+
+    if (pipelineId && !pipeline) {
+      return new Response(
+        JSON.stringify({ error: 'Pipeline not found', pipelineId }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { data: initialStage } = await supabase
+      .from('pipeline_stages')
+      .select('key')
+      .eq('pipeline_id', pipeline?.id)
+      .eq('kind', 'open')
+      .order('position', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    // Mesmo e-mail ou telefone: atualiza o lead existente em vez de criar outro card
+    const { data: duplicates } = await supabase.rpc('find_duplicate_leads', {
+      _account_id: accountId,
+      _email: email,
+      _phone: phone,
+      _name: name,
+      _company: company || null,
+    });
+    const exactMatch = (duplicates || []).find(
+      (match: { match_reason: string }) => match.match_reason !== 'name'
+    );
+
+    if (exactMatch) {
+      const { data: existing, error: existingError } = await supabase
+        .from('leads')
+        .select('*')
+        .eq('id', exactMatch.lead_id)
+        .maybeSingle();
+
+      if (existingError) {
+        console.error('Database error:', existingError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to load existing lead', details: existingError.message }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      // Sem linha (lead removido entre a busca e a leitura): segue criando um lead novo
+      if (existing) {
+        const incomingNotes = (notes || '').trim();
+        const { error: updateError } = await supabase
+          .from('leads')
+          .update({
+            company: existing.company || company || '',
+            value: existing.value || value || 0,
+            tags: Array.from(new Set([...(existing.tags || []), ...(tags || [])])),
+            notes: incomingNotes && !(existing.notes || '').includes(incomingNotes)
+              ? [existing.notes, incomingNotes].filter(Boolean).join('\n\n')
+              : existing.notes,
+            // Valores já preenchidos no lead têm prioridade sobre os recebidos
+            custom_fields: { ...(customFields || {}), ...(existing.custom_fields || {}) },
+          })
+          .eq('id', existing.id);
+
+        if (updateError) {
+          console.error('Database error:', updateError);
+          return new Response(
+            JSON.stringify({ error: 'Failed to update existing lead', details: updateError.message }),
+            { 
+              status: 500, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({ 
+            success: true, 
+            duplicate: true,
+            matchReason: exactMatch.match_reason,
+            message: 'Lead already exists and was updated',
+            leadId: existing.id
+          }),
+          { 
+            status: 200, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+    }
+
     // Create lead object
     const leadData = {
       id: crypto.randomUUID(),
@@ -64,27 +200,28 @@ Deno.serve(async (req) => {
       phone,
       company: company || '',
       value: value || 0,
-      status: 'new' as const,
+      pipeline_id: pipeline?.id,
+      status: initialStage?.key || 'new',
       tags: tags || [],
-      assigned_to: assignedTo || 'webhook-user', // Default assignment
+      // Sem responsável informado, o banco escolhe pelas regras de distribuição da conta
+      assigned_to: assignedTo || null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       notes: notes || '',
       source,
-      user_id: assignedTo || 'webhook-user' // Add user_id field
+      // Chaves desconhecidas são descartadas e os tipos validados pelo trigger do banco
+      custom_fields: customFields || {},
+      user_id: assignedTo || accountId
     };
 
     console.log('Lead data created:', leadData);
 
-    // Save to database
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
     // Save to leads table
     const { data, error } = await supabase
       .from('leads')
-      .insert([leadData]);
+      .insert([leadData])
+      .select('assigned_to')
+      .single();
 
     if (error) {
       console.error('Database error:', error);
@@ -102,7 +239,9 @@ Deno.serve(async (req) => {
         success: true, 
         message: 'Lead received successfully',
         leadId: leadData.id,
-        leadData: leadData
+        leadData: { ...leadData, assigned_to: data.assigned_to },
+        // Nome e empresa parecidos não bloqueiam a criação; ficam para revisão na tela de duplicados
+        possibleDuplicates: (duplicates || []).map((match: { lead_id: string }) => match.lead_id)
       }),
       { 
         status: 200, 
@@ -0,0 +1,168 @@
+-- Etapas do pipeline configuráveis por conta (substitui o localStorage e a constraint fixa de status)
+
+-- 1) Conta (master) à qual um usuário pertence: o próprio master ou o master do subusuário
+CREATE OR REPLACE FUNCTION public.get_account_id(_user_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(master_account_id, user_id)
+  FROM public.profiles
+  WHERE user_id = _user_id
+$$;
+
+-- 2) Tabela de etapas
+CREATE TABLE public.pipeline_stages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  position INTEGER NOT NULL DEFAULT 0,
+  kind TEXT NOT NULL DEFAULT 'open',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT pipeline_stages_valid_kind CHECK (kind IN ('open', 'won', 'lost')),
+  CONSTRAINT pipeline_stages_account_key_unique UNIQUE (account_id, key)
+);
+
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+-- Todos da conta enxergam as etapas; apenas o master altera
+CREATE POLICY "pipeline_stages_select_account"
+ON public.pipeline_stages
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "pipeline_stages_insert_master"
+ON public.pipeline_stages
+FOR INSERT
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "pipeline_stages_update_master"
+ON public.pipeline_stages
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+-- Sem policy de DELETE: a remoção passa por delete_pipeline_stage, que realoca os leads
+
+CREATE TRIGGER update_pipeline_stages_updated_at
+BEFORE UPDATE ON public.pipeline_stages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_pipeline_stages_account_id ON public.pipeline_stages(account_id, position);
+
+-- 3) Etapas padrão (as mesmas que existiam fixas no Kanban)
+CREATE OR REPLACE FUNCTION public.seed_default_pipeline_stages(_account_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.pipeline_stages (account_id, key, name, color, position, kind)
+  VALUES
+    (_account_id, 'new', 'Novos Leads', '#3B82F6', 0, 'open'),
+    (_account_id, 'contacted', 'Contatados', '#F97316', 1, 'open'),
+    (_account_id, 'qualified', 'Qualificados', '#8B5CF6', 2, 'open'),
+    (_account_id, 'proposal', 'Proposta', '#6366F1', 3, 'open'),
+    (_account_id, 'won', 'Fechado', '#22C55E', 4, 'won'),
+    (_account_id, 'lost', 'Perdido', '#EF4444', 5, 'lost')
+  ON CONFLICT (account_id, key) DO NOTHING
+$$;
+
+SELECT public.seed_default_pipeline_stages(user_id)
+FROM public.profiles
+WHERE role = 'master';
+
+CREATE OR REPLACE FUNCTION public.handle_new_master_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role = 'master' THEN
+    PERFORM public.seed_default_pipeline_stages(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_master_profile_created
+AFTER INSERT ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_master_profile();
+
+-- 4) Status do lead passa a ser validado contra as etapas da conta
+ALTER TABLE public.leads DROP CONSTRAINT IF EXISTS valid_status;
+
+CREATE OR REPLACE FUNCTION public.validate_lead_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE account_id = public.get_account_id(NEW.user_id)
+      AND key = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Etapa "%" não existe no pipeline da conta', NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_leads_status
+BEFORE INSERT OR UPDATE OF status ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_lead_status();
+
+-- 5) Remoção de etapa exige escolher para onde vão os leads
+CREATE OR REPLACE FUNCTION public.delete_pipeline_stage(_stage_id UUID, _target_key TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stage public.pipeline_stages%ROWTYPE;
+  _moved INTEGER;
+BEGIN
+  SELECT * INTO _stage FROM public.pipeline_stages WHERE id = _stage_id;
+
+  IF NOT FOUND OR _stage.account_id <> auth.uid() OR NOT public.has_role(auth.uid(), 'master') THEN
+    RAISE EXCEPTION 'Etapa não encontrada ou sem permissão';
+  END IF;
+
+  IF _target_key = _stage.key OR NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE account_id = _stage.account_id AND key = _target_key
+  ) THEN
+    RAISE EXCEPTION 'Etapa de destino inválida';
+  END IF;
+
+  IF (SELECT count(*) FROM public.pipeline_stages WHERE account_id = _stage.account_id) <= 2 THEN
+    RAISE EXCEPTION 'O pipeline precisa ter pelo menos 2 etapas';
+  END IF;
+
+  UPDATE public.leads
+  SET status = _target_key
+  WHERE status = _stage.key
+    AND public.get_account_id(user_id) = _stage.account_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  DELETE FROM public.pipeline_stages WHERE id = _stage_id;
+
+  RETURN _moved;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pipeline_stages;
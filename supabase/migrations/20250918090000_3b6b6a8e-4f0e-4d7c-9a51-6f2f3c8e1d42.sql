@@ -0,0 +1,368 @@
+-- Múltiplos pipelines por conta: cada pipeline tem suas etapas e cada lead pertence a um pipeline
+
+-- 1) Tabela de pipelines
+CREATE TABLE public.pipelines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Apenas um pipeline padrão por conta
+CREATE UNIQUE INDEX pipelines_one_default_per_account
+ON public.pipelines(account_id)
+WHERE is_default;
+
+CREATE INDEX idx_pipelines_account_id ON public.pipelines(account_id, position);
+
+ALTER TABLE public.pipelines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "pipelines_select_account"
+ON public.pipelines
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "pipelines_insert_master"
+ON public.pipelines
+FOR INSERT
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "pipelines_update_master"
+ON public.pipelines
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+-- Sem policy de DELETE: a remoção passa por delete_pipeline, que realoca os leads
+
+CREATE TRIGGER update_pipelines_updated_at
+BEFORE UPDATE ON public.pipelines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2) Pipeline padrão para as contas existentes. Contas que só têm leads ganham antes as etapas
+-- padrão, senão validate_lead_status recusaria qualquer alteração nesses leads.
+-- Lead cujo dono não tem perfil fica com a conta do responsável
+SELECT public.seed_default_pipeline_stages(account_id)
+FROM (
+  SELECT DISTINCT COALESCE(public.get_account_id(user_id), public.get_account_id(assigned_to)) AS account_id
+  FROM public.leads
+) accounts
+WHERE account_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.pipeline_stages s WHERE s.account_id = accounts.account_id);
+
+INSERT INTO public.pipelines (account_id, name, position, is_default)
+SELECT DISTINCT account_id, 'Vendas', 0, true
+FROM public.pipeline_stages;
+
+-- 3) Etapas passam a pertencer a um pipeline
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN pipeline_id UUID REFERENCES public.pipelines(id) ON DELETE CASCADE;
+
+UPDATE public.pipeline_stages s
+SET pipeline_id = p.id
+FROM public.pipelines p
+WHERE p.account_id = s.account_id AND p.is_default;
+
+ALTER TABLE public.pipeline_stages
+  ALTER COLUMN pipeline_id SET NOT NULL,
+  DROP CONSTRAINT pipeline_stages_account_key_unique,
+  ADD CONSTRAINT pipeline_stages_pipeline_key_unique UNIQUE (pipeline_id, key);
+
+DROP INDEX IF EXISTS public.idx_pipeline_stages_account_id;
+CREATE INDEX idx_pipeline_stages_pipeline_id ON public.pipeline_stages(pipeline_id, position);
+
+-- Etapas só podem ser criadas em pipelines da própria conta
+DROP POLICY IF EXISTS "pipeline_stages_insert_master" ON public.pipeline_stages;
+CREATE POLICY "pipeline_stages_insert_master"
+ON public.pipeline_stages
+FOR INSERT
+WITH CHECK (
+  account_id = auth.uid()
+  AND public.has_role(auth.uid(), 'master')
+  AND EXISTS (
+    SELECT 1 FROM public.pipelines p
+    WHERE p.id = pipeline_id AND p.account_id = auth.uid()
+  )
+);
+
+-- 4) Leads passam a pertencer a um pipeline
+ALTER TABLE public.leads
+  ADD COLUMN pipeline_id UUID REFERENCES public.pipelines(id);
+
+UPDATE public.leads l
+SET pipeline_id = p.id
+FROM public.pipelines p
+WHERE p.account_id = COALESCE(public.get_account_id(l.user_id), public.get_account_id(l.assigned_to)) AND p.is_default;
+
+-- Sem perfil de dono nem de responsável o lead não pertence a conta nenhuma: precisa ser
+-- corrigido à mão antes, em vez de a migration apagar dados
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.leads WHERE pipeline_id IS NULL) THEN
+    RAISE EXCEPTION 'Existem leads sem conta (dono e responsável sem perfil); corrija-os antes de aplicar esta migration';
+  END IF;
+END;
+$$;
+
+CREATE INDEX idx_leads_pipeline_id ON public.leads(pipeline_id, status);
+
+-- Leads criados sem pipeline (ex.: integrações antigas) vão para o pipeline padrão da conta
+CREATE OR REPLACE FUNCTION public.set_lead_default_pipeline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pipeline_id IS NULL THEN
+    SELECT id INTO NEW.pipeline_id
+    FROM public.pipelines
+    WHERE account_id = public.get_account_id(NEW.user_id) AND is_default;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leads_default_pipeline
+BEFORE INSERT ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.set_lead_default_pipeline();
+
+ALTER TABLE public.leads ALTER COLUMN pipeline_id SET NOT NULL;
+
+-- O status do lead é validado contra as etapas do seu pipeline
+CREATE OR REPLACE FUNCTION public.validate_lead_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.pipeline_stages s
+    JOIN public.pipelines p ON p.id = s.pipeline_id
+    WHERE s.pipeline_id = NEW.pipeline_id
+      AND s.key = NEW.status
+      AND p.account_id = public.get_account_id(NEW.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Etapa "%" não existe no pipeline do lead', NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Valida também na troca de pipeline. Triggers BEFORE rodam em ordem alfabética,
+-- então set_leads_default_pipeline preenche o pipeline antes desta validação
+DROP TRIGGER IF EXISTS validate_leads_status ON public.leads;
+CREATE TRIGGER validate_leads_status
+BEFORE INSERT OR UPDATE OF status, pipeline_id ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_lead_status();
+
+-- 5) Criação de pipelines com as etapas padrão
+DROP FUNCTION IF EXISTS public.seed_default_pipeline_stages(UUID);
+
+CREATE OR REPLACE FUNCTION public.seed_default_pipeline_stages(_pipeline_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.pipeline_stages (account_id, pipeline_id, key, name, color, position, kind)
+  SELECT p.account_id, p.id, v.key, v.name, v.color, v.position, v.kind
+  FROM public.pipelines p
+  CROSS JOIN (VALUES
+    ('new', 'Novos Leads', '#3B82F6', 0, 'open'),
+    ('contacted', 'Contatados', '#F97316', 1, 'open'),
+    ('qualified', 'Qualificados', '#8B5CF6', 2, 'open'),
+    ('proposal', 'Proposta', '#6366F1', 3, 'open'),
+    ('won', 'Fechado', '#22C55E', 4, 'won'),
+    ('lost', 'Perdido', '#EF4444', 5, 'lost')
+  ) AS v(key, name, color, position, kind)
+  WHERE p.id = _pipeline_id
+  ON CONFLICT (pipeline_id, key) DO NOTHING
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_pipeline(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pipeline_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'master') THEN
+    RAISE EXCEPTION 'Apenas administradores podem criar pipelines';
+  END IF;
+
+  INSERT INTO public.pipelines (account_id, name, position, is_default)
+  SELECT auth.uid(), _name, COALESCE(max(position) + 1, 0), count(*) = 0
+  FROM public.pipelines
+  WHERE account_id = auth.uid()
+  RETURNING id INTO _pipeline_id;
+
+  PERFORM public.seed_default_pipeline_stages(_pipeline_id);
+  RETURN _pipeline_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_master_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pipeline_id UUID;
+BEGIN
+  IF NEW.role = 'master' THEN
+    INSERT INTO public.pipelines (account_id, name, position, is_default)
+    VALUES (NEW.user_id, 'Vendas', 0, true)
+    RETURNING id INTO _pipeline_id;
+
+    PERFORM public.seed_default_pipeline_stages(_pipeline_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 6) Mapeamento de etapa entre pipelines: mesma chave, senão mesmo tipo (ganho/perdido),
+--    senão a etapa aberta na mesma posição relativa, senão a primeira etapa
+CREATE OR REPLACE FUNCTION public.map_stage_key(_from_pipeline_id UUID, _key TEXT, _to_pipeline_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source public.pipeline_stages%ROWTYPE;
+  _has_source BOOLEAN;
+  _source_index INTEGER;
+  _result TEXT;
+BEGIN
+  SELECT key INTO _result FROM public.pipeline_stages
+  WHERE pipeline_id = _to_pipeline_id AND key = _key;
+  IF FOUND THEN RETURN _result; END IF;
+
+  SELECT * INTO _source FROM public.pipeline_stages
+  WHERE pipeline_id = _from_pipeline_id AND key = _key;
+  _has_source := FOUND;
+
+  IF _has_source AND _source.kind <> 'open' THEN
+    SELECT key INTO _result FROM public.pipeline_stages
+    WHERE pipeline_id = _to_pipeline_id AND kind = _source.kind
+    ORDER BY position LIMIT 1;
+    IF FOUND THEN RETURN _result; END IF;
+  END IF;
+
+  IF _has_source THEN
+    SELECT count(*) INTO _source_index FROM public.pipeline_stages
+    WHERE pipeline_id = _from_pipeline_id AND kind = 'open' AND position < _source.position;
+
+    SELECT key INTO _result FROM (
+      SELECT key, row_number() OVER (ORDER BY position) - 1 AS idx
+      FROM public.pipeline_stages
+      WHERE pipeline_id = _to_pipeline_id AND kind = 'open'
+    ) open_stages
+    ORDER BY abs(idx - _source_index), idx
+    LIMIT 1;
+    IF FOUND THEN RETURN _result; END IF;
+  END IF;
+
+  SELECT key INTO _result FROM public.pipeline_stages
+  WHERE pipeline_id = _to_pipeline_id
+  ORDER BY position LIMIT 1;
+  RETURN _result;
+END;
+$$;
+
+-- 7) Remoção de pipeline exige escolher para onde vão os leads
+CREATE OR REPLACE FUNCTION public.delete_pipeline(_pipeline_id UUID, _target_pipeline_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pipeline public.pipelines%ROWTYPE;
+  _moved INTEGER;
+BEGIN
+  SELECT * INTO _pipeline FROM public.pipelines WHERE id = _pipeline_id;
+
+  IF NOT FOUND OR _pipeline.account_id <> auth.uid() OR NOT public.has_role(auth.uid(), 'master') THEN
+    RAISE EXCEPTION 'Pipeline não encontrado ou sem permissão';
+  END IF;
+
+  IF _target_pipeline_id = _pipeline_id OR NOT EXISTS (
+    SELECT 1 FROM public.pipelines
+    WHERE id = _target_pipeline_id AND account_id = _pipeline.account_id
+  ) THEN
+    RAISE EXCEPTION 'Pipeline de destino inválido';
+  END IF;
+
+  UPDATE public.leads
+  SET status = public.map_stage_key(_pipeline_id, status, _target_pipeline_id),
+      pipeline_id = _target_pipeline_id
+  WHERE pipeline_id = _pipeline_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  IF _pipeline.is_default THEN
+    UPDATE public.pipelines SET is_default = false WHERE id = _pipeline_id;
+    UPDATE public.pipelines SET is_default = true WHERE id = _target_pipeline_id;
+  END IF;
+
+  DELETE FROM public.pipelines WHERE id = _pipeline_id;
+
+  RETURN _moved;
+END;
+$$;
+
+-- 8) Remoção de etapa passa a considerar apenas os leads do pipeline da etapa
+CREATE OR REPLACE FUNCTION public.delete_pipeline_stage(_stage_id UUID, _target_key TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stage public.pipeline_stages%ROWTYPE;
+  _moved INTEGER;
+BEGIN
+  SELECT * INTO _stage FROM public.pipeline_stages WHERE id = _stage_id;
+
+  IF NOT FOUND OR _stage.account_id <> auth.uid() OR NOT public.has_role(auth.uid(), 'master') THEN
+    RAISE EXCEPTION 'Etapa não encontrada ou sem permissão';
+  END IF;
+
+  IF _target_key = _stage.key OR NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE pipeline_id = _stage.pipeline_id AND key = _target_key
+  ) THEN
+    RAISE EXCEPTION 'Etapa de destino inválida';
+  END IF;
+
+  IF (SELECT count(*) FROM public.pipeline_stages WHERE pipeline_id = _stage.pipeline_id) <= 2 THEN
+    RAISE EXCEPTION 'O pipeline precisa ter pelo menos 2 etapas';
+  END IF;
+
+  UPDATE public.leads
+  SET status = _target_key
+  WHERE status = _stage.key
+    AND pipeline_id = _stage.pipeline_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  DELETE FROM public.pipeline_stages WHERE id = _stage_id;
+
+  RETURN _moved;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pipelines;
@@ -0,0 +1,76 @@
+-- Histórico de alterações dos leads (auditoria campo a campo)
+CREATE TABLE public.lead_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update')),
+  -- { campo: { "old": valor_anterior, "new": valor_novo } }
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- NULL quando a alteração vem de um processo do sistema (ex.: webhook)
+  changed_by UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lead_history ENABLE ROW LEVEL SECURITY;
+
+-- Quem enxerga o lead enxerga o histórico; escrita apenas pelo trigger
+CREATE POLICY "Users can view history for leads they have access to"
+ON public.lead_history
+FOR SELECT
+USING (lead_id IN (SELECT id FROM public.leads));
+
+CREATE INDEX idx_lead_history_lead_id ON public.lead_history(lead_id, created_at);
+
+-- Registra inserções e alterações, independente da origem (kanban, modal ou webhook)
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+  _actor UUID;
+BEGIN
+  _new := to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at';
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('old', NULL, 'new', value))
+    INTO _changes
+    FROM jsonb_each(_new)
+    WHERE value <> 'null'::jsonb;
+  ELSE
+    _old := to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at';
+
+    FOR _field IN SELECT jsonb_object_keys(_new) LOOP
+      IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+        _changes := _changes || jsonb_build_object(
+          _field, jsonb_build_object('old', _old -> _field, 'new', _new -> _field)
+        );
+      END IF;
+    END LOOP;
+
+    -- Updates que só mexem em updated_at não geram histórico
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Só referencia perfis existentes; chamadas com service role ficam sem autor
+  SELECT user_id INTO _actor FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (NEW.id, lower(TG_OP), COALESCE(_changes, '{}'::jsonb), _actor);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_leads_changes
+AFTER INSERT OR UPDATE ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.log_lead_changes();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lead_history;
@@ -0,0 +1,190 @@
+-- Detecção de leads duplicados e mesclagem
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- E-mail comparável: minúsculo e sem espaços
+CREATE OR REPLACE FUNCTION public.normalize_email(_email TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT NULLIF(lower(btrim(COALESCE(_email, ''))), '')
+$$;
+
+-- Telefone comparável: apenas dígitos, sem o DDI 55; números curtos demais são ignorados
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(digits) < 8 THEN NULL
+    WHEN length(digits) >= 12 AND left(digits, 2) = '55' THEN substr(digits, 3)
+    ELSE digits
+  END
+  FROM (SELECT regexp_replace(COALESCE(_phone, ''), '\D', '', 'g') AS digits) d
+$$;
+
+CREATE INDEX idx_leads_normalized_email ON public.leads (public.normalize_email(email));
+CREATE INDEX idx_leads_normalized_phone ON public.leads (public.normalize_phone(phone));
+
+-- Similaridade mínima de nome + empresa para sugerir duplicidade
+CREATE OR REPLACE FUNCTION public.lead_name_similarity(_name_a TEXT, _company_a TEXT, _name_b TEXT, _company_b TEXT)
+RETURNS REAL
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT similarity(
+    lower(btrim(COALESCE(_name_a, '') || ' ' || COALESCE(_company_a, ''))),
+    lower(btrim(COALESCE(_name_b, '') || ' ' || COALESCE(_company_b, '')))
+  )
+$$;
+
+-- Possíveis duplicados de um lead (novo ou existente) dentro da conta.
+-- Roda com as permissões de quem chama: usuários só enxergam os leads que já podem ver.
+CREATE OR REPLACE FUNCTION public.find_duplicate_leads(
+  _account_id UUID,
+  _email TEXT,
+  _phone TEXT,
+  _name TEXT,
+  _company TEXT DEFAULT NULL,
+  _exclude_lead_id UUID DEFAULT NULL
+)
+RETURNS TABLE (lead_id UUID, match_reason TEXT, score REAL)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT c.id, c.reason, c.score
+  FROM (
+    SELECT
+      l.id,
+      CASE
+        WHEN public.normalize_email(l.email) = public.normalize_email(_email) THEN 'email'
+        WHEN public.normalize_phone(l.phone) = public.normalize_phone(_phone) THEN 'phone'
+        ELSE 'name'
+      END AS reason,
+      CASE
+        WHEN public.normalize_email(l.email) = public.normalize_email(_email) THEN 1
+        WHEN public.normalize_phone(l.phone) = public.normalize_phone(_phone) THEN 0.9
+        ELSE public.lead_name_similarity(l.name, l.company, _name, _company)
+      END::REAL AS score
+    FROM public.leads l
+    WHERE public.get_account_id(l.user_id) = _account_id
+      AND (_exclude_lead_id IS NULL OR l.id <> _exclude_lead_id)
+  ) c
+  WHERE c.score >= 0.6
+  ORDER BY c.score DESC
+  LIMIT 10
+$$;
+
+-- Varredura da conta inteira: pares de leads que parecem ser a mesma pessoa
+CREATE OR REPLACE FUNCTION public.find_duplicate_lead_pairs()
+RETURNS TABLE (lead_id UUID, duplicate_id UUID, match_reason TEXT, score REAL)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT c.a_id, c.b_id, c.reason, c.score
+  FROM (
+    SELECT
+      a.id AS a_id,
+      b.id AS b_id,
+      CASE
+        WHEN public.normalize_email(a.email) = public.normalize_email(b.email) THEN 'email'
+        WHEN public.normalize_phone(a.phone) = public.normalize_phone(b.phone) THEN 'phone'
+        ELSE 'name'
+      END AS reason,
+      CASE
+        WHEN public.normalize_email(a.email) = public.normalize_email(b.email) THEN 1
+        WHEN public.normalize_phone(a.phone) = public.normalize_phone(b.phone) THEN 0.9
+        ELSE public.lead_name_similarity(a.name, a.company, b.name, b.company)
+      END::REAL AS score
+    FROM public.leads a
+    JOIN public.leads b
+      ON a.id < b.id
+     AND public.get_account_id(a.user_id) = public.get_account_id(b.user_id)
+    WHERE public.get_account_id(a.user_id) = public.get_account_id(auth.uid())
+  ) c
+  WHERE c.score >= 0.6
+  ORDER BY c.score DESC
+  LIMIT 200
+$$;
+
+-- Mesclagem fica registrada no histórico do lead que sobrevive
+ALTER TABLE public.lead_history DROP CONSTRAINT lead_history_action_check;
+ALTER TABLE public.lead_history
+  ADD CONSTRAINT lead_history_action_check CHECK (action IN ('insert', 'update', 'merge'));
+
+-- Mescla _duplicate_id em _survivor_id: aplica os valores escolhidos (_fields),
+-- move feedbacks e histórico para o lead que fica e remove o duplicado
+CREATE OR REPLACE FUNCTION public.merge_leads(_survivor_id UUID, _duplicate_id UUID, _fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _survivor public.leads;
+  _duplicate public.leads;
+BEGIN
+  IF _survivor_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Selecione dois leads diferentes';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.leads WHERE id = _survivor_id;
+  SELECT * INTO _duplicate FROM public.leads WHERE id = _duplicate_id;
+
+  IF _survivor.id IS NULL OR _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF public.get_account_id(_survivor.user_id) <> public.get_account_id(_uid)
+     OR public.get_account_id(_duplicate.user_id) <> public.get_account_id(_uid) THEN
+    RAISE EXCEPTION 'Leads não pertencem à sua conta';
+  END IF;
+
+  -- Usuários comuns só mesclam leads que são seus
+  IF NOT public.has_role(_uid, 'master') AND NOT (
+    (_survivor.assigned_to = _uid OR _survivor.user_id = _uid) AND
+    (_duplicate.assigned_to = _uid OR _duplicate.user_id = _uid)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para mesclar estes leads';
+  END IF;
+
+  -- Feedback e histórico precisam mudar de lead antes do duplicado ser removido (ON DELETE CASCADE)
+  UPDATE public.lead_feedback SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_history SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+
+  UPDATE public.leads SET
+    name = COALESCE(_fields ->> 'name', name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone = COALESCE(_fields ->> 'phone', phone),
+    company = COALESCE(_fields ->> 'company', company),
+    value = COALESCE((_fields ->> 'value')::NUMERIC, value),
+    source = COALESCE(_fields ->> 'source', source),
+    assigned_to = COALESCE((_fields ->> 'assigned_to')::UUID, assigned_to),
+    pipeline_id = COALESCE((_fields ->> 'pipeline_id')::UUID, pipeline_id),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = COALESCE(_fields ->> 'notes', notes),
+    tags = CASE
+      WHEN _fields ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(_fields -> 'tags'))
+      ELSE tags
+    END
+  WHERE id = _survivor_id;
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (
+    _survivor_id,
+    'merge',
+    jsonb_build_object('merged_lead', jsonb_build_object(
+      'old', jsonb_build_object('id', _duplicate.id, 'name', _duplicate.name, 'email', _duplicate.email),
+      'new', NULL
+    )),
+    _uid
+  );
+
+  DELETE FROM public.leads WHERE id = _duplicate_id;
+END;
+$$;
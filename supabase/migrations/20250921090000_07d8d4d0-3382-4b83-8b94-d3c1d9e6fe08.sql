@@ -0,0 +1,53 @@
+-- Visões salvas (filtros + ordenação) do kanban e da lista de leads
+CREATE TABLE public.saved_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort JSONB,
+  -- Compartilhada: visível para toda a equipe da conta
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_views_account_id ON public.saved_views(account_id);
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "saved_views_select_own_or_shared"
+ON public.saved_views
+FOR SELECT
+USING (
+  user_id = auth.uid() OR
+  (is_shared AND account_id = public.get_account_id(auth.uid()))
+);
+
+CREATE POLICY "saved_views_insert_own"
+ON public.saved_views
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid() AND
+  account_id = public.get_account_id(auth.uid())
+);
+
+-- O dono edita e remove; o master também pode remover visões compartilhadas da conta
+CREATE POLICY "saved_views_update_own"
+ON public.saved_views
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "saved_views_delete_own_or_master"
+ON public.saved_views
+FOR DELETE
+USING (
+  user_id = auth.uid() OR
+  (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+);
+
+CREATE TRIGGER update_saved_views_updated_at
+BEFORE UPDATE ON public.saved_views
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,13 @@
+-- Realtime incremental de leads: o evento de DELETE precisa trazer a linha antiga completa
+-- (pipeline_id, status) para o kanban removê-la sem recarregar tudo
+ALTER TABLE public.leads REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'leads'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.leads;
+  END IF;
+END $$;
@@ -0,0 +1,130 @@
+-- Paginação por coluna no servidor: filtros, totais e opções de filtro calculados no banco
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+-- Índices para a paginação por cursor nas ordenações mais usadas
+CREATE INDEX IF NOT EXISTS idx_leads_pipeline_status_created
+  ON public.leads(pipeline_id, status, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_pipeline_status_updated
+  ON public.leads(pipeline_id, status, updated_at DESC, id DESC);
+
+-- Mesmo formato de LeadFilters no front; datas chegam como timestamps (createdTo/updatedTo exclusivos)
+CREATE OR REPLACE FUNCTION public.lead_matches_filters(_lead public.leads, _filters JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    (coalesce(_filters->>'search', '') = '' OR position(
+      unaccent(lower(_filters->>'search')) IN unaccent(lower(concat_ws(' ',
+        _lead.name, _lead.email, _lead.phone, _lead.company, _lead.notes, _lead.source,
+        array_to_string(_lead.tags, ' ')
+      )))
+    ) > 0)
+    AND (coalesce(jsonb_array_length(_filters->'statuses'), 0) = 0
+      OR _lead.status IN (SELECT jsonb_array_elements_text(_filters->'statuses')))
+    AND (coalesce(jsonb_array_length(_filters->'assignees'), 0) = 0
+      OR _lead.assigned_to::text IN (SELECT jsonb_array_elements_text(_filters->'assignees')))
+    AND (coalesce(jsonb_array_length(_filters->'sources'), 0) = 0
+      OR _lead.source IN (SELECT jsonb_array_elements_text(_filters->'sources')))
+    AND (coalesce(jsonb_array_length(_filters->'tags'), 0) = 0
+      OR coalesce(_lead.tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(_filters->'tags')))
+    AND (coalesce(_filters->>'company', '') = ''
+      OR position(unaccent(lower(_filters->>'company')) IN unaccent(lower(coalesce(_lead.company, '')))) > 0)
+    AND (_filters->'valueMin' IS NULL OR coalesce(_lead.value, 0) >= (_filters->>'valueMin')::numeric)
+    AND (_filters->'valueMax' IS NULL OR coalesce(_lead.value, 0) <= (_filters->>'valueMax')::numeric)
+    AND (_filters->'createdFrom' IS NULL OR _lead.created_at >= (_filters->>'createdFrom')::timestamptz)
+    AND (_filters->'createdTo' IS NULL OR _lead.created_at < (_filters->>'createdTo')::timestamptz)
+    AND (_filters->'updatedFrom' IS NULL OR _lead.updated_at >= (_filters->>'updatedFrom')::timestamptz)
+    AND (_filters->'updatedTo' IS NULL OR _lead.updated_at < (_filters->>'updatedTo')::timestamptz);
+$$;
+
+-- Uma página de leads de uma etapa (ou do pipeline inteiro quando _status é nulo).
+-- O cursor é {value, id} do último lead carregado; roda com as permissões do usuário (RLS)
+CREATE OR REPLACE FUNCTION public.get_leads_page(
+  _pipeline_id UUID,
+  _status TEXT DEFAULT NULL,
+  _filters JSONB DEFAULT '{}'::jsonb,
+  _sort_field TEXT DEFAULT 'created_at',
+  _sort_direction TEXT DEFAULT 'desc',
+  _cursor JSONB DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS SETOF public.leads
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _sort_expr TEXT;
+  _cursor_type TEXT;
+  _direction TEXT := CASE WHEN lower(_sort_direction) = 'asc' THEN 'ASC' ELSE 'DESC' END;
+BEGIN
+  CASE _sort_field
+    WHEN 'created_at', 'updated_at' THEN
+      _sort_expr := format('l.%I', _sort_field);
+      _cursor_type := 'timestamptz';
+    WHEN 'value' THEN
+      _sort_expr := 'coalesce(l.value, 0)';
+      _cursor_type := 'numeric';
+    WHEN 'name', 'company' THEN
+      _sort_expr := format('coalesce(l.%I, '''')', _sort_field);
+      _cursor_type := 'text';
+    ELSE
+      RAISE EXCEPTION 'Ordenação inválida: %', _sort_field;
+  END CASE;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT l.* FROM public.leads l
+     WHERE l.pipeline_id = $1
+       AND ($2 IS NULL OR l.status = $2)
+       AND public.lead_matches_filters(l, coalesce($3, ''{}''::jsonb))
+       AND ($4 IS NULL OR (%1$s, l.id) %2$s (($4->>''value'')::%3$s, ($4->>''id'')::uuid))
+     ORDER BY %1$s %4$s, l.id %4$s
+     LIMIT $5',
+    _sort_expr,
+    CASE WHEN _direction = 'ASC' THEN '>' ELSE '<' END,
+    _cursor_type,
+    _direction
+  )
+  USING _pipeline_id, _status, _filters, _cursor, least(greatest(_limit, 1), 1000);
+END;
+$$;
+
+-- Quantidade e soma de valor por etapa, com os mesmos filtros da listagem
+CREATE OR REPLACE FUNCTION public.get_pipeline_column_totals(
+  _pipeline_id UUID,
+  _filters JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (status TEXT, lead_count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.status, count(*), coalesce(sum(l.value), 0)
+  FROM public.leads l
+  WHERE l.pipeline_id = _pipeline_id
+    AND public.lead_matches_filters(l, coalesce(_filters, '{}'::jsonb))
+  GROUP BY l.status;
+$$;
+
+-- Fontes e tags existentes no pipeline, para montar a barra de filtros sem carregar todos os leads
+CREATE OR REPLACE FUNCTION public.get_lead_filter_options(_pipeline_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'sources', coalesce((
+      SELECT jsonb_agg(DISTINCT l.source ORDER BY l.source)
+      FROM public.leads l
+      WHERE l.pipeline_id = _pipeline_id AND coalesce(l.source, '') <> ''
+    ), '[]'::jsonb),
+    'tags', coalesce((
+      SELECT jsonb_agg(DISTINCT tag ORDER BY tag)
+      FROM public.leads l, unnest(l.tags) AS tag
+      WHERE l.pipeline_id = _pipeline_id
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,318 @@
+-- Pontuação de leads por regras configuradas pelo master da conta
+
+-- 1) Regras: cada regra que casa com o lead soma (ou subtrai) seus pontos
+CREATE TABLE public.lead_scoring_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN (
+    'source', 'tag', 'value', 'company', 'email_domain', 'last_contact', 'feedback_count'
+  )),
+  operator TEXT NOT NULL CHECK (operator IN (
+    'equals', 'contains', 'gte', 'lte', 'present', 'absent',
+    'corporate', 'free', 'within_days', 'older_than_days'
+  )),
+  value TEXT,
+  points INTEGER NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_scoring_rules_account_id ON public.lead_scoring_rules(account_id, position);
+
+ALTER TABLE public.lead_scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "lead_scoring_rules_select_account"
+ON public.lead_scoring_rules
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "lead_scoring_rules_insert_master"
+ON public.lead_scoring_rules
+FOR INSERT
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "lead_scoring_rules_update_master"
+ON public.lead_scoring_rules
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "lead_scoring_rules_delete_master"
+ON public.lead_scoring_rules
+FOR DELETE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE TRIGGER update_lead_scoring_rules_updated_at
+BEFORE UPDATE ON public.lead_scoring_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2) Pontuação armazenada no lead
+ALTER TABLE public.leads ADD COLUMN score INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_leads_pipeline_status_score
+  ON public.leads(pipeline_id, status, score DESC, id DESC);
+
+-- Provedores de e-mail gratuitos; qualquer outro domínio conta como corporativo
+CREATE OR REPLACE FUNCTION public.is_free_email_domain(_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(split_part(coalesce(_email, ''), '@', 2)) IN (
+    'gmail.com', 'googlemail.com', 'hotmail.com', 'hotmail.com.br', 'outlook.com', 'outlook.com.br',
+    'live.com', 'msn.com', 'yahoo.com', 'yahoo.com.br', 'icloud.com', 'me.com', 'aol.com',
+    'protonmail.com', 'proton.me', 'bol.com.br', 'uol.com.br', 'terra.com.br', 'ig.com.br'
+  );
+$$;
+
+-- Último contato = feedback mais recente; sem feedback, a data de criação do lead
+CREATE OR REPLACE FUNCTION public.calculate_lead_score(_lead public.leads)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH activity AS (
+    SELECT count(*) AS feedback_count,
+           coalesce(max(f.created_at), _lead.created_at, now()) AS last_contact
+    FROM public.lead_feedback f
+    WHERE f.lead_id = _lead.id
+  )
+  SELECT coalesce(sum(r.points), 0)::integer
+  FROM public.lead_scoring_rules r, activity a
+  WHERE r.account_id = public.get_account_id(_lead.user_id)
+    AND r.is_active
+    AND CASE r.field
+      WHEN 'source' THEN lower(_lead.source) = lower(r.value)
+      WHEN 'tag' THEN lower(r.value) IN (SELECT lower(tag) FROM unnest(coalesce(_lead.tags, '{}')) AS tag)
+      WHEN 'value' THEN CASE r.operator
+        WHEN 'gte' THEN coalesce(_lead.value, 0) >= r.value::numeric
+        ELSE coalesce(_lead.value, 0) <= r.value::numeric
+      END
+      WHEN 'company' THEN (coalesce(btrim(_lead.company), '') <> '') = (r.operator = 'present')
+      WHEN 'email_domain' THEN public.is_free_email_domain(_lead.email) = (r.operator = 'free')
+      WHEN 'last_contact' THEN CASE r.operator
+        WHEN 'within_days' THEN a.last_contact >= now() - make_interval(days => r.value::integer)
+        ELSE a.last_contact < now() - make_interval(days => r.value::integer)
+      END
+      WHEN 'feedback_count' THEN CASE r.operator
+        WHEN 'gte' THEN a.feedback_count >= r.value::integer
+        ELSE a.feedback_count <= r.value::integer
+      END
+      ELSE false
+    END;
+$$;
+
+-- 3) Recalcula a cada inserção/alteração do lead
+CREATE OR REPLACE FUNCTION public.set_lead_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.score := public.calculate_lead_score(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leads_score
+BEFORE INSERT OR UPDATE ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.set_lead_score();
+
+-- Recalcular a pontuação não é uma alteração do lead: não mexe em updated_at
+CREATE OR REPLACE FUNCTION public.update_lead_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'score' - 'updated_at') = (to_jsonb(OLD) - 'score' - 'updated_at') THEN
+    NEW.updated_at := OLD.updated_at;
+  ELSE
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_leads_updated_at ON public.leads;
+CREATE TRIGGER update_leads_updated_at
+BEFORE UPDATE ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.update_lead_updated_at();
+
+-- Pontuação também não entra no histórico do lead
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+  _actor UUID;
+BEGIN
+  _new := to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at' - 'score';
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('old', NULL, 'new', value))
+    INTO _changes
+    FROM jsonb_each(_new)
+    WHERE value <> 'null'::jsonb;
+  ELSE
+    _old := to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at' - 'score';
+
+    FOR _field IN SELECT jsonb_object_keys(_new) LOOP
+      IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+        _changes := _changes || jsonb_build_object(
+          _field, jsonb_build_object('old', _old -> _field, 'new', _new -> _field)
+        );
+      END IF;
+    END LOOP;
+
+    -- Updates que só mexem em updated_at ou na pontuação não geram histórico
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Só referencia perfis existentes; chamadas com service role ficam sem autor
+  SELECT user_id INTO _actor FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (NEW.id, lower(TG_OP), COALESCE(_changes, '{}'::jsonb), _actor);
+
+  RETURN NEW;
+END;
+$$;
+
+-- 4) Feedbacks mudam "último contato" e "quantidade de feedbacks"
+CREATE OR REPLACE FUNCTION public.refresh_lead_score_from_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lead_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.lead_id ELSE NEW.lead_id END;
+BEGIN
+  UPDATE public.leads l
+  SET score = public.calculate_lead_score(l)
+  WHERE l.id = _lead_id
+    AND l.score IS DISTINCT FROM public.calculate_lead_score(l);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_lead_score_on_feedback
+AFTER INSERT OR DELETE ON public.lead_feedback
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_lead_score_from_feedback();
+
+-- 5) Recalcula todos os leads da conta; retorna quantos mudaram de pontuação.
+-- Também corrige regras de tempo ("último contato"), que envelhecem sem nenhuma alteração no lead
+CREATE OR REPLACE FUNCTION public.recalculate_lead_scores(_account_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND public.get_account_id(auth.uid()) <> _account_id THEN
+    RAISE EXCEPTION 'Sem permissão para recalcular a pontuação desta conta';
+  END IF;
+
+  UPDATE public.leads l
+  SET score = public.calculate_lead_score(l)
+  WHERE public.get_account_id(l.user_id) = _account_id
+    AND l.score IS DISTINCT FROM public.calculate_lead_score(l);
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recalculate_scores_on_rule_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recalculate_lead_scores(CASE WHEN TG_OP = 'DELETE' THEN OLD.account_id ELSE NEW.account_id END);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_scores_on_rule_change
+AFTER INSERT OR UPDATE OR DELETE ON public.lead_scoring_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.recalculate_scores_on_rule_change();
+
+-- Leads existentes começam já pontuados (sem regras, todos ficam com 0)
+UPDATE public.leads l SET score = public.calculate_lead_score(l);
+
+-- 6) Ordenação por pontuação na paginação do quadro
+CREATE OR REPLACE FUNCTION public.get_leads_page(
+  _pipeline_id UUID,
+  _status TEXT DEFAULT NULL,
+  _filters JSONB DEFAULT '{}'::jsonb,
+  _sort_field TEXT DEFAULT 'created_at',
+  _sort_direction TEXT DEFAULT 'desc',
+  _cursor JSONB DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS SETOF public.leads
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _sort_expr TEXT;
+  _cursor_type TEXT;
+  _direction TEXT := CASE WHEN lower(_sort_direction) = 'asc' THEN 'ASC' ELSE 'DESC' END;
+BEGIN
+  CASE _sort_field
+    WHEN 'created_at', 'updated_at' THEN
+      _sort_expr := format('l.%I', _sort_field);
+      _cursor_type := 'timestamptz';
+    WHEN 'value' THEN
+      _sort_expr := 'coalesce(l.value, 0)';
+      _cursor_type := 'numeric';
+    WHEN 'score' THEN
+      _sort_expr := 'l.score';
+      _cursor_type := 'integer';
+    WHEN 'name', 'company' THEN
+      _sort_expr := format('coalesce(l.%I, '''')', _sort_field);
+      _cursor_type := 'text';
+    ELSE
+      RAISE EXCEPTION 'Ordenação inválida: %', _sort_field;
+  END CASE;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT l.* FROM public.leads l
+     WHERE l.pipeline_id = $1
+       AND ($2 IS NULL OR l.status = $2)
+       AND public.lead_matches_filters(l, coalesce($3, ''{}''::jsonb))
+       AND ($4 IS NULL OR (%1$s, l.id) %2$s (($4->>''value'')::%3$s, ($4->>''id'')::uuid))
+     ORDER BY %1$s %4$s, l.id %4$s
+     LIMIT $5',
+    _sort_expr,
+    CASE WHEN _direction = 'ASC' THEN '>' ELSE '<' END,
+    _cursor_type,
+    _direction
+  )
+  USING _pipeline_id, _status, _filters, _cursor, least(greatest(_limit, 1), 1000);
+END;
+$$;
@@ -0,0 +1,254 @@
+-- Tarefas de follow-up ligadas a leads (ligação, reunião, e-mail)
+CREATE TABLE public.lead_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'call' CHECK (type IN ('call', 'meeting', 'email')),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  assigned_to UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_tasks_lead_id ON public.lead_tasks(lead_id, due_at);
+CREATE INDEX idx_lead_tasks_assigned_open ON public.lead_tasks(assigned_to, due_at) WHERE completed_at IS NULL;
+
+ALTER TABLE public.lead_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Vê a tarefa quem vê o lead (RLS de leads) ou quem é responsável por ela
+CREATE POLICY "lead_tasks_select_visible_lead_or_assignee"
+ON public.lead_tasks
+FOR SELECT
+USING (
+  assigned_to = auth.uid() OR
+  EXISTS (SELECT 1 FROM public.leads l WHERE l.id = lead_tasks.lead_id)
+);
+
+CREATE POLICY "lead_tasks_insert_visible_lead"
+ON public.lead_tasks
+FOR INSERT
+WITH CHECK (
+  account_id = public.get_account_id(auth.uid()) AND
+  created_by = auth.uid() AND
+  EXISTS (SELECT 1 FROM public.leads l WHERE l.id = lead_tasks.lead_id)
+);
+
+CREATE POLICY "lead_tasks_update_owner_or_master"
+ON public.lead_tasks
+FOR UPDATE
+USING (
+  assigned_to = auth.uid() OR
+  created_by = auth.uid() OR
+  (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+);
+
+CREATE POLICY "lead_tasks_delete_creator_or_master"
+ON public.lead_tasks
+FOR DELETE
+USING (
+  created_by = auth.uid() OR
+  (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+);
+
+CREATE TRIGGER update_lead_tasks_updated_at
+BEFORE UPDATE ON public.lead_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lead_tasks;
+
+-- Próxima ação em aberto guardada no lead, para o quadro paginado não buscar tarefas à parte
+ALTER TABLE public.leads
+  ADD COLUMN next_task_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN next_task_title TEXT,
+  ADD COLUMN next_task_type TEXT;
+
+CREATE OR REPLACE FUNCTION public.refresh_lead_next_task(_lead_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.lead_tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO _task
+  FROM public.lead_tasks
+  WHERE lead_id = _lead_id AND completed_at IS NULL
+  ORDER BY due_at ASC
+  LIMIT 1;
+
+  UPDATE public.leads
+  SET next_task_at = _task.due_at,
+      next_task_title = _task.title,
+      next_task_type = _task.type
+  WHERE id = _lead_id
+    AND (next_task_at, next_task_title, next_task_type)
+      IS DISTINCT FROM (_task.due_at, _task.title, _task.type);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_lead_next_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_lead_next_task(OLD.lead_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.lead_id <> OLD.lead_id) THEN
+    PERFORM public.refresh_lead_next_task(NEW.lead_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_lead_next_task
+AFTER INSERT OR UPDATE OR DELETE ON public.lead_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_lead_next_task();
+
+-- Campos derivados (pontuação e próxima tarefa) não contam como alteração do lead:
+-- não mexem em updated_at nem entram no histórico
+CREATE OR REPLACE FUNCTION public.update_lead_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'updated_at')
+     = (to_jsonb(OLD) - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'updated_at') THEN
+    NEW.updated_at := OLD.updated_at;
+  ELSE
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+  _actor UUID;
+BEGIN
+  _new := to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at'
+    - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type';
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('old', NULL, 'new', value))
+    INTO _changes
+    FROM jsonb_each(_new)
+    WHERE value <> 'null'::jsonb;
+  ELSE
+    _old := to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at'
+      - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type';
+
+    FOR _field IN SELECT jsonb_object_keys(_new) LOOP
+      IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+        _changes := _changes || jsonb_build_object(
+          _field, jsonb_build_object('old', _old -> _field, 'new', _new -> _field)
+        );
+      END IF;
+    END LOOP;
+
+    -- Updates que só mexem em updated_at ou em campos derivados não geram histórico
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Só referencia perfis existentes; chamadas com service role ficam sem autor
+  SELECT user_id INTO _actor FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (NEW.id, lower(TG_OP), COALESCE(_changes, '{}'::jsonb), _actor);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Mesclagem de leads também leva as tarefas do duplicado
+CREATE OR REPLACE FUNCTION public.merge_leads(_survivor_id UUID, _duplicate_id UUID, _fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _survivor public.leads;
+  _duplicate public.leads;
+BEGIN
+  IF _survivor_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Selecione dois leads diferentes';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.leads WHERE id = _survivor_id;
+  SELECT * INTO _duplicate FROM public.leads WHERE id = _duplicate_id;
+
+  IF _survivor.id IS NULL OR _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF public.get_account_id(_survivor.user_id) <> public.get_account_id(_uid)
+     OR public.get_account_id(_duplicate.user_id) <> public.get_account_id(_uid) THEN
+    RAISE EXCEPTION 'Leads não pertencem à sua conta';
+  END IF;
+
+  -- Usuários comuns só mesclam leads que são seus
+  IF NOT public.has_role(_uid, 'master') AND NOT (
+    (_survivor.assigned_to = _uid OR _survivor.user_id = _uid) AND
+    (_duplicate.assigned_to = _uid OR _duplicate.user_id = _uid)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para mesclar estes leads';
+  END IF;
+
+  -- Feedback, histórico e tarefas precisam mudar de lead antes do duplicado ser removido (ON DELETE CASCADE)
+  UPDATE public.lead_feedback SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_history SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_tasks SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+
+  UPDATE public.leads SET
+    name = COALESCE(_fields ->> 'name', name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone = COALESCE(_fields ->> 'phone', phone),
+    company = COALESCE(_fields ->> 'company', company),
+    value = COALESCE((_fields ->> 'value')::NUMERIC, value),
+    source = COALESCE(_fields ->> 'source', source),
+    assigned_to = COALESCE((_fields ->> 'assigned_to')::UUID, assigned_to),
+    pipeline_id = COALESCE((_fields ->> 'pipeline_id')::UUID, pipeline_id),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = COALESCE(_fields ->> 'notes', notes),
+    tags = CASE
+      WHEN _fields ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(_fields -> 'tags'))
+      ELSE tags
+    END
+  WHERE id = _survivor_id;
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (
+    _survivor_id,
+    'merge',
+    jsonb_build_object('merged_lead', jsonb_build_object(
+      'old', jsonb_build_object('id', _duplicate.id, 'name', _duplicate.name, 'email', _duplicate.email),
+      'new', NULL
+    )),
+    _uid
+  );
+
+  DELETE FROM public.leads WHERE id = _duplicate_id;
+END;
+$$;
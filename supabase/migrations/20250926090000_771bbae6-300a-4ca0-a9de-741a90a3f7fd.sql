@@ -0,0 +1,196 @@
+-- Central de notificações: gerada só por triggers/jobs do banco, lida pelo destinatário
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('lead_assigned', 'lead_feedback', 'webhook_lead', 'task_due')),
+  title TEXT NOT NULL,
+  body TEXT,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES public.lead_tasks(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "notifications_select_own"
+ON public.notifications
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "notifications_update_own"
+ON public.notifications
+FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE POLICY "notifications_delete_own"
+ON public.notifications
+FOR DELETE
+USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Ignora destinatários sem perfil (ex.: leads antigos sem responsável válido)
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _type TEXT,
+  _title TEXT,
+  _body TEXT,
+  _lead_id UUID DEFAULT NULL,
+  _task_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, title, body, lead_id, task_id)
+  SELECT _user_id, _type, _title, _body, _lead_id, _task_id
+  FROM public.profiles
+  WHERE user_id = _user_id;
+END;
+$$;
+
+-- Clientes não criam notificações para outros usuários
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Lead atribuído a alguém (por outra pessoa) ou recebido via webhook (sem usuário autenticado)
+CREATE OR REPLACE FUNCTION public.notify_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' AND auth.uid() IS NULL THEN
+    PERFORM public.create_notification(
+      NEW.assigned_to, 'webhook_lead', 'Novo lead recebido via webhook', NEW.name, NEW.id
+    );
+
+    _account_id := public.get_account_id(NEW.assigned_to);
+    IF _account_id IS DISTINCT FROM NEW.assigned_to THEN
+      PERFORM public.create_notification(
+        _account_id, 'webhook_lead', 'Novo lead recebido via webhook', NEW.name, NEW.id
+      );
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+     AND NEW.assigned_to IS DISTINCT FROM auth.uid() THEN
+    PERFORM public.create_notification(
+      NEW.assigned_to, 'lead_assigned', 'Lead atribuído a você', NEW.name, NEW.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_lead_changes
+AFTER INSERT OR UPDATE OF assigned_to ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_lead_changes();
+
+-- Novo feedback avisa responsável e criador do lead, exceto quem escreveu
+CREATE OR REPLACE FUNCTION public.notify_lead_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lead public.leads;
+  _author TEXT;
+  _recipient UUID;
+BEGIN
+  SELECT * INTO _lead FROM public.leads WHERE id = NEW.lead_id;
+  SELECT name INTO _author FROM public.profiles WHERE user_id = NEW.user_id;
+
+  FOR _recipient IN
+    SELECT DISTINCT unnest(ARRAY[_lead.assigned_to, _lead.user_id])
+  LOOP
+    IF _recipient IS DISTINCT FROM NEW.user_id THEN
+      PERFORM public.create_notification(
+        _recipient,
+        'lead_feedback',
+        COALESCE(_author, 'Alguém') || ' comentou em ' || _lead.name,
+        left(NEW.message, 200),
+        _lead.id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_lead_feedback
+AFTER INSERT ON public.lead_feedback
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_lead_feedback();
+
+-- Tarefas vencidas: avisadas uma vez; reagendar libera um novo aviso
+ALTER TABLE public.lead_tasks ADD COLUMN due_notified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.reset_task_due_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.due_at IS DISTINCT FROM OLD.due_at THEN
+    NEW.due_notified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_task_due_notification
+BEFORE UPDATE OF due_at ON public.lead_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_task_due_notification();
+
+CREATE OR REPLACE FUNCTION public.notify_due_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _task IN
+    UPDATE public.lead_tasks t
+    SET due_notified_at = now()
+    FROM public.leads l
+    WHERE l.id = t.lead_id
+      AND t.completed_at IS NULL
+      AND t.due_notified_at IS NULL
+      AND t.due_at <= now()
+    RETURNING t.id, t.title, t.assigned_to, t.lead_id, l.name AS lead_name
+  LOOP
+    PERFORM public.create_notification(
+      _task.assigned_to, 'task_due', 'Tarefa vencendo: ' || _task.title, _task.lead_name, _task.lead_id, _task.id
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_due_tasks() FROM PUBLIC, anon, authenticated;
+
+-- Verificação periódica de tarefas vencidas
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('notify-due-tasks', '*/5 * * * *', $$SELECT public.notify_due_tasks()$$);
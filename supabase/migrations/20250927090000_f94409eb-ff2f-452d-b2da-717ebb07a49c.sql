@@ -0,0 +1,316 @@
+-- Campos personalizados de leads, definidos pelo master de cada conta
+CREATE TABLE public.custom_field_definitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'date', 'select', 'multi_select', 'boolean')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, key)
+);
+
+CREATE INDEX idx_custom_field_definitions_account ON public.custom_field_definitions(account_id, position);
+
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "custom_field_definitions_select_account"
+ON public.custom_field_definitions
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "custom_field_definitions_insert_master"
+ON public.custom_field_definitions
+FOR INSERT
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "custom_field_definitions_update_master"
+ON public.custom_field_definitions
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "custom_field_definitions_delete_master"
+ON public.custom_field_definitions
+FOR DELETE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE TRIGGER update_custom_field_definitions_updated_at
+BEFORE UPDATE ON public.custom_field_definitions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Valores por chave do campo: texto, número, data (YYYY-MM-DD), opção, lista de opções ou booleano
+ALTER TABLE public.leads ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX idx_leads_custom_fields ON public.leads USING GIN (custom_fields);
+
+-- Normaliza os valores conforme as definições da conta: descarta chaves desconhecidas e vazios,
+-- converte formatos aceitos (ex.: "1500" para número) e rejeita valores fora das opções.
+-- Obrigatoriedade é exigida nos formulários; webhook e importação aceitam leads incompletos
+CREATE OR REPLACE FUNCTION public.normalize_lead_custom_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _field public.custom_field_definitions;
+  _value JSONB;
+  _items TEXT[];
+  _result JSONB := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.custom_fields IS NOT DISTINCT FROM OLD.custom_fields THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _field IN
+    SELECT * FROM public.custom_field_definitions
+    WHERE account_id = public.get_account_id(NEW.user_id)
+  LOOP
+    _value := coalesce(NEW.custom_fields, '{}'::jsonb) -> _field.key;
+
+    CONTINUE WHEN _value IS NULL OR _value = 'null'::jsonb OR _value = '""'::jsonb OR _value = '[]'::jsonb;
+
+    BEGIN
+      CASE _field.type
+        WHEN 'text' THEN
+          _value := to_jsonb(_value #>> '{}');
+        WHEN 'number' THEN
+          _value := to_jsonb((_value #>> '{}')::numeric);
+        WHEN 'date' THEN
+          _value := to_jsonb(to_char((_value #>> '{}')::date, 'YYYY-MM-DD'));
+        WHEN 'boolean' THEN
+          _value := to_jsonb((_value #>> '{}')::boolean);
+        WHEN 'select' THEN
+          IF NOT (_value #>> '{}') = ANY (_field.options) THEN
+            RAISE EXCEPTION 'opção inexistente';
+          END IF;
+          _value := to_jsonb(_value #>> '{}');
+        WHEN 'multi_select' THEN
+          _items := CASE jsonb_typeof(_value)
+            WHEN 'array' THEN ARRAY(SELECT jsonb_array_elements_text(_value))
+            ELSE ARRAY[_value #>> '{}']
+          END;
+          IF NOT _items <@ _field.options THEN
+            RAISE EXCEPTION 'opção inexistente';
+          END IF;
+          _value := to_jsonb(_items);
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Valor inválido para o campo "%": %', _field.label, _value #>> '{}';
+    END;
+
+    _result := _result || jsonb_build_object(_field.key, _value);
+  END LOOP;
+
+  NEW.custom_fields := _result;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_lead_custom_fields
+BEFORE INSERT OR UPDATE ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_lead_custom_fields();
+
+-- Condição de filtro sobre um valor: {text}, {values} (alguma das opções) e/ou {min, max}.
+-- Datas ficam como YYYY-MM-DD, então comparar texto equivale a comparar datas
+CREATE OR REPLACE FUNCTION public.custom_field_matches(_value JSONB, _condition JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT coalesce(
+    (coalesce(_condition->>'text', '') = '' OR position(
+      unaccent(lower(_condition->>'text')) IN unaccent(lower(coalesce(_value #>> '{}', '')))
+    ) > 0)
+    AND (coalesce(jsonb_array_length(_condition->'values'), 0) = 0 OR CASE jsonb_typeof(_value)
+      WHEN 'array' THEN EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(_value) v(item)
+        WHERE v.item IN (SELECT jsonb_array_elements_text(_condition->'values'))
+      )
+      ELSE (_value #>> '{}') IN (SELECT jsonb_array_elements_text(_condition->'values'))
+    END)
+    AND (coalesce(_condition->>'min', '') = '' OR CASE jsonb_typeof(_value)
+      WHEN 'number' THEN (_value #>> '{}')::numeric >= (_condition->>'min')::numeric
+      ELSE (_value #>> '{}') >= (_condition->>'min')
+    END)
+    AND (coalesce(_condition->>'max', '') = '' OR CASE jsonb_typeof(_value)
+      WHEN 'number' THEN (_value #>> '{}')::numeric <= (_condition->>'max')::numeric
+      ELSE (_value #>> '{}') <= (_condition->>'max')
+    END),
+    false
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.lead_matches_filters(_lead public.leads, _filters JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    (coalesce(_filters->>'search', '') = '' OR position(
+      unaccent(lower(_filters->>'search')) IN unaccent(lower(concat_ws(' ',
+        _lead.name, _lead.email, _lead.phone, _lead.company, _lead.notes, _lead.source,
+        array_to_string(_lead.tags, ' ')
+      )))
+    ) > 0)
+    AND (coalesce(jsonb_array_length(_filters->'statuses'), 0) = 0
+      OR _lead.status IN (SELECT jsonb_array_elements_text(_filters->'statuses')))
+    AND (coalesce(jsonb_array_length(_filters->'assignees'), 0) = 0
+      OR _lead.assigned_to::text IN (SELECT jsonb_array_elements_text(_filters->'assignees')))
+    AND (coalesce(jsonb_array_length(_filters->'sources'), 0) = 0
+      OR _lead.source IN (SELECT jsonb_array_elements_text(_filters->'sources')))
+    AND (coalesce(jsonb_array_length(_filters->'tags'), 0) = 0
+      OR coalesce(_lead.tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(_filters->'tags')))
+    AND (coalesce(_filters->>'company', '') = ''
+      OR position(unaccent(lower(_filters->>'company')) IN unaccent(lower(coalesce(_lead.company, '')))) > 0)
+    AND (_filters->'valueMin' IS NULL OR coalesce(_lead.value, 0) >= (_filters->>'valueMin')::numeric)
+    AND (_filters->'valueMax' IS NULL OR coalesce(_lead.value, 0) <= (_filters->>'valueMax')::numeric)
+    AND (_filters->'createdFrom' IS NULL OR _lead.created_at >= (_filters->>'createdFrom')::timestamptz)
+    AND (_filters->'createdTo' IS NULL OR _lead.created_at < (_filters->>'createdTo')::timestamptz)
+    AND (_filters->'updatedFrom' IS NULL OR _lead.updated_at >= (_filters->>'updatedFrom')::timestamptz)
+    AND (_filters->'updatedTo' IS NULL OR _lead.updated_at < (_filters->>'updatedTo')::timestamptz)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(coalesce(_filters->'customFields', '{}'::jsonb)) f(key, condition)
+      WHERE NOT public.custom_field_matches(_lead.custom_fields -> f.key, f.condition)
+    );
+$$;
+
+-- Histórico registra cada campo personalizado separadamente (chave "cf:<campo>")
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+  _actor UUID;
+BEGIN
+  _new := to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at'
+    - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+  _new := _new || (
+    SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(NEW.custom_fields)
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('old', NULL, 'new', value))
+    INTO _changes
+    FROM jsonb_each(_new)
+    WHERE value <> 'null'::jsonb;
+  ELSE
+    _old := to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at'
+      - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+    _old := _old || (
+      SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(OLD.custom_fields)
+    );
+
+    -- Campos personalizados removidos também contam como alteração
+    FOR _field IN SELECT jsonb_object_keys(_new) UNION SELECT jsonb_object_keys(_old) LOOP
+      IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+        _changes := _changes || jsonb_build_object(
+          _field, jsonb_build_object('old', _old -> _field, 'new', _new -> _field)
+        );
+      END IF;
+    END LOOP;
+
+    -- Updates que só mexem em updated_at ou em campos derivados não geram histórico
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Só referencia perfis existentes; chamadas com service role ficam sem autor
+  SELECT user_id INTO _actor FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (NEW.id, lower(TG_OP), COALESCE(_changes, '{}'::jsonb), _actor);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Mesclagem preserva os campos personalizados do duplicado que o sobrevivente não tem
+CREATE OR REPLACE FUNCTION public.merge_leads(_survivor_id UUID, _duplicate_id UUID, _fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _survivor public.leads;
+  _duplicate public.leads;
+BEGIN
+  IF _survivor_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Selecione dois leads diferentes';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.leads WHERE id = _survivor_id;
+  SELECT * INTO _duplicate FROM public.leads WHERE id = _duplicate_id;
+
+  IF _survivor.id IS NULL OR _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF public.get_account_id(_survivor.user_id) <> public.get_account_id(_uid)
+     OR public.get_account_id(_duplicate.user_id) <> public.get_account_id(_uid) THEN
+    RAISE EXCEPTION 'Leads não pertencem à sua conta';
+  END IF;
+
+  -- Usuários comuns só mesclam leads que são seus
+  IF NOT public.has_role(_uid, 'master') AND NOT (
+    (_survivor.assigned_to = _uid OR _survivor.user_id = _uid) AND
+    (_duplicate.assigned_to = _uid OR _duplicate.user_id = _uid)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para mesclar estes leads';
+  END IF;
+
+  -- Feedback, histórico e tarefas precisam mudar de lead antes do duplicado ser removido (ON DELETE CASCADE)
+  UPDATE public.lead_feedback SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_history SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_tasks SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+
+  UPDATE public.leads SET
+    name = COALESCE(_fields ->> 'name', name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone = COALESCE(_fields ->> 'phone', phone),
+    company = COALESCE(_fields ->> 'company', company),
+    value = COALESCE((_fields ->> 'value')::NUMERIC, value),
+    source = COALESCE(_fields ->> 'source', source),
+    assigned_to = COALESCE((_fields ->> 'assigned_to')::UUID, assigned_to),
+    pipeline_id = COALESCE((_fields ->> 'pipeline_id')::UUID, pipeline_id),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = COALESCE(_fields ->> 'notes', notes),
+    tags = CASE
+      WHEN _fields ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(_fields -> 'tags'))
+      ELSE tags
+    END,
+    custom_fields = _duplicate.custom_fields || custom_fields || COALESCE(_fields -> 'custom_fields', '{}'::jsonb)
+  WHERE id = _survivor_id;
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (
+    _survivor_id,
+    'merge',
+    jsonb_build_object('merged_lead', jsonb_build_object(
+      'old', jsonb_build_object('id', _duplicate.id, 'name', _duplicate.name, 'email', _duplicate.email),
+      'new', NULL
+    )),
+    _uid
+  );
+
+  DELETE FROM public.leads WHERE id = _duplicate_id;
+END;
+$$;
@@ -0,0 +1,142 @@
+-- Vendas concluídas no banco (antes ficavam no localStorage de quem registrou), com vínculo ao lead de origem
+CREATE TABLE public.sales (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  customer_name TEXT NOT NULL,
+  customer_email TEXT NOT NULL DEFAULT '',
+  customer_phone TEXT NOT NULL DEFAULT '',
+  product TEXT NOT NULL,
+  value NUMERIC NOT NULL DEFAULT 0 CHECK (value >= 0),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  appointment_date TIMESTAMP WITH TIME ZONE,
+  notes TEXT NOT NULL DEFAULT '',
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sales_account_completed ON public.sales(account_id, completed_at DESC);
+CREATE INDEX idx_sales_lead_id ON public.sales(lead_id) WHERE lead_id IS NOT NULL;
+CREATE INDEX idx_sales_appointment ON public.sales(account_id, appointment_date) WHERE appointment_date IS NOT NULL;
+
+ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
+
+-- Vendedor vê as próprias vendas, master vê as da conta e quem vê o lead vê a venda dele
+CREATE POLICY "sales_select_owner_master_or_visible_lead"
+ON public.sales
+FOR SELECT
+USING (
+  account_id = public.get_account_id(auth.uid()) AND (
+    user_id = auth.uid() OR
+    public.has_role(auth.uid(), 'master') OR
+    (lead_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.leads l WHERE l.id = sales.lead_id))
+  )
+);
+
+-- Master pode registrar a venda em nome do responsável pelo lead
+CREATE POLICY "sales_insert_owner_or_master"
+ON public.sales
+FOR INSERT
+WITH CHECK (
+  account_id = public.get_account_id(auth.uid()) AND
+  public.get_account_id(user_id) = account_id AND
+  (user_id = auth.uid() OR public.has_role(auth.uid(), 'master'))
+);
+
+CREATE POLICY "sales_update_owner_or_master"
+ON public.sales
+FOR UPDATE
+USING (
+  user_id = auth.uid() OR
+  (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+);
+
+CREATE POLICY "sales_delete_owner_or_master"
+ON public.sales
+FOR DELETE
+USING (
+  user_id = auth.uid() OR
+  (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+);
+
+CREATE TRIGGER update_sales_updated_at
+BEFORE UPDATE ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ao mesclar leads, as vendas do duplicado passam para o lead mantido
+CREATE OR REPLACE FUNCTION public.merge_leads(_survivor_id UUID, _duplicate_id UUID, _fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _survivor public.leads;
+  _duplicate public.leads;
+BEGIN
+  IF _survivor_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Selecione dois leads diferentes';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.leads WHERE id = _survivor_id;
+  SELECT * INTO _duplicate FROM public.leads WHERE id = _duplicate_id;
+
+  IF _survivor.id IS NULL OR _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF public.get_account_id(_survivor.user_id) <> public.get_account_id(_uid)
+     OR public.get_account_id(_duplicate.user_id) <> public.get_account_id(_uid) THEN
+    RAISE EXCEPTION 'Leads não pertencem à sua conta';
+  END IF;
+
+  -- Usuários comuns só mesclam leads que são seus
+  IF NOT public.has_role(_uid, 'master') AND NOT (
+    (_survivor.assigned_to = _uid OR _survivor.user_id = _uid) AND
+    (_duplicate.assigned_to = _uid OR _duplicate.user_id = _uid)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para mesclar estes leads';
+  END IF;
+
+  -- Feedback, histórico, tarefas e vendas precisam mudar de lead antes do duplicado ser removido
+  UPDATE public.lead_feedback SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_history SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_tasks SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.sales SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+
+  UPDATE public.leads SET
+    name = COALESCE(_fields ->> 'name', name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone = COALESCE(_fields ->> 'phone', phone),
+    company = COALESCE(_fields ->> 'company', company),
+    value = COALESCE((_fields ->> 'value')::NUMERIC, value),
+    source = COALESCE(_fields ->> 'source', source),
+    assigned_to = COALESCE((_fields ->> 'assigned_to')::UUID, assigned_to),
+    pipeline_id = COALESCE((_fields ->> 'pipeline_id')::UUID, pipeline_id),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = COALESCE(_fields ->> 'notes', notes),
+    tags = CASE
+      WHEN _fields ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(_fields -> 'tags'))
+      ELSE tags
+    END,
+    custom_fields = _duplicate.custom_fields || custom_fields || COALESCE(_fields -> 'custom_fields', '{}'::jsonb)
+  WHERE id = _survivor_id;
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (
+    _survivor_id,
+    'merge',
+    jsonb_build_object('merged_lead', jsonb_build_object(
+      'old', jsonb_build_object('id', _duplicate.id, 'name', _duplicate.name, 'email', _duplicate.email),
+      'new', NULL
+    )),
+    _uid
+  );
+
+  DELETE FROM public.leads WHERE id = _duplicate_id;
+END;
+$$;
@@ -0,0 +1,93 @@
+-- Motivos de perda e concorrentes cadastrados pelo master da conta
+CREATE TABLE public.loss_reasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'reason' CHECK (kind IN ('reason', 'competitor')),
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, kind, name)
+);
+
+ALTER TABLE public.loss_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "loss_reasons_select_account"
+ON public.loss_reasons
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "loss_reasons_insert_master"
+ON public.loss_reasons
+FOR INSERT
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "loss_reasons_update_master"
+ON public.loss_reasons
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "loss_reasons_delete_master"
+ON public.loss_reasons
+FOR DELETE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+-- Motivo e concorrente ficam como texto no lead para o relatório não depender da lista atual
+ALTER TABLE public.leads
+  ADD COLUMN lost_reason TEXT,
+  ADD COLUMN lost_competitor TEXT,
+  ADD COLUMN lost_comment TEXT,
+  ADD COLUMN lost_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN lost_from_status TEXT,
+  ADD COLUMN reopen_justification TEXT;
+
+CREATE INDEX idx_leads_lost_at ON public.leads(lost_at) WHERE lost_at IS NOT NULL;
+
+-- Entrar numa etapa de perda exige motivo; sair dela exige justificativa (ambos vão para o histórico)
+CREATE OR REPLACE FUNCTION public.enforce_lead_loss()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _new_kind TEXT;
+  _old_kind TEXT;
+BEGIN
+  SELECT kind INTO _new_kind
+  FROM public.pipeline_stages
+  WHERE pipeline_id = NEW.pipeline_id AND key = NEW.status;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT kind INTO _old_kind
+    FROM public.pipeline_stages
+    WHERE pipeline_id = OLD.pipeline_id AND key = OLD.status;
+  END IF;
+
+  IF _new_kind = 'lost' AND _old_kind IS DISTINCT FROM 'lost' THEN
+    IF btrim(COALESCE(NEW.lost_reason, '')) = '' THEN
+      RAISE EXCEPTION 'Informe o motivo da perda';
+    END IF;
+
+    NEW.lost_at := now();
+    NEW.lost_from_status := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END;
+    NEW.reopen_justification := NULL;
+  ELSIF _old_kind = 'lost' AND _new_kind IS DISTINCT FROM 'lost' THEN
+    IF btrim(COALESCE(NEW.reopen_justification, '')) = '' THEN
+      RAISE EXCEPTION 'Informe a justificativa para reabrir o lead';
+    END IF;
+
+    NEW.lost_reason := NULL;
+    NEW.lost_competitor := NULL;
+    NEW.lost_comment := NULL;
+    NEW.lost_at := NULL;
+    NEW.lost_from_status := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_lead_loss
+BEFORE INSERT OR UPDATE OF status, pipeline_id ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_lead_loss();
@@ -0,0 +1,241 @@
+-- Regras de entrada por etapa: campos obrigatórios e checklist
+-- required_fields guarda colunas do lead (value, company, phone, email, source, tags, notes)
+-- ou campos personalizados no formato cf:<chave>
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN required_fields TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN checklist TEXT[] NOT NULL DEFAULT '{}';
+
+-- Itens de checklist concluídos pelo lead (texto do item, como configurado na etapa)
+ALTER TABLE public.leads
+  ADD COLUMN checklist_done TEXT[] NOT NULL DEFAULT '{}';
+
+-- Remoção de etapa/pipeline reorganiza leads em lote e não deve esbarrar nas regras de entrada.
+-- A flag vale só para a transação corrente e só é ligada pelas funções abaixo.
+CREATE OR REPLACE FUNCTION public.is_structural_lead_move()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(current_setting('crm.structural_move', true), '') = 'on';
+$$;
+
+-- Lista, com rótulos legíveis, o que falta no lead para entrar na etapa
+CREATE OR REPLACE FUNCTION public.lead_missing_stage_requirements(_lead public.leads, _stage public.pipeline_stages)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _field TEXT;
+  _item TEXT;
+  _value JSONB;
+  _label TEXT;
+  _missing TEXT[] := '{}';
+BEGIN
+  FOREACH _field IN ARRAY _stage.required_fields LOOP
+    IF _field LIKE 'cf:%' THEN
+      _value := _lead.custom_fields -> substring(_field FROM 4);
+      IF _value IS NULL OR _value IN ('null'::jsonb, '""'::jsonb, '[]'::jsonb, 'false'::jsonb) THEN
+        SELECT label INTO _label
+        FROM public.custom_field_definitions
+        WHERE account_id = _stage.account_id AND key = substring(_field FROM 4);
+        _missing := _missing || COALESCE(_label, substring(_field FROM 4));
+      END IF;
+    ELSIF (_field = 'value' AND COALESCE(_lead.value, 0) <= 0)
+      OR (_field = 'company' AND btrim(COALESCE(_lead.company, '')) = '')
+      OR (_field = 'phone' AND btrim(COALESCE(_lead.phone, '')) = '')
+      OR (_field = 'email' AND btrim(COALESCE(_lead.email, '')) = '')
+      OR (_field = 'source' AND btrim(COALESCE(_lead.source, '')) = '')
+      OR (_field = 'notes' AND btrim(COALESCE(_lead.notes, '')) = '')
+      OR (_field = 'tags' AND COALESCE(array_length(_lead.tags, 1), 0) = 0) THEN
+      _missing := _missing || CASE _field
+        WHEN 'value' THEN 'Valor'
+        WHEN 'company' THEN 'Empresa'
+        WHEN 'phone' THEN 'Telefone'
+        WHEN 'email' THEN 'E-mail'
+        WHEN 'source' THEN 'Fonte'
+        WHEN 'notes' THEN 'Observações'
+        WHEN 'tags' THEN 'Tags'
+      END;
+    END IF;
+  END LOOP;
+
+  FOREACH _item IN ARRAY _stage.checklist LOOP
+    IF NOT (_item = ANY(COALESCE(_lead.checklist_done, '{}'))) THEN
+      _missing := _missing || _item;
+    END IF;
+  END LOOP;
+
+  RETURN _missing;
+END;
+$$;
+
+-- Só mudanças de etapa são validadas; leads novos entram pela primeira etapa sem exigências
+CREATE OR REPLACE FUNCTION public.validate_lead_stage_requirements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _stage public.pipeline_stages%ROWTYPE;
+  _missing TEXT[];
+BEGIN
+  IF public.is_structural_lead_move()
+    OR (NEW.status = OLD.status AND NEW.pipeline_id IS NOT DISTINCT FROM OLD.pipeline_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _stage
+  FROM public.pipeline_stages
+  WHERE pipeline_id = NEW.pipeline_id AND key = NEW.status;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  _missing := public.lead_missing_stage_requirements(NEW, _stage);
+  IF COALESCE(array_length(_missing, 1), 0) > 0 THEN
+    RAISE EXCEPTION 'A etapa "%" exige: %', _stage.name, array_to_string(_missing, ', ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Nome garante que roda depois de normalize_lead_custom_fields (triggers BEFORE seguem ordem alfabética)
+CREATE TRIGGER validate_lead_stage_requirements
+BEFORE UPDATE OF status, pipeline_id ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_lead_stage_requirements();
+
+-- Perda/reabertura por reorganização do funil não pede motivo nem justificativa
+CREATE OR REPLACE FUNCTION public.enforce_lead_loss()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _new_kind TEXT;
+  _old_kind TEXT;
+BEGIN
+  SELECT kind INTO _new_kind
+  FROM public.pipeline_stages
+  WHERE pipeline_id = NEW.pipeline_id AND key = NEW.status;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT kind INTO _old_kind
+    FROM public.pipeline_stages
+    WHERE pipeline_id = OLD.pipeline_id AND key = OLD.status;
+  END IF;
+
+  IF _new_kind = 'lost' AND _old_kind IS DISTINCT FROM 'lost' THEN
+    IF btrim(COALESCE(NEW.lost_reason, '')) = '' AND NOT public.is_structural_lead_move() THEN
+      RAISE EXCEPTION 'Informe o motivo da perda';
+    END IF;
+
+    NEW.lost_at := now();
+    NEW.lost_from_status := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END;
+    NEW.reopen_justification := NULL;
+  ELSIF _old_kind = 'lost' AND _new_kind IS DISTINCT FROM 'lost' THEN
+    IF btrim(COALESCE(NEW.reopen_justification, '')) = '' AND NOT public.is_structural_lead_move() THEN
+      RAISE EXCEPTION 'Informe a justificativa para reabrir o lead';
+    END IF;
+
+    NEW.lost_reason := NULL;
+    NEW.lost_competitor := NULL;
+    NEW.lost_comment := NULL;
+    NEW.lost_at := NULL;
+    NEW.lost_from_status := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_pipeline(_pipeline_id UUID, _target_pipeline_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pipeline public.pipelines%ROWTYPE;
+  _moved INTEGER;
+BEGIN
+  SELECT * INTO _pipeline FROM public.pipelines WHERE id = _pipeline_id;
+
+  IF NOT FOUND OR _pipeline.account_id <> auth.uid() OR NOT public.has_role(auth.uid(), 'master') THEN
+    RAISE EXCEPTION 'Pipeline não encontrado ou sem permissão';
+  END IF;
+
+  IF _target_pipeline_id = _pipeline_id OR NOT EXISTS (
+    SELECT 1 FROM public.pipelines
+    WHERE id = _target_pipeline_id AND account_id = _pipeline.account_id
+  ) THEN
+    RAISE EXCEPTION 'Pipeline de destino inválido';
+  END IF;
+
+  PERFORM set_config('crm.structural_move', 'on', true);
+
+  UPDATE public.leads
+  SET status = public.map_stage_key(_pipeline_id, status, _target_pipeline_id),
+      pipeline_id = _target_pipeline_id
+  WHERE pipeline_id = _pipeline_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  PERFORM set_config('crm.structural_move', 'off', true);
+
+  IF _pipeline.is_default THEN
+    UPDATE public.pipelines SET is_default = false WHERE id = _pipeline_id;
+    UPDATE public.pipelines SET is_default = true WHERE id = _target_pipeline_id;
+  END IF;
+
+  DELETE FROM public.pipelines WHERE id = _pipeline_id;
+
+  RETURN _moved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_pipeline_stage(_stage_id UUID, _target_key TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stage public.pipeline_stages%ROWTYPE;
+  _moved INTEGER;
+BEGIN
+  SELECT * INTO _stage FROM public.pipeline_stages WHERE id = _stage_id;
+
+  IF NOT FOUND OR _stage.account_id <> auth.uid() OR NOT public.has_role(auth.uid(), 'master') THEN
+    RAISE EXCEPTION 'Etapa não encontrada ou sem permissão';
+  END IF;
+
+  IF _target_key = _stage.key OR NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE pipeline_id = _stage.pipeline_id AND key = _target_key
+  ) THEN
+    RAISE EXCEPTION 'Etapa de destino inválida';
+  END IF;
+
+  IF (SELECT count(*) FROM public.pipeline_stages WHERE pipeline_id = _stage.pipeline_id) <= 2 THEN
+    RAISE EXCEPTION 'O pipeline precisa ter pelo menos 2 etapas';
+  END IF;
+
+  PERFORM set_config('crm.structural_move', 'on', true);
+
+  UPDATE public.leads
+  SET status = _target_key
+  WHERE status = _stage.key
+    AND pipeline_id = _stage.pipeline_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  PERFORM set_config('crm.structural_move', 'off', true);
+
+  DELETE FROM public.pipeline_stages WHERE id = _stage_id;
+
+  RETURN _moved;
+END;
+$$;
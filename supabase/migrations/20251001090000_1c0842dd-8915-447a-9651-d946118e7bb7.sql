@@ -0,0 +1,150 @@
+-- Permissões por membro da equipe, concedidas pelo master da conta.
+-- Masters têm todas; membros sem linha na tabela ficam com os padrões das colunas.
+CREATE TABLE public.member_permissions (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  move_own_leads BOOLEAN NOT NULL DEFAULT true,
+  move_any_lead BOOLEAN NOT NULL DEFAULT false,
+  edit_lead_values BOOLEAN NOT NULL DEFAULT true,
+  delete_leads BOOLEAN NOT NULL DEFAULT false,
+  reassign_leads BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_member_permissions_account ON public.member_permissions(account_id);
+
+ALTER TABLE public.member_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "member_permissions_select_self_or_master"
+ON public.member_permissions
+FOR SELECT
+USING (user_id = auth.uid() OR (account_id = auth.uid() AND public.has_role(auth.uid(), 'master')));
+
+CREATE POLICY "member_permissions_insert_master"
+ON public.member_permissions
+FOR INSERT
+WITH CHECK (
+  account_id = auth.uid()
+  AND public.has_role(auth.uid(), 'master')
+  AND user_id IN (SELECT user_id FROM public.profiles WHERE master_account_id = auth.uid())
+);
+
+CREATE POLICY "member_permissions_update_master"
+ON public.member_permissions
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+WITH CHECK (
+  account_id = auth.uid()
+  AND public.has_role(auth.uid(), 'master')
+  AND user_id IN (SELECT user_id FROM public.profiles WHERE master_account_id = auth.uid())
+);
+
+CREATE POLICY "member_permissions_delete_master"
+ON public.member_permissions
+FOR DELETE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE TRIGGER update_member_permissions_updated_at
+BEFORE UPDATE ON public.member_permissions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.has_lead_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'master') OR COALESCE(
+    (
+      SELECT CASE _permission
+        WHEN 'move_own_leads' THEN move_own_leads
+        WHEN 'move_any_lead' THEN move_any_lead
+        WHEN 'edit_lead_values' THEN edit_lead_values
+        WHEN 'delete_leads' THEN delete_leads
+        WHEN 'reassign_leads' THEN reassign_leads
+        ELSE false
+      END
+      FROM public.member_permissions
+      WHERE user_id = _user_id
+    ),
+    -- Sem linha: mesmos padrões das colunas
+    _permission IN ('move_own_leads', 'edit_lead_values')
+  );
+$$;
+
+-- Quem pode mover qualquer lead precisa enxergar e alterar os leads da conta inteira
+CREATE POLICY "leads_select_move_any"
+ON public.leads
+FOR SELECT
+USING (
+  public.has_lead_permission(auth.uid(), 'move_any_lead')
+  AND public.get_account_id(user_id) = public.get_account_id(auth.uid())
+);
+
+CREATE POLICY "leads_update_move_any"
+ON public.leads
+FOR UPDATE
+USING (
+  public.has_lead_permission(auth.uid(), 'move_any_lead')
+  AND public.get_account_id(user_id) = public.get_account_id(auth.uid())
+);
+
+-- Excluir passa a depender da permissão, e não só de o lead ser da equipe
+DROP POLICY IF EXISTS "Users can delete leads from their team" ON public.leads;
+
+CREATE POLICY "leads_delete_with_permission"
+ON public.leads
+FOR DELETE
+USING (
+  public.has_lead_permission(auth.uid(), 'delete_leads')
+  AND public.get_account_id(user_id) = public.get_account_id(auth.uid())
+);
+
+-- Quem pode transferir leads precisa ver os colegas para escolher o novo responsável
+CREATE POLICY "profiles_select_account_for_reassign"
+ON public.profiles
+FOR SELECT
+USING (
+  public.has_lead_permission(auth.uid(), 'reassign_leads')
+  AND public.get_account_id(user_id) = public.get_account_id(auth.uid())
+);
+
+-- RLS não distingue colunas: etapa, valor e responsável são conferidos aqui.
+-- Chamadas sem usuário (webhook com service role) e reorganizações do funil não passam pela checagem.
+CREATE OR REPLACE FUNCTION public.enforce_lead_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+BEGIN
+  IF _uid IS NULL OR public.is_structural_lead_move() OR public.has_role(_uid, 'master') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.status IS DISTINCT FROM OLD.status OR NEW.pipeline_id IS DISTINCT FROM OLD.pipeline_id)
+    AND NOT public.has_lead_permission(_uid, 'move_any_lead')
+    AND NOT (OLD.assigned_to = _uid AND public.has_lead_permission(_uid, 'move_own_leads')) THEN
+    RAISE EXCEPTION 'Você não tem permissão para mover este lead';
+  END IF;
+
+  IF NEW.value IS DISTINCT FROM OLD.value AND NOT public.has_lead_permission(_uid, 'edit_lead_values') THEN
+    RAISE EXCEPTION 'Você não tem permissão para alterar o valor do lead';
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to AND NOT public.has_lead_permission(_uid, 'reassign_leads') THEN
+    RAISE EXCEPTION 'Você não tem permissão para transferir leads';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_lead_permissions
+BEFORE UPDATE ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_lead_permissions();
@@ -0,0 +1,195 @@
+-- Envelhecimento dos leads por etapa: quando o lead entrou na etapa atual,
+-- limite de dias parado por etapa e períodos em cada etapa para as métricas
+ALTER TABLE public.leads
+  ADD COLUMN stage_entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- NULL = etapa sem alerta de lead parado
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN rotting_days INTEGER CHECK (rotting_days > 0);
+
+-- Um período por passagem do lead por uma etapa; exited_at NULL = etapa atual.
+-- assigned_to é o responsável enquanto o lead estava na etapa (o último, se houve transferência)
+CREATE TABLE public.lead_stage_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  pipeline_id UUID NOT NULL REFERENCES public.pipelines(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  assigned_to UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  exited_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_lead_stage_periods_lead ON public.lead_stage_periods(lead_id, entered_at);
+CREATE INDEX idx_lead_stage_periods_stage ON public.lead_stage_periods(pipeline_id, status);
+CREATE UNIQUE INDEX idx_lead_stage_periods_open ON public.lead_stage_periods(lead_id) WHERE exited_at IS NULL;
+
+ALTER TABLE public.lead_stage_periods ENABLE ROW LEVEL SECURITY;
+
+-- Quem enxerga o lead enxerga seus períodos; escrita apenas pelo trigger
+CREATE POLICY "lead_stage_periods_select_visible_leads"
+ON public.lead_stage_periods
+FOR SELECT
+USING (lead_id IN (SELECT id FROM public.leads));
+
+-- Leads existentes: entrada na etapa pela última mudança de etapa registrada no histórico.
+-- Triggers desligados para não mexer em updated_at nem gerar histórico.
+ALTER TABLE public.leads DISABLE TRIGGER USER;
+
+UPDATE public.leads l
+SET stage_entered_at = COALESCE((
+  SELECT max(h.created_at)
+  FROM public.lead_history h
+  WHERE h.lead_id = l.id
+    AND (h.changes ? 'status' OR h.changes ? 'pipeline_id')
+), l.created_at);
+
+ALTER TABLE public.leads ENABLE TRIGGER USER;
+
+-- Sem histórico confiável de durações passadas: as métricas partem do período atual de cada lead
+INSERT INTO public.lead_stage_periods (lead_id, pipeline_id, status, assigned_to, entered_at)
+SELECT l.id, l.pipeline_id, l.status, p.user_id, l.stage_entered_at
+FROM public.leads l
+LEFT JOIN public.profiles p ON p.user_id = l.assigned_to;
+
+-- Mudança de etapa ou de pipeline reinicia a contagem
+CREATE OR REPLACE FUNCTION public.set_lead_stage_entered_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.pipeline_id IS DISTINCT FROM OLD.pipeline_id THEN
+    NEW.stage_entered_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_lead_stage_entered_at
+BEFORE UPDATE OF status, pipeline_id ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.set_lead_stage_entered_at();
+
+-- Fecha o período da etapa anterior e abre o da nova; transferências atualizam o período aberto
+CREATE OR REPLACE FUNCTION public.track_lead_stage_periods()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assignee UUID;
+BEGIN
+  -- Só referencia perfis existentes (leads do webhook podem vir sem responsável válido)
+  SELECT user_id INTO _assignee FROM public.profiles WHERE user_id = NEW.assigned_to;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.lead_stage_periods (lead_id, pipeline_id, status, assigned_to, entered_at)
+    VALUES (NEW.id, NEW.pipeline_id, NEW.status, _assignee, NEW.stage_entered_at);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status OR NEW.pipeline_id IS DISTINCT FROM OLD.pipeline_id THEN
+    UPDATE public.lead_stage_periods
+    SET exited_at = NEW.stage_entered_at
+    WHERE lead_id = NEW.id AND exited_at IS NULL;
+
+    INSERT INTO public.lead_stage_periods (lead_id, pipeline_id, status, assigned_to, entered_at)
+    VALUES (NEW.id, NEW.pipeline_id, NEW.status, _assignee, NEW.stage_entered_at);
+  ELSIF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    UPDATE public.lead_stage_periods
+    SET assigned_to = _assignee
+    WHERE lead_id = NEW.id AND exited_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_lead_stage_periods
+AFTER INSERT OR UPDATE OF status, pipeline_id, assigned_to ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.track_lead_stage_periods();
+
+-- Tempo médio por etapa e responsável. Roda com as permissões de quem chama (RLS dos períodos)
+CREATE OR REPLACE FUNCTION public.get_stage_time_stats(_pipeline_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  pipeline_id UUID,
+  status TEXT,
+  assigned_to UUID,
+  completed_count BIGINT,
+  completed_avg_seconds NUMERIC,
+  open_count BIGINT,
+  open_avg_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.pipeline_id,
+    p.status,
+    p.assigned_to,
+    count(*) FILTER (WHERE p.exited_at IS NOT NULL),
+    COALESCE(avg(extract(epoch FROM p.exited_at - p.entered_at)) FILTER (WHERE p.exited_at IS NOT NULL), 0),
+    count(*) FILTER (WHERE p.exited_at IS NULL),
+    COALESCE(avg(extract(epoch FROM now() - p.entered_at)) FILTER (WHERE p.exited_at IS NULL), 0)
+  FROM public.lead_stage_periods p
+  WHERE _pipeline_id IS NULL OR p.pipeline_id = _pipeline_id
+  GROUP BY p.pipeline_id, p.status, p.assigned_to;
+$$;
+
+-- stage_entered_at é derivado da etapa e não entra no histórico
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+  _actor UUID;
+BEGIN
+  _new := to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at' - 'stage_entered_at'
+    - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+  _new := _new || (
+    SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(NEW.custom_fields)
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('old', NULL, 'new', value))
+    INTO _changes
+    FROM jsonb_each(_new)
+    WHERE value <> 'null'::jsonb;
+  ELSE
+    _old := to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at' - 'stage_entered_at'
+      - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+    _old := _old || (
+      SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(OLD.custom_fields)
+    );
+
+    -- Campos personalizados removidos também contam como alteração
+    FOR _field IN SELECT jsonb_object_keys(_new) UNION SELECT jsonb_object_keys(_old) LOOP
+      IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+        _changes := _changes || jsonb_build_object(
+          _field, jsonb_build_object('old', _old -> _field, 'new', _new -> _field)
+        );
+      END IF;
+    END LOOP;
+
+    -- Updates que só mexem em updated_at ou em campos derivados não geram histórico
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Só referencia perfis existentes; chamadas com service role ficam sem autor
+  SELECT user_id INTO _actor FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (NEW.id, lower(TG_OP), COALESCE(_changes, '{}'::jsonb), _actor);
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- Raias do kanban: chave da raia de um lead conforme o agrupamento escolhido.
+-- assignee, source, tag (primeira tag do lead) ou cf:<chave> (campo de lista ou sim/não).
+-- '' = lead sem valor para o agrupamento
+CREATE OR REPLACE FUNCTION public.lead_lane_key(_lead public.leads, _group_by TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _group_by = 'assignee' THEN _lead.assigned_to::text
+    WHEN _group_by = 'source' THEN btrim(COALESCE(_lead.source, ''))
+    WHEN _group_by = 'tag' THEN COALESCE(_lead.tags[1], '')
+    WHEN _group_by LIKE 'cf:%' THEN COALESCE(_lead.custom_fields ->> substring(_group_by FROM 4), '')
+    ELSE ''
+  END;
+$$;
+
+-- Quantidade e soma de valor por raia e etapa, com os mesmos filtros da listagem
+CREATE OR REPLACE FUNCTION public.get_pipeline_lane_totals(
+  _pipeline_id UUID,
+  _group_by TEXT,
+  _filters JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (lane TEXT, status TEXT, lead_count BIGINT, total_value NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.lead_lane_key(l, _group_by), l.status, count(*), coalesce(sum(l.value), 0)
+  FROM public.leads l
+  WHERE l.pipeline_id = _pipeline_id
+    AND public.lead_matches_filters(l, coalesce(_filters, '{}'::jsonb))
+  GROUP BY 1, l.status;
+$$;
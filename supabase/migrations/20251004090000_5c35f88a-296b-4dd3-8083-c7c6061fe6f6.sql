@@ -0,0 +1,89 @@
+-- Ações em lote da lista de leads. Cada lead roda no próprio bloco de exceção:
+-- falhas (RLS, permissões, regras da etapa, motivo de perda) não desfazem os demais
+-- e voltam como linhas (lead_id, error). Roda com as permissões de quem chama.
+CREATE OR REPLACE FUNCTION public.bulk_update_leads(
+  _lead_ids UUID[],
+  _changes JSONB DEFAULT '{}'::jsonb,
+  _add_tags TEXT[] DEFAULT '{}',
+  _remove_tags TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (lead_id UUID, error TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(_changes) AS k
+    WHERE k NOT IN ('assigned_to', 'status', 'source', 'lost_reason', 'lost_competitor', 'lost_comment', 'reopen_justification')
+  ) THEN
+    RAISE EXCEPTION 'Campo não permitido em alteração em lote';
+  END IF;
+
+  FOREACH _id IN ARRAY _lead_ids LOOP
+    BEGIN
+      UPDATE public.leads l
+      SET
+        assigned_to = CASE WHEN _changes ? 'assigned_to' THEN (_changes->>'assigned_to')::uuid ELSE l.assigned_to END,
+        status = CASE WHEN _changes ? 'status' THEN _changes->>'status' ELSE l.status END,
+        source = CASE WHEN _changes ? 'source' THEN _changes->>'source' ELSE l.source END,
+        lost_reason = CASE WHEN _changes ? 'lost_reason' THEN _changes->>'lost_reason' ELSE l.lost_reason END,
+        lost_competitor = CASE WHEN _changes ? 'lost_competitor' THEN _changes->>'lost_competitor' ELSE l.lost_competitor END,
+        lost_comment = CASE WHEN _changes ? 'lost_comment' THEN _changes->>'lost_comment' ELSE l.lost_comment END,
+        reopen_justification = CASE
+          WHEN _changes ? 'reopen_justification' THEN _changes->>'reopen_justification'
+          ELSE l.reopen_justification
+        END,
+        -- Mantém a ordem das tags atuais e acrescenta as novas no fim
+        tags = CASE
+          WHEN cardinality(_add_tags) = 0 AND cardinality(_remove_tags) = 0 THEN l.tags
+          ELSE ARRAY(
+            SELECT t.tag
+            FROM unnest(COALESCE(l.tags, '{}') || _add_tags) WITH ORDINALITY AS t(tag, n)
+            WHERE NOT t.tag = ANY(_remove_tags)
+            GROUP BY t.tag
+            ORDER BY min(t.n)
+          )
+        END
+      WHERE l.id = _id;
+
+      IF NOT FOUND THEN
+        lead_id := _id;
+        error := 'Lead não encontrado ou sem permissão';
+        RETURN NEXT;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      lead_id := _id;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_delete_leads(_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, error TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  FOREACH _id IN ARRAY _lead_ids LOOP
+    BEGIN
+      DELETE FROM public.leads WHERE id = _id;
+
+      IF NOT FOUND THEN
+        lead_id := _id;
+        error := 'Lead não encontrado ou sem permissão para excluir';
+        RETURN NEXT;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      lead_id := _id;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
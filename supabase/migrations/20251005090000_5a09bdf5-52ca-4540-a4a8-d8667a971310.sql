@@ -0,0 +1,311 @@
+-- Lixeira de leads: excluir passa a marcar deleted_at. O lead some de todas as telas
+-- e o master pode restaurá-lo ou removê-lo de vez até o fim do prazo de retenção da conta
+ALTER TABLE public.leads
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE INDEX idx_leads_deleted_at ON public.leads(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Restritiva: vale junto com todas as políticas de leitura, então nenhuma consulta do app enxerga a lixeira.
+-- Histórico, tarefas, vendas e períodos por etapa filtram por "leads visíveis" e acompanham.
+-- Update e delete também precisam ler a linha, então leads na lixeira só mudam pelas funções abaixo
+CREATE POLICY "leads_hide_deleted"
+ON public.leads
+AS RESTRICTIVE
+FOR SELECT
+USING (deleted_at IS NULL);
+
+-- Configurações gerais da conta (uma linha por master; sem linha valem os padrões)
+CREATE TABLE public.account_settings (
+  account_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  trash_retention_days INTEGER NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "account_settings_select_account"
+ON public.account_settings
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "account_settings_insert_master"
+ON public.account_settings
+FOR INSERT
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "account_settings_update_master"
+ON public.account_settings
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE TRIGGER update_account_settings_updated_at
+BEFORE UPDATE ON public.account_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Exclusão em lote (e a individual, com um id só) agora manda para a lixeira.
+-- Roda como definer porque a linha deixa de ser visível no próprio update
+CREATE OR REPLACE FUNCTION public.bulk_delete_leads(_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _uid UUID := auth.uid();
+BEGIN
+  IF NOT public.has_lead_permission(_uid, 'delete_leads') THEN
+    RAISE EXCEPTION 'Você não tem permissão para excluir leads';
+  END IF;
+
+  FOREACH _id IN ARRAY _lead_ids LOOP
+    BEGIN
+      UPDATE public.leads l
+      SET deleted_at = now(), deleted_by = _uid
+      WHERE l.id = _id
+        AND l.deleted_at IS NULL
+        AND public.get_account_id(l.user_id) = public.get_account_id(_uid);
+
+      IF NOT FOUND THEN
+        lead_id := _id;
+        error := 'Lead não encontrado ou sem permissão para excluir';
+        RETURN NEXT;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      lead_id := _id;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
+
+-- Conteúdo da lixeira da conta, só para o master
+CREATE OR REPLACE FUNCTION public.get_deleted_leads()
+RETURNS SETOF public.leads
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.*
+  FROM public.leads l
+  WHERE l.deleted_at IS NOT NULL
+    AND public.has_role(auth.uid(), 'master')
+    AND public.get_account_id(l.user_id) = public.get_account_id(auth.uid())
+  ORDER BY l.deleted_at DESC
+$$;
+
+-- O master restaura qualquer lead da lixeira; quem excluiu pode desfazer a própria exclusão
+CREATE OR REPLACE FUNCTION public.restore_leads(_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  FOREACH _id IN ARRAY _lead_ids LOOP
+    UPDATE public.leads l
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE l.id = _id
+      AND l.deleted_at IS NOT NULL
+      AND public.get_account_id(l.user_id) = public.get_account_id(auth.uid())
+      AND (public.has_role(auth.uid(), 'master') OR l.deleted_by = auth.uid());
+
+    IF NOT FOUND THEN
+      lead_id := _id;
+      error := 'Lead fora da lixeira ou sem permissão para restaurar';
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Remoção definitiva (com histórico, tarefas e feedbacks); só leads que já estão na lixeira
+CREATE OR REPLACE FUNCTION public.purge_leads(_lead_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'master') THEN
+    RAISE EXCEPTION 'Apenas o administrador pode esvaziar a lixeira';
+  END IF;
+
+  DELETE FROM public.leads l
+  WHERE l.id = ANY(_lead_ids)
+    AND l.deleted_at IS NOT NULL
+    AND public.get_account_id(l.user_id) = public.get_account_id(auth.uid());
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Leads que passaram do prazo de retenção da conta saem da lixeira sozinhos
+CREATE OR REPLACE FUNCTION public.purge_expired_leads()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  DELETE FROM public.leads l
+  WHERE l.deleted_at IS NOT NULL
+    AND l.deleted_at < now() - make_interval(days => COALESCE(
+      (SELECT s.trash_retention_days FROM public.account_settings s WHERE s.account_id = public.get_account_id(l.user_id)),
+      30
+    ));
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_leads() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('purge-expired-leads', '0 3 * * *', $$SELECT public.purge_expired_leads()$$);
+
+-- O webhook busca duplicados com service role (sem RLS): leads na lixeira não contam
+CREATE OR REPLACE FUNCTION public.find_duplicate_leads(
+  _account_id UUID,
+  _email TEXT,
+  _phone TEXT,
+  _name TEXT,
+  _company TEXT DEFAULT NULL,
+  _exclude_lead_id UUID DEFAULT NULL
+)
+RETURNS TABLE (lead_id UUID, match_reason TEXT, score REAL)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT c.id, c.reason, c.score
+  FROM (
+    SELECT
+      l.id,
+      CASE
+        WHEN public.normalize_email(l.email) = public.normalize_email(_email) THEN 'email'
+        WHEN public.normalize_phone(l.phone) = public.normalize_phone(_phone) THEN 'phone'
+        ELSE 'name'
+      END AS reason,
+      CASE
+        WHEN public.normalize_email(l.email) = public.normalize_email(_email) THEN 1
+        WHEN public.normalize_phone(l.phone) = public.normalize_phone(_phone) THEN 0.9
+        ELSE public.lead_name_similarity(l.name, l.company, _name, _company)
+      END::REAL AS score
+    FROM public.leads l
+    WHERE public.get_account_id(l.user_id) = _account_id
+      AND l.deleted_at IS NULL
+      AND (_exclude_lead_id IS NULL OR l.id <> _exclude_lead_id)
+  ) c
+  WHERE c.score >= 0.6
+  ORDER BY c.score DESC
+  LIMIT 10
+$$;
+
+-- Tarefas de leads na lixeira não geram aviso de vencimento
+CREATE OR REPLACE FUNCTION public.notify_due_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _task IN
+    UPDATE public.lead_tasks t
+    SET due_notified_at = now()
+    FROM public.leads l
+    WHERE l.id = t.lead_id
+      AND l.deleted_at IS NULL
+      AND t.completed_at IS NULL
+      AND t.due_notified_at IS NULL
+      AND t.due_at <= now()
+    RETURNING t.id, t.title, t.assigned_to, t.lead_id, l.name AS lead_name
+  LOOP
+    PERFORM public.create_notification(
+      _task.assigned_to, 'task_due', 'Tarefa vencendo: ' || _task.title, _task.lead_name, _task.lead_id, _task.id
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Ida e volta da lixeira ficam registradas como entradas próprias no histórico
+ALTER TABLE public.lead_history DROP CONSTRAINT lead_history_action_check;
+ALTER TABLE public.lead_history
+  ADD CONSTRAINT lead_history_action_check CHECK (action IN ('insert', 'update', 'merge', 'delete', 'restore'));
+
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+  _actor UUID;
+  _action TEXT := lower(TG_OP);
+BEGIN
+  _new := to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at' - 'stage_entered_at' - 'deleted_at' - 'deleted_by'
+    - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+  _new := _new || (
+    SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(NEW.custom_fields)
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('old', NULL, 'new', value))
+    INTO _changes
+    FROM jsonb_each(_new)
+    WHERE value <> 'null'::jsonb;
+  ELSIF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    _action := CASE WHEN NEW.deleted_at IS NULL THEN 'restore' ELSE 'delete' END;
+  ELSE
+    _old := to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at' - 'stage_entered_at' - 'deleted_at' - 'deleted_by'
+      - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+    _old := _old || (
+      SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(OLD.custom_fields)
+    );
+
+    -- Campos personalizados removidos também contam como alteração
+    FOR _field IN SELECT jsonb_object_keys(_new) UNION SELECT jsonb_object_keys(_old) LOOP
+      IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+        _changes := _changes || jsonb_build_object(
+          _field, jsonb_build_object('old', _old -> _field, 'new', _new -> _field)
+        );
+      END IF;
+    END LOOP;
+
+    -- Updates que só mexem em updated_at ou em campos derivados não geram histórico
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Só referencia perfis existentes; chamadas com service role ficam sem autor
+  SELECT user_id INTO _actor FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (NEW.id, _action, COALESCE(_changes, '{}'::jsonb), _actor);
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,185 @@
+-- Remoção de membro da equipe sem perder dados: leads, tarefas e vendas passam para outro
+-- membro antes de o perfil sair. Conversas continuam no lead, sem autor
+ALTER TABLE public.lead_feedback
+  ALTER COLUMN user_id DROP NOT NULL,
+  DROP CONSTRAINT lead_feedback_user_id_fkey,
+  ADD CONSTRAINT lead_feedback_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+-- O que o membro tem hoje, para o master decidir antes de remover (inclui leads na lixeira)
+CREATE OR REPLACE FUNCTION public.get_member_ownership(_member_id UUID)
+RETURNS TABLE (lead_count BIGINT, task_count BIGINT, sale_count BIGINT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT count(*) FROM public.leads WHERE user_id = _member_id OR assigned_to = _member_id),
+    (SELECT count(*) FROM public.lead_tasks WHERE assigned_to = _member_id AND completed_at IS NULL),
+    (SELECT count(*) FROM public.sales WHERE user_id = _member_id)
+  WHERE public.has_role(auth.uid(), 'master')
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _member_id AND master_account_id = auth.uid());
+$$;
+
+-- Membro sendo removido por remove_team_member, se houver: o histórico do lead registra a
+-- transferência como 'transfer'. Vale só para a transação corrente
+CREATE OR REPLACE FUNCTION public.get_transferring_member()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('crm.member_transfer', true), '')::uuid;
+$$;
+
+-- Passa tudo do membro para _recipient_id (ou, se nulo, distribui em rodízio entre os demais
+-- membros) e remove o perfil. Uma única transação: ou tudo muda de dono, ou nada muda
+CREATE OR REPLACE FUNCTION public.remove_team_member(_member_id UUID, _recipient_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_id UUID := auth.uid();
+  _recipients UUID[];
+  _moved INTEGER;
+BEGIN
+  IF NOT public.has_role(_account_id, 'master')
+    OR NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _member_id AND master_account_id = _account_id) THEN
+    RAISE EXCEPTION 'Membro não encontrado ou sem permissão';
+  END IF;
+
+  IF _recipient_id IS NOT NULL THEN
+    IF _recipient_id = _member_id OR public.get_account_id(_recipient_id) IS DISTINCT FROM _account_id THEN
+      RAISE EXCEPTION 'Escolha outro membro da equipe para receber os leads';
+    END IF;
+    _recipients := ARRAY[_recipient_id];
+  ELSE
+    -- Rodízio entre os demais membros; sem nenhum, tudo fica com o master
+    SELECT COALESCE(array_agg(user_id ORDER BY created_at, user_id), ARRAY[_account_id])
+    INTO _recipients
+    FROM public.profiles
+    WHERE master_account_id = _account_id AND user_id <> _member_id;
+  END IF;
+
+  PERFORM set_config('crm.member_transfer', _member_id::text, true);
+
+  -- Cada lead vai inteiro (dono e responsável) para o mesmo destinatário
+  WITH targets AS (
+    SELECT id, _recipients[1 + (row_number() OVER (ORDER BY created_at, id) - 1) % cardinality(_recipients)] AS recipient
+    FROM public.leads
+    WHERE user_id = _member_id OR assigned_to = _member_id
+  )
+  UPDATE public.leads l
+  SET
+    user_id = CASE WHEN l.user_id = _member_id THEN t.recipient ELSE l.user_id END,
+    assigned_to = CASE WHEN l.assigned_to = _member_id THEN t.recipient ELSE l.assigned_to END
+  FROM targets t
+  WHERE l.id = t.id;
+
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  PERFORM set_config('crm.member_transfer', '', true);
+
+  -- Tarefas seguem o destinatário escolhido; no rodízio, o novo responsável pelo lead
+  UPDATE public.lead_tasks t
+  SET assigned_to = COALESCE(_recipient_id, l.assigned_to)
+  FROM public.leads l
+  WHERE l.id = t.lead_id AND t.assigned_to = _member_id;
+
+  -- Vendas acompanham o lead de origem; as avulsas também entram no rodízio
+  WITH targets AS (
+    SELECT s.id, COALESCE(
+      _recipient_id,
+      l.assigned_to,
+      _recipients[1 + (row_number() OVER (ORDER BY s.completed_at, s.id) - 1) % cardinality(_recipients)]
+    ) AS recipient
+    FROM public.sales s
+    LEFT JOIN public.leads l ON l.id = s.lead_id
+    WHERE s.user_id = _member_id
+  )
+  UPDATE public.sales s
+  SET user_id = t.recipient
+  FROM targets t
+  WHERE s.id = t.id;
+
+  DELETE FROM public.profiles WHERE user_id = _member_id;
+
+  RETURN _moved;
+END;
+$$;
+
+-- Histórico ganha a ação 'transfer' para as mudanças de dono feitas na remoção de membros
+ALTER TABLE public.lead_history DROP CONSTRAINT lead_history_action_check;
+ALTER TABLE public.lead_history
+  ADD CONSTRAINT lead_history_action_check
+  CHECK (action IN ('insert', 'update', 'merge', 'delete', 'restore', 'transfer'));
+
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changes JSONB := '{}'::jsonb;
+  _field TEXT;
+  _actor UUID;
+  _action TEXT := lower(TG_OP);
+BEGIN
+  _new := to_jsonb(NEW) - 'id' - 'created_at' - 'updated_at' - 'stage_entered_at' - 'deleted_at' - 'deleted_by'
+    - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+  _new := _new || (
+    SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(NEW.custom_fields)
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('old', NULL, 'new', value))
+    INTO _changes
+    FROM jsonb_each(_new)
+    WHERE value <> 'null'::jsonb;
+  ELSIF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    _action := CASE WHEN NEW.deleted_at IS NULL THEN 'restore' ELSE 'delete' END;
+  ELSE
+    _old := to_jsonb(OLD) - 'id' - 'created_at' - 'updated_at' - 'stage_entered_at' - 'deleted_at' - 'deleted_by'
+      - 'score' - 'next_task_at' - 'next_task_title' - 'next_task_type' - 'custom_fields';
+    _old := _old || (
+      SELECT coalesce(jsonb_object_agg('cf:' || key, value), '{}'::jsonb) FROM jsonb_each(OLD.custom_fields)
+    );
+
+    -- Campos personalizados removidos também contam como alteração
+    FOR _field IN SELECT jsonb_object_keys(_new) UNION SELECT jsonb_object_keys(_old) LOOP
+      IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+        _changes := _changes || jsonb_build_object(
+          _field, jsonb_build_object('old', _old -> _field, 'new', _new -> _field)
+        );
+      END IF;
+    END LOOP;
+
+    -- Updates que só mexem em updated_at ou em campos derivados não geram histórico
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+
+    -- O perfil ainda existe aqui; o nome fica no histórico depois que ele sai
+    IF public.get_transferring_member() IS NOT NULL THEN
+      _action := 'transfer';
+      _changes := _changes || jsonb_build_object('removed_member', jsonb_build_object(
+        'old', (SELECT name FROM public.profiles WHERE user_id = public.get_transferring_member()),
+        'new', NULL
+      ));
+    END IF;
+  END IF;
+
+  -- Só referencia perfis existentes; chamadas com service role ficam sem autor
+  SELECT user_id INTO _actor FROM public.profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (NEW.id, _action, COALESCE(_changes, '{}'::jsonb), _actor);
+
+  RETURN NEW;
+END;
+$$;
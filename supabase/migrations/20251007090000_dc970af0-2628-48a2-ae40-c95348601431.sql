@@ -0,0 +1,198 @@
+-- Distribuição automática de leads por regras configuradas pelo master da conta.
+-- Vale para todo lead inserido sem responsável: webhook, novo lead em "Automático" e importações
+
+-- 1) Membros inativos (férias, desligamento em andamento) deixam de receber leads automáticos
+ALTER TABLE public.profiles ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
+
+-- O membro pode editar o próprio perfil, mas só o master da conta muda o status
+CREATE OR REPLACE FUNCTION public.protect_profile_is_active()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_active IS DISTINCT FROM OLD.is_active
+     AND auth.uid() IS NOT NULL
+     AND auth.uid() IS DISTINCT FROM NEW.master_account_id THEN
+    RAISE EXCEPTION 'Apenas o administrador da conta pode ativar ou desativar membros';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_is_active
+BEFORE UPDATE OF is_active ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_is_active();
+
+CREATE OR REPLACE FUNCTION public.set_member_active(_member_id UUID, _active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET is_active = _active
+  WHERE user_id = _member_id
+    AND master_account_id = auth.uid()
+    AND public.has_role(auth.uid(), 'master');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membro não encontrado ou sem permissão';
+  END IF;
+END;
+$$;
+
+-- 2) Regras em ordem: a primeira que casa com o lead e tem alguém ativo para receber decide.
+-- conditions usa o mesmo formato dos filtros do quadro (fontes, tags, faixa de valor e campos personalizados)
+CREATE TABLE public.lead_assignment_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(conditions) = 'object'),
+  strategy TEXT NOT NULL CHECK (strategy IN ('user', 'round_robin', 'least_open', 'weighted')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_assignment_rules_account_id ON public.lead_assignment_rules(account_id, position);
+
+-- Quem recebe os leads de cada regra; contadores guardam a vez do rodízio e a parte de cada um
+CREATE TABLE public.lead_assignment_rule_members (
+  rule_id UUID NOT NULL REFERENCES public.lead_assignment_rules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight BETWEEN 1 AND 100),
+  position INTEGER NOT NULL DEFAULT 0,
+  assigned_count INTEGER NOT NULL DEFAULT 0,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (rule_id, user_id)
+);
+
+CREATE INDEX idx_lead_assignment_rule_members_user_id ON public.lead_assignment_rule_members(user_id);
+
+ALTER TABLE public.lead_assignment_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_assignment_rule_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "lead_assignment_rules_select_account"
+ON public.lead_assignment_rules
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "lead_assignment_rules_insert_master"
+ON public.lead_assignment_rules
+FOR INSERT
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "lead_assignment_rules_update_master"
+ON public.lead_assignment_rules
+FOR UPDATE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+WITH CHECK (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "lead_assignment_rules_delete_master"
+ON public.lead_assignment_rules
+FOR DELETE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE POLICY "lead_assignment_rule_members_select_account"
+ON public.lead_assignment_rule_members
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.lead_assignment_rules r
+  WHERE r.id = rule_id AND r.account_id = public.get_account_id(auth.uid())
+));
+
+-- Destinatários precisam ser da própria conta (o master ou um membro dele)
+CREATE POLICY "lead_assignment_rule_members_insert_master"
+ON public.lead_assignment_rule_members
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.lead_assignment_rules r
+    WHERE r.id = rule_id AND r.account_id = auth.uid() AND public.has_role(auth.uid(), 'master')
+  )
+  AND public.get_account_id(user_id) = auth.uid()
+);
+
+CREATE POLICY "lead_assignment_rule_members_delete_master"
+ON public.lead_assignment_rule_members
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.lead_assignment_rules r
+  WHERE r.id = rule_id AND r.account_id = auth.uid() AND public.has_role(auth.uid(), 'master')
+));
+
+CREATE TRIGGER update_lead_assignment_rules_updated_at
+BEFORE UPDATE ON public.lead_assignment_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3) Escolhe o responsável de leads inseridos sem assigned_to. Roda depois de
+-- normalize_lead_custom_fields (ordem alfabética) para comparar os campos já convertidos.
+-- Sem regra aplicável, o lead fica com quem o criou
+CREATE OR REPLACE FUNCTION public.assign_lead_by_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule RECORD;
+  _member UUID;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _rule IN
+    SELECT r.id, r.strategy, r.conditions
+    FROM public.lead_assignment_rules r
+    WHERE r.account_id = public.get_account_id(NEW.user_id)
+      AND r.is_active
+    ORDER BY r.position, r.created_at
+  LOOP
+    CONTINUE WHEN NOT public.lead_matches_filters(NEW, _rule.conditions);
+
+    -- Inserções simultâneas (importação, webhooks em rajada) esperam a vez na mesma regra
+    PERFORM 1 FROM public.lead_assignment_rules WHERE id = _rule.id FOR UPDATE;
+
+    SELECT m.user_id INTO _member
+    FROM public.lead_assignment_rule_members m
+    JOIN public.profiles p ON p.user_id = m.user_id AND p.is_active
+    WHERE m.rule_id = _rule.id
+    ORDER BY
+      CASE WHEN _rule.strategy = 'least_open' THEN (
+        SELECT count(*)
+        FROM public.leads l
+        JOIN public.pipeline_stages s ON s.pipeline_id = l.pipeline_id AND s.key = l.status
+        WHERE l.assigned_to = m.user_id AND s.kind = 'open' AND l.deleted_at IS NULL
+      ) END,
+      CASE WHEN _rule.strategy = 'weighted' THEN (m.assigned_count + 1)::numeric / m.weight END,
+      -- Rodízio: quem recebeu há mais tempo (ou nunca) é o próximo; também desempata as demais
+      m.last_assigned_at NULLS FIRST,
+      m.position
+    LIMIT 1;
+
+    IF _member IS NOT NULL THEN
+      -- clock_timestamp: numa importação todas as linhas estão na mesma transação
+      UPDATE public.lead_assignment_rule_members
+      SET assigned_count = assigned_count + 1, last_assigned_at = clock_timestamp()
+      WHERE rule_id = _rule.id AND user_id = _member;
+
+      NEW.assigned_to := _member;
+      RETURN NEW;
+    END IF;
+  END LOOP;
+
+  NEW.assigned_to := NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leads_assignee
+BEFORE INSERT ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_lead_by_rules();
@@ -0,0 +1,240 @@
+-- Empresas (contas de clientes): vários contatos da mesma empresa passam a ficar agrupados.
+-- Leads e vendas apontam para a empresa; o vínculo é automático pelo domínio do e-mail corporativo
+
+-- 1) Empresas da conta
+CREATE TABLE public.companies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  domain TEXT,
+  cnpj TEXT CHECK (cnpj ~ '^[0-9]{14}$'),
+  segment TEXT,
+  size TEXT CHECK (size IN ('1-10', '11-50', '51-200', '201-500', '501-1000', '1000+')),
+  address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Um domínio e um CNPJ identificam uma única empresa dentro da conta
+CREATE UNIQUE INDEX idx_companies_account_domain ON public.companies(account_id, domain) WHERE domain IS NOT NULL;
+CREATE UNIQUE INDEX idx_companies_account_cnpj ON public.companies(account_id, cnpj) WHERE cnpj IS NOT NULL;
+CREATE INDEX idx_companies_account_name ON public.companies(account_id, name);
+
+ALTER TABLE public.companies ENABLE ROW LEVEL SECURITY;
+
+-- Toda a equipe consulta e cadastra empresas; remover fica com o master
+CREATE POLICY "companies_select_account"
+ON public.companies
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "companies_insert_account"
+ON public.companies
+FOR INSERT
+WITH CHECK (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "companies_update_account"
+ON public.companies
+FOR UPDATE
+USING (account_id = public.get_account_id(auth.uid()))
+WITH CHECK (account_id = public.get_account_id(auth.uid()));
+
+CREATE POLICY "companies_delete_master"
+ON public.companies
+FOR DELETE
+USING (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'));
+
+CREATE TRIGGER update_companies_updated_at
+BEFORE UPDATE ON public.companies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Domínio da empresa a partir de um e-mail; provedores gratuitos não identificam empresa
+CREATE OR REPLACE FUNCTION public.get_email_company_domain(_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(lower(btrim(split_part(coalesce(_email, ''), '@', 2))), '')
+  WHERE NOT public.is_free_email_domain(btrim(coalesce(_email, '')));
+$$;
+
+-- Domínio aceita URL ou e-mail colado ("https://www.acme.com.br/contato" vira "acme.com.br"); CNPJ só com dígitos
+CREATE OR REPLACE FUNCTION public.normalize_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.name := btrim(NEW.name);
+  NEW.domain := NULLIF(
+    regexp_replace(
+      regexp_replace(lower(btrim(coalesce(NEW.domain, ''))), '^([a-z]+://)?([^@/]*@)?(www\.)?', ''),
+      '[/?#:].*$', ''
+    ),
+    ''
+  );
+  NEW.cnpj := NULLIF(regexp_replace(coalesce(NEW.cnpj, ''), '[^0-9]', '', 'g'), '');
+  NEW.segment := NULLIF(btrim(coalesce(NEW.segment, '')), '');
+  NEW.address := NULLIF(btrim(coalesce(NEW.address, '')), '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_companies
+BEFORE INSERT OR UPDATE ON public.companies
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_company();
+
+-- 2) Vínculo de leads e vendas. Remover a empresa só desfaz o vínculo
+ALTER TABLE public.leads ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL;
+ALTER TABLE public.sales ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_leads_company_id ON public.leads(company_id) WHERE company_id IS NOT NULL;
+CREATE INDEX idx_sales_company_id ON public.sales(company_id) WHERE company_id IS NOT NULL;
+
+-- Lead novo (ou com e-mail trocado) sem empresa escolhida: procura a empresa pelo domínio do e-mail.
+-- Sem empresa cadastrada para o domínio, cria uma com o nome digitado no campo "Empresa".
+-- Desvincular à mão (company_id de volta a NULL) é respeitado
+CREATE OR REPLACE FUNCTION public.link_lead_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_id UUID;
+  _domain TEXT;
+BEGIN
+  IF NEW.company_id IS NULL
+     AND (TG_OP = 'INSERT' OR (OLD.company_id IS NULL AND NEW.email IS DISTINCT FROM OLD.email)) THEN
+    _domain := public.get_email_company_domain(NEW.email);
+    _account_id := public.get_account_id(NEW.user_id);
+
+    IF _domain IS NOT NULL AND _account_id IS NOT NULL THEN
+      SELECT id INTO NEW.company_id
+      FROM public.companies
+      WHERE account_id = _account_id AND domain = _domain;
+
+      IF NEW.company_id IS NULL AND btrim(coalesce(NEW.company, '')) <> '' THEN
+        INSERT INTO public.companies (account_id, name, domain)
+        VALUES (_account_id, NEW.company, _domain)
+        ON CONFLICT (account_id, domain) WHERE domain IS NOT NULL
+        DO UPDATE SET domain = EXCLUDED.domain
+        RETURNING id INTO NEW.company_id;
+      END IF;
+    END IF;
+  END IF;
+
+  -- O texto livre acompanha a empresa vinculada quando estiver vazio
+  IF NEW.company_id IS NOT NULL AND btrim(coalesce(NEW.company, '')) = '' THEN
+    SELECT name INTO NEW.company FROM public.companies WHERE id = NEW.company_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_leads_company
+BEFORE INSERT OR UPDATE OF email, company_id ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.link_lead_company();
+
+-- Venda herda a empresa do lead; venda avulsa usa o domínio do e-mail do cliente (sem criar empresa)
+CREATE OR REPLACE FUNCTION public.link_sale_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.company_id IS NULL AND NEW.lead_id IS NOT NULL THEN
+    SELECT company_id INTO NEW.company_id FROM public.leads WHERE id = NEW.lead_id;
+  END IF;
+
+  IF NEW.company_id IS NULL THEN
+    SELECT id INTO NEW.company_id
+    FROM public.companies
+    WHERE account_id = NEW.account_id
+      AND domain = public.get_email_company_domain(NEW.customer_email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_sales_company
+BEFORE INSERT ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.link_sale_company();
+
+-- Empresa cadastrada (ou com domínio corrigido) recolhe os leads e vendas ainda sem empresa daquele domínio
+CREATE OR REPLACE FUNCTION public.link_company_contacts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.domain IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.leads
+  SET company_id = NEW.id
+  WHERE company_id IS NULL
+    AND public.get_account_id(user_id) = NEW.account_id
+    AND public.get_email_company_domain(email) = NEW.domain;
+
+  UPDATE public.sales
+  SET company_id = NEW.id
+  WHERE company_id IS NULL
+    AND account_id = NEW.account_id
+    AND public.get_email_company_domain(customer_email) = NEW.domain;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_companies_contacts
+AFTER INSERT OR UPDATE OF domain ON public.companies
+FOR EACH ROW
+EXECUTE FUNCTION public.link_company_contacts();
+
+-- 3) Dados existentes: uma empresa por domínio corporativo que já tenha nome informado em algum lead.
+-- Vínculos feitos com os triggers desligados para não gerar histórico nem mexer em updated_at
+ALTER TABLE public.companies DISABLE TRIGGER link_companies_contacts;
+
+INSERT INTO public.companies (account_id, name, domain)
+SELECT public.get_account_id(l.user_id),
+       mode() WITHIN GROUP (ORDER BY btrim(l.company)),
+       public.get_email_company_domain(l.email)
+FROM public.leads l
+WHERE public.get_email_company_domain(l.email) IS NOT NULL
+  AND public.get_account_id(l.user_id) IS NOT NULL
+  AND btrim(coalesce(l.company, '')) <> ''
+GROUP BY 1, 3;
+
+ALTER TABLE public.companies ENABLE TRIGGER link_companies_contacts;
+
+ALTER TABLE public.leads DISABLE TRIGGER USER;
+
+UPDATE public.leads l
+SET company_id = c.id
+FROM public.companies c
+WHERE c.account_id = public.get_account_id(l.user_id)
+  AND c.domain = public.get_email_company_domain(l.email);
+
+ALTER TABLE public.leads ENABLE TRIGGER USER;
+
+ALTER TABLE public.sales DISABLE TRIGGER USER;
+
+UPDATE public.sales s
+SET company_id = COALESCE(
+  (SELECT l.company_id FROM public.leads l WHERE l.id = s.lead_id),
+  (SELECT c.id FROM public.companies c
+   WHERE c.account_id = s.account_id AND c.domain = public.get_email_company_domain(s.customer_email))
+);
+
+ALTER TABLE public.sales ENABLE TRIGGER USER;
@@ -0,0 +1,125 @@
+-- Lixeira no realtime: excluir é um UPDATE que deixa a linha fora de leads_hide_deleted,
+-- e o realtime confere a política na linha nova, então quem está com o quadro aberto não recebia
+-- evento nenhum. Cada exclusão ou restauração registra aqui os ids afetados, visíveis para a conta
+CREATE TABLE public.lead_trash_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('delete', 'restore')),
+  lead_ids UUID[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_trash_events_created_at ON public.lead_trash_events(created_at);
+
+ALTER TABLE public.lead_trash_events ENABLE ROW LEVEL SECURITY;
+
+-- Escrita apenas pelas funções da lixeira
+CREATE POLICY "lead_trash_events_select_account"
+ON public.lead_trash_events
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lead_trash_events;
+
+CREATE OR REPLACE FUNCTION public.bulk_delete_leads(_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _uid UUID := auth.uid();
+  _deleted UUID[] := '{}';
+BEGIN
+  IF NOT public.has_lead_permission(_uid, 'delete_leads') THEN
+    RAISE EXCEPTION 'Você não tem permissão para excluir leads';
+  END IF;
+
+  FOREACH _id IN ARRAY _lead_ids LOOP
+    BEGIN
+      UPDATE public.leads l
+      SET deleted_at = now(), deleted_by = _uid
+      WHERE l.id = _id
+        AND l.deleted_at IS NULL
+        AND public.get_account_id(l.user_id) = public.get_account_id(_uid);
+
+      IF FOUND THEN
+        _deleted := _deleted || _id;
+      ELSE
+        lead_id := _id;
+        error := 'Lead não encontrado ou sem permissão para excluir';
+        RETURN NEXT;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      lead_id := _id;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+
+  IF cardinality(_deleted) > 0 THEN
+    INSERT INTO public.lead_trash_events (account_id, action, lead_ids)
+    VALUES (public.get_account_id(_uid), 'delete', _deleted);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_leads(_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _restored UUID[] := '{}';
+BEGIN
+  FOREACH _id IN ARRAY _lead_ids LOOP
+    UPDATE public.leads l
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE l.id = _id
+      AND l.deleted_at IS NOT NULL
+      AND public.get_account_id(l.user_id) = public.get_account_id(auth.uid())
+      AND (public.has_role(auth.uid(), 'master') OR l.deleted_by = auth.uid());
+
+    IF FOUND THEN
+      _restored := _restored || _id;
+    ELSE
+      lead_id := _id;
+      error := 'Lead fora da lixeira ou sem permissão para restaurar';
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+
+  IF cardinality(_restored) > 0 THEN
+    INSERT INTO public.lead_trash_events (account_id, action, lead_ids)
+    VALUES (public.get_account_id(auth.uid()), 'restore', _restored);
+  END IF;
+END;
+$$;
+
+-- Os eventos só servem para quem está conectado; a limpeza diária da lixeira descarta os antigos
+CREATE OR REPLACE FUNCTION public.purge_expired_leads()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  DELETE FROM public.leads l
+  WHERE l.deleted_at IS NOT NULL
+    AND l.deleted_at < now() - make_interval(days => COALESCE(
+      (SELECT s.trash_retention_days FROM public.account_settings s WHERE s.account_id = public.get_account_id(l.user_id)),
+      30
+    ));
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  DELETE FROM public.lead_trash_events WHERE created_at < now() - interval '1 day';
+
+  RETURN _count;
+END;
+$$;
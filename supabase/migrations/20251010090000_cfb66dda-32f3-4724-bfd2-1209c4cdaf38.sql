@@ -0,0 +1,88 @@
+-- Mesclar também passa pela lixeira: o duplicado é marcado como excluído em vez de apagado,
+-- então vale a mesma permissão de excluir, dá para restaurar e a retenção da conta se aplica
+CREATE OR REPLACE FUNCTION public.merge_leads(_survivor_id UUID, _duplicate_id UUID, _fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _survivor public.leads;
+  _duplicate public.leads;
+BEGIN
+  IF _survivor_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Selecione dois leads diferentes';
+  END IF;
+
+  IF NOT public.has_lead_permission(_uid, 'delete_leads') THEN
+    RAISE EXCEPTION 'Você não tem permissão para excluir leads';
+  END IF;
+
+  SELECT * INTO _survivor FROM public.leads WHERE id = _survivor_id;
+  SELECT * INTO _duplicate FROM public.leads WHERE id = _duplicate_id;
+
+  IF _survivor.id IS NULL OR _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF _survivor.deleted_at IS NOT NULL OR _duplicate.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Leads na lixeira não podem ser mesclados';
+  END IF;
+
+  IF public.get_account_id(_survivor.user_id) <> public.get_account_id(_uid)
+     OR public.get_account_id(_duplicate.user_id) <> public.get_account_id(_uid) THEN
+    RAISE EXCEPTION 'Leads não pertencem à sua conta';
+  END IF;
+
+  -- Usuários comuns só mesclam leads que são seus
+  IF NOT public.has_role(_uid, 'master') AND NOT (
+    (_survivor.assigned_to = _uid OR _survivor.user_id = _uid) AND
+    (_duplicate.assigned_to = _uid OR _duplicate.user_id = _uid)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para mesclar estes leads';
+  END IF;
+
+  -- Feedback, histórico, tarefas e vendas passam para o lead mantido antes do duplicado ir para a lixeira
+  UPDATE public.lead_feedback SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_history SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.lead_tasks SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+  UPDATE public.sales SET lead_id = _survivor_id WHERE lead_id = _duplicate_id;
+
+  UPDATE public.leads SET
+    name = COALESCE(_fields ->> 'name', name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone = COALESCE(_fields ->> 'phone', phone),
+    company = COALESCE(_fields ->> 'company', company),
+    value = COALESCE((_fields ->> 'value')::NUMERIC, value),
+    source = COALESCE(_fields ->> 'source', source),
+    assigned_to = COALESCE((_fields ->> 'assigned_to')::UUID, assigned_to),
+    pipeline_id = COALESCE((_fields ->> 'pipeline_id')::UUID, pipeline_id),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = COALESCE(_fields ->> 'notes', notes),
+    tags = CASE
+      WHEN _fields ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(_fields -> 'tags'))
+      ELSE tags
+    END,
+    custom_fields = _duplicate.custom_fields || custom_fields || COALESCE(_fields -> 'custom_fields', '{}'::jsonb)
+  WHERE id = _survivor_id;
+
+  INSERT INTO public.lead_history (lead_id, action, changes, changed_by)
+  VALUES (
+    _survivor_id,
+    'merge',
+    jsonb_build_object('merged_lead', jsonb_build_object(
+      'old', jsonb_build_object('id', _duplicate.id, 'name', _duplicate.name, 'email', _duplicate.email),
+      'new', NULL
+    )),
+    _uid
+  );
+
+  UPDATE public.leads
+  SET deleted_at = now(), deleted_by = _uid
+  WHERE id = _duplicate_id;
+
+  INSERT INTO public.lead_trash_events (account_id, action, lead_ids)
+  VALUES (public.get_account_id(_uid), 'delete', ARRAY[_duplicate_id]);
+END;
+$$;
@@ -0,0 +1,41 @@
+-- Vínculo automático de empresas sem varrer os leads de todas as contas: o domínio do e-mail
+-- dos leads e vendas ainda sem empresa fica indexado e a conta é resolvida pelos perfis dela
+CREATE INDEX idx_leads_unlinked_email_domain
+ON public.leads (public.get_email_company_domain(email))
+WHERE company_id IS NULL;
+
+CREATE INDEX idx_sales_unlinked_email_domain
+ON public.sales (account_id, public.get_email_company_domain(customer_email))
+WHERE company_id IS NULL;
+
+CREATE INDEX idx_profiles_master_account_id ON public.profiles(master_account_id);
+
+CREATE OR REPLACE FUNCTION public.link_company_contacts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.domain IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mesma expressão do índice; o dono do lead é o master ou um membro da conta
+  UPDATE public.leads l
+  SET company_id = NEW.id
+  FROM public.profiles p
+  WHERE p.user_id = l.user_id
+    AND (p.user_id = NEW.account_id OR p.master_account_id = NEW.account_id)
+    AND l.company_id IS NULL
+    AND public.get_email_company_domain(l.email) = NEW.domain;
+
+  UPDATE public.sales s
+  SET company_id = NEW.id
+  WHERE s.company_id IS NULL
+    AND s.account_id = NEW.account_id
+    AND public.get_email_company_domain(s.customer_email) = NEW.domain;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,89 @@
+-- A chave estrangeira não olha a conta: sem esta checagem, um company_id de outra conta seria aceito
+-- e o trigger (definer) copiaria o nome daquela empresa para o lead
+CREATE OR REPLACE FUNCTION public.link_lead_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_id UUID := public.get_account_id(NEW.user_id);
+  _domain TEXT;
+BEGIN
+  IF NEW.company_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.company_id IS DISTINCT FROM OLD.company_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.companies WHERE id = NEW.company_id AND account_id = _account_id
+     ) THEN
+    RAISE EXCEPTION 'Empresa não encontrada nesta conta';
+  END IF;
+
+  IF NEW.company_id IS NULL
+     AND (TG_OP = 'INSERT' OR (OLD.company_id IS NULL AND NEW.email IS DISTINCT FROM OLD.email)) THEN
+    _domain := public.get_email_company_domain(NEW.email);
+
+    IF _domain IS NOT NULL AND _account_id IS NOT NULL THEN
+      SELECT id INTO NEW.company_id
+      FROM public.companies
+      WHERE account_id = _account_id AND domain = _domain;
+
+      IF NEW.company_id IS NULL AND btrim(coalesce(NEW.company, '')) <> '' THEN
+        INSERT INTO public.companies (account_id, name, domain)
+        VALUES (_account_id, NEW.company, _domain)
+        ON CONFLICT (account_id, domain) WHERE domain IS NOT NULL
+        DO UPDATE SET domain = EXCLUDED.domain
+        RETURNING id INTO NEW.company_id;
+      END IF;
+    END IF;
+  END IF;
+
+  -- O texto livre acompanha a empresa vinculada quando estiver vazio
+  IF NEW.company_id IS NOT NULL AND btrim(coalesce(NEW.company, '')) = '' THEN
+    SELECT name INTO NEW.company FROM public.companies WHERE id = NEW.company_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Vendas: a mesma checagem vale para a empresa escolhida na inserção ou trocada depois
+CREATE OR REPLACE FUNCTION public.link_sale_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.company_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.company_id IS DISTINCT FROM OLD.company_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.companies WHERE id = NEW.company_id AND account_id = NEW.account_id
+     ) THEN
+    RAISE EXCEPTION 'Empresa não encontrada nesta conta';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.company_id IS NULL AND NEW.lead_id IS NOT NULL THEN
+    SELECT company_id INTO NEW.company_id FROM public.leads WHERE id = NEW.lead_id;
+  END IF;
+
+  IF NEW.company_id IS NULL THEN
+    SELECT id INTO NEW.company_id
+    FROM public.companies
+    WHERE account_id = NEW.account_id
+      AND domain = public.get_email_company_domain(NEW.customer_email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER link_sales_company ON public.sales;
+
+CREATE TRIGGER link_sales_company
+BEFORE INSERT OR UPDATE OF company_id ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.link_sale_company();
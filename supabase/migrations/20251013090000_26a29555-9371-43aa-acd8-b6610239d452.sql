@@ -0,0 +1,76 @@
+-- Varredura de duplicados sem comparar todos os pares da conta: candidatos vêm de igualdade
+-- no e-mail e no telefone normalizados e do operador % (trigram, indexado) no nome + empresa.
+-- A similaridade completa só é calculada para esses candidatos
+
+-- Mesmo texto comparado por lead_name_similarity, exposto para o índice trigram
+CREATE OR REPLACE FUNCTION public.lead_name_key(_name TEXT, _company TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT lower(btrim(COALESCE(_name, '') || ' ' || COALESCE(_company, '')))
+$$;
+
+CREATE INDEX idx_leads_name_key_trgm
+ON public.leads USING gin (public.lead_name_key(name, company) extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.find_duplicate_lead_pairs()
+RETURNS TABLE (lead_id UUID, duplicate_id UUID, match_reason TEXT, score REAL)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+-- Mesmo corte de score usado abaixo, aplicado já na busca pelo índice
+SET pg_trgm.similarity_threshold = 0.6
+AS $$
+  WITH account_leads AS MATERIALIZED (
+    SELECT
+      l.id,
+      public.normalize_email(l.email) AS email_key,
+      public.normalize_phone(l.phone) AS phone_key,
+      public.lead_name_key(l.name, l.company) AS name_key
+    FROM public.leads l
+    WHERE l.deleted_at IS NULL
+      AND l.user_id IN (
+        SELECT p.user_id
+        FROM public.profiles p
+        WHERE p.user_id = public.get_account_id(auth.uid())
+           OR p.master_account_id = public.get_account_id(auth.uid())
+      )
+  ),
+  candidates AS (
+    SELECT a.id AS a_id, b.id AS b_id
+    FROM account_leads a
+    JOIN account_leads b ON b.email_key = a.email_key AND a.id < b.id
+    UNION
+    SELECT a.id, b.id
+    FROM account_leads a
+    JOIN account_leads b ON b.phone_key = a.phone_key AND a.id < b.id
+    UNION
+    SELECT a.id, b.id
+    FROM account_leads a
+    JOIN public.leads b ON public.lead_name_key(b.name, b.company) % a.name_key AND a.id < b.id
+    WHERE b.id IN (SELECT id FROM account_leads)
+  )
+  SELECT s.a_id, s.b_id, s.reason, s.score
+  FROM (
+    SELECT
+      c.a_id,
+      c.b_id,
+      CASE
+        WHEN a.email_key = b.email_key THEN 'email'
+        WHEN a.phone_key = b.phone_key THEN 'phone'
+        ELSE 'name'
+      END AS reason,
+      CASE
+        WHEN a.email_key = b.email_key THEN 1
+        WHEN a.phone_key = b.phone_key THEN 0.9
+        ELSE similarity(a.name_key, b.name_key)
+      END::REAL AS score
+    FROM candidates c
+    JOIN account_leads a ON a.id = c.a_id
+    JOIN account_leads b ON b.id = c.b_id
+  ) s
+  WHERE s.score >= 0.6
+  ORDER BY s.score DESC
+  LIMIT 200
+$$;
@@ -0,0 +1,53 @@
+-- Recalcular a pontuação da conta é tarefa do master; regras de tempo passam a ser atualizadas toda noite
+
+-- Chamada sem usuário (triggers de sistema, cron) continua liberada
+CREATE OR REPLACE FUNCTION public.recalculate_lead_scores(_account_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT (_account_id = auth.uid() AND public.has_role(auth.uid(), 'master')) THEN
+    RAISE EXCEPTION 'Sem permissão para recalcular a pontuação desta conta';
+  END IF;
+
+  UPDATE public.leads l
+  SET score = public.calculate_lead_score(l)
+  WHERE public.get_account_id(l.user_id) = _account_id
+    AND l.score IS DISTINCT FROM public.calculate_lead_score(l);
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+-- "Último contato" envelhece sem alteração no lead: recalcula as contas que têm regras desse tipo
+CREATE OR REPLACE FUNCTION public.recalculate_time_based_scores()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_id UUID;
+  _total INTEGER := 0;
+BEGIN
+  FOR _account_id IN
+    SELECT DISTINCT account_id
+    FROM public.lead_scoring_rules
+    WHERE is_active AND field = 'last_contact'
+  LOOP
+    _total := _total + public.recalculate_lead_scores(_account_id);
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_time_based_scores() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('recalculate-time-based-scores', '0 4 * * *', $$SELECT public.recalculate_time_based_scores()$$);
@@ -0,0 +1,62 @@
+-- Ações em lote avisam o início e o fim por aqui: quem está com o quadro aberto ignora os eventos
+-- de cada lead enquanto o lote roda e recarrega uma única vez quando ele termina
+CREATE TABLE public.lead_bulk_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'done')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_lead_bulk_jobs_account_created_at ON public.lead_bulk_jobs(account_id, created_at);
+
+ALTER TABLE public.lead_bulk_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Escrita apenas pelas funções abaixo
+CREATE POLICY "lead_bulk_jobs_select_account"
+ON public.lead_bulk_jobs
+FOR SELECT
+USING (account_id = public.get_account_id(auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lead_bulk_jobs;
+
+-- Abre um lote da conta do usuário; lotes de mais de um dia são descartados aqui mesmo
+CREATE OR REPLACE FUNCTION public.start_lead_bulk_job()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _account_id UUID := public.get_account_id(auth.uid());
+  _job_id UUID;
+BEGIN
+  IF _account_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário sem conta';
+  END IF;
+
+  DELETE FROM public.lead_bulk_jobs
+  WHERE account_id = _account_id AND created_at < now() - interval '1 day';
+
+  INSERT INTO public.lead_bulk_jobs (account_id, created_by)
+  VALUES (_account_id, _uid)
+  RETURNING id INTO _job_id;
+
+  RETURN _job_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finish_lead_bulk_job(_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.lead_bulk_jobs
+  SET status = 'done', finished_at = now()
+  WHERE id = _job_id AND created_by = auth.uid() AND status = 'running';
+END;
+$$;
@@ -0,0 +1,143 @@
+-- Remoção de membro: o rodízio só usa membros ativos e cada destinatário recebe um único aviso
+-- com a quantidade de leads, em vez de uma notificação por lead transferido
+
+-- Atribuições feitas por remove_team_member são avisadas em resumo pela própria função
+CREATE OR REPLACE FUNCTION public.notify_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' AND auth.uid() IS NULL THEN
+    PERFORM public.create_notification(
+      NEW.assigned_to, 'webhook_lead', 'Novo lead recebido via webhook', NEW.name, NEW.id
+    );
+
+    _account_id := public.get_account_id(NEW.assigned_to);
+    IF _account_id IS DISTINCT FROM NEW.assigned_to THEN
+      PERFORM public.create_notification(
+        _account_id, 'webhook_lead', 'Novo lead recebido via webhook', NEW.name, NEW.id
+      );
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+     AND NEW.assigned_to IS DISTINCT FROM auth.uid()
+     AND public.get_transferring_member() IS NULL THEN
+    PERFORM public.create_notification(
+      NEW.assigned_to, 'lead_assigned', 'Lead atribuído a você', NEW.name, NEW.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_team_member(_member_id UUID, _recipient_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account_id UUID := auth.uid();
+  _recipients UUID[];
+  _moved INTEGER;
+  _assigned_counts JSONB;
+  _member_name TEXT;
+  _recipient UUID;
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(_account_id, 'master')
+    OR NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _member_id AND master_account_id = _account_id) THEN
+    RAISE EXCEPTION 'Membro não encontrado ou sem permissão';
+  END IF;
+
+  IF _recipient_id IS NOT NULL THEN
+    IF _recipient_id = _member_id OR public.get_account_id(_recipient_id) IS DISTINCT FROM _account_id THEN
+      RAISE EXCEPTION 'Escolha outro membro da equipe para receber os leads';
+    END IF;
+    _recipients := ARRAY[_recipient_id];
+  ELSE
+    -- Rodízio entre os demais membros ativos; sem nenhum, tudo fica com o master
+    SELECT COALESCE(array_agg(user_id ORDER BY created_at, user_id), ARRAY[_account_id])
+    INTO _recipients
+    FROM public.profiles
+    WHERE master_account_id = _account_id AND user_id <> _member_id AND is_active;
+  END IF;
+
+  SELECT name INTO _member_name FROM public.profiles WHERE user_id = _member_id;
+
+  PERFORM set_config('crm.member_transfer', _member_id::text, true);
+
+  -- Cada lead vai inteiro (dono e responsável) para o mesmo destinatário.
+  -- Conta por destinatário quantos leads passaram a ser responsabilidade dele
+  WITH targets AS (
+    SELECT id, assigned_to = _member_id AS reassigned,
+           _recipients[1 + (row_number() OVER (ORDER BY created_at, id) - 1) % cardinality(_recipients)] AS recipient
+    FROM public.leads
+    WHERE user_id = _member_id OR assigned_to = _member_id
+  ), moved AS (
+    UPDATE public.leads l
+    SET
+      user_id = CASE WHEN l.user_id = _member_id THEN t.recipient ELSE l.user_id END,
+      assigned_to = CASE WHEN l.assigned_to = _member_id THEN t.recipient ELSE l.assigned_to END
+    FROM targets t
+    WHERE l.id = t.id
+    RETURNING t.recipient, t.reassigned
+  )
+  SELECT COALESCE(sum(total), 0)::integer,
+         COALESCE(jsonb_object_agg(recipient, assigned) FILTER (WHERE assigned > 0), '{}'::jsonb)
+  INTO _moved, _assigned_counts
+  FROM (
+    SELECT recipient, count(*) AS total, count(*) FILTER (WHERE reassigned) AS assigned
+    FROM moved
+    GROUP BY recipient
+  ) c;
+
+  PERFORM set_config('crm.member_transfer', '', true);
+
+  -- Um aviso por destinatário; o master não é avisado do que ele mesmo fez
+  FOR _recipient, _count IN
+    SELECT key::uuid, value::integer FROM jsonb_each_text(_assigned_counts)
+  LOOP
+    IF _recipient IS DISTINCT FROM _account_id THEN
+      PERFORM public.create_notification(
+        _recipient, 'lead_assigned', 'Leads transferidos para você',
+        format('%s lead(s) de %s', _count, COALESCE(_member_name, 'um membro removido'))
+      );
+    END IF;
+  END LOOP;
+
+  -- Tarefas seguem o destinatário escolhido; no rodízio, o novo responsável pelo lead
+  UPDATE public.lead_tasks t
+  SET assigned_to = COALESCE(_recipient_id, l.assigned_to)
+  FROM public.leads l
+  WHERE l.id = t.lead_id AND t.assigned_to = _member_id;
+
+  -- Vendas acompanham o lead de origem; as avulsas também entram no rodízio
+  WITH targets AS (
+    SELECT s.id, COALESCE(
+      _recipient_id,
+      l.assigned_to,
+      _recipients[1 + (row_number() OVER (ORDER BY s.completed_at, s.id) - 1) % cardinality(_recipients)]
+    ) AS recipient
+    FROM public.sales s
+    LEFT JOIN public.leads l ON l.id = s.lead_id
+    WHERE s.user_id = _member_id
+  )
+  UPDATE public.sales s
+  SET user_id = t.recipient
+  FROM targets t
+  WHERE s.id = t.id;
+
+  DELETE FROM public.profiles WHERE user_id = _member_id;
+
+  RETURN _moved;
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Tarefas: a linha gravada precisa continuar dentro da conta. Sem WITH CHECK no UPDATE,
+-- dava para mover a tarefa para lead ou responsável de outra conta
+
+-- Conta do lead sem passar pelo RLS de leads (o responsável pela tarefa pode não ver o lead)
+CREATE OR REPLACE FUNCTION public.get_lead_account_id(_lead_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.get_account_id(user_id)
+  FROM public.leads
+  WHERE id = _lead_id
+$$;
+
+DROP POLICY "lead_tasks_insert_visible_lead" ON public.lead_tasks;
+DROP POLICY "lead_tasks_update_owner_or_master" ON public.lead_tasks;
+
+CREATE POLICY "lead_tasks_insert_visible_lead"
+ON public.lead_tasks
+FOR INSERT
+WITH CHECK (
+  account_id = public.get_account_id(auth.uid()) AND
+  created_by = auth.uid() AND
+  public.get_account_id(assigned_to) = account_id AND
+  EXISTS (SELECT 1 FROM public.leads l WHERE l.id = lead_tasks.lead_id)
+);
+
+CREATE POLICY "lead_tasks_update_owner_or_master"
+ON public.lead_tasks
+FOR UPDATE
+USING (
+  assigned_to = auth.uid() OR
+  created_by = auth.uid() OR
+  (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+)
+WITH CHECK (
+  (
+    assigned_to = auth.uid() OR
+    created_by = auth.uid() OR
+    (account_id = auth.uid() AND public.has_role(auth.uid(), 'master'))
+  ) AND
+  account_id = public.get_account_id(auth.uid()) AND
+  public.get_account_id(assigned_to) = account_id AND
+  public.get_lead_account_id(lead_id) = account_id
+);
@@ -0,0 +1,47 @@
+-- Exclusão em lote só alcança leads que o usuário enxerga: os dele (dono ou responsável),
+-- ou todos da conta para o master e para quem pode mover qualquer lead
+CREATE OR REPLACE FUNCTION public.bulk_delete_leads(_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _uid UUID := auth.uid();
+  _sees_account BOOLEAN := public.has_lead_permission(auth.uid(), 'move_any_lead');
+  _deleted UUID[] := '{}';
+BEGIN
+  IF NOT public.has_lead_permission(_uid, 'delete_leads') THEN
+    RAISE EXCEPTION 'Você não tem permissão para excluir leads';
+  END IF;
+
+  FOREACH _id IN ARRAY _lead_ids LOOP
+    BEGIN
+      UPDATE public.leads l
+      SET deleted_at = now(), deleted_by = _uid
+      WHERE l.id = _id
+        AND l.deleted_at IS NULL
+        AND public.get_account_id(l.user_id) = public.get_account_id(_uid)
+        AND (_sees_account OR l.assigned_to = _uid OR l.user_id = _uid);
+
+      IF FOUND THEN
+        _deleted := _deleted || _id;
+      ELSE
+        lead_id := _id;
+        error := 'Lead não encontrado ou sem permissão para excluir';
+        RETURN NEXT;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      lead_id := _id;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+
+  IF cardinality(_deleted) > 0 THEN
+    INSERT INTO public.lead_trash_events (account_id, action, lead_ids)
+    VALUES (public.get_account_id(_uid), 'delete', _deleted);
+  END IF;
+END;
+$$;
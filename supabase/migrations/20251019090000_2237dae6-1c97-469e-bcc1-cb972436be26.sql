@@ -0,0 +1,67 @@
+-- Regras de pontuação com valor inválido (ex.: "abc" numa regra de valor) faziam o cast do
+-- cálculo falhar e, com ele, toda inserção ou alteração de leads da conta, inclusive pelo webhook
+
+-- Operador compatível com o campo e valor no formato que o cálculo espera
+CREATE OR REPLACE FUNCTION public.is_valid_scoring_rule(_field TEXT, _operator TEXT, _value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _field
+    WHEN 'source' THEN _operator = 'equals' AND btrim(coalesce(_value, '')) <> ''
+    WHEN 'tag' THEN _operator = 'contains' AND btrim(coalesce(_value, '')) <> ''
+    WHEN 'value' THEN _operator IN ('gte', 'lte') AND coalesce(_value, '') ~ '^-?\d+(\.\d+)?$'
+    WHEN 'company' THEN _operator IN ('present', 'absent')
+    WHEN 'email_domain' THEN _operator IN ('corporate', 'free')
+    WHEN 'last_contact' THEN _operator IN ('within_days', 'older_than_days') AND coalesce(_value, '') ~ '^\d{1,5}$'
+    WHEN 'feedback_count' THEN _operator IN ('gte', 'lte') AND coalesce(_value, '') ~ '^\d{1,9}$'
+    ELSE false
+  END;
+$$;
+
+-- Regras novas ou editadas passam pela validação; as já gravadas são ignoradas no cálculo
+ALTER TABLE public.lead_scoring_rules
+  ADD CONSTRAINT lead_scoring_rules_valid_rule
+  CHECK (public.is_valid_scoring_rule(field, operator, value)) NOT VALID;
+
+-- Regra inválida não pontua; o CASE externo garante que o cast só roda com valor válido
+CREATE OR REPLACE FUNCTION public.calculate_lead_score(_lead public.leads)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH activity AS (
+    SELECT count(*) AS feedback_count,
+           coalesce(max(f.created_at), _lead.created_at, now()) AS last_contact
+    FROM public.lead_feedback f
+    WHERE f.lead_id = _lead.id
+  )
+  SELECT coalesce(sum(r.points), 0)::integer
+  FROM public.lead_scoring_rules r, activity a
+  WHERE r.account_id = public.get_account_id(_lead.user_id)
+    AND r.is_active
+    AND CASE WHEN NOT public.is_valid_scoring_rule(r.field, r.operator, r.value) THEN false ELSE
+      CASE r.field
+        WHEN 'source' THEN lower(_lead.source) = lower(r.value)
+        WHEN 'tag' THEN lower(r.value) IN (SELECT lower(tag) FROM unnest(coalesce(_lead.tags, '{}')) AS tag)
+        WHEN 'value' THEN CASE r.operator
+          WHEN 'gte' THEN coalesce(_lead.value, 0) >= r.value::numeric
+          ELSE coalesce(_lead.value, 0) <= r.value::numeric
+        END
+        WHEN 'company' THEN (coalesce(btrim(_lead.company), '') <> '') = (r.operator = 'present')
+        WHEN 'email_domain' THEN public.is_free_email_domain(_lead.email) = (r.operator = 'free')
+        WHEN 'last_contact' THEN CASE r.operator
+          WHEN 'within_days' THEN a.last_contact >= now() - make_interval(days => r.value::integer)
+          ELSE a.last_contact < now() - make_interval(days => r.value::integer)
+        END
+        WHEN 'feedback_count' THEN CASE r.operator
+          WHEN 'gte' THEN a.feedback_count >= r.value::integer
+          ELSE a.feedback_count <= r.value::integer
+        END
+        ELSE false
+      END
+    END;
+$$;
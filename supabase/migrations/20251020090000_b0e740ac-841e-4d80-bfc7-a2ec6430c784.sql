@@ -0,0 +1,8 @@
+-- Visão salva não pode ser levada para outra conta trocando account_id na edição
+DROP POLICY "saved_views_update_own" ON public.saved_views;
+
+CREATE POLICY "saved_views_update_own"
+ON public.saved_views
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND account_id = public.get_account_id(auth.uid()));